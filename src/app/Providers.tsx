@@ -5,6 +5,7 @@ import { AuthProvider } from "@/contexts/AuthContext";
 import { ToastProvider } from "@/contexts/ToastContext";
 import { SidebarProvider } from "@/contexts/SidebarContext";
 import { OnboardingProvider } from "@/contexts/OnboardingContext";
+import { OutboxProvider } from "@/contexts/OutboxContext";
 
 /**
  * Provider properties
@@ -26,9 +27,11 @@ const Providers: React.FC<ProvidersProps> = ({ children }) => {
     <ToastProvider>
       <OnboardingProvider>
         <AuthProvider>
-          <Suspense fallback={<div>Loading...</div>}>
-            <SidebarProvider>{children}</SidebarProvider>
-          </Suspense>
+          <OutboxProvider>
+            <Suspense fallback={<div>Loading...</div>}>
+              <SidebarProvider>{children}</SidebarProvider>
+            </Suspense>
+          </OutboxProvider>
         </AuthProvider>
       </OnboardingProvider>
     </ToastProvider>
@@ -3,7 +3,12 @@
  *
  * Main orchestrator for the interstitial redirect experience.
  * Displays countdown, cyber security facts, and handles redirect logic
- * with comprehensive analytics tracking.
+ * with comprehensive analytics tracking. Password-protected links show a
+ * password prompt instead and redirect as soon as it is accepted, scheduled
+ * links count down to their go-live time and links that used up their click
+ * limit show a dedicated page. The visitor's device, OS, country and language
+ * are sent with the lookup so the API can apply the redirect rules of the link,
+ * and the A/B variant the API picks is kept in a cookie for the next visit.
  *
  * @module src/app/[shortCode]/InterstitialPage
  */
@@ -20,14 +25,26 @@ import { useConversionTracking } from "@/hooks/useConversionTracking";
 import { useInterstitialRedirect } from "@/hooks/useInterstitialRedirect";
 import { getRandomFact } from "@/utils/cyberSecurityFacts";
 import { getDeviceType } from "@/utils/deviceDetection";
+import { setAbVariantCookie } from "@/utils/abTest";
+import {
+  getRedirectVisitor,
+  toRedirectVisitorQuery,
+} from "@/utils/redirectRules";
 import Logo from "@/components/atoms/Logo";
 import Button from "@/components/atoms/Button";
 import LoadingSpinner from "@/components/atoms/LoadingSpinner";
 import CountdownTimer from "@/components/atoms/CountdownTimer";
 import AnimatedStatusText from "@/components/molecules/AnimatedStatusText";
 import CyberSecurityFactCard from "@/components/molecules/CyberSecurityFactCard";
+import ProtectedLinkPrompt from "@/components/molecules/ProtectedLinkPrompt";
+import ScheduledLinkNotice from "@/components/molecules/ScheduledLinkNotice";
+import ClickLimitReachedNotice from "@/components/molecules/ClickLimitReachedNotice";
+import UrlSafetyPanel from "@/components/molecules/UrlSafetyPanel";
+import type { Url } from "@/interfaces/url";
+import type { UrlSafetyReport } from "@/interfaces/urlSafety";
 import logger from "@/utils/logger";
 import { posthog } from "@/utils/posthogClient";
+import { SCHEDULED_LINK_RECHECK } from "@/config/url";
 import {
   FEATURE_FLAG_INTERSTITIAL,
   INTERSTITIAL_CONFIG,
@@ -51,9 +68,22 @@ const InterstitialPage: React.FC<InterstitialPageProps> = ({ shortCode }) => {
   const [showManualButton, setShowManualButton] = useState(false);
   const [pageLoadTime, setPageLoadTime] = useState<number>(0);
   const [featureFlagChecked, setFeatureFlagChecked] = useState(false);
+  const [isPasswordRequired, setIsPasswordRequired] = useState(false);
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const [schedule, setSchedule] = useState<{
+    activatesAt: string;
+    secondsLeft: number;
+  } | null>(null);
+  const [lookupCount, setLookupCount] = useState(0);
+  const [isClickLimitReached, setIsClickLimitReached] = useState(false);
+  const [safetyReport, setSafetyReport] = useState<UrlSafetyReport | null>(
+    null
+  );
 
   // Ref to prevent multiple API calls
   const isInitializedRef = useRef(false);
+  // Times a scheduled link was checked again after its countdown ended
+  const liveChecksRef = useRef(0);
 
   const {
     trackInterstitialViewed,
@@ -68,8 +98,13 @@ const InterstitialPage: React.FC<InterstitialPageProps> = ({ shortCode }) => {
    * Fetch original URL from API using service layer
    */
   const fetchOriginalUrl = useCallback(async (): Promise<{
-    original_url: string;
+    original_url?: string;
     url_id?: number;
+    safety_report?: UrlSafetyReport;
+    is_password_protected?: boolean;
+    activates_at?: string;
+    seconds_until_active?: number;
+    click_limit_reached?: boolean;
   } | null> => {
     try {
       const startTime = Date.now();
@@ -77,27 +112,64 @@ const InterstitialPage: React.FC<InterstitialPageProps> = ({ shortCode }) => {
       // Use getPublic from service layer to ensure correct baseURL
       const { getPublic } = await import("@/services/api");
 
+      // The API finds the country from the request and picks the destination of rule and A/B
+      // test links, so only what the browser knows is sent
+      const visitorQuery = toRedirectVisitorQuery(
+        getRedirectVisitor(shortCode)
+      );
+
+      // Each lookup counts a click, so it is not retried
       const data = await getPublic<{
         status: number;
         message: string;
         data?: {
-          original_url: string;
+          original_url?: string;
           id?: number;
+          safety_report?: UrlSafetyReport;
+          is_password_protected?: boolean;
+          activates_at?: string;
+          seconds_until_active?: number;
+          click_limit_reached?: boolean;
+          ab_variant_id?: string;
         };
         original_url?: string;
         id?: number;
-      }>(`/api/v1/public/urls/${shortCode}`);
+      }>(`/api/v1/public/urls/${shortCode}${visitorQuery}`, { retry: false });
 
       const loadTime = Date.now() - startTime;
       setPageLoadTime(loadTime);
 
+      // Keep the visitor on the same A/B variant next time
+      if (data?.data?.ab_variant_id) {
+        setAbVariantCookie(shortCode, data.data.ab_variant_id);
+      }
+
       // Handle different response formats
       if (data?.data?.original_url) {
-        return { original_url: data.data.original_url, url_id: data.data.id };
+        return {
+          original_url: data.data.original_url,
+          url_id: data.data.id,
+          safety_report: data.data.safety_report,
+        };
       }
       if (data?.original_url) {
         return { original_url: data.original_url, url_id: data.id };
       }
+      // Scheduled links only come with their go-live time
+      if (data?.data?.activates_at) {
+        return {
+          activates_at: data.data.activates_at,
+          seconds_until_active: data.data.seconds_until_active,
+        };
+      }
+      // Exhausted links only report their click limit
+      if (data?.data?.click_limit_reached) {
+        return { click_limit_reached: true };
+      }
+      // Protected links come without their destination until unlocked
+      if (data?.data?.is_password_protected) {
+        return { is_password_protected: true };
+      }
 
       return null;
     } catch (error) {
@@ -164,6 +236,7 @@ const InterstitialPage: React.FC<InterstitialPageProps> = ({ shortCode }) => {
 
     const initialize = async () => {
       setIsLoading(true);
+      setSchedule(null);
 
       try {
         // Load fact and URL in parallel
@@ -174,8 +247,33 @@ const InterstitialPage: React.FC<InterstitialPageProps> = ({ shortCode }) => {
 
         setFact(factResult);
 
-        if (urlResult && urlResult.original_url) {
+        if (urlResult?.activates_at) {
+          // Still scheduled after a countdown ended: wait longer before each new check
+          const checks = liveChecksRef.current;
+          const recheckDelay =
+            checks > 0
+              ? Math.min(
+                  SCHEDULED_LINK_RECHECK.INITIAL_DELAY * 2 ** (checks - 1),
+                  SCHEDULED_LINK_RECHECK.MAX_DELAY
+                )
+              : 0;
+          const secondsLeft =
+            urlResult.seconds_until_active ??
+            Math.ceil(
+              (new Date(urlResult.activates_at).getTime() - Date.now()) / 1000
+            );
+
+          setSchedule({
+            activatesAt: urlResult.activates_at,
+            secondsLeft: Math.max(secondsLeft, recheckDelay),
+          });
+        } else if (urlResult?.click_limit_reached) {
+          setIsClickLimitReached(true);
+        } else if (urlResult?.is_password_protected) {
+          setIsPasswordRequired(true);
+        } else if (urlResult && urlResult.original_url) {
           setOriginalUrl(urlResult.original_url);
+          setSafetyReport(urlResult.safety_report ?? null);
 
           // Track URL click
           if (urlResult.url_id) {
@@ -230,9 +328,9 @@ const InterstitialPage: React.FC<InterstitialPageProps> = ({ shortCode }) => {
     };
 
     initialize();
-    // Only run once on mount - shortCode should not change
+    // Only run on mount and when a scheduled link is checked again - shortCode should not change
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [featureFlagChecked]);
+  }, [featureFlagChecked, lookupCount]);
 
   /**
    * Handle countdown completion
@@ -340,6 +438,36 @@ const InterstitialPage: React.FC<InterstitialPageProps> = ({ shortCode }) => {
     [shortCode, fact, trackInterstitialBounced]
   );
 
+  /**
+   * Redirect as soon as the password of a protected link is accepted
+   */
+  const handleUnlock = useCallback(
+    (url: Url) => {
+      setIsUnlocked(true);
+      if (url.ab_variant_id) setAbVariantCookie(shortCode, url.ab_variant_id);
+
+      trackUrlClick({
+        url_id: url.id,
+        short_code: shortCode,
+        referrer: document.referrer || undefined,
+      });
+
+      window.location.replace(url.original_url);
+    },
+    [shortCode, trackUrlClick]
+  );
+
+  /**
+   * Look the link up again once its countdown ends
+   * @description The API decides whether the link is live, so a visitor clock ahead of the server
+   * only leads to another countdown, longer each time, instead of a reload loop
+   */
+  const handleLinkLive = useCallback(() => {
+    liveChecksRef.current += 1;
+    isInitializedRef.current = false;
+    setLookupCount((count) => count + 1);
+  }, []);
+
   /**
    * Use interstitial redirect hook
    */
@@ -366,6 +494,49 @@ const InterstitialPage: React.FC<InterstitialPageProps> = ({ shortCode }) => {
     );
   }
 
+  /**
+   * Show countdown for links that are not live yet
+   */
+  if (schedule) {
+    return (
+      <ScheduledLinkNotice
+        shortCode={shortCode}
+        activatesAt={schedule.activatesAt}
+        secondsLeft={schedule.secondsLeft}
+        onLive={handleLinkLive}
+      />
+    );
+  }
+
+  /**
+   * Show limit page for links that used up their clicks
+   */
+  if (isClickLimitReached) {
+    return <ClickLimitReachedNotice shortCode={shortCode} />;
+  }
+
+  /**
+   * Show password prompt for protected links
+   */
+  if (isPasswordRequired && !isUnlocked) {
+    return (
+      <ProtectedLinkPrompt shortCode={shortCode} onUnlock={handleUnlock} />
+    );
+  }
+
+  /**
+   * Show redirecting state once unlocked
+   */
+  if (isUnlocked) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-white px-4">
+        <Logo size="lg" withLink={false} className="mb-8" />
+        <LoadingSpinner size="large" />
+        <p className="mt-4 text-lg text-gray-600">Redirecting...</p>
+      </div>
+    );
+  }
+
   /**
    * Show error state
    */
@@ -427,6 +598,15 @@ const InterstitialPage: React.FC<InterstitialPageProps> = ({ shortCode }) => {
             className="mb-8"
           />
 
+          {/* Destination warnings recorded when the link was saved */}
+          {!!safetyReport?.findings.length && (
+            <UrlSafetyPanel
+              report={safetyReport}
+              title="Before you continue"
+              className="mx-auto max-w-xl bg-white"
+            />
+          )}
+
           {/* Animated Status Text */}
           <AnimatedStatusText messages={STATUS_MESSAGES} interval={2500} />
 
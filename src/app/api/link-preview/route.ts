@@ -0,0 +1,315 @@
+import dns from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import type { LookupFunction } from "node:net";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  LINK_PREVIEW_ALLOWED_PORTS,
+  LINK_PREVIEW_LIMITS,
+  LINK_PREVIEW_RATE_LIMIT,
+  LINK_PREVIEW_USER_AGENT,
+} from "@/config/linkPreview";
+import { verifyAccessToken } from "@/utils/accessToken";
+import { parseLinkPreview } from "@/utils/linkPreview";
+import { isPrivateIpAddress } from "@/utils/privateNetwork";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Link Preview Route Handler
+ * @description Reads the title and preview metadata of a destination for the create URL form.
+ * Pages are fetched by the app server, so only public http(s) hosts on standard ports are
+ * fetched: every address a hostname resolves to is checked when connecting, including after
+ * redirects, and fetches are bounded in time, size and redirects. API routes are not covered by
+ * the middleware, so the handler verifies the access token itself, with the JWT_SECRET the backend
+ * signs it with, and limits the previews per user.
+ */
+
+/**
+ * Error answered with its status code
+ */
+class LinkPreviewError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "LinkPreviewError";
+  }
+}
+
+/**
+ * Fetched page, or the address it redirects to
+ */
+type PageResult = { html: string } | { redirect: URL };
+
+/**
+ * Previews made by a client in the current window
+ */
+interface RateLimitWindow {
+  count: number;
+  resetsAt: number;
+}
+
+/**
+ * Windows by user ID, or by IP for tokens without one, kept in the memory of the server instance
+ */
+const rateLimitWindows = new Map<string, RateLimitWindow>();
+
+/**
+ * Read the access token of the request
+ * @param request - Incoming request
+ * @returns The token from the Authorization header or the auth cookie, undefined if signed out
+ */
+const getAccessToken = (request: NextRequest) => {
+  const authorization = request.headers.get("authorization");
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return bearer ?? request.cookies.get("accessToken")?.value;
+};
+
+/**
+ * Read the IP address of the client
+ * @param request - Incoming request
+ * @returns The first address of X-Forwarded-For or X-Real-IP, "unknown" when neither is set
+ */
+const getClientIp = (request: NextRequest) =>
+  request.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+  request.headers.get("x-real-ip") ||
+  "unknown";
+
+/**
+ * Count a preview against the limit of a client
+ * @param clientKey - Verified user ID or IP address of the client
+ * @returns Seconds until the client may preview again, or 0 if this preview is allowed
+ */
+const takeRateLimit = (clientKey: string) => {
+  const now = Date.now();
+
+  // Windows are dropped once over, so the map only holds active clients
+  rateLimitWindows.forEach((window, key) => {
+    if (window.resetsAt <= now) rateLimitWindows.delete(key);
+  });
+
+  const window = rateLimitWindows.get(clientKey) ?? {
+    count: 0,
+    resetsAt: now + LINK_PREVIEW_RATE_LIMIT.WINDOW_MS,
+  };
+  if (window.count >= LINK_PREVIEW_RATE_LIMIT.MAX_REQUESTS) {
+    return Math.ceil((window.resetsAt - now) / 1000);
+  }
+
+  window.count++;
+  rateLimitWindows.set(clientKey, window);
+  return 0;
+};
+
+/**
+ * Resolve a hostname, refusing it if any of its addresses is not public
+ * @description Runs when the connection is opened, so a hostname cannot resolve to a public
+ * address when checked and to a private one when fetched
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    if (
+      addresses.length === 0 ||
+      addresses.some(({ address }) => isPrivateIpAddress(address))
+    ) {
+      callback(new LinkPreviewError(400, "Destination is not public"), "");
+      return;
+    }
+
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Check that a destination may be fetched
+ * @param url - Destination
+ * @throws LinkPreviewError if the destination is not a public http(s) address
+ */
+const assertFetchable = (url: URL) => {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new LinkPreviewError(
+      400,
+      "Only http and https links can be previewed"
+    );
+  }
+  if (url.username || url.password) {
+    throw new LinkPreviewError(
+      400,
+      "Links with credentials cannot be previewed"
+    );
+  }
+  if (!LINK_PREVIEW_ALLOWED_PORTS.includes(url.port)) {
+    throw new LinkPreviewError(400, "Only standard ports can be previewed");
+  }
+
+  // IP literals are connected to without a lookup, so they are checked here
+  const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  const isIpLiteral = /^[\d.]+$/.test(hostname) || hostname.includes(":");
+  if (
+    hostname === "localhost" ||
+    hostname.endsWith(".localhost") ||
+    (isIpLiteral && isPrivateIpAddress(hostname))
+  ) {
+    throw new LinkPreviewError(400, "Destination is not public");
+  }
+};
+
+/**
+ * Read the charset of a response
+ * @param contentType - Content-Type header
+ * @returns Decoder for the charset, UTF-8 when missing or unknown
+ */
+const getDecoder = (contentType: string) => {
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(charset ?? "utf-8");
+  } catch {
+    return new TextDecoder("utf-8");
+  }
+};
+
+/**
+ * Fetch a page without following redirects
+ * @description Reading stops at the end of the head or at the size limit, whichever comes first,
+ * since the metadata is in the head
+ * @param url - Page to fetch
+ * @param signal - Signal aborting the fetch on timeout
+ * @returns The HTML read, or the address the page redirects to
+ */
+const fetchPage = (url: URL, signal: AbortSignal) =>
+  new Promise<PageResult>((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const request = client.get(
+      url,
+      {
+        lookup: publicOnlyLookup,
+        signal,
+        headers: {
+          "User-Agent": LINK_PREVIEW_USER_AGENT,
+          Accept: "text/html,application/xhtml+xml",
+          "Accept-Encoding": "identity",
+        },
+      },
+      (response) => {
+        const status = response.statusCode ?? 0;
+        const { location } = response.headers;
+
+        if (status >= 300 && status < 400 && location) {
+          response.resume();
+          resolve({ redirect: new URL(location, url) });
+          return;
+        }
+        if (status < 200 || status >= 300) {
+          response.resume();
+          reject(
+            new LinkPreviewError(502, `Destination responded with ${status}`)
+          );
+          return;
+        }
+
+        const contentType = response.headers["content-type"] ?? "";
+        if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+          response.resume();
+          reject(new LinkPreviewError(415, "Destination is not a web page"));
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const finish = () => {
+          response.destroy();
+          resolve({
+            html: getDecoder(contentType).decode(Buffer.concat(chunks)),
+          });
+        };
+
+        response.on("data", (chunk: Buffer) => {
+          const remaining = LINK_PREVIEW_LIMITS.MAX_RESPONSE_BYTES - size;
+          chunks.push(chunk.subarray(0, remaining));
+          size += Math.min(chunk.length, remaining);
+          if (size >= LINK_PREVIEW_LIMITS.MAX_RESPONSE_BYTES) finish();
+          else if (/<\/head>/i.test(chunk.toString("latin1"))) finish();
+        });
+        response.on("end", finish);
+        response.on("error", reject);
+      }
+    );
+
+    request.on("error", reject);
+  });
+
+/**
+ * Build an error response in the format of the API
+ * @param status - HTTP status code
+ * @param message - Error message
+ * @returns JSON response
+ */
+const errorResponse = (status: number, message: string) =>
+  NextResponse.json({ status, message }, { status });
+
+/**
+ * GET /api/link-preview?url=
+ */
+export async function GET(request: NextRequest) {
+  const accessToken = getAccessToken(request);
+  const claims = accessToken
+    ? verifyAccessToken(accessToken, process.env.JWT_SECRET ?? "")
+    : null;
+  if (!claims) {
+    return errorResponse(401, "Please sign in to preview links");
+  }
+
+  const retryAfter = takeRateLimit(
+    claims.userId ? `user:${claims.userId}` : `ip:${getClientIp(request)}`
+  );
+  if (retryAfter > 0) {
+    return NextResponse.json(
+      { status: 429, message: "Too many previews, please try again later" },
+      { status: 429, headers: { "Retry-After": String(retryAfter) } }
+    );
+  }
+
+  let url: URL;
+  try {
+    url = new URL(request.nextUrl.searchParams.get("url")?.trim() ?? "");
+  } catch {
+    return errorResponse(422, "Please enter a valid URL");
+  }
+
+  const signal = AbortSignal.timeout(LINK_PREVIEW_LIMITS.TIMEOUT_MS);
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      assertFetchable(url);
+      const page = await fetchPage(url, signal);
+
+      if ("html" in page) {
+        return NextResponse.json({
+          status: 200,
+          message: "Link preview retrieved successfully",
+          data: parseLinkPreview(page.html, url.toString()),
+        });
+      }
+      if (redirects >= LINK_PREVIEW_LIMITS.MAX_REDIRECTS) {
+        throw new LinkPreviewError(502, "Destination redirects too many times");
+      }
+      url = page.redirect;
+    }
+  } catch (error) {
+    if (error instanceof LinkPreviewError) {
+      return errorResponse(error.status, error.message);
+    }
+    if (signal.aborted) {
+      return errorResponse(504, "Destination took too long to respond");
+    }
+    return errorResponse(502, "Destination could not be reached");
+  }
+}
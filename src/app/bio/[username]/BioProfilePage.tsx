@@ -0,0 +1,60 @@
+"use client";
+
+/**
+ * Link-in-bio Profile Page
+ *
+ * Lists the short links of a bio page. Links open their short URL with the
+ * bio page referrer, so the redirect flow applies the link rules and records
+ * the click.
+ */
+
+import React from "react";
+import Logo from "@/components/atoms/Logo";
+import Button from "@/components/atoms/Button";
+import LoadingSpinner from "@/components/atoms/LoadingSpinner";
+import BioPageView from "@/components/organisms/BioPageView";
+import { usePublicBioPage } from "@/hooks/bio/usePublicBioPage";
+
+interface BioProfilePageProps {
+  username: string;
+}
+
+export default function BioProfilePage({ username }: BioProfilePageProps) {
+  const { bioPage, isLoading, error } = usePublicBioPage(username);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-white">
+        <LoadingSpinner size="large" />
+      </div>
+    );
+  }
+
+  if (error || !bioPage) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-white px-4">
+        <Logo size="lg" withLink={true} className="mb-8" />
+        <div className="flex flex-col items-center gap-3 text-center max-w-md">
+          <h1 className="text-3xl font-bold text-gray-900">Page not found</h1>
+          <p className="text-lg text-gray-600 mb-6">
+            {error ?? "This page does not exist."}
+          </p>
+          <Button
+            variant="primary"
+            size="lg"
+            onClick={() => (window.location.href = "/")}
+          >
+            Go to Homepage
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <BioPageView
+      page={bioPage}
+      className="min-h-screen"
+    />
+  );
+}
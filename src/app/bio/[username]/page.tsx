@@ -0,0 +1,19 @@
+/**
+ * Link-in-bio Page
+ *
+ * Public profile page listing a user's short links. Served at /@username,
+ * which the middleware rewrites to this route.
+ *
+ * @module src/app/bio/[username]/page
+ */
+
+import BioProfilePage from "./BioProfilePage";
+
+export default async function Page({
+  params,
+}: {
+  params: Promise<{ username: string }>;
+}) {
+  const { username } = await params;
+  return <BioProfilePage username={username} />;
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import BioPageEditorTemplate from "@/components/templates/BioPageEditorTemplate";
+import { useSidebar } from "@/contexts/SidebarContext";
+import { useToast } from "@/contexts/ToastContext";
+import { useBioPage } from "@/hooks/bio/useBioPage";
+import type { UpdateBioPageRequest } from "@/interfaces/bioPage";
+import { useEffect } from "react";
+
+/**
+ * Bio page editor page
+ * @description Edits the public link-in-bio page of the user, served at /@username
+ * @returns Bio page editor page component
+ */
+export default function BioPageEditorPage() {
+  const { setActiveItemId } = useSidebar();
+  const { showToast } = useToast();
+  const { bioPage, urls, isLoading, isSaving, saveBioPage } = useBioPage();
+
+  // Set the active sidebar item
+  useEffect(() => {
+    setActiveItemId("bio");
+  }, [setActiveItemId]);
+
+  const handleSave = async (page: UpdateBioPageRequest) => {
+    await saveBioPage(page);
+    showToast("Bio page saved", "success");
+  };
+
+  return (
+    <BioPageEditorTemplate
+      bioPage={bioPage}
+      urls={urls}
+      isLoading={isLoading}
+      isSaving={isSaving}
+      onSave={handleSave}
+    />
+  );
+}
@@ -2,7 +2,6 @@
 
 import React, { useState, useEffect } from "react";
 import { useQrCodes } from "@/hooks/useQrCodes";
-import { useToast } from "@/contexts/ToastContext";
 import { useSidebar } from "@/contexts/SidebarContext";
 import QrCodesTemplate from "@/components/templates/QrCodesTemplate";
 import QrCodeModal from "@/components/molecules/QrCodeModal";
@@ -31,7 +30,6 @@ import OnboardingTour from "@/components/molecules/OnboardingTour";
 export default function QrCodesPage() {
   // Set sidebar active item
   const { setActiveItemId } = useSidebar();
-  const { showToast } = useToast();
 
   // Set initial filter with 12 items per page for grid view
   const [filter] = useState<QrCodeFilter>({
@@ -182,19 +180,14 @@ export default function QrCodesPage() {
         onClose={modalActions.closeCreateModal}
         onCreated={handleQrCodeCreated}
         createUrl={async (data) => {
-          try {
-            const response = await createUrl({
-              title: data.title,
-              originalUrl: data.original_url,
-              customCode: data.custom_code,
-              expiryDate: data.expiry_date,
-            });
-            return response.data;
-          } catch (error) {
-            console.error("Error creating URL:", error);
-            showToast("Failed to create URL. Please try again.", "error", 5000);
-            throw error;
-          }
+          // Failures are shown on the creation form by useQrCreationFlow
+          const response = await createUrl({
+            title: data.title,
+            originalUrl: data.original_url,
+            customCode: data.custom_code,
+            expiryDate: data.expiry_date,
+          });
+          return response.data;
         }}
         isCreatingUrl={isCreatingUrl}
       />
@@ -1,26 +1,45 @@
 "use client";
 
 import CreateUrlModal from "@/components/molecules/CreateUrlModal";
+import ImportUrlsModal from "@/components/molecules/ImportUrlsModal";
+import ExportUrlsModal from "@/components/molecules/ExportUrlsModal";
 import DeleteUrlModal from "@/components/molecules/DeleteUrlModal";
 import EditUrlModal from "@/components/molecules/EditUrlModal";
 import QrCodeModal from "@/components/molecules/QrCodeModal";
+import OutboxConflictModal from "@/components/molecules/OutboxConflictModal";
 import UrlTemplate from "@/components/templates/URLsTemplate";
 import { useSidebar } from "@/contexts/SidebarContext";
 import { useToast } from "@/contexts/ToastContext";
+import { useOutbox } from "@/contexts/OutboxContext";
 import { useCreateUrl } from "@/hooks/url/useCreateUrl";
 import { useEditUrl } from "@/hooks/url/useEditUrl";
 import { useDeleteUrl } from "@/hooks/useDeleteUrl";
 import { useUrls } from "@/hooks/useUrls";
+import { useUrlSelection } from "@/hooks/useUrlSelection";
+import { useUrlBulkActions } from "@/hooks/useUrlBulkActions";
+import { useUrlTags } from "@/hooks/url/useUrlTags";
 import { useUrlStats } from "@/hooks/useUrlStats";
-import type { CreateUrlFormData, EditUrlFormData, Url } from "@/interfaces/url";
+import type {
+  CreateUrlFormData,
+  EditUrlFormData,
+  Url,
+  UrlDateRangeFilter,
+  UrlStatus,
+} from "@/interfaces/url";
+import type { UtmField, UtmParams } from "@/interfaces/utm";
 import "@/styles/dashboard.css";
 import "@/styles/statsSummary.css";
 import "@/styles/totalClicks.css";
 import OnboardingTour from "@/components/molecules/OnboardingTour";
 import { ONBOARDING_STEPS } from "@/config/onboardingConfig";
-import { useSearchParams } from "next/navigation";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { useEffect, useState } from "react";
 import { formatShortUrl } from "@/utils/urlFormatter";
+import {
+  parseUrlDateRangeParams,
+  setUrlDateRangeParams,
+  toUrlFilterDateRange,
+} from "@/utils/urlDateRange";
 import {
   createOnNextClickHandler,
   createOnDoneClickHandler,
@@ -40,8 +59,13 @@ export default function UrlsPage() {
 
   // Get tab from URL query params
   const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
   const tabParam = searchParams?.get("tab") ?? null;
 
+  // Tag to filter by, set when coming from the tag manager
+  const tagParam = searchParams?.get("tag") ?? null;
+
   // Initialize search state
   const [searchQuery, setSearchQuery] = useState("");
 
@@ -52,6 +76,12 @@ export default function UrlsPage() {
   // Create URL modal state
   const [createModalOpen, setCreateModalOpen] = useState(false);
 
+  // Import URLs modal state
+  const [importModalOpen, setImportModalOpen] = useState(false);
+
+  // Export URLs modal state
+  const [exportModalOpen, setExportModalOpen] = useState(false);
+
   // Edit URL modal state
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [urlToEdit, setUrlToEdit] = useState<Url | null>(null);
@@ -60,11 +90,23 @@ export default function UrlsPage() {
   const [qrModalOpen, setQrModalOpen] = useState(false);
   const [urlForQrCode, setUrlForQrCode] = useState<Url | null>(null);
 
+  // Offline changes review modal state
+  const [conflictModalOpen, setConflictModalOpen] = useState(false);
+
   const [urlFilters, setUrlFilters] = useState({
-    status: "all" as "all" | "active" | "expired" | "inactive",
+    status: "all" as "all" | UrlStatus,
     limit: 10 as number,
+    tag: tagParam ?? "all",
   });
 
+  // Date range, read from the query string so the filtered view can be bookmarked
+  const [urlDateRange, setUrlDateRange] = useState<UrlDateRangeFilter | null>(
+    () => parseUrlDateRangeParams(searchParams)
+  );
+
+  // UTM values picked in the table
+  const [urlUtmFilter, setUrlUtmFilter] = useState<UtmParams>({});
+
   // Initialize URL sort state
   const [urlSort, setUrlSort] = useState({
     sortBy: "created_at" as "created_at" | "clicks" | "title" | "expiry_date",
@@ -74,11 +116,15 @@ export default function UrlsPage() {
   // Fetch dashboard stats data
   const { stats, isLoading: isStatsLoading } = useUrlStats();
 
+  // Tags used on the URLs, offered in the tag filter
+  const { tagNames } = useUrlTags();
+
   // Fetch URL data with filter
   const {
     urls,
     isLoading: isUrlsLoading,
     pagination,
+    filter,
     updateFilter,
     refreshUrls,
   } = useUrls({
@@ -88,18 +134,54 @@ export default function UrlsPage() {
     sortBy: urlSort.sortBy,
     sortOrder: urlSort.sortOrder,
     status: urlFilters.status !== "all" ? urlFilters.status : undefined,
+    tags: tagParam ? [tagParam] : undefined,
+    dateRange: toUrlFilterDateRange(urlDateRange),
   });
 
-  const { createUrl, isCreating } = useCreateUrl();
+  const { createOrQueueUrl, isCreating } = useCreateUrl();
 
-  const { editUrl, isEditing } = useEditUrl();
+  const { editOrQueueUrl, isEditing } = useEditUrl();
+
+  // Changes made offline that the server rejected
+  const { items: outboxItems, retryItem, discardItem } = useOutbox();
+  const offlineConflicts = outboxItems.filter(
+    (item) => item.status === "conflict"
+  );
 
   // URL deletion hook
   const { deleteUrl, isDeleting } = useDeleteUrl();
 
+  // URL selection, kept across pages until the filters change
+  const {
+    selectedUrls,
+    selectedUrlIds,
+    selectedCount,
+    isAllMatchingSelected,
+    handleSelectUrl,
+    handleSelectAllUrls,
+    selectAllMatching,
+    clearSelection,
+  } = useUrlSelection(urls ?? [], pagination?.total ?? 0);
+
+  // Bulk actions
+  const {
+    isRunning: isBulkActionRunning,
+    handleBulkStatusChange,
+    handleBulkDelete,
+    handleBulkExtendExpiry,
+    handleBulkUpdateTags,
+    handleBulkGenerateQrCodes,
+  } = useUrlBulkActions(filter, refreshUrls, clearSelection);
+
+  const bulkSelection = {
+    urls: selectedUrls,
+    isAllMatching: isAllMatchingSelected,
+  };
+
   // Handle search query changes
   const handleSearch = (value: string) => {
     setSearchQuery(value);
+    clearSelection();
 
     if (value) {
       updateFilter({ search: value });
@@ -111,20 +193,47 @@ export default function UrlsPage() {
   // Add handler for filter changes
   const handleFilterChange = (filterType: string, value: string | number) => {
     setUrlFilters((prev) => ({ ...prev, [filterType]: value }));
+    clearSelection();
 
     if (filterType === "status") {
       updateFilter({
         status:
-          value !== "all"
-            ? (value as "active" | "expired" | "inactive")
-            : undefined,
+          value !== "all" ? (value as UrlStatus) : undefined,
       });
     } else if (filterType === "limit") {
       updateFilter({ limit: value as number });
+    } else if (filterType === "tag") {
+      updateFilter({
+        tags: value !== "all" ? [value as string] : undefined,
+      });
     }
     // Add more conditions for other filter types as needed
   };
 
+  // Apply a new date range and keep it in the query string
+  const handleDateRangeChange = (dateRange: UrlDateRangeFilter | null) => {
+    setUrlDateRange(dateRange);
+    clearSelection();
+    updateFilter({ dateRange: toUrlFilterDateRange(dateRange) });
+
+    const params = new URLSearchParams(searchParams?.toString());
+    setUrlDateRangeParams(params, dateRange);
+    const query = params.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, {
+      scroll: false,
+    });
+  };
+
+  // Filter by a UTM value, or clear the filter of that parameter
+  const handleUtmFilterChange = (field: UtmField, value: string | null) => {
+    const utm = { ...urlUtmFilter, [field]: value ?? undefined };
+    if (!value) delete utm[field];
+
+    setUrlUtmFilter(utm);
+    clearSelection();
+    updateFilter({ utm: Object.keys(utm).length > 0 ? utm : undefined });
+  };
+
   // Handle URL page changes
   const handleUrlPageChange = (page: number) => {
     updateFilter({ page });
@@ -211,6 +320,18 @@ export default function UrlsPage() {
     }, 300);
   };
 
+  // Use an existing URL with the same destination instead of creating one
+  const handleReuseExistingUrl = (url: Url) => {
+    setCreateModalOpen(false);
+    handleCopyUrl(url);
+  };
+
+  // Create a QR code for an existing URL with the same destination
+  const handleCreateQrForExistingUrl = (url: Url) => {
+    setCreateModalOpen(false);
+    handleGenerateQr(url);
+  };
+
   // Handle create new URL
   const handleCreateUrl = () => {
     // This would typically open a modal or navigate to a create page
@@ -218,56 +339,59 @@ export default function UrlsPage() {
   };
 
   // Add a new function to handle the actual form submission
+  // Errors propagate to the modal, which keeps it open and shows them on the form
+  // While offline the URL is queued and shown as pending sync instead
   const handleSubmitUrlForm = async (data: CreateUrlFormData) => {
-    try {
-      const response = await createUrl(data); // Call the hook's function
+    const response = await createOrQueueUrl(data); // Call the hook's function
+    setCreateModalOpen(false);
 
+    if (response) {
       showToast(
         `URL "${response.data.title}" created successfully`,
         "success",
         2000
       );
-      setCreateModalOpen(false);
       refreshUrls();
-    } catch (err) {
-      showToast(
-        err instanceof Error ? err.message : "Something went wrong",
-        "error",
-        3000
-      );
-    } finally {
-      setCreateModalOpen(false);
     }
   };
 
+  // Refresh the list once the imported URLs are created
+  const handleUrlsImported = (createdCount: number) => {
+    showToast(
+      `${createdCount} URL${createdCount === 1 ? "" : "s"} imported successfully`,
+      "success",
+      2000
+    );
+    refreshUrls();
+  };
+
   /**
    * Handles the form submission for editing a URL
+   * @description Errors propagate to the modal, which keeps it open and shows them on the form.
+   * While offline the edit is queued and shown as pending sync instead.
    * @param {EditUrlFormData} data - The form data with updated URL information
    */
   const handleSubmitEditUrlForm = async (data: EditUrlFormData) => {
-    try {
-      const response = await editUrl(urlToEdit?.id as number, data);
+    const response = await editOrQueueUrl(urlToEdit?.id as number, data);
+    setEditModalOpen(false);
 
+    if (response) {
       showToast(
         `URL "${response.data.title}" updated successfully`,
         "success",
         2000
       );
-      setEditModalOpen(false);
       refreshUrls();
-    } catch (err) {
-      showToast(
-        err instanceof Error
-          ? err.message
-          : "Something went wrong updating the URL",
-        "error",
-        3000
-      );
-    } finally {
-      setEditModalOpen(false);
     }
   };
 
+  // Close the review modal once every rejected offline change is handled
+  useEffect(() => {
+    if (offlineConflicts.length === 0) {
+      setConflictModalOpen(false);
+    }
+  }, [offlineConflicts.length]);
+
   // Set initial active tab based on URL params
   useEffect(() => {
     if (tabParam) {
@@ -350,12 +474,42 @@ export default function UrlsPage() {
         urlSortDirection={urlSort.sortOrder}
         onSearch={handleSearch}
         onCreateUrl={handleCreateUrl}
+        onImportUrls={() => setImportModalOpen(true)}
+        onExportUrls={() => setExportModalOpen(true)}
+        onManageTags={() => router.push("/dashboard/urls/tags")}
         onCopyUrl={handleCopyUrl}
         onGenerateQr={handleGenerateQr}
         onEditUrl={handleEditUrl}
         onDeleteUrl={handleDeleteUrl}
         urlFilters={urlFilters}
+        urlTagOptions={tagNames}
+        urlDateRange={urlDateRange}
+        onUrlDateRangeChange={handleDateRangeChange}
+        urlUtmFilter={urlUtmFilter}
+        onUrlUtmFilterChange={handleUtmFilterChange}
         onUrlFilterChange={handleFilterChange}
+        offlineConflictCount={offlineConflicts.length}
+        onReviewOfflineChanges={() => setConflictModalOpen(true)}
+        totalUrlCount={pagination?.total ?? 0}
+        selectedUrlIds={selectedUrlIds}
+        selectedUrlCount={selectedCount}
+        isAllMatchingSelected={isAllMatchingSelected}
+        isBulkActionRunning={isBulkActionRunning}
+        onSelectUrl={handleSelectUrl}
+        onSelectAllUrls={handleSelectAllUrls}
+        onSelectAllMatchingUrls={selectAllMatching}
+        onClearUrlSelection={clearSelection}
+        onBulkStatusChange={(isActive) =>
+          handleBulkStatusChange(bulkSelection, isActive)
+        }
+        onBulkExtendExpiry={(days) =>
+          handleBulkExtendExpiry(bulkSelection, days)
+        }
+        onBulkUpdateTags={(tags, mode) =>
+          handleBulkUpdateTags(bulkSelection, tags, mode)
+        }
+        onBulkGenerateQrCodes={() => handleBulkGenerateQrCodes(bulkSelection)}
+        onBulkDeleteUrls={() => handleBulkDelete(bulkSelection, selectedCount)}
       />
       {/* OnboardingTour for URLs page */}
       <OnboardingTour
@@ -371,6 +525,23 @@ export default function UrlsPage() {
         onClose={closeCreateUrl}
         onSubmit={handleSubmitUrlForm}
         isCreating={isCreating}
+        onReuseExisting={handleReuseExistingUrl}
+        onCreateQrForExisting={handleCreateQrForExistingUrl}
+      />
+
+      {/* Import URLs Modal */}
+      <ImportUrlsModal
+        isOpen={importModalOpen}
+        onClose={() => setImportModalOpen(false)}
+        onImported={handleUrlsImported}
+      />
+
+      {/* Export URLs Modal */}
+      <ExportUrlsModal
+        isOpen={exportModalOpen}
+        onClose={() => setExportModalOpen(false)}
+        filter={filter}
+        matchingCount={pagination?.total}
       />
 
       {/* Delete URL Modal */}
@@ -391,6 +562,15 @@ export default function UrlsPage() {
         isEditing={isEditing}
       />
 
+      {/* Offline Changes Review Modal */}
+      <OutboxConflictModal
+        conflicts={offlineConflicts}
+        isOpen={conflictModalOpen}
+        onClose={() => setConflictModalOpen(false)}
+        onRetry={retryItem}
+        onDiscard={discardItem}
+      />
+
       {/* QR Code Modal */}
       <QrCodeModal
         url={urlForQrCode}
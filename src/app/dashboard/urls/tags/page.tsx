@@ -0,0 +1,90 @@
+"use client";
+
+import UrlTagsTemplate from "@/components/templates/UrlTagsTemplate";
+import TagRenameModal from "@/components/molecules/TagRenameModal";
+import { useSidebar } from "@/contexts/SidebarContext";
+import { useUrlTags } from "@/hooks/url/useUrlTags";
+import { useUrlTagActions } from "@/hooks/url/useUrlTagActions";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+
+/**
+ * Tag manager page
+ * @description Lists the tags of the user's URLs and renames, merges or deletes them on every URL
+ * @returns Tag manager page component
+ */
+export default function UrlTagsPage() {
+  const { setActiveItemId } = useSidebar();
+  const router = useRouter();
+
+  const { tags, tagNames, isLoading, refreshTags } = useUrlTags();
+  const { isRunning, renameTag, mergeTags, deleteTag } =
+    useUrlTagActions(refreshTags);
+
+  // Tags picked for merging
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+
+  // Tags being renamed or merged, the modal is open while set
+  const [tagsToRename, setTagsToRename] = useState<string[] | null>(null);
+
+  // Keep the URLs item highlighted in the sidebar
+  useEffect(() => {
+    setActiveItemId("urls");
+  }, [setActiveItemId]);
+
+  // Drop selected tags that no longer exist
+  useEffect(() => {
+    setSelectedTags((prev) => prev.filter((tag) => tagNames.includes(tag)));
+  }, [tagNames]);
+
+  const handleSelectTag = (tag: string, selected: boolean) => {
+    setSelectedTags((prev) =>
+      selected ? [...prev, tag] : prev.filter((item) => item !== tag)
+    );
+  };
+
+  const handleSelectAllTags = (selected: boolean) => {
+    setSelectedTags(selected ? tagNames : []);
+  };
+
+  // Rename one tag or merge the selected ones into the given name
+  const handleSubmitRename = async (name: string) => {
+    if (!tagsToRename) return;
+
+    if (tagsToRename.length > 1) {
+      await mergeTags(tagsToRename, name);
+      setSelectedTags([]);
+    } else {
+      await renameTag(tagsToRename[0], name);
+    }
+    setTagsToRename(null);
+  };
+
+  return (
+    <>
+      <UrlTagsTemplate
+        tags={tags}
+        isLoading={isLoading}
+        isUpdating={isRunning}
+        selectedTags={selectedTags}
+        onSelectTag={handleSelectTag}
+        onSelectAllTags={handleSelectAllTags}
+        onMergeTags={() => setTagsToRename(selectedTags)}
+        onRenameTag={(tag) => setTagsToRename([tag])}
+        onDeleteTag={deleteTag}
+        onViewTagUrls={(tag) =>
+          router.push(`/dashboard/urls?tag=${encodeURIComponent(tag)}`)
+        }
+      />
+
+      <TagRenameModal
+        isOpen={tagsToRename !== null}
+        onClose={() => setTagsToRename(null)}
+        tags={tagsToRename ?? []}
+        existingTags={tagNames}
+        onSubmit={handleSubmitRename}
+        isSubmitting={isRunning}
+      />
+    </>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import React, { useState } from "react";
+import DashboardTemplate from "@/components/templates/DashboardTemplate";
+import DemoBanner from "@/components/molecules/DemoBanner";
+import QrCodePreviewModal from "@/components/molecules/QrCodePreviewModal";
+import { useDemoMode } from "@/hooks/useDemoMode";
+import { useDashboardStats } from "@/hooks/useDashboardStats";
+import { useUrls } from "@/hooks/useUrls";
+import { useQrCodes } from "@/hooks/useQrCodes";
+import { useToast } from "@/contexts/ToastContext";
+import { DEMO_USER } from "@/config/mockApi";
+import { DashboardStats, QrCode, Url, UrlFilter } from "@/interfaces/url";
+import { formatShortUrl } from "@/utils/urlFormatter";
+
+/**
+ * Stats shown until the demo stats are loaded
+ */
+const EMPTY_STATS: DashboardStats = {
+  totalUrls: 0,
+  totalClicks: 0,
+  conversionRate: 0,
+  qrCodesGenerated: 0,
+  activeUrls: 0,
+  urlsCreatedToday: 0,
+  averageClicksPerUrl: 0,
+};
+
+/**
+ * DemoDashboard
+ * @description Dashboard wired to the usual hooks, rendered once the mock API answers requests
+ * @returns Demo dashboard component
+ */
+function DemoDashboard() {
+  const { showToast } = useToast();
+  const [previewQrCode, setPreviewQrCode] = useState<QrCode | null>(null);
+
+  const { stats, isLoading: isStatsLoading } = useDashboardStats();
+  const {
+    urls,
+    isLoading: isUrlsLoading,
+    pagination,
+    filter,
+    updateFilter,
+    deleteUrl,
+  } = useUrls();
+  const {
+    qrCodes,
+    isLoading: isQrCodesLoading,
+    deleteQrCode,
+  } = useQrCodes();
+
+  // Actions that need an account point the visitor to the sign-up page
+  const showSignUpPrompt = () => {
+    showToast(
+      "Create a free account to use this feature with your own links",
+      "info",
+      4000
+    );
+  };
+
+  // Handle URL copy
+  const handleCopyUrl = (url: Url) => {
+    navigator.clipboard.writeText(formatShortUrl(url.short_url));
+    showToast(`URL "${url.short_url}" copied to clipboard`, "success", 2000);
+  };
+
+  // Handle URL sort change
+  const handleUrlSortChange = (column: string, direction: "asc" | "desc") => {
+    updateFilter({
+      sortBy: column as UrlFilter["sortBy"],
+      sortOrder: direction,
+    });
+  };
+
+  return (
+    <>
+      <DashboardTemplate
+        userName={DEMO_USER.name}
+        stats={stats ?? EMPTY_STATS}
+        isStatsLoading={isStatsLoading}
+        urls={urls}
+        isUrlsLoading={isUrlsLoading}
+        currentUrlPage={pagination.page}
+        totalUrlPages={pagination.total_pages}
+        onUrlPageChange={(page) => updateFilter({ page })}
+        onUrlSortChange={handleUrlSortChange}
+        urlSortBy={filter.sortBy ?? "created_at"}
+        urlSortDirection={filter.sortOrder ?? "desc"}
+        qrCodes={qrCodes}
+        isQrCodesLoading={isQrCodesLoading}
+        onCreateUrl={showSignUpPrompt}
+        onCopyUrl={handleCopyUrl}
+        onGenerateQr={showSignUpPrompt}
+        onEditUrl={showSignUpPrompt}
+        onDeleteUrl={(url) => deleteUrl(url.id)}
+        onEditQr={showSignUpPrompt}
+        onDeleteQr={(qrCode) => deleteQrCode(qrCode.id)}
+        onQrPreview={setPreviewQrCode}
+        onViewUrlDetail={showSignUpPrompt}
+        navigateOnTabChange={false}
+      />
+
+      <QrCodePreviewModal
+        qrCode={previewQrCode}
+        isOpen={previewQrCode !== null}
+        onClose={() => setPreviewQrCode(null)}
+      />
+    </>
+  );
+}
+
+/**
+ * DemoClientPage
+ * @description Public "try the demo" dashboard. Every request is answered by the in-browser
+ * mock API while the page is open, so no account or backend is needed.
+ * @returns Demo client page component
+ */
+export default function DemoClientPage() {
+  const { isReady } = useDemoMode();
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-6">
+      <div className="container mx-auto px-2 sm:px-4">
+        <DemoBanner className="mb-6" />
+      </div>
+      {isReady && <DemoDashboard />}
+    </div>
+  );
+}
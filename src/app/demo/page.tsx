@@ -0,0 +1,20 @@
+import { Metadata } from "next";
+import DemoClientPage from "./DemoClientPage";
+
+/**
+ * Metadata for the Demo page
+ */
+export const metadata: Metadata = {
+  title: "Demo - CyLink",
+  description:
+    "Try the CyLink dashboard with sample URLs, QR codes and analytics, no account needed",
+};
+
+/**
+ * Demo page
+ * @description Public dashboard demo served by the in-browser mock API
+ * @returns Demo page component
+ */
+export default function DemoPage() {
+  return <DemoClientPage />;
+}
@@ -2,7 +2,8 @@
  * Countdown Timer Component
  * 
  * Displays a large, prominent digital countdown timer with mobile-first responsive design.
- * Used on the interstitial page to show remaining time before redirect.
+ * Used on the interstitial page to show remaining time before redirect, and
+ * on scheduled links to show the time left before they go live.
  * 
  * @module src/components/atoms/CountdownTimer
  */
@@ -12,84 +13,102 @@
 import React, { useState, useEffect } from "react";
 import { CountdownTimerProps } from "@/interfaces/interstitial";
 
+const SECONDS_PER_HOUR = 3600;
+const SECONDS_PER_DAY = 24 * SECONDS_PER_HOUR;
+
+/**
+ * Default helper text, used by the interstitial redirect
+ */
+const getRedirectLabel = (timeLeft: number): string =>
+  `Redirecting in ${timeLeft} ${timeLeft === 1 ? "second" : "seconds"}...`;
+
 const CountdownTimer: React.FC<CountdownTimerProps> = ({
   initialTime,
   onComplete,
+  label = getRedirectLabel,
+  showProgress = true,
   className = "",
 }) => {
+  // Fixed on mount, the time left is measured against it
+  const [endsAt] = useState(() => Date.now() + initialTime * 1000);
   const [timeLeft, setTimeLeft] = useState(initialTime);
 
   useEffect(() => {
-    // Don't start countdown if time is already 0
+    // Call onComplete once the countdown reaches 0
     if (timeLeft <= 0) {
       onComplete();
       return;
     }
 
-    // Set up interval to decrease time every second
+    // Recompute the time left every second rather than decreasing it, since intervals drift and
+    // are slowed down in background tabs
     const intervalId = setInterval(() => {
-      setTimeLeft((prevTime) => {
-        const newTime = prevTime - 1;
-
-        // Call onComplete when countdown reaches 0
-        if (newTime <= 0) {
-          clearInterval(intervalId);
-          onComplete();
-          return 0;
-        }
-
-        return newTime;
-      });
+      setTimeLeft(Math.max(0, Math.ceil((endsAt - Date.now()) / 1000)));
     }, 1000);
 
     // Cleanup interval on unmount
     return () => {
       clearInterval(intervalId);
     };
-  }, [timeLeft, onComplete]);
+  }, [timeLeft, endsAt, onComplete]);
 
   /**
-   * Format time as MM:SS
+   * Format time as MM:SS, with hours and days added for longer countdowns
    */
   const formatTime = (seconds: number): string => {
-    const minutes = Math.floor(seconds / 60);
+    const pad = (value: number) => value.toString().padStart(2, "0");
+    const days = Math.floor(seconds / SECONDS_PER_DAY);
+    const hours = Math.floor((seconds % SECONDS_PER_DAY) / SECONDS_PER_HOUR);
+    const minutes = Math.floor((seconds % SECONDS_PER_HOUR) / 60);
     const remainingSeconds = seconds % 60;
-    return `${minutes.toString().padStart(2, "0")}:${remainingSeconds
-      .toString()
-      .padStart(2, "0")}`;
+    const clock = `${pad(minutes)}:${pad(remainingSeconds)}`;
+
+    if (days > 0) return `${days}d ${pad(hours)}:${clock}`;
+    if (hours > 0) return `${pad(hours)}:${clock}`;
+    return clock;
   };
 
+  // Hours and days need a smaller font to fit on mobile screens
+  const displaySize =
+    timeLeft >= SECONDS_PER_HOUR
+      ? "text-5xl md:text-7xl"
+      : "text-8xl md:text-9xl";
+
   return (
     <div
       className={`countdown-timer flex flex-col items-center justify-center ${className}`}
       role="timer"
-      aria-label={`Redirecting in ${timeLeft} seconds`}
+      aria-label={label(timeLeft)}
     >
       {/* Large digital display */}
-      <div className="text-8xl md:text-9xl font-bold text-black tracking-wider font-mono">
+      <div
+        className={`${displaySize} font-bold text-black tracking-wider font-mono`}
+      >
         {formatTime(timeLeft)}
       </div>
 
       {/* Helper text */}
       <p className="mt-4 text-lg md:text-xl text-gray-600 text-center">
-        Redirecting in {timeLeft} {timeLeft === 1 ? "second" : "seconds"}...
+        {label(timeLeft)}
       </p>
 
       {/* Progress indicator */}
-      <div className="w-full max-w-md mt-6">
-        <div className="w-full bg-gray-200 rounded-full h-2">
-          <div
-            className="bg-black h-2 rounded-full transition-all duration-1000 ease-linear"
-            style={{
-              width: `${((initialTime - timeLeft) / initialTime) * 100}%`,
-            }}
-            role="progressbar"
-            aria-valuenow={initialTime - timeLeft}
-            aria-valuemin={0}
-            aria-valuemax={initialTime}
-          />
+      {showProgress && (
+        <div className="w-full max-w-md mt-6">
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-black h-2 rounded-full transition-all duration-1000 ease-linear"
+              style={{
+                width: `${((initialTime - timeLeft) / initialTime) * 100}%`,
+              }}
+              role="progressbar"
+              aria-valuenow={initialTime - timeLeft}
+              aria-valuemin={0}
+              aria-valuemax={initialTime}
+            />
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,52 @@
+"use client";
+
+import React, { useState } from "react";
+import Image from "next/image";
+import { RiGlobalLine } from "react-icons/ri";
+
+/**
+ * Prop types for LinkFavicon component
+ */
+interface LinkFaviconProps {
+  /**
+   * URL of the favicon, shows a globe when missing or broken
+   */
+  src?: string;
+  /**
+   * Optional CSS classes to apply, sizing the icon
+   */
+  className?: string;
+}
+
+/**
+ * LinkFavicon Component
+ * @description Displays the favicon of a link destination. Icons are loaded by the browser from
+ * their site rather than through the image optimizer, which would fetch any host on the server.
+ */
+const LinkFavicon: React.FC<LinkFaviconProps> = ({
+  src,
+  className = "h-4 w-4",
+}) => {
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+
+  if (!src || failedSrc === src) {
+    return (
+      <RiGlobalLine className={`flex-shrink-0 text-gray-400 ${className}`} />
+    );
+  }
+
+  return (
+    <Image
+      src={src}
+      alt=""
+      width={16}
+      height={16}
+      unoptimized
+      referrerPolicy="no-referrer"
+      className={`flex-shrink-0 rounded-sm object-contain ${className}`}
+      onError={() => setFailedSrc(src)}
+    />
+  );
+};
+
+export default LinkFavicon;
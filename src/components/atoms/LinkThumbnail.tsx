@@ -0,0 +1,60 @@
+"use client";
+
+import React, { useState } from "react";
+import Image from "next/image";
+import LinkFavicon from "./LinkFavicon";
+
+/**
+ * Prop types for LinkThumbnail component
+ */
+interface LinkThumbnailProps {
+  /**
+   * URL of the preview image of the destination
+   */
+  src?: string;
+  /**
+   * URL of the favicon, shown instead when there is no preview image
+   */
+  faviconSrc?: string;
+  /**
+   * Optional CSS classes to apply, sizing the thumbnail
+   */
+  className?: string;
+}
+
+/**
+ * LinkThumbnail Component
+ * @description Displays the preview image of a link destination, or its favicon when the page has
+ * no preview image or it cannot be loaded. Like favicons, images are loaded from their site.
+ */
+const LinkThumbnail: React.FC<LinkThumbnailProps> = ({
+  src,
+  faviconSrc,
+  className = "h-12 w-12",
+}) => {
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+  const showImage = !!src && failedSrc !== src;
+
+  return (
+    <div
+      className={`relative flex flex-shrink-0 items-center justify-center overflow-hidden rounded-md border border-gray-200 bg-gray-50 ${className}`}
+    >
+      {showImage ? (
+        <Image
+          src={src}
+          alt=""
+          fill
+          sizes="48px"
+          unoptimized
+          referrerPolicy="no-referrer"
+          className="object-cover"
+          onError={() => setFailedSrc(src)}
+        />
+      ) : (
+        <LinkFavicon src={faviconSrc} className="h-5 w-5" />
+      )}
+    </div>
+  );
+};
+
+export default LinkThumbnail;
@@ -1,4 +1,5 @@
 import React from "react";
+import type { UrlStatus } from "@/interfaces/url";
 
 /**
  * Prop types for StatusBadge component
@@ -7,7 +8,7 @@ interface StatusBadgeProps {
   /**
    * Status value to display
    */
-  status: "active" | "expired" | "inactive";
+  status: UrlStatus;
   /**
    * Optional CSS classes to apply
    */
@@ -31,6 +32,10 @@ const StatusBadge: React.FC<StatusBadgeProps> = ({
         return "bg-[#FFEBEE] text-[#D32F2F]";
       case "inactive":
         return "bg-[#ECEFF1] text-[#607D8B]";
+      case "scheduled":
+        return "bg-[#E3F2FD] text-[#1976D2]";
+      case "exhausted":
+        return "bg-[#FFF3E0] text-[#E65100]";
       default:
         return "bg-[#E0E0E0] text-[#333333]";
     }
@@ -45,6 +50,10 @@ const StatusBadge: React.FC<StatusBadgeProps> = ({
         return "Expired";
       case "inactive":
         return "Inactive";
+      case "scheduled":
+        return "Scheduled";
+      case "exhausted":
+        return "Exhausted";
       default:
         return status;
     }
@@ -0,0 +1,81 @@
+import React from "react";
+import { OutboxItemStatus } from "@/interfaces/outbox";
+import { RiAlertLine, RiRefreshLine } from "react-icons/ri";
+
+/**
+ * Prop types for SyncStatusBadge component
+ */
+interface SyncStatusBadgeProps {
+  /**
+   * Sync state of the queued change
+   */
+  status: OutboxItemStatus;
+  /**
+   * Optional tooltip describing the queued change
+   */
+  title?: string;
+  /**
+   * Function to call when the badge is clicked, e.g. to review a conflict
+   */
+  onClick?: () => void;
+  /**
+   * Optional CSS classes to apply
+   */
+  className?: string;
+}
+
+/**
+ * Status configuration map
+ */
+const STATUS_CONFIG: Record<
+  OutboxItemStatus,
+  { label: string; colorClasses: string; icon: React.ReactNode }
+> = {
+  pending: {
+    label: "Pending sync",
+    colorClasses: "bg-[#FFF8E1] text-[#F57F17]",
+    icon: <RiRefreshLine />,
+  },
+  conflict: {
+    label: "Needs review",
+    colorClasses: "bg-[#FFEBEE] text-[#D32F2F]",
+    icon: <RiAlertLine />,
+  },
+};
+
+/**
+ * SyncStatusBadge Component
+ * @description Marks URLs with changes made offline that are not on the server yet
+ */
+const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({
+  status,
+  title,
+  onClick,
+  className = "",
+}) => {
+  const config = STATUS_CONFIG[status];
+  const classes = `inline-flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-full ${config.colorClasses} ${className}`;
+
+  if (onClick) {
+    return (
+      <button
+        type="button"
+        onClick={onClick}
+        title={title}
+        className={`${classes} cursor-pointer hover:opacity-80`}
+      >
+        {config.icon}
+        {config.label}
+      </button>
+    );
+  }
+
+  return (
+    <span className={classes} title={title}>
+      {config.icon}
+      {config.label}
+    </span>
+  );
+};
+
+export default SyncStatusBadge;
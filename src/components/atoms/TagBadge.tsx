@@ -0,0 +1,50 @@
+import React from "react";
+import { RiCloseLine } from "react-icons/ri";
+import { getTagColorClass } from "@/utils/urlTags";
+
+/**
+ * Prop types for TagBadge component
+ */
+interface TagBadgeProps {
+  /**
+   * Tag name to display
+   */
+  tag: string;
+  /**
+   * Function to call when the remove button is clicked, shows the button when set
+   */
+  onRemove?: (tag: string) => void;
+  /**
+   * Optional CSS classes to apply
+   */
+  className?: string;
+}
+
+/**
+ * TagBadge Component
+ * @description Displays a URL tag in the color of its name
+ */
+const TagBadge: React.FC<TagBadgeProps> = ({ tag, onRemove, className = "" }) => {
+  return (
+    <span
+      className={`inline-flex max-w-[160px] items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${getTagColorClass(
+        tag
+      )} ${className}`}
+      title={tag}
+    >
+      <span className="truncate">{tag}</span>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={() => onRemove(tag)}
+          className="rounded-full hover:bg-black/10"
+          aria-label={`Remove tag ${tag}`}
+        >
+          <RiCloseLine className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  );
+};
+
+export default TagBadge;
@@ -0,0 +1,118 @@
+"use client";
+
+import React from "react";
+import type { AbVariantStats } from "@/interfaces/abTest";
+import { RiTrophyLine } from "react-icons/ri";
+
+/**
+ * AbVariantStatsTable props
+ * @interface AbVariantStatsTableProps
+ */
+interface AbVariantStatsTableProps {
+  /** Stats of each variant, in the order of the test */
+  stats: AbVariantStats[];
+  /** ID of the variant being promoted, if any */
+  promotingId?: string | null;
+  /** Function to call to make a variant the permanent destination */
+  onPromote: (stats: AbVariantStats) => void;
+}
+
+/**
+ * AbVariantStatsTable Component
+ * @description Visits, conversions and conversion rate of each variant of an A/B test, the best
+ * converting variant marked as leading, with a button promoting a variant to the permanent
+ * destination
+ */
+const AbVariantStatsTable: React.FC<AbVariantStatsTableProps> = ({
+  stats,
+  promotingId = null,
+  onPromote,
+}) => {
+  const totalClicks = stats.reduce(
+    (total, variant) => total + variant.clicks,
+    0
+  );
+  const leadingRate = Math.max(
+    ...stats.map((variant) => variant.conversion_rate)
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-gray-200">
+            <th className="text-left py-3 px-4 font-medium text-gray-700">
+              Variant
+            </th>
+            <th className="text-right py-3 px-4 font-medium text-gray-700">
+              Clicks
+            </th>
+            <th className="text-right py-3 px-4 font-medium text-gray-700">
+              Conversions
+            </th>
+            <th className="text-right py-3 px-4 font-medium text-gray-700">
+              Conversion Rate
+            </th>
+            <th className="py-3 px-4" />
+          </tr>
+        </thead>
+        <tbody>
+          {stats.map((variant) => {
+            const isLeading =
+              totalClicks > 0 && variant.conversion_rate === leadingRate;
+            const clickShare =
+              totalClicks > 0 ? (variant.clicks / totalClicks) * 100 : 0;
+
+            return (
+              <tr
+                key={variant.variant_id}
+                className="border-b border-gray-100 hover:bg-gray-50"
+              >
+                <td className="py-3 px-4">
+                  <div className="flex items-center gap-2 font-medium text-gray-900">
+                    {variant.name}
+                    {isLeading && (
+                      <span className="inline-flex items-center gap-1 rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-700">
+                        <RiTrophyLine aria-hidden />
+                        Leading
+                      </span>
+                    )}
+                  </div>
+                  <p className="max-w-xs truncate text-xs text-gray-500">
+                    {variant.destination_url}
+                  </p>
+                </td>
+                <td className="py-3 px-4 text-right text-gray-700 font-medium">
+                  {variant.clicks.toLocaleString()}
+                  <span className="block text-xs font-normal text-gray-500">
+                    {clickShare.toFixed(0)}% of visits
+                  </span>
+                </td>
+                <td className="py-3 px-4 text-right text-gray-700 font-medium">
+                  {variant.conversions.toLocaleString()}
+                </td>
+                <td className="py-3 px-4 text-right text-gray-700 font-medium">
+                  {variant.conversion_rate.toFixed(2)}%
+                </td>
+                <td className="py-3 px-4 text-right">
+                  <button
+                    type="button"
+                    onClick={() => onPromote(variant)}
+                    disabled={promotingId !== null}
+                    className="whitespace-nowrap rounded-lg border border-blue-600 px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {promotingId === variant.variant_id
+                      ? "Promoting..."
+                      : "Promote"}
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default AbVariantStatsTable;
@@ -0,0 +1,224 @@
+"use client";
+
+import React, { useState } from "react";
+import type { BioLinkIcon, BioPageLink } from "@/interfaces/bioPage";
+import type { Url } from "@/interfaces/url";
+import { BIO_LINK_ICONS, BIO_PAGE_LIMITS } from "@/config/bioPage";
+import {
+  RiArrowDownLine,
+  RiArrowUpLine,
+  RiDeleteBinLine,
+  RiDraggable,
+} from "react-icons/ri";
+
+/**
+ * BioLinkEditorList props
+ * @interface BioLinkEditorListProps
+ */
+interface BioLinkEditorListProps {
+  /** Links in display order */
+  links: BioPageLink[];
+  /** URLs of the user, to show the short URL of each link */
+  urls: Url[];
+  /** Function to call with the links once one is edited, moved or removed */
+  onChange: (links: BioPageLink[]) => void;
+  /** Error message to display */
+  error?: string;
+  /** Whether editing is disabled */
+  disabled?: boolean;
+}
+
+/**
+ * Move an item of a list to another position
+ * @param items - List to reorder
+ * @param from - Current index of the item
+ * @param to - New index of the item
+ * @returns Reordered copy of the list
+ */
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+/**
+ * BioLinkEditorList Component
+ * @description Editable, ordered links of a bio page. Rows are reordered by dragging their
+ * handle, or with the move buttons from the keyboard.
+ */
+const BioLinkEditorList: React.FC<BioLinkEditorListProps> = ({
+  links,
+  urls,
+  onChange,
+  error,
+  disabled = false,
+}) => {
+  // Row whose handle is held, only that row is draggable so its inputs stay selectable
+  const [grabbedIndex, setGrabbedIndex] = useState<number | null>(null);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const updateLink = (index: number, changes: Partial<BioPageLink>) => {
+    onChange(
+      links.map((link, i) => (i === index ? { ...link, ...changes } : link))
+    );
+  };
+
+  const handleMove = (from: number, to: number) => {
+    if (to < 0 || to >= links.length || from === to) return;
+    onChange(moveItem(links, from, to));
+  };
+
+  const handleDragStart = (event: React.DragEvent, index: number) => {
+    event.dataTransfer.effectAllowed = "move";
+    // Firefox only starts a drag when data is set
+    event.dataTransfer.setData("text/plain", String(index));
+    setDraggedIndex(index);
+  };
+
+  const handleDragOver = (event: React.DragEvent, index: number) => {
+    if (draggedIndex === null) return;
+    event.preventDefault();
+    setDropIndex(index);
+  };
+
+  const handleDrop = (event: React.DragEvent, index: number) => {
+    event.preventDefault();
+    if (draggedIndex !== null) handleMove(draggedIndex, index);
+    handleDragEnd();
+  };
+
+  const handleDragEnd = () => {
+    setGrabbedIndex(null);
+    setDraggedIndex(null);
+    setDropIndex(null);
+  };
+
+  if (links.length === 0) {
+    return (
+      <div>
+        <p className="rounded-md border border-dashed border-gray-300 p-6 text-center text-sm text-gray-500">
+          Add short links to list them on your page.
+        </p>
+        {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <ol className="space-y-2">
+        {links.map((link, index) => {
+          const url = urls.find((item) => item.id === link.url_id);
+          const isDropTarget = dropIndex === index && draggedIndex !== index;
+
+          return (
+            <li
+              key={link.url_id}
+              draggable={!disabled && grabbedIndex === index}
+              onDragStart={(event) => handleDragStart(event, index)}
+              onDragOver={(event) => handleDragOver(event, index)}
+              onDrop={(event) => handleDrop(event, index)}
+              onDragEnd={handleDragEnd}
+              className={`flex gap-2 rounded-md border bg-white p-3 ${
+                isDropTarget ? "border-blue-500" : "border-gray-200"
+              } ${draggedIndex === index ? "opacity-50" : ""}`}
+            >
+              <div className="flex flex-col items-center gap-1">
+                <span
+                  onMouseDown={() => setGrabbedIndex(index)}
+                  onMouseUp={() => setGrabbedIndex(null)}
+                  className="cursor-grab rounded p-1 text-gray-400 hover:bg-gray-100 active:cursor-grabbing"
+                  aria-hidden
+                >
+                  <RiDraggable className="h-4 w-4" />
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleMove(index, index - 1)}
+                  disabled={disabled || index === 0}
+                  aria-label={`Move ${link.title || "link"} up`}
+                  className="rounded p-1 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                >
+                  <RiArrowUpLine className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleMove(index, index + 1)}
+                  disabled={disabled || index === links.length - 1}
+                  aria-label={`Move ${link.title || "link"} down`}
+                  className="rounded p-1 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                >
+                  <RiArrowDownLine className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="min-w-0 flex-1 space-y-2">
+                <div className="flex gap-2">
+                  <select
+                    value={link.icon}
+                    onChange={(e) =>
+                      updateLink(index, {
+                        icon: e.target.value as BioLinkIcon,
+                      })
+                    }
+                    disabled={disabled}
+                    aria-label="Icon"
+                    className="p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {Object.entries(BIO_LINK_ICONS).map(([icon, { label }]) => (
+                      <option key={icon} value={icon}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={link.title}
+                    onChange={(e) =>
+                      updateLink(index, { title: e.target.value })
+                    }
+                    maxLength={BIO_PAGE_LIMITS.LINK_TITLE_MAX_LENGTH}
+                    disabled={disabled}
+                    placeholder="Title"
+                    aria-label="Title"
+                    className="min-w-0 flex-1 p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <input
+                  type="text"
+                  value={link.description ?? ""}
+                  onChange={(e) =>
+                    updateLink(index, { description: e.target.value })
+                  }
+                  maxLength={BIO_PAGE_LIMITS.LINK_DESCRIPTION_MAX_LENGTH}
+                  disabled={disabled}
+                  placeholder="Description (optional)"
+                  aria-label="Description"
+                  className="w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="truncate text-xs text-gray-500">
+                  {url ? url.short_url : "This short link no longer exists"}
+                </p>
+              </div>
+
+              <button
+                type="button"
+                onClick={() => onChange(links.filter((_, i) => i !== index))}
+                disabled={disabled}
+                aria-label={`Remove ${link.title || "link"}`}
+                className="self-start rounded p-1 text-gray-500 hover:bg-red-50 hover:text-red-600"
+              >
+                <RiDeleteBinLine className="h-4 w-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default BioLinkEditorList;
@@ -0,0 +1,50 @@
+"use client";
+
+import React from "react";
+import Logo from "@/components/atoms/Logo";
+import Button from "@/components/atoms/Button";
+import { RiForbidLine } from "react-icons/ri";
+
+/**
+ * ClickLimitReachedNotice props
+ * @interface ClickLimitReachedNoticeProps
+ */
+interface ClickLimitReachedNoticeProps {
+  /** Short code of the exhausted link */
+  shortCode: string;
+}
+
+/**
+ * ClickLimitReachedNotice Component
+ * @description Tells visitors of a click-capped link that it was used up, shown by the short
+ * URL page instead of redirecting
+ */
+const ClickLimitReachedNotice: React.FC<ClickLimitReachedNoticeProps> = ({
+  shortCode,
+}) => (
+  <div className="flex flex-col items-center justify-center min-h-screen bg-white px-4">
+    <Logo size="lg" withLink={true} className="mb-8" />
+    <div className="flex flex-col items-center gap-3 text-center max-w-md">
+      <div className="rounded-full bg-orange-100 p-3 text-orange-600">
+        <RiForbidLine className="h-6 w-6" />
+      </div>
+      <h1 className="text-3xl font-bold text-gray-900">Link limit reached</h1>
+      <p className="text-lg text-gray-600 mb-6">
+        This link could only be opened a limited number of times, and all of
+        them have been used.
+      </p>
+      <Button
+        variant="primary"
+        size="lg"
+        onClick={() => (window.location.href = "/")}
+      >
+        Go to Homepage
+      </Button>
+    </div>
+    <p className="mt-8 text-sm text-gray-500">
+      Short URL: <span className="font-mono">{shortCode}</span>
+    </p>
+  </div>
+);
+
+export default ClickLimitReachedNotice;
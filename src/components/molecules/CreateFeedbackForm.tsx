@@ -6,6 +6,7 @@ import { z } from 'zod'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { CreateFeedbackFormData, FeedbackType, FeedbackItem } from '@/interfaces/feedback'
 import { RiLightbulbLine, RiBugLine } from 'react-icons/ri'
+import { useApiErrorHandler } from '@/hooks/useApiErrorHandler'
 
 /**
  * Form validation schema - Simplified to encourage participation
@@ -41,9 +42,9 @@ interface CreateFeedbackFormProps {
   onTitleChange: (title: string) => void
 
   /**
-   * Form submission handler
+   * Form submission handler, rejecting keeps the form open with the error shown
    */
-  onSubmit: (data: CreateFeedbackFormData) => void
+  onSubmit: (data: CreateFeedbackFormData) => Promise<void>
 
   /**
    * Cancel handler
@@ -76,6 +77,7 @@ const CreateFeedbackForm: React.FC<CreateFeedbackFormProps> = ({
     handleSubmit,
     watch,
     setValue,
+    setError,
     formState: { errors }
   } = useForm<FeedbackFormValues>({
     resolver: zodResolver(feedbackSchema),
@@ -86,6 +88,8 @@ const CreateFeedbackForm: React.FC<CreateFeedbackFormProps> = ({
     }
   })
 
+  const { handleApiError } = useApiErrorHandler()
+
   const title = watch('title')
 
   // Trigger duplicate search on title change
@@ -95,8 +99,12 @@ const CreateFeedbackForm: React.FC<CreateFeedbackFormProps> = ({
     }
   }, [title, onTitleChange])
 
-  const handleFormSubmit = (data: FeedbackFormValues) => {
-    onSubmit(data as CreateFeedbackFormData)
+  const handleFormSubmit = async (data: FeedbackFormValues) => {
+    try {
+      await onSubmit(data as CreateFeedbackFormData)
+    } catch (error) {
+      handleApiError(error, { setError })
+    }
   }
 
   const handleTypeChange = (type: FeedbackType) => {
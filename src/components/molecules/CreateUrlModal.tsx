@@ -1,14 +1,39 @@
 "use client";
 
 import type React from "react";
-import { useForm } from "react-hook-form";
+import { useEffect, useMemo, useState } from "react";
+import { Controller, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import Modal from "@/components/atoms/Modal";
 import Button from "@/components/atoms/Button";
+import Checkbox from "@/components/atoms/Checkbox";
 import InputWithCharacterCounter from "@/components/atoms/InputWithCharacterCounter";
+import TagInput from "@/components/molecules/TagInput";
+import UtmBuilder from "@/components/molecules/UtmBuilder";
+import UrlSafetyPanel from "@/components/molecules/UrlSafetyPanel";
+import DuplicateUrlNotice from "@/components/molecules/DuplicateUrlNotice";
+import CustomCodeAvailability from "@/components/molecules/CustomCodeAvailability";
+import LinkPreviewCard from "@/components/molecules/LinkPreviewCard";
 import { RiAddLine, RiLinkM } from "react-icons/ri";
 import { URL_CUSTOM_CODE_LIMITS, URL_DISPLAY_CONFIG } from "@/config/urlLimits";
+import {
+  URL_DESCRIPTION_LIMITS,
+  URL_FORM_FIELD_MAP,
+  URL_MAX_CLICKS_LIMITS,
+} from "@/config/url";
+import { useApiErrorHandler } from "@/hooks/useApiErrorHandler";
+import { useUrlTags } from "@/hooks/url/useUrlTags";
+import { useDuplicateUrls } from "@/hooks/url/useDuplicateUrls";
+import { useCustomCodeAvailability } from "@/hooks/url/useCustomCodeAvailability";
+import { useLinkPreview } from "@/hooks/url/useLinkPreview";
+import type { Url } from "@/interfaces/url";
+import { formatDateTimeForInput } from "@/utils/dateFormatter";
+import { analyzeUrlSafety } from "@/utils/urlSafety";
+import {
+  createUrlSchema,
+  getMinExpiryDate,
+  type CreateUrlFormSchema,
+} from "@/schemas/urlForm";
 
 /**
  * CreateUrlModalProps interface
@@ -19,10 +44,14 @@ interface CreateUrlModalProps {
   isOpen: boolean;
   /** Function to call when creation is canceled */
   onClose: () => void;
-  /** Function to call when form is submitted */
-  onSubmit: (data: CreateUrlFormData) => void;
+  /** Function to call when form is submitted, rejecting keeps the modal open with the error shown */
+  onSubmit: (data: CreateUrlFormData) => Promise<void>;
   /** Whether creation is in progress */
   isCreating?: boolean;
+  /** Function to call to use an existing URL with the same destination instead */
+  onReuseExisting: (url: Url) => void;
+  /** Function to call to create a QR code for an existing URL with the same destination */
+  onCreateQrForExisting: (url: Url) => void;
 }
 
 /**
@@ -34,21 +63,12 @@ export interface CreateUrlFormData {
   originalUrl: string;
   customCode?: string;
   expiryDate: string;
+  activatesAt?: string;
+  maxClicks?: string;
+  tags?: string[];
+  password?: string;
 }
 
-// Zod schema for form validation
-const createUrlSchema = z.object({
-  title: z.string().min(1, "Title is required"),
-  originalUrl: z.string().url("Please enter a valid URL"),
-  customCode: z
-    .string()
-    .max(30, "Custom code must be 30 characters or less")
-    .optional(),
-  expiryDate: z.string().min(1, "Expiry date is required"),
-});
-
-type CreateUrlFormSchema = z.infer<typeof createUrlSchema>;
-
 /**
  * CreateUrlModal Component
  * @description Modal for creating a new URL with form validation
@@ -58,36 +78,131 @@ const CreateUrlModal: React.FC<CreateUrlModalProps> = ({
   onClose,
   onSubmit,
   isCreating = false,
+  onReuseExisting,
+  onCreateQrForExisting,
 }) => {
   const {
     register,
     handleSubmit,
-    formState: { errors },
+    formState: { errors, dirtyFields },
     reset,
     watch,
+    setError,
+    setValue,
+    control,
   } = useForm<CreateUrlFormSchema>({
     resolver: zodResolver(createUrlSchema),
     defaultValues: {
       title: "",
+      description: "",
       originalUrl: "",
       customCode: "",
       expiryDate: "",
+      activatesAt: "",
+      maxClicks: "",
+      tags: [],
+      password: "",
+      faviconUrl: "",
+      previewImageUrl: "",
     },
   });
 
+  const { handleApiError } = useApiErrorHandler();
+
+  // Existing tags, suggested while typing
+  const { tagNames } = useUrlTags(isOpen);
+
   // Watch customCode value for character counter
   const customCodeValue = watch("customCode");
 
-  const handleFormSubmit = (data: CreateUrlFormSchema) => {
-    onSubmit(data);
+  // Watch originalUrl value for the UTM builder
+  const originalUrlValue = watch("originalUrl");
+
+  // Title and description are prefilled from the destination page until typed
+  // by hand, its images are kept to show the URL in the lists
+  const { preview, isLoading: isPreviewLoading } = useLinkPreview(
+    originalUrlValue ?? "",
+    isOpen
+  );
+  const isTitleTyped = !!dirtyFields.title;
+  const isDescriptionTyped = !!dirtyFields.description;
+
+  useEffect(() => {
+    setValue("faviconUrl", preview?.favicon_url ?? "");
+    setValue("previewImageUrl", preview?.image_url ?? "");
+    if (preview?.title && !isTitleTyped) {
+      setValue("title", preview.title, { shouldValidate: true });
+    }
+    if (preview?.description && !isDescriptionTyped) {
+      setValue("description", preview.description, { shouldValidate: true });
+    }
+  }, [preview, isTitleTyped, isDescriptionTyped, setValue]);
+
+  // Custom codes are checked while typing, alternatives come from the title
+  // and destination
+  const titleValue = watch("title");
+  const codeAvailability = useCustomCodeAvailability({
+    code: customCodeValue ?? "",
+    title: titleValue,
+    originalUrl: originalUrlValue,
+    enabled: isOpen,
+  });
+
+  const handleSelectCodeSuggestion = (code: string) => {
+    setValue("customCode", code, { shouldDirty: true, shouldValidate: true });
+  };
+
+  const handleUtmChange = (url: string) => {
+    setValue("originalUrl", url, { shouldDirty: true, shouldValidate: true });
+  };
+
+  // High risk destinations must be acknowledged before creating the URL
+  const safetyReport = useMemo(
+    () => analyzeUrlSafety(originalUrlValue ?? ""),
+    [originalUrlValue]
+  );
+  const [acknowledgedUrl, setAcknowledgedUrl] = useState<string | null>(null);
+  const needsAcknowledgment =
+    safetyReport?.level === "high" && acknowledgedUrl !== originalUrlValue;
+
+  // Links to the same page must be reused, or a new one chosen explicitly
+  const { duplicates } = useDuplicateUrls(originalUrlValue ?? "", isOpen);
+  const [duplicateChoiceUrl, setDuplicateChoiceUrl] = useState<string | null>(
+    null
+  );
+  const needsDuplicateChoice =
+    duplicates.length > 0 && duplicateChoiceUrl !== originalUrlValue;
+
+  const resetForm = () => {
     reset();
+    setAcknowledgedUrl(null);
+    setDuplicateChoiceUrl(null);
+  };
+
+  const handleFormSubmit = async (data: CreateUrlFormSchema) => {
+    try {
+      await onSubmit(data);
+      resetForm();
+    } catch (error) {
+      handleApiError(error, { setError, fieldMap: URL_FORM_FIELD_MAP });
+    }
   };
 
   const handleCancel = () => {
-    reset();
+    resetForm();
     onClose();
   };
 
+  const handleReuseExisting = (url: Url) => {
+    resetForm();
+    onReuseExisting(url);
+  };
+
+  const handleCreateQrForExisting = (url: Url) => {
+    resetForm();
+    onCreateQrForExisting(url);
+  };
+
   return (
     <Modal
       title="Create New URL"
@@ -108,7 +223,12 @@ const CreateUrlModal: React.FC<CreateUrlModalProps> = ({
           <Button
             variant="primary"
             onClick={handleSubmit(handleFormSubmit)}
-            disabled={isCreating}
+            disabled={
+              isCreating ||
+              needsAcknowledgment ||
+              needsDuplicateChoice ||
+              codeAvailability.status === "unavailable"
+            }
             loading={isCreating}
             startIcon={<RiAddLine />}
           >
@@ -168,6 +288,62 @@ const CreateUrlModal: React.FC<CreateUrlModalProps> = ({
                 {errors.originalUrl.message}
               </p>
             )}
+            <LinkPreviewCard
+              preview={preview}
+              isLoading={isPreviewLoading}
+              className="mt-2"
+            />
+            {needsDuplicateChoice && (
+              <DuplicateUrlNotice
+                matches={duplicates}
+                onReuse={handleReuseExisting}
+                onCreateQr={handleCreateQrForExisting}
+                onCreateAnyway={() => setDuplicateChoiceUrl(originalUrlValue)}
+                className="mt-2"
+              />
+            )}
+            {safetyReport && (
+              <UrlSafetyPanel report={safetyReport} className="mt-2" />
+            )}
+            {safetyReport?.level === "high" && (
+              <Checkbox
+                id="acknowledgeSafetyRisk"
+                label="I understand the risks and still want to shorten this URL"
+                containerClassName="mt-2"
+                checked={acknowledgedUrl === originalUrlValue}
+                onChange={(e) =>
+                  setAcknowledgedUrl(e.target.checked ? originalUrlValue : null)
+                }
+              />
+            )}
+            <div className="mt-2">
+              <UtmBuilder
+                url={originalUrlValue ?? ""}
+                onChange={handleUtmChange}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label
+              htmlFor="description"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Description (Optional)
+            </label>
+            <textarea
+              id="description"
+              rows={2}
+              maxLength={URL_DESCRIPTION_LIMITS.MAX_LENGTH}
+              placeholder="Filled in from the destination page"
+              {...register("description")}
+              className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            />
+            {errors.description && (
+              <p className="mt-1 text-sm text-red-600">
+                {errors.description.message}
+              </p>
+            )}
           </div>
 
           <div>
@@ -196,25 +372,129 @@ const CreateUrlModal: React.FC<CreateUrlModalProps> = ({
                 />
               </div>
             </div>
+            <CustomCodeAvailability
+              {...codeAvailability}
+              showMessage={!errors.customCode}
+              onSelectSuggestion={handleSelectCodeSuggestion}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label
+                htmlFor="expiryDate"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Expiry Date
+              </label>
+              <input
+                type="date"
+                id="expiryDate"
+                {...register("expiryDate")}
+                min={getMinExpiryDate()}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+              {errors.expiryDate && (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors.expiryDate.message}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label
+                htmlFor="activatesAt"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Go Live At (Optional)
+              </label>
+              <input
+                type="datetime-local"
+                id="activatesAt"
+                {...register("activatesAt")}
+                min={formatDateTimeForInput(new Date())}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+              {errors.activatesAt ? (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors.activatesAt.message}
+                </p>
+              ) : (
+                <p className="mt-1 text-xs text-gray-500">
+                  Leave blank to go live right away
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label
+              htmlFor="maxClicks"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Max Clicks (Optional)
+            </label>
+            <input
+              type="number"
+              id="maxClicks"
+              inputMode="numeric"
+              min={URL_MAX_CLICKS_LIMITS.MIN}
+              max={URL_MAX_CLICKS_LIMITS.MAX}
+              placeholder="Unlimited"
+              {...register("maxClicks")}
+              className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            />
+            {errors.maxClicks ? (
+              <p className="mt-1 text-sm text-red-600">
+                {errors.maxClicks.message}
+              </p>
+            ) : (
+              <p className="mt-1 text-xs text-gray-500">
+                The link stops working after this many clicks
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label
+              htmlFor="tags"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Tags (Optional)
+            </label>
+            <Controller
+              name="tags"
+              control={control}
+              render={({ field }) => (
+                <TagInput
+                  id="tags"
+                  value={field.value ?? []}
+                  onChange={field.onChange}
+                  suggestions={tagNames}
+                  error={errors.tags?.message}
+                />
+              )}
+            />
           </div>
 
           <div>
             <label
-              htmlFor="expiryDate"
+              htmlFor="password"
               className="block text-sm font-medium text-gray-700 mb-1"
             >
-              Expiry Date
+              Password (Optional)
             </label>
             <input
-              type="date"
-              id="expiryDate"
-              {...register("expiryDate")}
-              min={new Date().toISOString().split("T")[0]}
+              type="password"
+              id="password"
+              autoComplete="new-password"
+              placeholder="Leave blank for a public link"
+              {...register("password")}
               className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             />
-            {errors.expiryDate && (
+            {errors.password && (
               <p className="mt-1 text-sm text-red-600">
-                {errors.expiryDate.message}
+                {errors.password.message}
               </p>
             )}
           </div>
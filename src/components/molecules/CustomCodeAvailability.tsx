@@ -0,0 +1,88 @@
+"use client";
+
+import React from "react";
+import type { CustomCodeAvailabilityStatus } from "@/hooks/url/useCustomCodeAvailability";
+import {
+  RiCheckboxCircleLine,
+  RiErrorWarningLine,
+  RiLoader4Line,
+} from "react-icons/ri";
+
+/**
+ * CustomCodeAvailability props
+ * @interface CustomCodeAvailabilityProps
+ */
+interface CustomCodeAvailabilityProps {
+  /** State of the availability check */
+  status: CustomCodeAvailabilityStatus;
+  /** Why the code cannot be used */
+  message?: string;
+  /** Whether to show the message, e.g. false when the field already shows an error */
+  showMessage?: boolean;
+  /** Available alternatives */
+  suggestions: string[];
+  /** Function to call with the suggestion picked */
+  onSelectSuggestion: (code: string) => void;
+  /** Optional additional CSS classes */
+  className?: string;
+}
+
+/**
+ * CustomCodeAvailability Component
+ * @description Shows under a custom code field whether the code is free, and offers available
+ * alternatives when it is taken, reserved or not allowed
+ */
+const CustomCodeAvailability: React.FC<CustomCodeAvailabilityProps> = ({
+  status,
+  message,
+  showMessage = true,
+  suggestions,
+  onSelectSuggestion,
+  className = "",
+}) => {
+  if (status === "idle") return null;
+
+  return (
+    <div className={`mt-1 text-xs ${className}`} aria-live="polite">
+      {status === "checking" && (
+        <p className="flex items-center gap-1 text-gray-500">
+          <RiLoader4Line className="animate-spin" aria-hidden />
+          Checking availability...
+        </p>
+      )}
+      {status === "available" && (
+        <p className="flex items-center gap-1 text-green-600">
+          <RiCheckboxCircleLine aria-hidden />
+          This custom code is available
+        </p>
+      )}
+      {status === "unavailable" && (
+        <>
+          {showMessage && (
+            <p className="flex items-center gap-1 text-red-600">
+              <RiErrorWarningLine aria-hidden />
+              {message ?? "This custom code cannot be used"}
+            </p>
+          )}
+          {suggestions.length > 0 && (
+            <div className="mt-1 flex flex-wrap items-center gap-2">
+              <span className="text-gray-600">Try:</span>
+              {suggestions.map((suggestion) => (
+                <button
+                  key={suggestion}
+                  type="button"
+                  onClick={() => onSelectSuggestion(suggestion)}
+                  className="rounded-full border border-blue-200 bg-blue-50 px-2 py-0.5 font-mono text-blue-700 hover:bg-blue-100"
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CustomCodeAvailability;
@@ -2,25 +2,62 @@ import React, { useState, useCallback } from "react";
 import { motion } from "framer-motion";
 import { FiCalendar, FiChevronDown } from "react-icons/fi";
 
-interface DateRangePickerProps {
+type DefaultPeriod = "7" | "14" | "30" | "90";
+
+/**
+ * Preset period offered by the picker
+ */
+export interface DateRangePreset<T extends string> {
+  value: T;
+  label: string;
+  /** Days covered by the preset in ISO format */
+  getRange: () => { start: string; end: string };
+}
+
+interface DateRangePickerProps<T extends string> {
   startDate?: string;
   endDate?: string;
-  comparison?: "7" | "14" | "30" | "90" | "custom";
+  comparison?: T | "custom";
   onDateChange: (startDate: string, endDate: string) => void;
-  onComparisonChange: (comparison: "7" | "14" | "30" | "90" | "custom") => void;
+  onComparisonChange: (comparison: T | "custom") => void;
   customComparisonStart?: string;
   customComparisonEnd?: string;
   onCustomComparisonChange?: (start: string, end: string) => void;
+  presets: DateRangePreset<T>[];
+  onClear?: () => void;
+  placeholder?: string;
   className?: string;
 }
 
-const comparisonOptions = [
-  { value: "7", label: "Last 7 days" },
-  { value: "14", label: "Last 14 days" },
-  { value: "30", label: "Last 30 days" },
-  { value: "90", label: "Last 90 days" },
-  { value: "custom", label: "Custom range" },
-] as const;
+/**
+ * Get today's date in ISO format
+ */
+const getTodayISO = (): string => {
+  return new Date().toISOString().split("T")[0];
+};
+
+/**
+ * Get date N days ago in ISO format
+ */
+const getDaysAgoISO = (days: number): string => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date.toISOString().split("T")[0];
+};
+
+/**
+ * Presets for the last 7, 14, 30 and 90 days, the comparison periods of the analytics
+ */
+export const defaultPresets: DateRangePreset<DefaultPeriod>[] = (
+  ["7", "14", "30", "90"] as const
+).map((period) => ({
+  value: period,
+  label: `Last ${period} days`,
+  getRange: () => ({
+    start: getDaysAgoISO(parseInt(period)),
+    end: getTodayISO(),
+  }),
+}));
 
 /**
  * Date Range Picker Component
@@ -33,10 +70,13 @@ const comparisonOptions = [
  * @param customComparisonStart - Custom comparison start date
  * @param customComparisonEnd - Custom comparison end date
  * @param onCustomComparisonChange - Callback for custom comparison changes
+ * @param presets - Preset periods, typed like the comparison; see defaultPresets
+ * @param onClear - Callback to clear the range, shows a clear button when set
+ * @param placeholder - Text shown when no range is selected
  * @param className - Additional CSS classes
  * @returns React component
  */
-const DateRangePicker: React.FC<DateRangePickerProps> = ({
+const DateRangePicker = <T extends string>({
   startDate,
   endDate,
   comparison,
@@ -45,8 +85,11 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({
   customComparisonStart,
   customComparisonEnd,
   onCustomComparisonChange,
+  presets,
+  onClear,
+  placeholder = "Select date range",
   className = "",
-}) => {
+}: DateRangePickerProps<T>) => {
   const [isOpen, setIsOpen] = useState(false);
 
   /**
@@ -61,36 +104,27 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({
     });
   }, []);
 
-  /**
-   * Get today's date in ISO format
-   */
-  const getTodayISO = (): string => {
-    return new Date().toISOString().split("T")[0];
-  };
-
-  /**
-   * Get date N days ago in ISO format
-   */
-  const getDaysAgoISO = (days: number): string => {
-    const date = new Date();
-    date.setDate(date.getDate() - days);
-    return date.toISOString().split("T")[0];
-  };
-
   /**
    * Handle preset period selection
    */
   const handlePresetSelect = useCallback(
-    (period: "7" | "14" | "30" | "90") => {
-      const end = getTodayISO();
-      const start = getDaysAgoISO(parseInt(period));
+    (preset: DateRangePreset<T>) => {
+      const { start, end } = preset.getRange();
       onDateChange(start, end);
-      onComparisonChange(period);
+      onComparisonChange(preset.value);
       setIsOpen(false);
     },
     [onDateChange, onComparisonChange]
   );
 
+  /**
+   * Handle clearing the range
+   */
+  const handleClear = useCallback(() => {
+    onClear?.();
+    setIsOpen(false);
+  }, [onClear]);
+
   /**
    * Handle custom date range
    */
@@ -116,13 +150,13 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({
       return `${formatDate(startDate)} - ${formatDate(endDate)}`;
     }
     if (comparison && comparison !== "custom") {
-      const option = comparisonOptions.find((opt) => opt.value === comparison);
+      const option = presets.find((opt) => opt.value === comparison);
       return option?.label ?? "Select period";
     }
     if (comparison === "custom") {
       return "Custom range - Select dates";
     }
-    return "Select date range";
+    return placeholder;
   };
 
   return (
@@ -155,12 +189,10 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({
           <div className="p-2">
             {/* Preset Options */}
             <div className="space-y-1 mb-3">
-              {comparisonOptions.slice(0, -1).map((option) => (
+              {presets.map((option) => (
                 <button
                   key={option.value}
-                  onClick={() =>
-                    handlePresetSelect(option.value as "7" | "14" | "30" | "90")
-                  }
+                  onClick={() => handlePresetSelect(option)}
                   className={`w-full text-left px-3 py-2 text-sm rounded-md transition-colors ${
                     comparison === option.value
                       ? "bg-blue-100 text-blue-700"
@@ -289,6 +321,18 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({
                 </motion.div>
               )}
             </div>
+
+            {/* Clear Range */}
+            {onClear && (startDate || endDate) && (
+              <div className="border-t border-gray-200 pt-2 mt-3">
+                <button
+                  onClick={handleClear}
+                  className="w-full text-left px-3 py-2 text-sm rounded-md transition-colors hover:bg-gray-100 text-gray-700"
+                >
+                  Clear dates
+                </button>
+              </div>
+            )}
           </div>
         </motion.div>
       )}
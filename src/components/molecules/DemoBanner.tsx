@@ -0,0 +1,43 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { RiInformationLine } from "react-icons/ri";
+
+/**
+ * DemoBanner component props interface
+ */
+interface DemoBannerProps {
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * DemoBanner component
+ * @description Tells visitors of the public demo that they are looking at sample data
+ * @param props - Component properties
+ * @returns DemoBanner component
+ */
+const DemoBanner: React.FC<DemoBannerProps> = ({ className = "" }) => {
+  return (
+    <div
+      className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-black text-white px-4 py-3 rounded-lg ${className}`}
+    >
+      <div className="flex items-center gap-2 text-sm">
+        <RiInformationLine className="h-5 w-5 flex-shrink-0" />
+        <span>
+          You&apos;re exploring a demo with sample data. Changes are lost when
+          you leave this page.
+        </span>
+      </div>
+      <Link
+        href="/register"
+        className="inline-flex justify-center bg-white text-black text-sm font-medium px-4 py-2 rounded-md hover:bg-gray-200 transition-colors"
+      >
+        Create a free account
+      </Link>
+    </div>
+  );
+};
+
+export default DemoBanner;
@@ -0,0 +1,121 @@
+"use client";
+
+import React from "react";
+import { formatDistanceToNow } from "date-fns";
+import type { Url } from "@/interfaces/url";
+import { truncateUrl } from "@/utils/urlFormatter";
+import { RiEyeLine, RiFileCopyLine, RiQrCodeLine } from "react-icons/ri";
+
+/**
+ * DuplicateUrlNotice props
+ * @interface DuplicateUrlNoticeProps
+ */
+interface DuplicateUrlNoticeProps {
+  /** Existing URLs pointing to the same page, most clicked first */
+  matches: Url[];
+  /** Function to call to use an existing URL instead of creating one */
+  onReuse: (url: Url) => void;
+  /** Label of the reuse action */
+  reuseLabel?: string;
+  /** Function to call to create a QR code for an existing URL, hides the action when omitted */
+  onCreateQr?: (url: Url) => void;
+  /** Function to call to create the new URL regardless */
+  onCreateAnyway: () => void;
+  /** Optional additional CSS classes */
+  className?: string;
+}
+
+/**
+ * DuplicateUrlNotice Component
+ * @description Warns that links to the destination being typed already exist, since another link
+ * would split its clicks, and offers to use one of them instead
+ */
+const DuplicateUrlNotice: React.FC<DuplicateUrlNoticeProps> = ({
+  matches,
+  onReuse,
+  reuseLabel = "Reuse Existing",
+  onCreateQr,
+  onCreateAnyway,
+  className = "",
+}) => (
+  <div
+    className={`rounded-md border border-amber-200 bg-amber-50 p-3 text-left ${className}`}
+    aria-live="polite"
+  >
+    <p className="text-sm font-medium text-amber-900">
+      {matches.length === 1
+        ? "You already have a link to this page"
+        : `You already have ${matches.length} links to this page`}
+    </p>
+    <p className="text-xs text-amber-800">
+      Another link would split its clicks across short codes.
+    </p>
+
+    <ul className="mt-2 space-y-2">
+      {matches.map((url) => (
+        <li
+          key={url.id}
+          className="rounded-md border border-amber-100 bg-white p-2 text-sm"
+        >
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <p className="truncate font-medium text-gray-900">
+                {url.title || url.short_code}
+              </p>
+              <p className="truncate font-mono text-xs text-blue-600">
+                {url.short_url.replace(/^https?:\/\//, "")}
+              </p>
+              <p
+                className="truncate text-xs text-gray-500"
+                title={url.original_url}
+              >
+                {truncateUrl(url.original_url, 45)}
+              </p>
+            </div>
+            <div className="flex-shrink-0 text-right text-xs text-gray-500">
+              <p className="flex items-center justify-end gap-1">
+                <RiEyeLine aria-hidden />
+                {url.clicks.toLocaleString()} clicks
+              </p>
+              <p>
+                {formatDistanceToNow(new Date(url.created_at), {
+                  addSuffix: true,
+                })}
+              </p>
+            </div>
+          </div>
+          <div className="mt-2 flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => onReuse(url)}
+              className="inline-flex items-center gap-1 rounded border border-blue-600 px-2 py-1 text-xs text-blue-600 hover:bg-blue-50"
+            >
+              <RiFileCopyLine aria-hidden />
+              {reuseLabel}
+            </button>
+            {onCreateQr && (
+              <button
+                type="button"
+                onClick={() => onCreateQr(url)}
+                className="inline-flex items-center gap-1 rounded border border-gray-300 px-2 py-1 text-xs text-gray-700 hover:bg-gray-50"
+              >
+                <RiQrCodeLine aria-hidden />
+                Create QR for Existing
+              </button>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+
+    <button
+      type="button"
+      onClick={onCreateAnyway}
+      className="mt-2 text-xs font-medium text-amber-900 underline hover:text-amber-700"
+    >
+      Create a new link anyway
+    </button>
+  </div>
+);
+
+export default DuplicateUrlNotice;
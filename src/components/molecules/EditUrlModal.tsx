@@ -3,13 +3,33 @@
 import Button from "@/components/atoms/Button";
 import Modal from "@/components/atoms/Modal";
 import InputWithCharacterCounter from "@/components/atoms/InputWithCharacterCounter";
+import TagInput from "@/components/molecules/TagInput";
+import UtmBuilder from "@/components/molecules/UtmBuilder";
+import UrlSafetyPanel from "@/components/molecules/UrlSafetyPanel";
+import CustomCodeAvailability from "@/components/molecules/CustomCodeAvailability";
 import { EditUrlFormData, Url } from "@/interfaces/url";
 import { zodResolver } from "@hookform/resolvers/zod";
-import React, { useState } from "react";
-import { useForm } from "react-hook-form";
-import { RiEditLine, RiLinkM } from "react-icons/ri";
+import React, { useMemo, useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import { RiEditLine, RiLinkM, RiLockLine } from "react-icons/ri";
 import { z } from "zod";
 import { URL_CUSTOM_CODE_LIMITS, URL_DISPLAY_CONFIG } from "@/config/urlLimits";
+import { URL_FORM_FIELD_MAP, URL_MAX_CLICKS_LIMITS } from "@/config/url";
+import { useApiErrorHandler } from "@/hooks/useApiErrorHandler";
+import { useUrlTags } from "@/hooks/url/useUrlTags";
+import { useCustomCodeAvailability } from "@/hooks/url/useCustomCodeAvailability";
+import Checkbox from "@/components/atoms/Checkbox";
+import {
+  refineActivationWindow,
+  urlActivationSchema,
+  urlCustomCodeSchema,
+  urlMaxClicksSchema,
+  urlPasswordSchema,
+  urlTagsSchema,
+} from "@/schemas/urlForm";
+import { formatDateTimeForInput } from "@/utils/dateFormatter";
+import { getRemainingClicks } from "@/utils/urlStatus";
+import { analyzeUrlSafety } from "@/utils/urlSafety";
 
 /**
  * EditUrlModalProps interface
@@ -21,29 +41,26 @@ interface EditUrlModalProps {
   isOpen: boolean;
   /** Function to call when creation is canceled */
   onClose: () => void;
-  /** Function to call when form is submitted */
-  onSubmit: (data: EditUrlFormData) => void;
+  /** Function to call when form is submitted, rejecting keeps the modal open with the error shown */
+  onSubmit: (data: EditUrlFormData) => Promise<void>;
   /** Whether creation is in progress */
   isEditing?: boolean;
 }
 
 // Zod schema for form validation
-const EditUrlSchema = z.object({
-  title: z.string().min(1, "Title is required"),
-  originalUrl: z.string().url("Please enter a valid URL"),
-  customCode: z
-    .string()
-    .optional()
-    .refine(
-      (value) => !value || /^[a-zA-Z0-9-]+$/.test(value),
-      "Custom code must contain only letters, numbers, and hyphens"
-    )
-    .refine(
-      (value) => !value || value.length <= 30,
-      "Custom code must be 30 characters or less"
-    ),
-  expiryDate: z.string().min(1, "Expiry date is required"),
-});
+const EditUrlSchema = z
+  .object({
+    title: z.string().min(1, "Title is required"),
+    originalUrl: z.string().url("Please enter a valid URL"),
+    customCode: urlCustomCodeSchema,
+    expiryDate: z.string().min(1, "Expiry date is required"),
+    activatesAt: urlActivationSchema,
+    maxClicks: urlMaxClicksSchema,
+    tags: urlTagsSchema,
+    password: urlPasswordSchema,
+    removePassword: z.boolean().optional(),
+  })
+  .superRefine(refineActivationWindow);
 
 type EditUrlFormSchema = z.infer<typeof EditUrlSchema>;
 
@@ -87,6 +104,9 @@ const EditUrlModal: React.FC<EditUrlModalProps> = ({
     formState: { errors },
     reset,
     watch,
+    setError,
+    setValue,
+    control,
   } = useForm<EditUrlFormSchema>({
     resolver: zodResolver(EditUrlSchema),
     defaultValues: {
@@ -94,12 +114,53 @@ const EditUrlModal: React.FC<EditUrlModalProps> = ({
       originalUrl: "",
       customCode: "",
       expiryDate: "",
+      activatesAt: "",
+      maxClicks: "",
+      tags: [],
+      password: "",
+      removePassword: false,
     },
   });
 
+  const { handleApiError } = useApiErrorHandler();
+
+  // Existing tags, suggested while typing
+  const { tagNames } = useUrlTags(isOpen);
+
   // Watch customCode value for character counter
   const customCodeValue = watch("customCode");
 
+  // Watch originalUrl value for the UTM builder
+  const originalUrlValue = watch("originalUrl");
+
+  // Custom codes are checked while typing, the current code of the URL is kept
+  // available
+  const titleValue = watch("title");
+  const codeAvailability = useCustomCodeAvailability({
+    code: customCodeValue ?? "",
+    title: titleValue,
+    originalUrl: originalUrlValue,
+    url,
+    enabled: isOpen,
+  });
+
+  const handleSelectCodeSuggestion = (code: string) => {
+    setValue("customCode", code, { shouldDirty: true, shouldValidate: true });
+  };
+
+  const handleUtmChange = (url: string) => {
+    setValue("originalUrl", url, { shouldDirty: true, shouldValidate: true });
+  };
+
+  const safetyReport = useMemo(
+    () => analyzeUrlSafety(originalUrlValue ?? ""),
+    [originalUrlValue]
+  );
+
+  const isPasswordProtected = !!url?.is_password_protected;
+  const remainingClicks = url ? getRemainingClicks(url) : null;
+  const removePasswordValue = watch("removePassword");
+
   // Effect to populate form when URL changes or modal opens
   React.useEffect(() => {
     if (url && isOpen) {
@@ -112,6 +173,11 @@ const EditUrlModal: React.FC<EditUrlModalProps> = ({
         originalUrl: url.original_url || "",
         customCode: url.short_code || "", // Use short_code instead of customDomain
         expiryDate: formattedExpiryDate,
+        activatesAt: formatDateTimeForInput(url.activates_at),
+        maxClicks: url.max_clicks?.toString() ?? "",
+        tags: url.tags ?? [],
+        password: "",
+        removePassword: false,
       };
 
       // Reset form with URL data
@@ -132,6 +198,11 @@ const EditUrlModal: React.FC<EditUrlModalProps> = ({
           originalUrl: url.original_url || "",
           customCode: url.short_code || "", // Use short_code instead of customDomain
           expiryDate: formattedExpiryDate,
+          activatesAt: formatDateTimeForInput(url.activates_at),
+          maxClicks: url.max_clicks?.toString() ?? "",
+          tags: url.tags ?? [],
+          password: "",
+          removePassword: false,
         });
       }, 100);
     }
@@ -145,6 +216,11 @@ const EditUrlModal: React.FC<EditUrlModalProps> = ({
         originalUrl: "",
         customCode: "",
         expiryDate: "",
+        activatesAt: "",
+        maxClicks: "",
+        tags: [],
+        password: "",
+        removePassword: false,
       });
     }
   }, [isOpen, reset]);
@@ -164,7 +240,13 @@ const EditUrlModal: React.FC<EditUrlModalProps> = ({
       currentValues.title !== url?.title ||
       currentValues.originalUrl !== url?.original_url ||
       currentValues.customCode !== url?.short_code ||
-      currentValues.expiryDate !== formattedUrlExpiryDate;
+      currentValues.expiryDate !== formattedUrlExpiryDate ||
+      currentValues.activatesAt !==
+        formatDateTimeForInput(url?.activates_at) ||
+      currentValues.maxClicks !== (url?.max_clicks?.toString() ?? "") ||
+      (currentValues.tags ?? []).join(",") !== (url?.tags ?? []).join(",") ||
+      !!currentValues.password ||
+      !!currentValues.removePassword;
 
     setHasChanges(hasValueChanged);
   }, [
@@ -172,10 +254,18 @@ const EditUrlModal: React.FC<EditUrlModalProps> = ({
     currentValues.originalUrl,
     currentValues.customCode,
     currentValues.expiryDate,
+    currentValues.activatesAt,
+    currentValues.maxClicks,
+    currentValues.tags,
+    currentValues.password,
+    currentValues.removePassword,
     url?.title,
     url?.original_url,
     url?.short_code,
     url?.expiry_date,
+    url?.activates_at,
+    url?.max_clicks,
+    url?.tags,
   ]);
 
   /**
@@ -187,6 +277,11 @@ const EditUrlModal: React.FC<EditUrlModalProps> = ({
       originalUrl: "",
       customCode: "",
       expiryDate: "",
+      activatesAt: "",
+      maxClicks: "",
+      tags: [],
+      password: "",
+      removePassword: false,
     });
     setHasChanges(false);
   };
@@ -195,9 +290,32 @@ const EditUrlModal: React.FC<EditUrlModalProps> = ({
    * Handle form submission
    * @param {EditUrlFormSchema} data - The form data
    */
-  const handleFormSubmit = (data: EditUrlFormSchema) => {
-    onSubmit(data);
-    reset();
+  const handleFormSubmit = async ({
+    activatesAt,
+    maxClicks,
+    password,
+    removePassword,
+    ...data
+  }: EditUrlFormSchema) => {
+    try {
+      await onSubmit({
+        ...data,
+        // Only a changed activation time is sent, an empty one removes it
+        activatesAt:
+          activatesAt !== formatDateTimeForInput(url?.activates_at)
+            ? activatesAt
+            : undefined,
+        maxClicks:
+          maxClicks !== (url?.max_clicks?.toString() ?? "")
+            ? maxClicks
+            : undefined,
+        // The current password is kept unless a new one is typed or it is removed
+        password: removePassword ? null : password || undefined,
+      });
+      reset();
+    } catch (error) {
+      handleApiError(error, { setError, fieldMap: URL_FORM_FIELD_MAP });
+    }
   };
 
   /**
@@ -238,7 +356,7 @@ const EditUrlModal: React.FC<EditUrlModalProps> = ({
           <Button
             variant="primary"
             onClick={handleSubmit(handleFormSubmit)}
-            disabled={isEditing}
+            disabled={isEditing || codeAvailability.status === "unavailable"}
             loading={isEditing}
             startIcon={<RiEditLine />}
           >
@@ -298,6 +416,15 @@ const EditUrlModal: React.FC<EditUrlModalProps> = ({
                 {errors.originalUrl.message}
               </p>
             )}
+            {safetyReport && (
+              <UrlSafetyPanel report={safetyReport} className="mt-2" />
+            )}
+            <div className="mt-2">
+              <UtmBuilder
+                url={originalUrlValue ?? ""}
+                onChange={handleUtmChange}
+              />
+            </div>
           </div>
 
           <div>
@@ -326,26 +453,144 @@ const EditUrlModal: React.FC<EditUrlModalProps> = ({
                 />
               </div>
             </div>
+            <CustomCodeAvailability
+              {...codeAvailability}
+              showMessage={!errors.customCode}
+              onSelectSuggestion={handleSelectCodeSuggestion}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label
+                htmlFor="expiryDate"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Expiry Date
+              </label>
+              <input
+                type="date"
+                id="expiryDate"
+                {...register("expiryDate")}
+                min={new Date().toISOString().split("T")[0]}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+              {errors.expiryDate && (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors.expiryDate.message}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label
+                htmlFor="activatesAt"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Go Live At
+              </label>
+              <input
+                type="datetime-local"
+                id="activatesAt"
+                {...register("activatesAt")}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+              {errors.activatesAt ? (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors.activatesAt.message}
+                </p>
+              ) : (
+                <p className="mt-1 text-xs text-gray-500">
+                  Leave blank to keep the link live
+                </p>
+              )}
+            </div>
           </div>
 
           <div>
             <label
-              htmlFor="expiryDate"
+              htmlFor="maxClicks"
               className="block text-sm font-medium text-gray-700 mb-1"
             >
-              Expiry Date
+              Max Clicks
             </label>
             <input
-              type="date"
-              id="expiryDate"
-              {...register("expiryDate")}
-              min={new Date().toISOString().split("T")[0]}
+              type="number"
+              id="maxClicks"
+              inputMode="numeric"
+              min={URL_MAX_CLICKS_LIMITS.MIN}
+              max={URL_MAX_CLICKS_LIMITS.MAX}
+              placeholder="Unlimited"
+              {...register("maxClicks")}
               className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             />
-            {errors.expiryDate && (
+            {errors.maxClicks ? (
               <p className="mt-1 text-sm text-red-600">
-                {errors.expiryDate.message}
+                {errors.maxClicks.message}
               </p>
+            ) : (
+              <p className="mt-1 text-xs text-gray-500">
+                {remainingClicks === null
+                  ? "Leave blank for unlimited clicks"
+                  : `${remainingClicks.toLocaleString()} of ${url?.max_clicks?.toLocaleString()} clicks left`}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label
+              htmlFor="tags"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Tags
+            </label>
+            <Controller
+              name="tags"
+              control={control}
+              render={({ field }) => (
+                <TagInput
+                  id="tags"
+                  value={field.value ?? []}
+                  onChange={field.onChange}
+                  suggestions={tagNames}
+                  error={errors.tags?.message}
+                />
+              )}
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="password"
+              className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-1"
+            >
+              {isPasswordProtected && <RiLockLine aria-hidden="true" />}
+              {isPasswordProtected ? "New Password" : "Password (Optional)"}
+            </label>
+            <input
+              type="password"
+              id="password"
+              autoComplete="new-password"
+              placeholder={
+                isPasswordProtected
+                  ? "Leave blank to keep the current password"
+                  : "Leave blank for a public link"
+              }
+              {...register("password", { disabled: removePasswordValue })}
+              className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+            />
+            {errors.password && (
+              <p className="mt-1 text-sm text-red-600">
+                {errors.password.message}
+              </p>
+            )}
+            {isPasswordProtected && (
+              <Checkbox
+                id="removePassword"
+                label="Remove password protection"
+                containerClassName="mt-2"
+                {...register("removePassword")}
+              />
             )}
           </div>
         </form>
@@ -0,0 +1,186 @@
+"use client";
+
+import React, { useState } from "react";
+import Modal from "@/components/atoms/Modal";
+import Button from "@/components/atoms/Button";
+import Checkbox from "@/components/atoms/Checkbox";
+import { useUrlExport } from "@/hooks/url/useUrlExport";
+import type { UrlFilter } from "@/interfaces/url";
+import type {
+  UrlExportColumn,
+  UrlExportDateFormat,
+  UrlExportFormat,
+} from "@/interfaces/urlExport";
+import {
+  URL_EXPORT_COLUMNS,
+  URL_EXPORT_DATE_FORMATS,
+  URL_EXPORT_FORMATS,
+} from "@/config/urlExport";
+import { RiDownloadLine } from "react-icons/ri";
+
+/**
+ * ExportUrlsModal props
+ * @interface ExportUrlsModalProps
+ */
+interface ExportUrlsModalProps {
+  /** Whether the modal is visible */
+  isOpen: boolean;
+  /** Function to call when the modal is closed */
+  onClose: () => void;
+  /** Current URL filter of the list */
+  filter: Partial<UrlFilter>;
+  /** Number of URLs matching the filter */
+  matchingCount?: number;
+}
+
+/**
+ * ExportUrlsModal Component
+ * @description Exports every URL matching the current search, filters and sort, with the
+ * format, columns and date format picked by the user
+ */
+const ExportUrlsModal: React.FC<ExportUrlsModalProps> = ({
+  isOpen,
+  onClose,
+  filter,
+  matchingCount,
+}) => {
+  const { exportUrls, isExporting } = useUrlExport();
+  const [format, setFormat] = useState<UrlExportFormat>("csv");
+  const [dateFormat, setDateFormat] = useState<UrlExportDateFormat>("iso");
+  const [columns, setColumns] = useState<UrlExportColumn[]>(
+    URL_EXPORT_COLUMNS.map((column) => column.key)
+  );
+
+  const handleToggleColumn = (column: UrlExportColumn, selected: boolean) => {
+    // Keep the columns in their default order whatever the click order
+    setColumns((prev) =>
+      URL_EXPORT_COLUMNS.map((item) => item.key).filter((key) =>
+        key === column ? selected : prev.includes(key)
+      )
+    );
+  };
+
+  const handleClose = () => {
+    if (isExporting) return;
+    onClose();
+  };
+
+  const handleExport = async () => {
+    const exported = await exportUrls(filter, { format, columns, dateFormat });
+    if (exported) onClose();
+  };
+
+  return (
+    <Modal
+      title="Export URLs"
+      isOpen={isOpen}
+      onClose={handleClose}
+      variant="default"
+      size="md"
+      overlayStyle="glassmorphism"
+      footer={
+        <>
+          <Button
+            variant="secondary"
+            onClick={handleClose}
+            disabled={isExporting}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleExport}
+            disabled={isExporting || columns.length === 0}
+            loading={isExporting}
+            startIcon={<RiDownloadLine />}
+          >
+            {isExporting ? "Exporting..." : "Export"}
+          </Button>
+        </>
+      }
+    >
+      <div className="flex flex-col gap-5 py-2 text-sm">
+        <p className="text-gray-600">
+          {matchingCount !== undefined
+            ? `${matchingCount} URL${matchingCount === 1 ? "" : "s"}`
+            : "Every URL"}{" "}
+          matching the current search and filters will be exported, in the
+          current sort order.
+        </p>
+
+        <fieldset>
+          <legend className="mb-2 font-medium text-gray-900">Format</legend>
+          <div className="flex flex-wrap gap-4">
+            {(Object.keys(URL_EXPORT_FORMATS) as UrlExportFormat[]).map(
+              (key) => (
+                <label
+                  key={key}
+                  className="flex cursor-pointer items-center gap-2 text-gray-700"
+                >
+                  <input
+                    type="radio"
+                    name="url-export-format"
+                    value={key}
+                    checked={format === key}
+                    onChange={() => setFormat(key)}
+                    className="h-4 w-4 border-gray-300 text-black focus:ring-black"
+                  />
+                  {`${URL_EXPORT_FORMATS[key].label} (.${URL_EXPORT_FORMATS[key].extension})`}
+                </label>
+              )
+            )}
+          </div>
+        </fieldset>
+
+        <fieldset>
+          <legend className="mb-2 font-medium text-gray-900">Columns</legend>
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+            {URL_EXPORT_COLUMNS.map(({ key, label }) => (
+              <Checkbox
+                key={key}
+                id={`url-export-column-${key}`}
+                label={label}
+                checked={columns.includes(key)}
+                onChange={(event) =>
+                  handleToggleColumn(key, event.target.checked)
+                }
+              />
+            ))}
+          </div>
+          {columns.length === 0 && (
+            <p className="mt-2 text-xs text-red-600">
+              Choose at least one column
+            </p>
+          )}
+        </fieldset>
+
+        <div>
+          <label
+            htmlFor="url-export-date-format"
+            className="mb-2 block font-medium text-gray-900"
+          >
+            Date format
+          </label>
+          <select
+            id="url-export-date-format"
+            value={dateFormat}
+            onChange={(event) =>
+              setDateFormat(event.target.value as UrlExportDateFormat)
+            }
+            className="w-full rounded-md border border-gray-300 bg-white px-3 py-2"
+          >
+            {(
+              Object.keys(URL_EXPORT_DATE_FORMATS) as UrlExportDateFormat[]
+            ).map((key) => (
+              <option key={key} value={key}>
+                {URL_EXPORT_DATE_FORMATS[key]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ExportUrlsModal;
@@ -0,0 +1,321 @@
+"use client";
+
+import React from "react";
+import Modal from "@/components/atoms/Modal";
+import Button from "@/components/atoms/Button";
+import { useUrlImport } from "@/hooks/url/useUrlImport";
+import type { UrlImportRow, UrlImportRowStatus } from "@/interfaces/urlImport";
+import { URL_IMPORT_LIMITS, URL_IMPORT_TEMPLATE } from "@/config/urlImport";
+import { downloadTextFile, toCsv } from "@/utils/csv";
+import {
+  RiDownloadLine,
+  RiFileUploadLine,
+  RiRefreshLine,
+  RiUploadCloud2Line,
+} from "react-icons/ri";
+
+/**
+ * ImportUrlsModal props
+ * @interface ImportUrlsModalProps
+ */
+interface ImportUrlsModalProps {
+  /** Whether the modal is visible */
+  isOpen: boolean;
+  /** Function to call when the modal is closed */
+  onClose: () => void;
+  /** Function to call on close when at least one URL was created */
+  onImported?: (createdCount: number) => void;
+}
+
+/**
+ * Label and colors of each row status
+ */
+const ROW_STATUS_STYLES: Record<
+  UrlImportRowStatus,
+  { label: string; className: string }
+> = {
+  invalid: { label: "Invalid", className: "bg-red-100 text-red-700" },
+  ready: { label: "Ready", className: "bg-gray-100 text-gray-700" },
+  creating: { label: "Creating...", className: "bg-blue-100 text-blue-700" },
+  created: { label: "Created", className: "bg-green-100 text-green-700" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-700" },
+};
+
+/**
+ * Cell of the preview table with the error of its field
+ * @param props - Cell value and error
+ * @returns Table cell
+ */
+const PreviewCell: React.FC<{ value?: string; error?: string }> = ({
+  value,
+  error,
+}) => (
+  <td className="px-3 py-2 align-top">
+    <div
+      className={`max-w-[200px] truncate ${error ? "text-red-700" : "text-gray-900"}`}
+      title={value}
+    >
+      {value || <span className="text-gray-400">—</span>}
+    </div>
+    {error && <div className="mt-1 text-xs text-red-600">{error}</div>}
+  </td>
+);
+
+/**
+ * Row of the preview table
+ * @param props - Import row
+ * @returns Table row
+ */
+const PreviewRow: React.FC<{ row: UrlImportRow }> = ({ row }) => {
+  const status = ROW_STATUS_STYLES[row.status];
+
+  return (
+    <tr className="border-t border-gray-100">
+      <td className="px-3 py-2 align-top text-gray-500">{row.rowNumber}</td>
+      <PreviewCell value={row.data.originalUrl} error={row.errors.originalUrl} />
+      <PreviewCell value={row.data.customCode} error={row.errors.customCode} />
+      <PreviewCell value={row.data.title} error={row.errors.title} />
+      <PreviewCell value={row.data.expiryDate} error={row.errors.expiryDate} />
+      <PreviewCell value={row.data.tags?.join(", ")} error={row.errors.tags} />
+      <td className="px-3 py-2 align-top">
+        <span
+          className={`inline-block whitespace-nowrap rounded-full px-2 py-0.5 text-xs font-medium ${status.className}`}
+        >
+          {status.label}
+        </span>
+        {row.error && (
+          <div className="mt-1 max-w-[160px] text-xs text-red-600">
+            {row.error}
+          </div>
+        )}
+        {row.shortUrl && (
+          <div className="mt-1 max-w-[160px] truncate text-xs text-gray-500">
+            {row.shortUrl}
+          </div>
+        )}
+      </td>
+    </tr>
+  );
+};
+
+/**
+ * ImportUrlsModal Component
+ * @description Imports URLs from a CSV file. Rows are validated with the create form rules and
+ * previewed with their errors before anything is created; creation then runs in throttled
+ * batches, and rejected rows can be retried or downloaded as an error report.
+ */
+const ImportUrlsModal: React.FC<ImportUrlsModalProps> = ({
+  isOpen,
+  onClose,
+  onImported,
+}) => {
+  const {
+    rows,
+    fileName,
+    fileError,
+    isImporting,
+    progress,
+    counts,
+    loadFile,
+    startImport,
+    retryFailed,
+    cancelImport,
+    downloadErrorReport,
+    reset,
+  } = useUrlImport();
+
+  const hasRows = rows.length > 0;
+  const progressPercentage =
+    progress.total > 0
+      ? Math.round((progress.completed / progress.total) * 100)
+      : 0;
+
+  const handleClose = () => {
+    if (isImporting) return;
+    if (counts.created > 0) onImported?.(counts.created);
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) loadFile(file);
+    // Allow picking the same file again after fixing it
+    event.target.value = "";
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    const file = event.dataTransfer.files?.[0];
+    if (file) loadFile(file);
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadTextFile(toCsv(URL_IMPORT_TEMPLATE), "cylink-import-template.csv");
+  };
+
+  return (
+    <Modal
+      title="Import URLs from CSV"
+      isOpen={isOpen}
+      onClose={handleClose}
+      variant="default"
+      size="xl"
+      overlayStyle="glassmorphism"
+      footer={
+        <>
+          {isImporting ? (
+            <Button variant="secondary" onClick={cancelImport}>
+              Stop after this batch
+            </Button>
+          ) : (
+            <Button variant="secondary" onClick={handleClose}>
+              {counts.created > 0 ? "Done" : "Cancel"}
+            </Button>
+          )}
+          {counts.invalid + counts.failed > 0 && (
+            <Button
+              variant="outline"
+              onClick={downloadErrorReport}
+              disabled={isImporting}
+              startIcon={<RiDownloadLine />}
+            >
+              Error report
+            </Button>
+          )}
+          {counts.failed > 0 && (
+            <Button
+              variant="outline"
+              onClick={retryFailed}
+              disabled={isImporting}
+              startIcon={<RiRefreshLine />}
+            >
+              Retry failed ({counts.failed})
+            </Button>
+          )}
+          {hasRows && (
+            <Button
+              variant="primary"
+              onClick={startImport}
+              disabled={isImporting || counts.ready === 0}
+              loading={isImporting}
+              startIcon={<RiUploadCloud2Line />}
+            >
+              {isImporting
+                ? `Importing ${progress.completed}/${progress.total}...`
+                : `Import ${counts.ready} URL${counts.ready === 1 ? "" : "s"}`}
+            </Button>
+          )}
+        </>
+      }
+    >
+      <div className="flex flex-col gap-4 py-2">
+        {!hasRows ? (
+          <>
+            <label
+              htmlFor="url-import-file"
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={handleDrop}
+              className="flex cursor-pointer flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed border-gray-300 px-6 py-10 text-center hover:border-gray-400"
+            >
+              <div className="rounded-full bg-blue-100 p-3 text-blue-600">
+                <RiFileUploadLine className="h-6 w-6" />
+              </div>
+              <div className="text-sm font-medium text-gray-900">
+                Drop a CSV file here or click to choose one
+              </div>
+              <div className="text-xs text-gray-500">
+                Columns: original_url, custom_code, title, expiry_date, tags
+                (separated by semicolons). Up to {URL_IMPORT_LIMITS.MAX_ROWS}{" "}
+                rows.
+              </div>
+              <input
+                id="url-import-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                className="hidden"
+              />
+            </label>
+
+            {fileError && (
+              <p className="text-sm text-red-600">
+                {fileName}: {fileError}
+              </p>
+            )}
+
+            <button
+              type="button"
+              onClick={handleDownloadTemplate}
+              className="self-start text-sm font-medium text-blue-600 hover:underline"
+            >
+              Download a template file
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <div className="text-gray-700">
+                <span className="font-medium text-gray-900">{fileName}</span>{" "}
+                · {counts.total} rows · {counts.ready} ready ·{" "}
+                <span className={counts.invalid ? "text-red-600" : undefined}>
+                  {counts.invalid} invalid
+                </span>
+                {counts.created > 0 && ` · ${counts.created} created`}
+                {counts.failed > 0 && (
+                  <span className="text-red-600"> · {counts.failed} failed</span>
+                )}
+              </div>
+              {!isImporting && counts.created === 0 && (
+                <button
+                  type="button"
+                  onClick={reset}
+                  className="text-sm font-medium text-blue-600 hover:underline"
+                >
+                  Choose another file
+                </button>
+              )}
+            </div>
+
+            {progress.total > 0 && (
+              <div>
+                <div className="h-2 w-full overflow-hidden rounded-full bg-gray-100">
+                  <div
+                    className="h-full bg-black transition-all duration-300"
+                    style={{ width: `${progressPercentage}%` }}
+                  />
+                </div>
+                <div className="mt-1 text-xs text-gray-500">
+                  {progress.completed} of {progress.total} processed
+                </div>
+              </div>
+            )}
+
+            <div className="max-h-80 overflow-auto rounded-lg border border-gray-200">
+              <table className="min-w-full text-left text-sm">
+                <thead className="sticky top-0 bg-gray-50 text-xs uppercase text-gray-500">
+                  <tr>
+                    <th className="px-3 py-2">Row</th>
+                    <th className="px-3 py-2">Original URL</th>
+                    <th className="px-3 py-2">Custom code</th>
+                    <th className="px-3 py-2">Title</th>
+                    <th className="px-3 py-2">Expiry</th>
+                    <th className="px-3 py-2">Tags</th>
+                    <th className="px-3 py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <PreviewRow key={row.rowNumber} row={row} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default ImportUrlsModal;
@@ -0,0 +1,66 @@
+"use client";
+
+import React from "react";
+import LinkThumbnail from "@/components/atoms/LinkThumbnail";
+import type { LinkPreview } from "@/interfaces/linkPreview";
+import { RiLoader4Line } from "react-icons/ri";
+
+/**
+ * LinkPreviewCard props
+ * @interface LinkPreviewCardProps
+ */
+interface LinkPreviewCardProps {
+  /** Metadata read from the destination, null while unknown */
+  preview: LinkPreview | null;
+  /** Whether the destination is being read */
+  isLoading?: boolean;
+  /** Optional additional CSS classes */
+  className?: string;
+}
+
+/**
+ * LinkPreviewCard Component
+ * @description Shows how the destination being typed will appear in the link lists, with the
+ * thumbnail and favicon read from its page
+ */
+const LinkPreviewCard: React.FC<LinkPreviewCardProps> = ({
+  preview,
+  isLoading = false,
+  className = "",
+}) => {
+  if (isLoading) {
+    return (
+      <p
+        className={`flex items-center gap-1 text-xs text-gray-500 ${className}`}
+        aria-live="polite"
+      >
+        <RiLoader4Line className="animate-spin" aria-hidden />
+        Reading page details...
+      </p>
+    );
+  }
+
+  if (!preview) return null;
+  const { hostname } = new URL(preview.url);
+
+  return (
+    <div
+      className={`flex items-center gap-3 rounded-md border border-gray-200 bg-gray-50 p-2 text-left ${className}`}
+    >
+      <LinkThumbnail
+        src={preview.image_url}
+        faviconSrc={preview.favicon_url}
+      />
+      <div className="min-w-0">
+        <p className="truncate text-sm font-medium text-gray-900">
+          {preview.title ?? hostname}
+        </p>
+        <p className="truncate text-xs text-gray-500">
+          {preview.site_name ?? hostname}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default LinkPreviewCard;
@@ -13,6 +13,7 @@ import FormDivider from '@/components/atoms/FormDivider'
 import Link from 'next/link'
 import { useAuth } from '@/contexts/AuthContext'
 import { useOAuthTracking } from '@/hooks/useOAuthTracking'
+import { setApiFieldErrors } from '@/utils/apiErrors'
 
 /**
  * Login form schema validation
@@ -54,6 +55,7 @@ const LoginForm: React.FC<LoginFormProps> = ({ className = '' }) => {
   const {
     register,
     handleSubmit,
+    setError,
     formState: { errors }
   } = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -78,8 +80,8 @@ const LoginForm: React.FC<LoginFormProps> = ({ className = '' }) => {
         data.rememberMe
       )
     } catch (error) {
-      // Error is handled by AuthContext
-      console.error('Login error:', error)
+      // The toast is shown by AuthContext, only field errors are left to the form
+      setApiFieldErrors(error, setError)
     }
   }
 
@@ -0,0 +1,242 @@
+"use client";
+
+import React, { useState } from "react";
+import Modal from "@/components/atoms/Modal";
+import Button from "@/components/atoms/Button";
+import Input from "@/components/atoms/Input";
+import { OutboxItem, OutboxMutation } from "@/interfaces/outbox";
+import { URL_FORM_FIELD_MAP } from "@/config/url";
+import { validateCustomCodeFormat } from "@/config/urlLimits";
+import { describeOutboxMutation } from "@/utils/outboxFormatter";
+import { RiAlertLine, RiDeleteBinLine, RiRefreshLine } from "react-icons/ri";
+
+/**
+ * OutboxConflictModal props
+ * @interface OutboxConflictModalProps
+ */
+interface OutboxConflictModalProps {
+  /** Offline changes the server rejected, in the order they were made */
+  conflicts: OutboxItem[];
+  /** Whether the modal is visible */
+  isOpen: boolean;
+  /** Function to call when the modal is closed */
+  onClose: () => void;
+  /** Function to call to send a change again, with corrected data for creates and edits */
+  onRetry: (id: number, mutation?: OutboxMutation) => Promise<void>;
+  /** Function to call to drop a change */
+  onDiscard: (id: number) => Promise<void>;
+}
+
+/**
+ * Form fields that can be corrected before retrying
+ */
+interface ConflictFormValues {
+  originalUrl: string;
+  customCode: string;
+}
+
+/**
+ * Get the form values of a change
+ * @param item - Outbox item under review
+ * @returns Values prefilled from the queued form data
+ */
+const getInitialValues = (item?: OutboxItem): ConflictFormValues =>
+  item?.type === "create" || item?.type === "edit"
+    ? {
+        originalUrl: item.formData.originalUrl,
+        customCode: item.formData.customCode ?? "",
+      }
+    : { originalUrl: "", customCode: "" };
+
+/**
+ * Map the backend field errors of a conflict to the form fields
+ * @param fieldErrors - Field errors keyed by the backend field name
+ * @returns Field errors keyed by the form field name
+ */
+const getFormFieldErrors = (
+  fieldErrors: Record<string, string>
+): Partial<Record<keyof ConflictFormValues, string>> => {
+  const formErrors: Partial<Record<keyof ConflictFormValues, string>> = {};
+
+  Object.entries(fieldErrors).forEach(([name, message]) => {
+    const field = URL_FORM_FIELD_MAP[name as keyof typeof URL_FORM_FIELD_MAP];
+    if (field === "originalUrl" || field === "customCode") {
+      formErrors[field] = message;
+    }
+  });
+
+  return formErrors;
+};
+
+/**
+ * OutboxConflictModal Component
+ * @description Walks the user through offline changes the server rejected, for example a
+ * custom code that was taken in the meantime. Each change can be corrected and sent again,
+ * or discarded.
+ */
+const OutboxConflictModal: React.FC<OutboxConflictModalProps> = ({
+  conflicts,
+  isOpen,
+  onClose,
+  onRetry,
+  onDiscard,
+}) => {
+  const current = conflicts[0];
+  const [reviewedId, setReviewedId] = useState(current?.id);
+  const [values, setValues] = useState(() => getInitialValues(current));
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Prefill the form again when the next change comes up for review
+  if (current && current.id !== reviewedId) {
+    setReviewedId(current.id);
+    setValues(getInitialValues(current));
+    setValidationError(null);
+  }
+
+  if (!current) return null;
+
+  const isEditable = current.type === "create" || current.type === "edit";
+  const fieldErrors = getFormFieldErrors(current.conflict?.fieldErrors ?? {});
+
+  /**
+   * Build the corrected mutation from the form values
+   * @returns Mutation to send, or undefined to resend the stored one
+   */
+  const buildMutation = (): OutboxMutation | undefined => {
+    const corrections = {
+      originalUrl: values.originalUrl.trim(),
+      customCode: values.customCode.trim(),
+    };
+
+    if (current.type === "create") {
+      return {
+        type: "create",
+        formData: { ...current.formData, ...corrections },
+      };
+    }
+
+    if (current.type === "edit") {
+      return {
+        type: "edit",
+        urlId: current.urlId,
+        formData: { ...current.formData, ...corrections },
+      };
+    }
+
+    return undefined;
+  };
+
+  const handleRetry = async () => {
+    const { isValid, error } = validateCustomCodeFormat(values.customCode.trim());
+    if (isEditable && !isValid) {
+      setValidationError(error ?? null);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onRetry(current.id, buildMutation());
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    setIsSubmitting(true);
+    try {
+      await onDiscard(current.id);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="Review offline changes"
+      isOpen={isOpen}
+      onClose={onClose}
+      variant="warning"
+      size="md"
+      overlayStyle="glassmorphism"
+      footer={
+        <>
+          <Button
+            variant="secondary"
+            onClick={handleDiscard}
+            disabled={isSubmitting}
+            startIcon={<RiDeleteBinLine />}
+          >
+            Discard change
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleRetry}
+            disabled={isSubmitting}
+            loading={isSubmitting}
+            startIcon={<RiRefreshLine />}
+          >
+            Try again
+          </Button>
+        </>
+      }
+    >
+      <div className="flex flex-col gap-4 py-2">
+        {conflicts.length > 1 && (
+          <p className="text-xs text-gray-500">
+            1 of {conflicts.length} changes to review
+          </p>
+        )}
+
+        <div className="flex items-start gap-3 rounded-md bg-[#FFF8E1] p-3">
+          <RiAlertLine className="mt-0.5 h-5 w-5 flex-shrink-0 text-[#F57F17]" />
+          <div>
+            <div className="text-sm font-medium text-gray-900">
+              {describeOutboxMutation(current)}
+            </div>
+            <div className="text-sm text-gray-700">
+              {current.conflict?.message ??
+                "The server rejected this change."}
+            </div>
+            <div className="mt-1 text-xs text-gray-500">
+              Made offline on {new Date(current.queuedAt).toLocaleString()}
+            </div>
+          </div>
+        </div>
+
+        {isEditable && (
+          <>
+            <Input
+              label="Original URL"
+              value={values.originalUrl}
+              onChange={(event) =>
+                setValues((prev) => ({
+                  ...prev,
+                  originalUrl: event.target.value,
+                }))
+              }
+              error={fieldErrors.originalUrl}
+              fullWidth
+            />
+            <Input
+              label="Custom code"
+              value={values.customCode}
+              onChange={(event) => {
+                setValidationError(null);
+                setValues((prev) => ({
+                  ...prev,
+                  customCode: event.target.value,
+                }));
+              }}
+              error={validationError ?? fieldErrors.customCode}
+              helperText="Leave empty to get a generated code"
+              fullWidth
+            />
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default OutboxConflictModal;
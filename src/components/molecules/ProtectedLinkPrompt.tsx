@@ -0,0 +1,114 @@
+"use client";
+
+import React, { useState } from "react";
+import type { Url } from "@/interfaces/url";
+import Logo from "@/components/atoms/Logo";
+import Button from "@/components/atoms/Button";
+import { useProtectedUrlUnlock } from "@/hooks/url/useProtectedUrlUnlock";
+import { RiLockPasswordLine, RiLockUnlockLine } from "react-icons/ri";
+
+/**
+ * ProtectedLinkPrompt props
+ * @interface ProtectedLinkPromptProps
+ */
+interface ProtectedLinkPromptProps {
+  /** Short code of the protected link */
+  shortCode: string;
+  /** Function to call with the URL once the password is accepted */
+  onUnlock: (url: Url) => void;
+}
+
+/**
+ * ProtectedLinkPrompt Component
+ * @description Asks visitors of a password-protected link for its password, shown by the short
+ * URL page instead of the interstitial countdown
+ */
+const ProtectedLinkPrompt: React.FC<ProtectedLinkPromptProps> = ({
+  shortCode,
+  onUnlock,
+}) => {
+  const [password, setPassword] = useState("");
+  const { unlock, isUnlocking, error, lockedSeconds } =
+    useProtectedUrlUnlock(shortCode);
+  const isLocked = lockedSeconds > 0;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!password || isLocked) return;
+
+    const url = await unlock(password);
+    if (url) {
+      onUnlock(url);
+    } else {
+      setPassword("");
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-white px-4">
+      <Logo size="lg" withLink={false} className="mb-8" />
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm rounded-lg border border-gray-200 p-6 shadow-sm"
+      >
+        <div className="mb-4 flex flex-col items-center gap-3 text-center">
+          <div className="rounded-full bg-blue-100 p-3 text-blue-600">
+            <RiLockPasswordLine className="h-6 w-6" />
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900">
+            This link is password protected
+          </h1>
+          <p className="text-sm text-gray-600">
+            Enter the password you were given to continue.
+          </p>
+        </div>
+
+        <label
+          htmlFor="link-password"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Password
+        </label>
+        <input
+          id="link-password"
+          type="password"
+          autoComplete="off"
+          autoFocus
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          disabled={isLocked || isUnlocking}
+          aria-invalid={!!error}
+          aria-describedby={error ? "link-password-error" : undefined}
+          className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+        />
+        {(error || isLocked) && (
+          <p
+            id="link-password-error"
+            role="alert"
+            className="mt-2 text-sm text-red-600"
+          >
+            {error}
+            {isLocked && ` Try again in ${lockedSeconds}s.`}
+          </p>
+        )}
+
+        <Button
+          type="submit"
+          variant="primary"
+          fullWidth
+          className="mt-4"
+          disabled={!password || isLocked || isUnlocking}
+          loading={isUnlocking}
+          startIcon={<RiLockUnlockLine />}
+        >
+          {isUnlocking ? "Checking..." : "Unlock"}
+        </Button>
+      </form>
+      <p className="mt-6 text-sm text-gray-500">
+        Short URL: <span className="font-mono">{shortCode}</span>
+      </p>
+    </div>
+  );
+};
+
+export default ProtectedLinkPrompt;
@@ -3,6 +3,8 @@ import { QrCode } from "@/interfaces/url";
 import ButtonIcon from "@/components/atoms/ButtonIcon";
 import Image from "next/image";
 import QrCodePreview from "@/components/atoms/QrCodePreview";
+import LinkFavicon from "@/components/atoms/LinkFavicon";
+import LinkThumbnail from "@/components/atoms/LinkThumbnail";
 
 // Icon imports
 import {
@@ -239,18 +241,30 @@ const QrCodeGrid: React.FC<QrCodeGridProps> = ({
 
           {/* Info */}
           <div className="p-4 bg-gray-50">
-            <h3
-              className="font-medium text-gray-900 mb-1 truncate"
-              title={qrCode.title || qrCode.shortUrl || "Untitled"}
-            >
-              {qrCode.title || qrCode.shortUrl || "Untitled"}
-            </h3>
-            <p
-              className="text-sm text-gray-500 mb-3 truncate"
-              title={qrCode.description || qrCode.shortUrl}
-            >
-              {qrCode.description || qrCode.shortUrl}
-            </p>
+            <div className="mb-3 flex items-center gap-3">
+              <LinkThumbnail
+                src={qrCode.previewImageUrl}
+                faviconSrc={qrCode.faviconUrl}
+                className="h-10 w-10"
+              />
+              <div className="min-w-0 flex-1">
+                <h3
+                  className="font-medium text-gray-900 mb-1 truncate"
+                  title={qrCode.title || qrCode.shortUrl || "Untitled"}
+                >
+                  {qrCode.title || qrCode.shortUrl || "Untitled"}
+                </h3>
+                <p
+                  className="flex items-center gap-1 text-sm text-gray-500"
+                  title={qrCode.description || qrCode.shortUrl}
+                >
+                  <LinkFavicon src={qrCode.faviconUrl} />
+                  <span className="truncate">
+                    {qrCode.description || qrCode.shortUrl}
+                  </span>
+                </p>
+              </div>
+            </div>
 
             <div className="flex justify-between items-center">
               <span className="text-xs text-gray-500">
@@ -6,6 +6,7 @@ import GoogleOAuthButton from '@/components/atoms/GoogleOAuthButton'
 import FormDivider from '@/components/atoms/FormDivider'
 import { useAuth } from '@/contexts/AuthContext'
 import { useOAuthTracking } from '@/hooks/useOAuthTracking'
+import { setApiFieldErrors } from '@/utils/apiErrors'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { motion } from 'framer-motion'
 import Link from 'next/link'
@@ -61,6 +62,7 @@ const RegisterForm: React.FC<RegisterFormProps> = ({ className = '' }) => {
   const {
     register,
     handleSubmit,
+    setError,
     formState: { errors }
   } = useForm<RegisterFormValues>({
     resolver: zodResolver(registerSchema),
@@ -77,12 +79,17 @@ const RegisterForm: React.FC<RegisterFormProps> = ({ className = '' }) => {
    * @param data - Form values
    */
   const onSubmit = async (data: RegisterFormValues) => {
-    await signup({
-      email: data.email,
-      password: data.password,
-      password_confirmation: data.password_confirmation,
-      username: data.username
-    })
+    try {
+      await signup({
+        email: data.email,
+        password: data.password,
+        password_confirmation: data.password_confirmation,
+        username: data.username
+      })
+    } catch (error) {
+      // The toast is shown by AuthContext, only field errors are left to the form
+      setApiFieldErrors(error, setError)
+    }
   }
 
   const handleClose = () => {
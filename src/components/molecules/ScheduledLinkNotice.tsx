@@ -0,0 +1,68 @@
+"use client";
+
+import React, { useCallback } from "react";
+import Logo from "@/components/atoms/Logo";
+import CountdownTimer from "@/components/atoms/CountdownTimer";
+import { formatDateTime } from "@/utils/dateFormatter";
+import { RiTimeLine } from "react-icons/ri";
+
+/**
+ * ScheduledLinkNotice props
+ * @interface ScheduledLinkNoticeProps
+ */
+interface ScheduledLinkNoticeProps {
+  /** Short code of the scheduled link */
+  shortCode: string;
+  /** ISO timestamp when the link goes live */
+  activatesAt: string;
+  /** Seconds left until then, as measured by the API so the visitor clock does not matter */
+  secondsLeft: number;
+  /** Function to call once the countdown ends, to check the link again */
+  onLive: () => void;
+}
+
+/**
+ * ScheduledLinkNotice Component
+ * @description Tells visitors of a link that is not live yet when it will be, counting down to
+ * the go-live time instead of redirecting
+ */
+const ScheduledLinkNotice: React.FC<ScheduledLinkNoticeProps> = ({
+  shortCode,
+  activatesAt,
+  secondsLeft,
+  onLive,
+}) => {
+  const getLabel = useCallback(
+    (timeLeft: number) =>
+      timeLeft > 0 ? "until this link goes live" : "This link is now live",
+    []
+  );
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-white px-4">
+      <Logo size="lg" withLink={true} className="mb-8" />
+      <div className="mb-8 flex flex-col items-center gap-3 text-center max-w-md">
+        <div className="rounded-full bg-blue-100 p-3 text-blue-600">
+          <RiTimeLine className="h-6 w-6" />
+        </div>
+        <h1 className="text-3xl font-bold text-gray-900">
+          This link is not available yet
+        </h1>
+        <p className="text-lg text-gray-600">
+          It goes live on {formatDateTime(activatesAt)}.
+        </p>
+      </div>
+      <CountdownTimer
+        initialTime={Math.max(0, secondsLeft)}
+        onComplete={onLive}
+        label={getLabel}
+        showProgress={false}
+      />
+      <p className="mt-8 text-sm text-gray-500">
+        Short URL: <span className="font-mono">{shortCode}</span>
+      </p>
+    </div>
+  );
+};
+
+export default ScheduledLinkNotice;
@@ -0,0 +1,173 @@
+"use client";
+
+import React, { useState } from "react";
+import TagBadge from "@/components/atoms/TagBadge";
+import { URL_TAG_LIMITS } from "@/config/url";
+import { normalizeTag } from "@/utils/urlTags";
+
+/**
+ * Maximum number of suggestions shown under the input
+ */
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * TagInput props
+ * @interface TagInputProps
+ */
+interface TagInputProps {
+  /** Id of the text input, for its label */
+  id?: string;
+  /** Current tags */
+  value: string[];
+  /** Function to call when tags are added or removed */
+  onChange: (tags: string[]) => void;
+  /** Existing tags offered while typing */
+  suggestions?: string[];
+  /** Placeholder of the text input */
+  placeholder?: string;
+  /** Error message to display */
+  error?: string;
+  /** Whether the input is disabled */
+  disabled?: boolean;
+}
+
+/**
+ * TagInput Component
+ * @description Tag chips with a text input; Enter or comma adds the typed tag, Backspace on an
+ * empty input removes the last one, and existing tags are suggested while typing
+ */
+const TagInput: React.FC<TagInputProps> = ({
+  id,
+  value,
+  onChange,
+  suggestions = [],
+  placeholder = "Add a tag",
+  error,
+  disabled = false,
+}) => {
+  const [inputValue, setInputValue] = useState("");
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+
+  const isFull = value.length >= URL_TAG_LIMITS.MAX_TAGS;
+  const query = normalizeTag(inputValue).toLowerCase();
+  const matches = suggestions
+    .filter(
+      (tag) => !value.includes(tag) && tag.toLowerCase().includes(query)
+    )
+    .slice(0, MAX_SUGGESTIONS);
+  const showSuggestions = isFocused && !isFull && matches.length > 0;
+  const listboxId = `${id ?? "tag-input"}-suggestions`;
+
+  const addTag = (tag: string) => {
+    const normalized = normalizeTag(tag).slice(0, URL_TAG_LIMITS.MAX_LENGTH);
+    setInputValue("");
+    setHighlightedIndex(-1);
+
+    if (!normalized || value.includes(normalized) || isFull) return;
+    onChange([...value, normalized]);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((item) => item !== tag));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" || event.key === ",") {
+      event.preventDefault();
+      addTag(
+        highlightedIndex >= 0 && matches[highlightedIndex]
+          ? matches[highlightedIndex]
+          : inputValue
+      );
+    } else if (event.key === "Backspace" && inputValue === "" && value.length) {
+      removeTag(value[value.length - 1]);
+    } else if (event.key === "ArrowDown" && matches.length > 0) {
+      event.preventDefault();
+      setHighlightedIndex((prev) => (prev + 1) % matches.length);
+    } else if (event.key === "ArrowUp" && matches.length > 0) {
+      event.preventDefault();
+      setHighlightedIndex((prev) =>
+        prev <= 0 ? matches.length - 1 : prev - 1
+      );
+    } else if (event.key === "Escape") {
+      setHighlightedIndex(-1);
+      setIsFocused(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div
+        className={`flex min-h-[42px] w-full flex-wrap items-center gap-1 rounded-md border p-1.5 focus-within:border-blue-500 focus-within:ring-1 focus-within:ring-blue-500 ${
+          error ? "border-red-500" : "border-gray-300"
+        } ${disabled ? "bg-gray-50" : "bg-white"}`}
+      >
+        {value.map((tag) => (
+          <TagBadge
+            key={tag}
+            tag={tag}
+            onRemove={disabled ? undefined : removeTag}
+          />
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={inputValue}
+          onChange={(event) => {
+            setInputValue(event.target.value);
+            setHighlightedIndex(-1);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (inputValue) addTag(inputValue);
+          }}
+          placeholder={
+            isFull
+              ? `Up to ${URL_TAG_LIMITS.MAX_TAGS} tags`
+              : value.length === 0
+                ? placeholder
+                : ""
+          }
+          disabled={disabled || isFull}
+          maxLength={URL_TAG_LIMITS.MAX_LENGTH}
+          role="combobox"
+          aria-controls={listboxId}
+          aria-expanded={showSuggestions}
+          aria-autocomplete="list"
+          className="min-w-[100px] flex-1 border-none p-1 text-sm outline-none focus:ring-0 disabled:bg-transparent"
+        />
+      </div>
+
+      {showSuggestions && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute z-10 mt-1 max-h-48 w-full overflow-auto rounded-md border border-gray-200 bg-white py-1 shadow-lg"
+        >
+          {matches.map((tag, index) => (
+            <li
+              key={tag}
+              role="option"
+              aria-selected={index === highlightedIndex}
+              // Keep the focus on the input so the blur does not add the typed text
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => addTag(tag)}
+              className={`cursor-pointer px-3 py-1.5 ${
+                index === highlightedIndex ? "bg-gray-100" : "hover:bg-gray-50"
+              }`}
+            >
+              <TagBadge tag={tag} />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,140 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Modal from "@/components/atoms/Modal";
+import Button from "@/components/atoms/Button";
+import TagBadge from "@/components/atoms/TagBadge";
+import { URL_TAG_LIMITS } from "@/config/url";
+import { normalizeTag } from "@/utils/urlTags";
+import { RiCheckLine } from "react-icons/ri";
+
+/**
+ * TagRenameModal props
+ * @interface TagRenameModalProps
+ */
+interface TagRenameModalProps {
+  /** Whether the modal is visible */
+  isOpen: boolean;
+  /** Function to call when the modal is closed */
+  onClose: () => void;
+  /** Tags to rename; several tags are merged into the new name */
+  tags: string[];
+  /** Every existing tag, used to warn before merging into one of them */
+  existingTags: string[];
+  /** Function to call with the new tag name */
+  onSubmit: (name: string) => void;
+  /** Whether the change is in progress */
+  isSubmitting?: boolean;
+}
+
+/**
+ * TagRenameModal Component
+ * @description Asks for the new name of one tag, or the name several tags are merged into
+ */
+const TagRenameModal: React.FC<TagRenameModalProps> = ({
+  isOpen,
+  onClose,
+  tags,
+  existingTags,
+  onSubmit,
+  isSubmitting = false,
+}) => {
+  const isMerge = tags.length > 1;
+  const [name, setName] = useState("");
+
+  // Start from the current name, or the first merged tag
+  useEffect(() => {
+    if (isOpen) setName(tags[0] ?? "");
+  }, [isOpen, tags]);
+
+  const normalizedName = normalizeTag(name);
+  const isUnchanged = !isMerge && normalizedName === tags[0];
+  const mergesIntoExisting =
+    !isUnchanged &&
+    existingTags.includes(normalizedName) &&
+    !tags.includes(normalizedName);
+
+  const handleSubmit = (event?: React.FormEvent) => {
+    event?.preventDefault();
+    if (!normalizedName || isUnchanged) return;
+    onSubmit(normalizedName);
+  };
+
+  return (
+    <Modal
+      title={isMerge ? `Merge ${tags.length} tags` : "Rename tag"}
+      isOpen={isOpen}
+      onClose={isSubmitting ? () => {} : onClose}
+      variant="default"
+      size="sm"
+      overlayStyle="glassmorphism"
+      footer={
+        <>
+          <Button
+            variant="secondary"
+            onClick={onClose}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={() => handleSubmit()}
+            disabled={isSubmitting || !normalizedName || isUnchanged}
+            loading={isSubmitting}
+            startIcon={<RiCheckLine />}
+          >
+            {isMerge ? "Merge" : "Rename"}
+          </Button>
+        </>
+      }
+    >
+      <form className="flex flex-col gap-4 py-2" onSubmit={handleSubmit}>
+        <div className="flex flex-wrap gap-1">
+          {tags.map((tag) => (
+            <TagBadge key={tag} tag={tag} />
+          ))}
+        </div>
+
+        <div>
+          <label
+            htmlFor="tag-name"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            {isMerge ? "Merge into" : "New name"}
+          </label>
+          <input
+            id="tag-name"
+            type="text"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            maxLength={URL_TAG_LIMITS.MAX_LENGTH}
+            list="tag-name-options"
+            disabled={isSubmitting}
+            className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          />
+          {isMerge && (
+            <datalist id="tag-name-options">
+              {tags.map((tag) => (
+                <option key={tag} value={tag} />
+              ))}
+            </datalist>
+          )}
+          {mergesIntoExisting && (
+            <p className="mt-1 text-sm text-[#F57F17]">
+              &quot;{normalizedName}&quot; already exists, URLs will be
+              merged into it.
+            </p>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-500">
+          Every URL carrying {isMerge ? "these tags" : "this tag"} will be
+          updated.
+        </p>
+      </form>
+    </Modal>
+  );
+};
+
+export default TagRenameModal;
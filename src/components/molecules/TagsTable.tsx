@@ -0,0 +1,198 @@
+"use client";
+
+import React from "react";
+import { UrlTagSummary } from "@/interfaces/url";
+import Checkbox from "@/components/atoms/Checkbox";
+import ButtonIcon from "@/components/atoms/ButtonIcon";
+import TagBadge from "@/components/atoms/TagBadge";
+import { RiDeleteBinLine, RiEditLine, RiPriceTag3Line } from "react-icons/ri";
+
+/**
+ * Prop types for TagsTable component
+ */
+interface TagsTableProps {
+  /**
+   * Tags to display with their URL count
+   */
+  tags: UrlTagSummary[];
+  /**
+   * Whether the tags are loading
+   */
+  isLoading?: boolean;
+  /**
+   * Names of the selected tags
+   */
+  selectedTags: string[];
+  /**
+   * Function to call when a tag is selected or deselected
+   */
+  onSelectTag: (tag: string, selected: boolean) => void;
+  /**
+   * Function to call when all tags are selected or deselected
+   */
+  onSelectAllTags: (selected: boolean) => void;
+  /**
+   * Function to call when the URL count of a tag is clicked
+   */
+  onViewUrls?: (tag: string) => void;
+  /**
+   * Function to call when rename button is clicked
+   */
+  onRename: (tag: string) => void;
+  /**
+   * Function to call when delete button is clicked
+   */
+  onDelete: (tag: string) => void;
+  /**
+   * Whether the actions are disabled
+   */
+  disabled?: boolean;
+  /**
+   * Optional CSS classes to apply
+   */
+  className?: string;
+}
+
+/**
+ * TagsTable Component
+ * @description Lists the tags used on the user's URLs with their URL count and actions
+ */
+const TagsTable: React.FC<TagsTableProps> = ({
+  tags,
+  isLoading = false,
+  selectedTags,
+  onSelectTag,
+  onSelectAllTags,
+  onViewUrls,
+  onRename,
+  onDelete,
+  disabled = false,
+  className = "",
+}) => {
+  if (isLoading && tags.length === 0) {
+    return (
+      <div
+        className={`bg-white rounded-lg shadow-sm overflow-hidden ${className}`}
+      >
+        <div className="animate-pulse">
+          <div className="h-12 bg-gray-100 border-b"></div>
+          {[1, 2, 3].map((item) => (
+            <div key={item} className="h-14 border-b flex items-center px-6">
+              <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (tags.length === 0) {
+    return (
+      <div
+        className={`bg-white rounded-lg shadow-sm p-8 text-center ${className}`}
+      >
+        <RiPriceTag3Line className="w-12 h-12 mx-auto text-gray-300 mb-4" />
+        <h3 className="text-lg font-semibold text-gray-800 mb-2">
+          No Tags Yet
+        </h3>
+        <p className="text-gray-500">
+          Add tags to your URLs when creating or editing them.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`bg-white rounded-lg shadow-sm overflow-hidden ${className}`}
+    >
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-[#F5F5F5]">
+            <tr>
+              <th scope="col" className="pl-6 py-3 w-4">
+                <Checkbox
+                  checked={selectedTags.length === tags.length}
+                  onChange={(event) => onSelectAllTags(event.target.checked)}
+                  disabled={disabled}
+                  aria-label="Select all tags"
+                />
+              </th>
+              <th
+                scope="col"
+                className="px-6 py-3 text-left text-xs font-medium text-[#333333] uppercase tracking-wider"
+              >
+                Tag
+              </th>
+              <th
+                scope="col"
+                className="px-6 py-3 text-left text-xs font-medium text-[#333333] uppercase tracking-wider"
+              >
+                URLs
+              </th>
+              <th
+                scope="col"
+                className="px-6 py-3 text-right text-xs font-medium text-[#333333] uppercase tracking-wider"
+              >
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {tags.map(({ name, count }) => (
+              <tr key={name} className="hover:bg-[#F5F5F5] transition-colors">
+                <td className="pl-6 py-4 whitespace-nowrap">
+                  <Checkbox
+                    checked={selectedTags.includes(name)}
+                    onChange={(event) =>
+                      onSelectTag(name, event.target.checked)
+                    }
+                    disabled={disabled}
+                    aria-label={`Select tag ${name}`}
+                  />
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <TagBadge tag={name} className="text-sm" />
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-[#333333]">
+                  {onViewUrls ? (
+                    <button
+                      type="button"
+                      onClick={() => onViewUrls(name)}
+                      className="hover:underline"
+                    >
+                      {count.toLocaleString()}
+                    </button>
+                  ) : (
+                    count.toLocaleString()
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <div className="flex justify-end space-x-1">
+                    <ButtonIcon
+                      icon={<RiEditLine />}
+                      onClick={() => onRename(name)}
+                      tooltip="Rename"
+                      ariaLabel={`Rename tag ${name}`}
+                      disabled={disabled}
+                    />
+                    <ButtonIcon
+                      icon={<RiDeleteBinLine />}
+                      onClick={() => onDelete(name)}
+                      tooltip="Delete"
+                      ariaLabel={`Delete tag ${name}`}
+                      variant="danger"
+                      disabled={disabled}
+                    />
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TagsTable;
@@ -2,6 +2,8 @@ import React from "react";
 import { Url } from "@/interfaces/url";
 import { RiExternalLinkLine, RiFileCopyLine } from "react-icons/ri";
 import { formatShortUrl } from "@/utils/urlFormatter";
+import LinkFavicon from "@/components/atoms/LinkFavicon";
+import LinkThumbnail from "@/components/atoms/LinkThumbnail";
 
 interface TopPerformingUrlsProps {
   urls: Url[];
@@ -111,9 +113,14 @@ const TopPerformingUrls: React.FC<TopPerformingUrlsProps> = ({
         {urls.map((url) => (
           <div
             key={url.id}
-            className="flex items-center justify-between p-3 border border-gray-100 rounded-lg"
+            className="flex items-center justify-between gap-3 p-3 border border-gray-100 rounded-lg"
           >
-            <div className="flex-1">
+            <LinkThumbnail
+              src={url.preview_image_url}
+              faviconSrc={url.favicon_url}
+              className="h-10 w-10"
+            />
+            <div className="flex-1 min-w-0">
               <a
                 href={formatShortUrl(url.short_url)}
                 target="_blank"
@@ -122,7 +129,10 @@ const TopPerformingUrls: React.FC<TopPerformingUrlsProps> = ({
               >
                 {url.short_url}
               </a>
-              <p className="text-sm text-gray-500">{url.original_url}</p>
+              <p className="flex items-center gap-1 text-sm text-gray-500">
+                <LinkFavicon src={url.favicon_url} />
+                <span className="truncate">{url.original_url}</span>
+              </p>
               <p className="text-xs text-gray-400 mt-1">
                 Created on {formatDate(url.created_at)}
               </p>
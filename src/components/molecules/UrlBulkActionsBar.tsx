@@ -0,0 +1,228 @@
+"use client";
+
+import React, { useState } from "react";
+import Button from "@/components/atoms/Button";
+import Checkbox from "@/components/atoms/Checkbox";
+import {
+  RiCheckboxCircleLine,
+  RiCloseCircleLine,
+  RiDeleteBinLine,
+  RiPriceTag3Line,
+  RiQrCodeLine,
+  RiTimeLine,
+} from "react-icons/ri";
+
+/**
+ * Expiry extensions offered in the bulk actions bar, in days
+ */
+const EXTEND_EXPIRY_OPTIONS = [7, 30, 90, 365];
+
+/**
+ * UrlBulkActionsBar props
+ * @interface UrlBulkActionsBarProps
+ */
+interface UrlBulkActionsBarProps {
+  /** Number of selected URLs */
+  selectedCount: number;
+  /** Number of URLs matching the current filter */
+  totalCount: number;
+  /** Whether every URL of the current page is selected */
+  isPageSelected: boolean;
+  /** Whether every URL matching the filter is selected */
+  isAllMatchingSelected: boolean;
+  /** Whether a bulk action is running */
+  isRunning?: boolean;
+  /** Function to call to select or deselect the current page */
+  onSelectPage: (selected: boolean) => void;
+  /** Function to call to select every URL matching the filter */
+  onSelectAllMatching: () => void;
+  /** Function to call to clear the selection */
+  onClearSelection: () => void;
+  /** Function to call to activate or deactivate the selected URLs */
+  onStatusChange: (isActive: boolean) => void;
+  /** Function to call to extend the expiry of the selected URLs */
+  onExtendExpiry: (days: number) => void;
+  /** Function to call to add or remove tags on the selected URLs */
+  onUpdateTags: (tags: string[], mode: "add" | "remove") => void;
+  /** Function to call to generate QR codes for the selected URLs */
+  onGenerateQrCodes: () => void;
+  /** Function to call to delete the selected URLs */
+  onDelete: () => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * UrlBulkActionsBar Component
+ * @description Actions on the selected URLs, shown above the URL list while URLs are selected
+ */
+const UrlBulkActionsBar: React.FC<UrlBulkActionsBarProps> = ({
+  selectedCount,
+  totalCount,
+  isPageSelected,
+  isAllMatchingSelected,
+  isRunning = false,
+  onSelectPage,
+  onSelectAllMatching,
+  onClearSelection,
+  onStatusChange,
+  onExtendExpiry,
+  onUpdateTags,
+  onGenerateQrCodes,
+  onDelete,
+  className = "",
+}) => {
+  const [extendDays, setExtendDays] = useState(EXTEND_EXPIRY_OPTIONS[1]);
+  const [tagInput, setTagInput] = useState("");
+
+  if (selectedCount === 0) return null;
+
+  const tags = Array.from(
+    new Set(
+      tagInput
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+    )
+  );
+
+  const handleUpdateTags = (mode: "add" | "remove") => {
+    onUpdateTags(tags, mode);
+    setTagInput("");
+  };
+
+  return (
+    <div
+      className={`flex flex-col gap-3 p-3 bg-gray-50 rounded-md ${className}`}
+    >
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <Checkbox
+          checked={isPageSelected}
+          onChange={(event) => onSelectPage(event.target.checked)}
+          label={`${selectedCount} selected`}
+          disabled={isRunning}
+        />
+        {isPageSelected &&
+          !isAllMatchingSelected &&
+          totalCount > selectedCount && (
+            <button
+              type="button"
+              onClick={onSelectAllMatching}
+              className="text-sm font-medium text-blue-600 hover:underline"
+            >
+              Select all {totalCount} URLs
+            </button>
+          )}
+        {isAllMatchingSelected && (
+          <span className="text-sm text-gray-600">
+            All {totalCount} matching URLs are selected
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={onClearSelection}
+          disabled={isRunning}
+          className="text-sm text-gray-600 hover:underline disabled:opacity-50"
+        >
+          Clear selection
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onStatusChange(true)}
+          disabled={isRunning}
+          startIcon={<RiCheckboxCircleLine />}
+        >
+          Activate
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onStatusChange(false)}
+          disabled={isRunning}
+          startIcon={<RiCloseCircleLine />}
+        >
+          Deactivate
+        </Button>
+
+        <div className="flex items-center gap-1">
+          <select
+            value={extendDays}
+            onChange={(event) => setExtendDays(Number(event.target.value))}
+            disabled={isRunning}
+            aria-label="Days to extend the expiry by"
+            className="h-8 rounded-md border border-gray-300 bg-white px-2 text-sm"
+          >
+            {EXTEND_EXPIRY_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                +{days} days
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onExtendExpiry(extendDays)}
+            disabled={isRunning}
+            startIcon={<RiTimeLine />}
+          >
+            Extend expiry
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(event) => setTagInput(event.target.value)}
+            disabled={isRunning}
+            placeholder="tag1, tag2"
+            aria-label="Tags to add or remove"
+            className="h-8 w-36 rounded-md border border-gray-300 px-2 text-sm"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleUpdateTags("add")}
+            disabled={isRunning || tags.length === 0}
+            startIcon={<RiPriceTag3Line />}
+          >
+            Add tags
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleUpdateTags("remove")}
+            disabled={isRunning || tags.length === 0}
+          >
+            Remove tags
+          </Button>
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onGenerateQrCodes}
+          disabled={isRunning}
+          startIcon={<RiQrCodeLine />}
+        >
+          Generate QR codes
+        </Button>
+        <Button
+          variant="danger"
+          size="sm"
+          onClick={onDelete}
+          disabled={isRunning}
+          startIcon={<RiDeleteBinLine />}
+        >
+          Delete
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default UrlBulkActionsBar;
@@ -1,7 +1,33 @@
 "use client";
 
 import React from "react";
-import { RiFilter2Line, RiListCheck2 } from "react-icons/ri";
+import {
+  RiCalendarLine,
+  RiCloseLine,
+  RiFilter2Line,
+  RiListCheck2,
+  RiMegaphoneLine,
+  RiPriceTag3Line,
+} from "react-icons/ri";
+import DateRangePicker, {
+  DateRangePreset,
+} from "@/components/molecules/DateRangePicker";
+import type {
+  UrlDateField,
+  UrlDateRangeFilter,
+  UrlDateRangePreset,
+} from "@/interfaces/url";
+import type { UtmField, UtmParams } from "@/interfaces/utm";
+import { URL_DATE_FIELDS, URL_DATE_RANGE_PRESETS } from "@/config/url";
+import { UTM_FIELDS } from "@/config/utm";
+import { getUrlDateRangePresetDates } from "@/utils/urlDateRange";
+
+const dateRangePresets: DateRangePreset<UrlDateRangePreset>[] =
+  URL_DATE_RANGE_PRESETS.map(({ value, label }) => ({
+    value,
+    label,
+    getRange: () => getUrlDateRangePresetDates(value),
+  }));
 
 /**
  * Filter options interface
@@ -9,6 +35,7 @@ import { RiFilter2Line, RiListCheck2 } from "react-icons/ri";
 export interface FilterOptions {
   status?: string;
   limit?: number;
+  tag?: string;
   // You can add more filter types here in the future
 }
 
@@ -27,6 +54,26 @@ interface UrlFilterProps {
     filterType: keyof FilterOptions,
     value: string | number
   ) => void;
+  /**
+   * Tags offered in the tag filter, the filter is hidden when empty
+   */
+  tagOptions?: string[];
+  /**
+   * Current date range, null when not filtering by date
+   */
+  dateRange?: UrlDateRangeFilter | null;
+  /**
+   * Function to call when the date range changes, the date filter is hidden when not set
+   */
+  onDateRangeChange?: (dateRange: UrlDateRangeFilter | null) => void;
+  /**
+   * Current UTM filter, shown as removable chips
+   */
+  utmFilter?: UtmParams;
+  /**
+   * Function to call when a UTM filter is removed
+   */
+  onUtmFilterChange?: (field: UtmField, value: string | null) => void;
 }
 
 /**
@@ -36,18 +83,60 @@ interface UrlFilterProps {
 const UrlFilter: React.FC<UrlFilterProps & { "data-tour-id"?: string }> = ({
   filters,
   onFilterChange,
+  tagOptions = [],
+  dateRange = null,
+  onDateRangeChange,
+  utmFilter = {},
+  onUtmFilterChange,
   "data-tour-id": dataTourId,
 }) => {
+  const dateField = dateRange?.field ?? "created_at";
+  const activeUtmFilters = UTM_FIELDS.filter(({ key }) => utmFilter[key]);
+
   const handleStatusChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const value = e.target.value;
     onFilterChange("status", value);
   };
 
+  const handleTagChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onFilterChange("tag", e.target.value);
+  };
+
   const handleLimitChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const value = parseInt(e.target.value, 10);
     onFilterChange("limit", value);
   };
 
+  // Picked days are a custom range until a preset is chosen
+  const handleDateChange = (start: string, end: string) => {
+    onDateRangeChange?.({ preset: "custom", field: dateField, start, end });
+  };
+
+  const handleDatePresetChange = (preset: UrlDateRangePreset | "custom") => {
+    if (preset === "custom") {
+      onDateRangeChange?.({
+        preset,
+        field: dateField,
+        start: dateRange?.start ?? "",
+        end: dateRange?.end ?? "",
+      });
+    } else {
+      onDateRangeChange?.({
+        preset,
+        field: dateField,
+        ...getUrlDateRangePresetDates(preset),
+      });
+    }
+  };
+
+  const handleDateFieldChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (!dateRange) return;
+    onDateRangeChange?.({
+      ...dateRange,
+      field: e.target.value as UrlDateField,
+    });
+  };
+
   return (
     <div
       className="flex flex-wrap gap-3 items-center"
@@ -72,6 +161,12 @@ const UrlFilter: React.FC<UrlFilterProps & { "data-tour-id"?: string }> = ({
           <option value="inactive" className="text-red-600 py-1">
             Inactive
           </option>
+          <option value="scheduled" className="text-blue-600 py-1">
+            Scheduled
+          </option>
+          <option value="exhausted" className="text-orange-600 py-1">
+            Exhausted
+          </option>
         </select>
         <div className="absolute right-3 pointer-events-none">
           <svg
@@ -91,6 +186,120 @@ const UrlFilter: React.FC<UrlFilterProps & { "data-tour-id"?: string }> = ({
         </div>
       </div>
 
+      {/* Tag Filter */}
+      {tagOptions.length > 0 && (
+        <div className="relative flex items-center">
+          <div className="absolute left-3 pointer-events-none text-teal-500">
+            <RiPriceTag3Line className="w-5 h-5" />
+          </div>
+          <select
+            value={filters.tag ?? "all"}
+            onChange={handleTagChange}
+            className="bg-white border border-gray-200 rounded-lg pl-10 pr-8 py-2 text-sm shadow-sm hover:border-teal-400 focus:border-teal-500 focus:ring focus:ring-teal-200 focus:ring-opacity-50 cursor-pointer transition-all duration-200 appearance-none max-w-[200px]"
+          >
+            <option value="all" className="py-1">
+              All Tags
+            </option>
+            {tagOptions.map((tag) => (
+              <option key={tag} value={tag} className="py-1">
+                {tag}
+              </option>
+            ))}
+          </select>
+          <div className="absolute right-3 pointer-events-none">
+            <svg
+              className="w-4 h-4 text-gray-400"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              xmlns="http://www.w3.org/2000/svg"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth="2"
+                d="M19 9l-7 7-7-7"
+              ></path>
+            </svg>
+          </div>
+        </div>
+      )}
+
+      {/* Date Range Filter */}
+      {onDateRangeChange && (
+        <div className="flex items-center gap-2">
+          {dateRange && (
+            <div className="relative flex items-center">
+              <div className="absolute left-3 pointer-events-none text-orange-500">
+                <RiCalendarLine className="w-5 h-5" />
+              </div>
+              <select
+                value={dateField}
+                onChange={handleDateFieldChange}
+                aria-label="Date to filter by"
+                className="bg-white border border-gray-200 rounded-lg pl-10 pr-8 py-2 text-sm shadow-sm hover:border-orange-400 focus:border-orange-500 focus:ring focus:ring-orange-200 focus:ring-opacity-50 cursor-pointer transition-all duration-200 appearance-none"
+              >
+                {(Object.keys(URL_DATE_FIELDS) as UrlDateField[]).map(
+                  (field) => (
+                    <option key={field} value={field} className="py-1">
+                      {URL_DATE_FIELDS[field]}
+                    </option>
+                  )
+                )}
+              </select>
+              <div className="absolute right-3 pointer-events-none">
+                <svg
+                  className="w-4 h-4 text-gray-400"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth="2"
+                    d="M19 9l-7 7-7-7"
+                  ></path>
+                </svg>
+              </div>
+            </div>
+          )}
+          <DateRangePicker
+            startDate={dateRange?.start}
+            endDate={dateRange?.end}
+            comparison={dateRange?.preset}
+            onDateChange={handleDateChange}
+            onComparisonChange={handleDatePresetChange}
+            presets={dateRangePresets}
+            onClear={() => onDateRangeChange(null)}
+            placeholder="Any date"
+            className="min-w-[220px]"
+          />
+        </div>
+      )}
+
+      {/* UTM Filters, set from the UTM columns of the table */}
+      {activeUtmFilters.map(({ key, label }) => (
+        <span
+          key={key}
+          className="flex items-center gap-1 rounded-lg border border-blue-200 bg-blue-50 py-1.5 pl-3 pr-1 text-sm text-blue-700"
+        >
+          <RiMegaphoneLine className="w-4 h-4" />
+          {label}: {utmFilter[key]}
+          {onUtmFilterChange && (
+            <button
+              type="button"
+              onClick={() => onUtmFilterChange(key, null)}
+              aria-label={`Clear ${label.toLowerCase()} filter`}
+              className="rounded p-0.5 hover:bg-blue-100"
+            >
+              <RiCloseLine className="w-4 h-4" />
+            </button>
+          )}
+        </span>
+      ))}
+
       {/* Limit Filter */}
       <div className="relative flex items-center">
         <div className="absolute left-3 pointer-events-none text-purple-500">
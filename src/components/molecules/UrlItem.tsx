@@ -1,5 +1,13 @@
 import React from "react";
 import { Url } from "@/interfaces/url";
+import Checkbox from "@/components/atoms/Checkbox";
+import TagBadge from "@/components/atoms/TagBadge";
+import StatusBadge from "@/components/atoms/StatusBadge";
+import LinkFavicon from "@/components/atoms/LinkFavicon";
+import LinkThumbnail from "@/components/atoms/LinkThumbnail";
+import { RiLockLine } from "react-icons/ri";
+import { getRemainingClicks, isUrlScheduled } from "@/utils/urlStatus";
+import { formatDateTime } from "@/utils/dateFormatter";
 
 /**
  * Props for the UrlItem component
@@ -8,19 +16,54 @@ interface UrlItemProps {
   url: Url;
   onDelete: (id: number) => Promise<boolean>;
   onToggleStatus: (id: number, isActive: boolean) => Promise<boolean>;
+  isSelected?: boolean;
+  onSelect?: (url: Url, selected: boolean) => void;
 }
 
 /**
  * URL Item Component
  * @description A component that displays a single URL item with actions
  */
-const UrlItem = ({ url, onDelete, onToggleStatus }: UrlItemProps) => {
+const UrlItem = ({
+  url,
+  onDelete,
+  onToggleStatus,
+  isSelected = false,
+  onSelect,
+}: UrlItemProps) => {
   const formattedDate = new Date(url.created_at).toLocaleDateString();
+  const isScheduled = isUrlScheduled(url);
+  const remainingClicks = getRemainingClicks(url);
 
   return (
     <div className="border rounded-lg p-4 mb-4 hover:shadow-md transition-all">
       <div className="flex justify-between items-start mb-2">
-        <h3 className="font-semibold text-lg">{url.title ?? "Untitled"}</h3>
+        <div className="flex items-center gap-3">
+          {onSelect && (
+            <Checkbox
+              checked={isSelected}
+              onChange={(event) => onSelect(url, event.target.checked)}
+              aria-label={`Select ${url.short_url}`}
+            />
+          )}
+          <LinkThumbnail
+            src={url.preview_image_url}
+            faviconSrc={url.favicon_url}
+            className="h-10 w-10"
+          />
+          <h3 className="font-semibold text-lg">{url.title ?? "Untitled"}</h3>
+          {url.is_password_protected && (
+            <span
+              className="text-[#607D8B]"
+              title="Password protected"
+              aria-label="Password protected"
+            >
+              <RiLockLine className="w-4 h-4" />
+            </span>
+          )}
+          {isScheduled && <StatusBadge status="scheduled" />}
+          {remainingClicks === 0 && <StatusBadge status="exhausted" />}
+        </div>
         <div className="flex space-x-2">
           <button
             onClick={() => onToggleStatus(url.id, !url.is_active)}
@@ -41,9 +84,18 @@ const UrlItem = ({ url, onDelete, onToggleStatus }: UrlItemProps) => {
         </div>
       </div>
 
+      {url.tags && url.tags.length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-1">
+          {url.tags.map((tag) => (
+            <TagBadge key={tag} tag={tag} />
+          ))}
+        </div>
+      )}
+
       <div className="mb-2 text-sm text-gray-600 break-all">
-        <div>
-          Original:{" "}
+        <div className="flex items-center gap-1">
+          Original:
+          <LinkFavicon src={url.favicon_url} />
           <a
             href={url.original_url}
             target="_blank"
@@ -68,7 +120,13 @@ const UrlItem = ({ url, onDelete, onToggleStatus }: UrlItemProps) => {
 
       <div className="flex justify-between text-xs text-gray-500">
         <div>Created: {formattedDate}</div>
-        <div>Clicks: {url.clicks}</div>
+        {isScheduled && (
+          <div>Goes live: {formatDateTime(url.activates_at as string)}</div>
+        )}
+        <div>
+          Clicks: {url.clicks}
+          {remainingClicks !== null && ` (${remainingClicks} left)`}
+        </div>
       </div>
     </div>
   );
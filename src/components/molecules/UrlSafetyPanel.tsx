@@ -0,0 +1,85 @@
+"use client";
+
+import React from "react";
+import type { UrlSafetyReport } from "@/interfaces/urlSafety";
+import { URL_SAFETY_LEVELS } from "@/config/urlSafety";
+import {
+  RiAlertLine,
+  RiErrorWarningLine,
+  RiInformationLine,
+  RiShieldCheckLine,
+} from "react-icons/ri";
+
+/**
+ * UrlSafetyPanel props
+ * @interface UrlSafetyPanelProps
+ */
+interface UrlSafetyPanelProps {
+  /** Report of the destination analyzer */
+  report: UrlSafetyReport;
+  /** Optional heading shown above the findings */
+  title?: string;
+  /** Optional additional CSS classes */
+  className?: string;
+}
+
+const SEVERITY_ICONS = {
+  high: RiErrorWarningLine,
+  medium: RiAlertLine,
+  low: RiInformationLine,
+};
+
+/**
+ * UrlSafetyPanel Component
+ * @description Shows the risk level of a destination and what was found on it, used by the URL
+ * modals while typing and by the short URL page before redirecting
+ */
+const UrlSafetyPanel: React.FC<UrlSafetyPanelProps> = ({
+  report,
+  title = "Destination check",
+  className = "",
+}) => {
+  const level = URL_SAFETY_LEVELS[report.level];
+
+  return (
+    <div
+      className={`rounded-md border border-gray-200 p-3 text-left ${className}`}
+      aria-live="polite"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <RiShieldCheckLine className="h-4 w-4 text-blue-600" />
+          {title}
+        </p>
+        <span
+          className={`rounded-full px-2 py-0.5 text-xs font-medium ${level.className}`}
+        >
+          {level.label}
+        </span>
+      </div>
+
+      {report.findings.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {report.findings.map((finding) => {
+            const Icon = SEVERITY_ICONS[finding.severity];
+            return (
+              <li
+                key={finding.check}
+                className="flex items-start gap-2 text-xs text-gray-600"
+              >
+                <Icon
+                  className={`mt-0.5 h-3.5 w-3.5 flex-shrink-0 rounded-full ${
+                    URL_SAFETY_LEVELS[finding.severity].className
+                  }`}
+                />
+                <span className="break-all">{finding.message}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UrlSafetyPanel;
@@ -1,11 +1,21 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import { Url } from "@/interfaces/url";
+import type { UtmField, UtmParams } from "@/interfaces/utm";
+import { OutboxItem } from "@/interfaces/outbox";
 import StatusBadge from "@/components/atoms/StatusBadge";
+import SyncStatusBadge from "@/components/atoms/SyncStatusBadge";
+import TagBadge from "@/components/atoms/TagBadge";
+import { useOutbox } from "@/contexts/OutboxContext";
+import { describeOutboxMutation } from "@/utils/outboxFormatter";
 import ButtonIcon from "@/components/atoms/ButtonIcon";
 import Button from "@/components/atoms/Button";
+import Checkbox from "@/components/atoms/Checkbox";
 import { formatShortUrl } from "@/utils/urlFormatter";
+import { getRemainingClicks, getUrlStatus } from "@/utils/urlStatus";
+import { getUtmParams } from "@/utils/utm";
+import { UTM_FIELDS, UTM_TABLE_FIELDS } from "@/config/utm";
 import { useRouter } from "next/navigation";
 
 // Icon imports
@@ -18,6 +28,7 @@ import {
   RiArrowUpSLine,
   RiArrowDownSLine,
   RiLink,
+  RiLockLine,
 } from "react-icons/ri";
 
 import { MdInfoOutline } from "react-icons/md";
@@ -25,6 +36,11 @@ import { MdInfoOutline } from "react-icons/md";
 // Loading skeleton import
 import LoadingIndicator from "@/components/atoms/LoadingIndicator";
 
+// UTM parameters shown as columns, in the order of the builder
+const UTM_TABLE_COLUMNS = UTM_FIELDS.filter(({ key }) =>
+  UTM_TABLE_FIELDS.includes(key)
+);
+
 /**
  * Prop types for UrlsTable component
  */
@@ -73,6 +89,30 @@ interface UrlsTableProps {
    * Function to call when view detail button is clicked
    */
   onViewDetail?: (url: Url) => void;
+  /**
+   * Function to call when a change made offline needs to be reviewed
+   */
+  onReviewSync?: () => void;
+  /**
+   * IDs of the selected URLs of the current page
+   */
+  selectedUrlIds?: number[];
+  /**
+   * Function to call when a URL is selected or deselected, shows the selection column when set
+   */
+  onSelectUrl?: (url: Url, selected: boolean) => void;
+  /**
+   * Function to call when all URLs of the page are selected or deselected
+   */
+  onSelectAllUrls?: (selected: boolean) => void;
+  /**
+   * Current UTM filter, its values are highlighted in the UTM columns
+   */
+  utmFilter?: UtmParams;
+  /**
+   * Function to call when a UTM value is clicked, null clears the filter of that parameter
+   */
+  onUtmFilterChange?: (field: UtmField, value: string | null) => void;
 }
 
 /**
@@ -91,11 +131,105 @@ const UrlsTable: React.FC<UrlsTableProps & { "data-tour-id"?: string }> = ({
   onDelete,
   className = "",
   onViewDetail,
+  onReviewSync,
+  selectedUrlIds = [],
+  onSelectUrl,
+  onSelectAllUrls,
+  utmFilter = {},
+  onUtmFilterChange,
   "data-tour-id": dataTourId,
 }) => {
   const [copiedId, setCopiedId] = useState<number | null>(null);
   const router = useRouter();
   const [loadingDetailId, setLoadingDetailId] = useState<number | null>(null);
+  const { items: outboxItems, discardItem } = useOutbox();
+  const isSelectable = !!onSelectUrl;
+  const selectedOnPage = urls.filter((url) =>
+    selectedUrlIds.includes(url.id)
+  ).length;
+
+  // URLs created offline have no row yet, other changes are shown on the row of their URL
+  const pendingCreates = outboxItems.filter(
+    (item): item is Extract<OutboxItem, { type: "create" }> =>
+      item.type === "create"
+  );
+  const outboxItemsByUrlId = useMemo(() => {
+    const itemsByUrlId = new Map<number, OutboxItem[]>();
+
+    outboxItems.forEach((item) => {
+      if (item.type === "create") return;
+      itemsByUrlId.set(item.urlId, [
+        ...(itemsByUrlId.get(item.urlId) ?? []),
+        item,
+      ]);
+    });
+
+    return itemsByUrlId;
+  }, [outboxItems]);
+
+  // Render the sync badge of changes that are not on the server yet
+  const renderSyncBadge = (items: OutboxItem[] | undefined) => {
+    if (!items || items.length === 0) return null;
+
+    const hasConflict = items.some((item) => item.status === "conflict");
+
+    return (
+      <SyncStatusBadge
+        status={hasConflict ? "conflict" : "pending"}
+        title={items.map(describeOutboxMutation).join("\n")}
+        onClick={hasConflict ? onReviewSync : undefined}
+        className="ml-2"
+      />
+    );
+  };
+
+  // Render the UTM columns of a destination, clicking a value filters the list by it
+  const renderUtmCells = (originalUrl: string) => {
+    const params = getUtmParams(originalUrl);
+
+    return UTM_TABLE_COLUMNS.map(({ key: field }) => {
+      const value = params[field];
+      const isFiltered = !!value && utmFilter[field] === value;
+
+      return (
+        <td key={field} className="px-6 py-4 whitespace-nowrap">
+          {!value ? (
+            <span className="text-sm text-[#B0BEC5]">—</span>
+          ) : onUtmFilterChange ? (
+            <button
+              type="button"
+              onClick={() =>
+                onUtmFilterChange(field, isFiltered ? null : value)
+              }
+              title={isFiltered ? "Clear filter" : `Show only "${value}"`}
+              className={`rounded-full px-2 py-0.5 text-xs transition-colors ${
+                isFiltered
+                  ? "bg-blue-600 text-white"
+                  : "bg-blue-50 text-blue-700 hover:bg-blue-100"
+              }`}
+            >
+              {value}
+            </button>
+          ) : (
+            <span className="text-sm text-[#333333]">{value}</span>
+          )}
+        </td>
+      );
+    });
+  };
+
+  // Render the tag badges of a URL
+  const renderTags = (tags: string[] | undefined) => {
+    if (!tags || tags.length === 0) return null;
+
+    return (
+      <div className="mt-1 flex flex-wrap gap-1">
+        {tags.map((tag) => (
+          <TagBadge key={tag} tag={tag} />
+        ))}
+      </div>
+    );
+  };
 
   // Handle sort click
   const handleSortClick = (column: string) => {
@@ -204,7 +338,7 @@ const UrlsTable: React.FC<UrlsTableProps & { "data-tour-id"?: string }> = ({
   }
 
   // If no URLs and not loading, show empty state
-  if (!isLoading && urls.length === 0) {
+  if (!isLoading && urls.length === 0 && pendingCreates.length === 0) {
     console.log(
       "UrlsTable: Rendering empty state - urls array is empty and not loading"
     );
@@ -244,6 +378,23 @@ const UrlsTable: React.FC<UrlsTableProps & { "data-tour-id"?: string }> = ({
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-[#F5F5F5]">
             <tr>
+              {isSelectable && (
+                <th scope="col" className="pl-6 py-3 w-4">
+                  <Checkbox
+                    checked={urls.length > 0 && selectedOnPage === urls.length}
+                    ref={(input) => {
+                      if (input) {
+                        input.indeterminate =
+                          selectedOnPage > 0 && selectedOnPage < urls.length;
+                      }
+                    }}
+                    onChange={(event) =>
+                      onSelectAllUrls?.(event.target.checked)
+                    }
+                    aria-label="Select all URLs on this page"
+                  />
+                </th>
+              )}
               <th
                 scope="col"
                 className="px-6 py-3 text-left text-xs font-medium text-[#333333] uppercase tracking-wider cursor-pointer"
@@ -258,6 +409,15 @@ const UrlsTable: React.FC<UrlsTableProps & { "data-tour-id"?: string }> = ({
               >
                 Short URL {getSortIndicator("short_url")}
               </th>
+              {UTM_TABLE_COLUMNS.map(({ key, label }) => (
+                <th
+                  key={key}
+                  scope="col"
+                  className="px-6 py-3 text-left text-xs font-medium text-[#333333] uppercase tracking-wider"
+                >
+                  {label}
+                </th>
+              ))}
               <th
                 scope="col"
                 className="px-6 py-3 text-left text-xs font-medium text-[#333333] uppercase tracking-wider cursor-pointer"
@@ -295,8 +455,78 @@ const UrlsTable: React.FC<UrlsTableProps & { "data-tour-id"?: string }> = ({
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
+            {pendingCreates.map((item) => (
+              <tr key={`outbox-${item.id}`} className="bg-[#FFFDF5]">
+                {isSelectable && <td className="pl-6 py-4" />}
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm text-[#333333]">
+                    {truncateUrl(item.formData.originalUrl)}
+                  </div>
+                  {item.formData.title && (
+                    <div className="text-xs text-[#607D8B]">
+                      {item.formData.title}
+                    </div>
+                  )}
+                  {renderTags(item.formData.tags)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm text-[#607D8B]">
+                    {item.formData.customCode || "Generated on sync"}
+                  </div>
+                </td>
+                {renderUtmCells(item.formData.originalUrl)}
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm text-[#333333]">
+                    {formatDate(item.queuedAt)}
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm text-[#333333]">
+                    {item.formData.expiryDate
+                      ? formatDate(item.formData.expiryDate)
+                      : "No expiry"}
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm font-medium text-[#333333]">
+                    0
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <SyncStatusBadge
+                    status={item.status}
+                    title={describeOutboxMutation(item)}
+                    onClick={
+                      item.status === "conflict" ? onReviewSync : undefined
+                    }
+                  />
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <div className="flex justify-end space-x-1">
+                    <ButtonIcon
+                      icon={<RiDeleteBinLine />}
+                      onClick={() => discardItem(item.id)}
+                      tooltip="Discard"
+                      ariaLabel="Discard offline URL"
+                      variant="danger"
+                    />
+                  </div>
+                </td>
+              </tr>
+            ))}
             {urls.map((url) => (
               <tr key={url.id} className="hover:bg-[#F5F5F5] transition-colors">
+                {isSelectable && (
+                  <td className="pl-6 py-4 whitespace-nowrap">
+                    <Checkbox
+                      checked={selectedUrlIds.includes(url.id)}
+                      onChange={(event) =>
+                        onSelectUrl?.(url, event.target.checked)
+                      }
+                      aria-label={`Select ${url.short_url}`}
+                    />
+                  </td>
+                )}
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="text-sm text-[#333333]">
                     {truncateUrl(url.original_url)}
@@ -304,6 +534,7 @@ const UrlsTable: React.FC<UrlsTableProps & { "data-tour-id"?: string }> = ({
                   {url.title && (
                     <div className="text-xs text-[#607D8B]">{url.title}</div>
                   )}
+                  {renderTags(url.tags)}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="flex items-center">
@@ -315,8 +546,18 @@ const UrlsTable: React.FC<UrlsTableProps & { "data-tour-id"?: string }> = ({
                     >
                       {url.short_url} <RiExternalLinkLine className="ml-1" />
                     </a>
+                    {url.is_password_protected && (
+                      <span
+                        className="ml-2 text-[#607D8B]"
+                        title="Password protected"
+                        aria-label="Password protected"
+                      >
+                        <RiLockLine />
+                      </span>
+                    )}
                   </div>
                 </td>
+                {renderUtmCells(url.original_url)}
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="text-sm text-[#333333]">
                     {formatDate(url.created_at)}
@@ -345,9 +586,16 @@ const UrlsTable: React.FC<UrlsTableProps & { "data-tour-id"?: string }> = ({
                       </div>
                     )}
                   </div>
+                  {getRemainingClicks(url) !== null && (
+                    <div className="text-xs text-[#607D8B]">
+                      {getRemainingClicks(url)?.toLocaleString()} of{" "}
+                      {url.max_clicks?.toLocaleString()} left
+                    </div>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
-                  <StatusBadge status={url.is_active ? "active" : "inactive"} />
+                  <StatusBadge status={getUrlStatus(url)} />
+                  {renderSyncBadge(outboxItemsByUrlId.get(url.id))}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                   <div className="flex justify-end space-x-1">
@@ -0,0 +1,202 @@
+"use client";
+
+import React, { useState } from "react";
+import Button from "@/components/atoms/Button";
+import type { UtmField } from "@/interfaces/utm";
+import { UTM_FIELDS, UTM_PRESET_LIMITS } from "@/config/utm";
+import { useUtmPresets } from "@/hooks/url/useUtmPresets";
+import { canHaveUtmParams, getUtmParams, setUtmParams } from "@/utils/utm";
+import {
+  RiArrowDownSLine,
+  RiDeleteBinLine,
+  RiMegaphoneLine,
+  RiSaveLine,
+} from "react-icons/ri";
+
+/**
+ * UtmBuilder props
+ * @interface UtmBuilderProps
+ */
+interface UtmBuilderProps {
+  /** Destination URL the parameters are added to */
+  url: string;
+  /** Function to call with the destination URL once a parameter changes */
+  onChange: (url: string) => void;
+}
+
+/**
+ * UtmBuilder Component
+ * @description Collapsible builder for the UTM parameters of a destination URL. The parameters
+ * are read from and written to the URL itself, so existing ones show up when editing.
+ */
+const UtmBuilder: React.FC<UtmBuilderProps> = ({ url, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [presetName, setPresetName] = useState("");
+  const { presets, savePreset, deletePreset } = useUtmPresets();
+
+  const params = getUtmParams(url);
+  const paramCount = Object.keys(params).length;
+  const isUrlValid = canHaveUtmParams(url);
+  const isPresetListFull =
+    presets.length >= UTM_PRESET_LIMITS.MAX_PRESETS &&
+    !presets.some(
+      (preset) =>
+        preset.name.toLowerCase() === presetName.trim().toLowerCase()
+    );
+
+  const handleFieldChange = (field: UtmField, value: string) => {
+    const nextUrl = setUtmParams(url, { ...params, [field]: value });
+    if (nextUrl) onChange(nextUrl);
+  };
+
+  const handlePresetApply = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const preset = presets.find((item) => item.id === e.target.value);
+    const nextUrl = preset && setUtmParams(url, preset.params);
+    if (nextUrl) onChange(nextUrl);
+  };
+
+  const handlePresetSave = () => {
+    savePreset(presetName, params);
+    setPresetName("");
+  };
+
+  return (
+    <div className="rounded-md border border-gray-200">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        aria-controls="utm-builder"
+        className="flex w-full items-center justify-between px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+      >
+        <span className="flex items-center gap-2">
+          <RiMegaphoneLine className="h-4 w-4 text-blue-600" />
+          UTM Campaign Builder
+          {paramCount > 0 && (
+            <span className="rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-700">
+              {paramCount} set
+            </span>
+          )}
+        </span>
+        <RiArrowDownSLine
+          className={`h-5 w-5 transition-transform ${
+            isOpen ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+
+      {isOpen && (
+        <div id="utm-builder" className="space-y-3 border-t px-3 py-3">
+          {!isUrlValid && (
+            <p className="text-sm text-gray-500">
+              Enter a valid original URL to add UTM parameters.
+            </p>
+          )}
+
+          {presets.length > 0 && (
+            <select
+              value=""
+              onChange={handlePresetApply}
+              disabled={!isUrlValid}
+              aria-label="Apply a UTM preset"
+              className="w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Apply a preset...</option>
+              {presets.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.name}
+                </option>
+              ))}
+            </select>
+          )}
+
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {UTM_FIELDS.map(({ key, label, placeholder }) => (
+              <div key={key}>
+                <label
+                  htmlFor={`utm-${key}`}
+                  className="block text-xs font-medium text-gray-600 mb-1"
+                >
+                  {label}
+                </label>
+                <input
+                  type="text"
+                  id={`utm-${key}`}
+                  value={params[key] ?? ""}
+                  placeholder={placeholder}
+                  disabled={!isUrlValid}
+                  onChange={(e) => handleFieldChange(key, e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                />
+              </div>
+            ))}
+          </div>
+
+          {isUrlValid && (
+            <div>
+              <p className="text-xs font-medium text-gray-600 mb-1">
+                Final URL
+              </p>
+              <p
+                className="rounded-md bg-gray-50 p-2 font-mono text-xs text-gray-700 break-all"
+                aria-live="polite"
+              >
+                {url}
+              </p>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              maxLength={UTM_PRESET_LIMITS.NAME_MAX_LENGTH}
+              placeholder="Preset name"
+              aria-label="Preset name"
+              className="flex-1 p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handlePresetSave}
+              disabled={!presetName.trim() || !paramCount || isPresetListFull}
+              startIcon={<RiSaveLine />}
+            >
+              Save preset
+            </Button>
+          </div>
+          {isPresetListFull && (
+            <p className="text-xs text-gray-500">
+              You can save up to {UTM_PRESET_LIMITS.MAX_PRESETS} presets, delete
+              one to save another.
+            </p>
+          )}
+
+          {presets.length > 0 && (
+            <ul className="flex flex-wrap gap-2">
+              {presets.map((preset) => (
+                <li
+                  key={preset.id}
+                  className="flex items-center gap-1 rounded-full bg-gray-100 py-0.5 pl-3 pr-1 text-xs text-gray-700"
+                >
+                  {preset.name}
+                  <button
+                    type="button"
+                    onClick={() => deletePreset(preset.id)}
+                    aria-label={`Delete preset ${preset.name}`}
+                    className="rounded-full p-1 hover:bg-gray-200"
+                  >
+                    <RiDeleteBinLine className="h-3 w-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UtmBuilder;
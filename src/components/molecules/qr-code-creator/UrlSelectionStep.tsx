@@ -6,6 +6,8 @@ import { QrCodeCreateFormSchema } from "@/hooks/useQrCodeCreation";
 import { Url } from "@/interfaces/url";
 import SearchInput from "@/components/atoms/SearchInput";
 import InputWithCharacterCounter from "@/components/atoms/InputWithCharacterCounter";
+import DuplicateUrlNotice from "@/components/molecules/DuplicateUrlNotice";
+import { useDuplicateUrls } from "@/hooks/url/useDuplicateUrls";
 import { URL_CUSTOM_CODE_LIMITS, URL_DISPLAY_CONFIG } from "@/config/urlLimits";
 import { formatDistanceToNow } from "date-fns";
 import {
@@ -65,6 +67,16 @@ const UrlSelectionStep: React.FC<UrlSelectionStepProps> = ({
 
   const selectedUrlId = watch("existingUrlId");
   const customCodeValue = watch("customCode");
+  const originalUrlValue = watch("originalUrl");
+
+  // Existing links to the page being typed, offered instead of a new one
+  const { duplicates } = useDuplicateUrls(
+    originalUrlValue ?? "",
+    showCreateForm
+  );
+  const [duplicateChoiceUrl, setDuplicateChoiceUrl] = useState<string | null>(
+    null
+  );
 
   // Format date to relative time
   const formatDate = (dateString: string) => {
@@ -150,6 +162,12 @@ const UrlSelectionStep: React.FC<UrlSelectionStepProps> = ({
     setValue("urlSource", "existing");
   };
 
+  // Use an existing link to the same page for the QR code
+  const handleUseExisting = (url: Url) => {
+    setShowCreateForm(false);
+    handleUrlSelect(url);
+  };
+
   // URL Card Component with enhanced visual states
   const UrlCard: React.FC<{
     url: Url;
@@ -256,6 +274,18 @@ const UrlSelectionStep: React.FC<UrlSelectionStepProps> = ({
                 {errors.originalUrl.message}
               </p>
             )}
+            {duplicates.length > 0 &&
+              duplicateChoiceUrl !== originalUrlValue && (
+                <DuplicateUrlNotice
+                  matches={duplicates}
+                  onReuse={handleUseExisting}
+                  reuseLabel="Create QR for Existing"
+                  onCreateAnyway={() =>
+                    setDuplicateChoiceUrl(originalUrlValue ?? null)
+                  }
+                  className="mt-2"
+                />
+              )}
           </div>
 
           <div>
@@ -0,0 +1,315 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { useForm, type Path } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import Button from "../atoms/Button";
+import LoadingSpinner from "../atoms/LoadingSpinner";
+import type { AbVariant } from "@/interfaces/abTest";
+import type { Url } from "@/interfaces/url";
+import { AB_TEST_LIMITS } from "@/config/abTest";
+import { useApiErrorHandler } from "@/hooks/useApiErrorHandler";
+import { abTestFormSchema, type AbTestFormSchema } from "@/schemas/abTestForm";
+import { getAbVariantShare } from "@/utils/abTest";
+import { RiAddLine, RiDeleteBinLine, RiSaveLine } from "react-icons/ri";
+
+/**
+ * AbTestEditor props
+ * @interface AbTestEditorProps
+ */
+interface AbTestEditorProps {
+  /** URL whose test is edited, null while loading */
+  url: Url | null;
+  /** Whether the URL is loading */
+  isLoading?: boolean;
+  /** Whether the variants are being saved */
+  isSaving?: boolean;
+  /** Function to call when the variants are saved, empty to stop the test. Rejecting keeps the
+   * changes with the error shown */
+  onSave: (variants: AbVariant[]) => Promise<void>;
+}
+
+/**
+ * Input classes shared by the fields of a variant
+ */
+const INPUT_CLASS_NAME =
+  "w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500";
+
+/**
+ * Build a variant with a fresh ID
+ * @param index - Position of the variant, naming it A, B, C...
+ * @param destinationUrl - Destination of the variant
+ * @returns New variant with the default weight
+ */
+const createVariant = (index: number, destinationUrl = ""): AbVariant => ({
+  id: `variant-${Date.now().toString(36)}-${index}`,
+  name: String.fromCharCode(65 + index),
+  destination_url: destinationUrl,
+  weight: 50,
+});
+
+/**
+ * Form fields of each API field of a variant
+ * @param count - Number of variants
+ * @returns Field map for the API error handler
+ */
+const toFieldMap = (count: number) => {
+  const fieldMap: Partial<Record<string, Path<AbTestFormSchema>>> = {
+    ab_variants: "variants",
+  };
+
+  for (let index = 0; index < count; index++) {
+    fieldMap[`ab_variants.${index}.name`] = `variants.${index}.name`;
+    fieldMap[`ab_variants.${index}.destination_url`] =
+      `variants.${index}.destination_url`;
+    fieldMap[`ab_variants.${index}.weight`] = `variants.${index}.weight`;
+  }
+
+  return fieldMap;
+};
+
+/**
+ * AbTestEditor Component
+ * @description Variants of a URL under an A/B test. Visitors are split across the variants in
+ * proportion to their weights and kept on the same variant through a cookie. Visitors matching a
+ * redirect rule are not part of the test.
+ */
+const AbTestEditor: React.FC<AbTestEditorProps> = ({
+  url,
+  isLoading = false,
+  isSaving = false,
+  onSave,
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isDirty },
+    reset,
+    watch,
+    setError,
+    setValue,
+  } = useForm<AbTestFormSchema>({
+    resolver: zodResolver(abTestFormSchema),
+    defaultValues: { variants: [] },
+  });
+
+  const { handleApiError } = useApiErrorHandler();
+
+  // Show the saved variants once loaded, and again after each save
+  useEffect(() => {
+    if (url) reset({ variants: url.ab_variants ?? [] });
+  }, [url, reset]);
+
+  const variants = watch("variants");
+  const isRunning = !!url?.ab_variants?.length;
+  const canAddVariant = variants.length < AB_TEST_LIMITS.MAX_VARIANTS;
+  // A weight input is empty, and read as NaN, while it is being retyped
+  const weightedVariants = variants.map((variant) => ({
+    ...variant,
+    weight: Number.isNaN(variant.weight) ? 0 : variant.weight,
+  }));
+
+  const updateVariants = (next: AbVariant[]) =>
+    setValue("variants", next, { shouldDirty: true });
+
+  // A new test starts from the current destination against a new one
+  const handleStartTest = () =>
+    updateVariants([createVariant(0, url?.original_url), createVariant(1)]);
+
+  const handleStopTest = async () => {
+    try {
+      await onSave([]);
+    } catch (error) {
+      handleApiError(error);
+    }
+  };
+
+  const handleFormSubmit = async (data: AbTestFormSchema) => {
+    try {
+      await onSave(data.variants);
+    } catch (error) {
+      handleApiError(error, {
+        setError,
+        fieldMap: toFieldMap(data.variants.length),
+      });
+    }
+  };
+
+  if (isLoading && !url) {
+    return (
+      <div className="flex justify-center py-10">
+        <LoadingSpinner size="medium" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="mb-4 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">A/B Test</h2>
+          <p className="text-sm text-gray-600">
+            Split the visitors of this link across destinations by weight.
+            Each visitor keeps seeing the same variant.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {isRunning && (
+            <Button
+              variant="outline"
+              onClick={handleStopTest}
+              disabled={isSaving}
+            >
+              Stop Test
+            </Button>
+          )}
+          {variants.length > 0 && (
+            <Button
+              variant="primary"
+              onClick={handleSubmit(handleFormSubmit)}
+              disabled={isSaving || !isDirty}
+              loading={isSaving}
+              startIcon={<RiSaveLine />}
+            >
+              {isSaving ? "Saving..." : isRunning ? "Save Test" : "Start Test"}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {variants.length === 0 ? (
+        <div className="rounded-md border border-dashed border-gray-300 p-6 text-center">
+          <p className="mb-3 text-sm text-gray-500">
+            Every visitor goes to{" "}
+            <span className="break-all text-gray-900">{url?.original_url}</span>
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleStartTest}
+            startIcon={<RiAddLine />}
+          >
+            Set Up A/B Test
+          </Button>
+        </div>
+      ) : (
+        <>
+          <ol className="space-y-3">
+            {variants.map((variant, index) => {
+              const variantErrors = errors.variants?.[index];
+              const share = getAbVariantShare(
+                weightedVariants[index],
+                weightedVariants
+              );
+
+              return (
+                <li
+                  key={variant.id}
+                  className="flex gap-3 rounded-md border border-gray-200 p-4"
+                >
+                  <div className="grid min-w-0 flex-1 grid-cols-1 gap-3 md:grid-cols-[1fr_3fr_1fr]">
+                    <div>
+                      <input
+                        type="text"
+                        {...register(`variants.${index}.name`)}
+                        maxLength={AB_TEST_LIMITS.NAME_MAX_LENGTH}
+                        disabled={isSaving}
+                        placeholder="Variant name"
+                        aria-label="Variant name"
+                        className={INPUT_CLASS_NAME}
+                      />
+                      {variantErrors?.name && (
+                        <p className="mt-1 text-sm text-red-600">
+                          {variantErrors.name.message}
+                        </p>
+                      )}
+                    </div>
+                    <div>
+                      <input
+                        type="url"
+                        {...register(`variants.${index}.destination_url`)}
+                        disabled={isSaving}
+                        placeholder="https://example.com/landing-page"
+                        aria-label="Destination"
+                        className={INPUT_CLASS_NAME}
+                      />
+                      {variantErrors?.destination_url && (
+                        <p className="mt-1 text-sm text-red-600">
+                          {variantErrors.destination_url.message}
+                        </p>
+                      )}
+                    </div>
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          {...register(`variants.${index}.weight`, {
+                            valueAsNumber: true,
+                          })}
+                          min={AB_TEST_LIMITS.MIN_WEIGHT}
+                          max={AB_TEST_LIMITS.MAX_WEIGHT}
+                          disabled={isSaving}
+                          aria-label="Weight"
+                          className={INPUT_CLASS_NAME}
+                        />
+                        <span className="w-12 text-right text-sm text-gray-600">
+                          {share.toFixed(0)}%
+                        </span>
+                      </div>
+                      {variantErrors?.weight && (
+                        <p className="mt-1 text-sm text-red-600">
+                          {variantErrors.weight.message}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateVariants(variants.filter((_, i) => i !== index))
+                    }
+                    disabled={isSaving}
+                    aria-label={`Remove variant ${variant.name}`}
+                    className="self-start rounded p-1 text-gray-500 hover:bg-red-50 hover:text-red-600"
+                  >
+                    <RiDeleteBinLine className="h-4 w-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+          {errors.variants?.message && (
+            <p className="mt-1 text-sm text-red-600">
+              {errors.variants.message}
+            </p>
+          )}
+
+          <div className="mt-3 flex flex-wrap items-center justify-between gap-3 rounded-md bg-gray-50 p-4 text-sm">
+            <p className="min-w-0 text-gray-700">
+              {isRunning
+                ? "When the test stops, visitors go back to "
+                : "Until the test starts, visitors go to "}
+              <span className="break-all text-gray-900">
+                {url?.original_url}
+              </span>
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                updateVariants([...variants, createVariant(variants.length)])
+              }
+              disabled={isSaving || !canAddVariant}
+              startIcon={<RiAddLine />}
+            >
+              Add Variant
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AbTestEditor;
@@ -0,0 +1,116 @@
+"use client";
+
+import React from "react";
+import Avatar from "@/components/atoms/Avatar";
+import Logo from "@/components/atoms/Logo";
+import type { PublicBioPage, PublicBioPageLink } from "@/interfaces/bioPage";
+import {
+  BIO_LINK_ICONS,
+  BIO_PAGE_REFERRER,
+  BIO_PAGE_THEMES,
+} from "@/config/bioPage";
+import { SHORT_URL_REFERRER_PARAM } from "@/config/url";
+
+/**
+ * BioPageView props
+ * @interface BioPageViewProps
+ */
+interface BioPageViewProps {
+  /** Page to render */
+  page: PublicBioPage;
+  /** Function to call when a link is clicked */
+  onLinkClick?: (
+    link: PublicBioPageLink,
+    event: React.MouseEvent<HTMLAnchorElement>
+  ) => void;
+  /** Optional additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Build the address a bio page link opens
+ * @description Links go through their short URL, so its rules, password prompt and click count
+ * apply, with the bio page referrer recorded on the click
+ * @param link - Link of the bio page
+ * @returns Short URL with the referrer parameter
+ */
+const getBioLinkHref = (link: PublicBioPageLink) => {
+  const href = new URL(link.short_url);
+  href.searchParams.set(SHORT_URL_REFERRER_PARAM, BIO_PAGE_REFERRER);
+  return href.toString();
+};
+
+/**
+ * BioPageView Component
+ * @description Link-in-bio page with its avatar, name, bio and links in the page theme, shown to
+ * visitors at /@username and as a live preview in the editor
+ */
+const BioPageView: React.FC<BioPageViewProps> = ({
+  page,
+  onLinkClick,
+  className = "",
+}) => {
+  const theme = BIO_PAGE_THEMES[page.theme];
+
+  return (
+    <div
+      className={`flex flex-col items-center px-4 py-10 ${theme.pageClassName} ${className}`}
+    >
+      <div className="flex w-full max-w-md flex-col items-center text-center">
+        <Avatar
+          key={page.avatar_url}
+          username={page.display_name}
+          avatarUrl={page.avatar_url}
+          size={88}
+          className="mb-4"
+        />
+        <h1 className="text-xl font-bold">{page.display_name}</h1>
+        <p className={`text-sm ${theme.mutedClassName}`}>@{page.username}</p>
+        {page.bio && (
+          <p className="mt-3 whitespace-pre-line text-sm">{page.bio}</p>
+        )}
+
+        <ul className="mt-8 w-full space-y-3">
+          {page.links.map((link) => {
+            const Icon = BIO_LINK_ICONS[link.icon].icon;
+            return (
+              <li key={link.short_code}>
+                <a
+                  href={getBioLinkHref(link)}
+                  rel="noopener noreferrer"
+                  onClick={(event) => onLinkClick?.(link, event)}
+                  className={`flex items-center gap-3 rounded-xl px-4 py-3 text-left shadow-sm transition-colors ${theme.linkClassName}`}
+                >
+                  <Icon className="h-5 w-5 flex-shrink-0" aria-hidden />
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate font-medium">
+                      {link.title}
+                    </span>
+                    {link.description && (
+                      <span
+                        className={`block text-xs ${theme.mutedClassName}`}
+                      >
+                        {link.description}
+                      </span>
+                    )}
+                  </span>
+                </a>
+              </li>
+            );
+          })}
+        </ul>
+        {page.links.length === 0 && (
+          <p className={`mt-8 text-sm ${theme.mutedClassName}`}>
+            No links yet.
+          </p>
+        )}
+
+        <div className="mt-12 opacity-70">
+          <Logo size="sm" withLink={false} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BioPageView;
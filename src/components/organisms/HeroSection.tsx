@@ -2,6 +2,7 @@
 
 import React, { useEffect, useRef } from "react";
 import Image from "next/image";
+import Link from "next/link";
 import {
   motion,
   useScroll,
@@ -278,6 +279,20 @@ const HeroSection: React.FC<HeroSectionProps> = ({
                   </svg>
                 </a>
               </motion.div>
+
+              {/* Demo CTA */}
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 1.2, duration: 0.5 }}
+              >
+                <Link
+                  href="/demo"
+                  className="inline-flex items-center px-6 py-4 text-black hover:text-gray-700 font-medium underline underline-offset-4 transition-all duration-300"
+                >
+                  Try the demo
+                </Link>
+              </motion.div>
             </div>
           </motion.div>
         </div>
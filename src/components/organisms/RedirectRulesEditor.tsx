@@ -0,0 +1,454 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { Controller, useForm, type Path } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import Button from "../atoms/Button";
+import LoadingSpinner from "../atoms/LoadingSpinner";
+import type { RedirectRule } from "@/interfaces/redirectRules";
+import type { Url } from "@/interfaces/url";
+import {
+  REDIRECT_RULE_DEVICES,
+  REDIRECT_RULE_LIMITS,
+  REDIRECT_RULE_OS,
+} from "@/config/redirectRules";
+import { useApiErrorHandler } from "@/hooks/useApiErrorHandler";
+import {
+  redirectRulesFormSchema,
+  type RedirectRuleFormValues,
+  type RedirectRulesFormSchema,
+} from "@/schemas/redirectRulesForm";
+import { parseRedirectCodes } from "@/utils/redirectRules";
+import {
+  RiAddLine,
+  RiArrowDownLine,
+  RiArrowUpLine,
+  RiDeleteBinLine,
+  RiSaveLine,
+} from "react-icons/ri";
+
+/**
+ * RedirectRulesEditor props
+ * @interface RedirectRulesEditorProps
+ */
+interface RedirectRulesEditorProps {
+  /** URL whose rules are edited, null while loading */
+  url: Url | null;
+  /** Whether the URL is loading */
+  isLoading?: boolean;
+  /** Whether the rules are being saved */
+  isSaving?: boolean;
+  /** Function to call when the rules are saved, rejecting keeps the changes with the error shown */
+  onSave: (rules: RedirectRule[]) => Promise<void>;
+}
+
+/**
+ * Options of a device type or operating system condition
+ * @interface ConditionOptionsProps
+ */
+interface ConditionOptionsProps<T extends string> {
+  /** Label of the condition */
+  label: string;
+  /** Values that can be picked, in display order */
+  options: ReadonlyArray<{ value: T; label: string }>;
+  /** Picked values */
+  value: T[];
+  /** Function to call with the picked values */
+  onChange: (value: T[]) => void;
+  /** Whether editing is disabled */
+  disabled?: boolean;
+}
+
+/**
+ * Input classes shared by the fields of a rule
+ */
+const INPUT_CLASS_NAME =
+  "w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500";
+
+/**
+ * Build the form values of a rule
+ * @param rule - Saved rule
+ * @returns Form values, countries and languages as comma separated codes
+ */
+const toFormRule = (rule: RedirectRule): RedirectRuleFormValues => ({
+  id: rule.id,
+  name: rule.name,
+  destination_url: rule.destination_url,
+  device: rule.conditions.device ?? [],
+  os: rule.conditions.os ?? [],
+  country: rule.conditions.country?.join(", ") ?? "",
+  language: rule.conditions.language?.join(", ") ?? "",
+});
+
+/**
+ * Turn comma separated codes into the codes of a condition
+ * @param value - Codes as typed
+ * @param caseOf - Function normalizing the case of a code
+ * @returns Codes without duplicates
+ */
+const toCodes = (value: string, caseOf: (code: string) => string) =>
+  Array.from(new Set(parseRedirectCodes(value).map(caseOf)));
+
+/**
+ * Build a rule from its form values
+ * @param values - Form values of the rule
+ * @returns Rule, conditions left empty omitted
+ */
+const toRedirectRule = (values: RedirectRuleFormValues): RedirectRule => {
+  const country = toCodes(values.country, (code) => code.toUpperCase());
+  const language = toCodes(values.language, (code) => code.toLowerCase());
+
+  return {
+    id: values.id,
+    name: values.name,
+    destination_url: values.destination_url,
+    conditions: {
+      ...(values.device.length > 0 && { device: values.device }),
+      ...(values.os.length > 0 && { os: values.os }),
+      ...(country.length > 0 && { country }),
+      ...(language.length > 0 && { language }),
+    },
+  };
+};
+
+/**
+ * Form fields of each API field of a rule
+ * @param count - Number of rules
+ * @returns Field map for the API error handler
+ */
+const toFieldMap = (count: number) => {
+  const fieldMap: Partial<Record<string, Path<RedirectRulesFormSchema>>> = {
+    redirect_rules: "rules",
+  };
+
+  for (let index = 0; index < count; index++) {
+    fieldMap[`redirect_rules.${index}.name`] = `rules.${index}.name`;
+    fieldMap[`redirect_rules.${index}.destination_url`] =
+      `rules.${index}.destination_url`;
+    fieldMap[`redirect_rules.${index}.conditions`] = `rules.${index}.device`;
+  }
+
+  return fieldMap;
+};
+
+/**
+ * Toggle buttons picking the values of a device type or operating system condition
+ */
+const ConditionOptions = <T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+  disabled = false,
+}: ConditionOptionsProps<T>) => (
+  <div>
+    <p className="mb-1 text-xs font-medium text-gray-600">{label}</p>
+    <div className="flex flex-wrap gap-1">
+      {options.map((option) => {
+        const isPicked = value.includes(option.value);
+        return (
+          <button
+            key={option.value}
+            type="button"
+            aria-pressed={isPicked}
+            disabled={disabled}
+            onClick={() =>
+              onChange(
+                isPicked
+                  ? value.filter((item) => item !== option.value)
+                  : [...value, option.value]
+              )
+            }
+            className={`rounded-full border px-3 py-1 text-xs transition-colors ${
+              isPicked
+                ? "border-blue-600 bg-blue-600 text-white"
+                : "border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
+
+/**
+ * RedirectRulesEditor Component
+ * @description Ordered redirect rules of a URL. Each rule sends the visitors matching all of its
+ * conditions to its own destination, the first matching rule wins and everyone else goes to the
+ * destination of the URL.
+ */
+const RedirectRulesEditor: React.FC<RedirectRulesEditorProps> = ({
+  url,
+  isLoading = false,
+  isSaving = false,
+  onSave,
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isDirty },
+    reset,
+    watch,
+    setError,
+    setValue,
+    control,
+  } = useForm<RedirectRulesFormSchema>({
+    resolver: zodResolver(redirectRulesFormSchema),
+    defaultValues: { rules: [] },
+  });
+
+  const { handleApiError } = useApiErrorHandler();
+
+  // Show the saved rules once loaded, and again after each save
+  useEffect(() => {
+    if (url) reset({ rules: (url.redirect_rules ?? []).map(toFormRule) });
+  }, [url, reset]);
+
+  const rules = watch("rules");
+  const canAddRule = rules.length < REDIRECT_RULE_LIMITS.MAX_RULES;
+
+  const updateRules = (next: RedirectRuleFormValues[]) =>
+    setValue("rules", next, { shouldDirty: true });
+
+  const handleAddRule = () =>
+    updateRules([
+      ...rules,
+      {
+        id: `rule-${Date.now().toString(36)}`,
+        name: `Rule ${rules.length + 1}`,
+        destination_url: "",
+        device: [],
+        os: [],
+        country: "",
+        language: "",
+      },
+    ]);
+
+  const handleMove = (from: number, to: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(from, 1);
+    next.splice(to, 0, rule);
+    updateRules(next);
+  };
+
+  const handleFormSubmit = async (data: RedirectRulesFormSchema) => {
+    try {
+      await onSave(data.rules.map(toRedirectRule));
+    } catch (error) {
+      handleApiError(error, {
+        setError,
+        fieldMap: toFieldMap(data.rules.length),
+      });
+    }
+  };
+
+  if (isLoading && !url) {
+    return (
+      <div className="flex justify-center py-10">
+        <LoadingSpinner size="medium" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="mb-4 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">
+            Redirect Rules
+          </h2>
+          <p className="text-sm text-gray-600">
+            Send visitors to another destination by device, operating system,
+            country or language. Rules are checked from top to bottom.
+          </p>
+        </div>
+        <Button
+          variant="primary"
+          onClick={handleSubmit(handleFormSubmit)}
+          disabled={isSaving || !isDirty}
+          loading={isSaving}
+          startIcon={<RiSaveLine />}
+        >
+          {isSaving ? "Saving..." : "Save Rules"}
+        </Button>
+      </div>
+
+      <ol className="space-y-3">
+        {rules.map((rule, index) => {
+          const ruleErrors = errors.rules?.[index];
+
+          return (
+            <li
+              key={rule.id}
+              className="flex gap-3 rounded-md border border-gray-200 p-4"
+            >
+              <div className="flex flex-col items-center gap-1">
+                <span className="text-xs font-semibold text-gray-500">
+                  {index + 1}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleMove(index, index - 1)}
+                  disabled={isSaving || index === 0}
+                  aria-label={`Move ${rule.name || "rule"} up`}
+                  className="rounded p-1 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                >
+                  <RiArrowUpLine className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleMove(index, index + 1)}
+                  disabled={isSaving || index === rules.length - 1}
+                  aria-label={`Move ${rule.name || "rule"} down`}
+                  className="rounded p-1 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                >
+                  <RiArrowDownLine className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="min-w-0 flex-1 space-y-3">
+                <div className="grid grid-cols-1 gap-3 md:grid-cols-[1fr_2fr]">
+                  <div>
+                    <input
+                      type="text"
+                      {...register(`rules.${index}.name`)}
+                      maxLength={REDIRECT_RULE_LIMITS.NAME_MAX_LENGTH}
+                      disabled={isSaving}
+                      placeholder="Rule name"
+                      aria-label="Rule name"
+                      className={INPUT_CLASS_NAME}
+                    />
+                    {ruleErrors?.name && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {ruleErrors.name.message}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <input
+                      type="url"
+                      {...register(`rules.${index}.destination_url`)}
+                      disabled={isSaving}
+                      placeholder="https://apps.apple.com/app/..."
+                      aria-label="Destination"
+                      className={INPUT_CLASS_NAME}
+                    />
+                    {ruleErrors?.destination_url && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {ruleErrors.destination_url.message}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                  <Controller
+                    control={control}
+                    name={`rules.${index}.device`}
+                    render={({ field }) => (
+                      <ConditionOptions
+                        label="Device"
+                        options={REDIRECT_RULE_DEVICES}
+                        value={field.value}
+                        onChange={field.onChange}
+                        disabled={isSaving}
+                      />
+                    )}
+                  />
+                  <Controller
+                    control={control}
+                    name={`rules.${index}.os`}
+                    render={({ field }) => (
+                      <ConditionOptions
+                        label="Operating system"
+                        options={REDIRECT_RULE_OS}
+                        value={field.value}
+                        onChange={field.onChange}
+                        disabled={isSaving}
+                      />
+                    )}
+                  />
+                  <div>
+                    <label className="mb-1 block text-xs font-medium text-gray-600">
+                      Countries
+                      <input
+                        type="text"
+                        {...register(`rules.${index}.country`)}
+                        disabled={isSaving}
+                        placeholder="DE, AT, CH"
+                        className={`mt-1 font-normal ${INPUT_CLASS_NAME}`}
+                      />
+                    </label>
+                    {ruleErrors?.country && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {ruleErrors.country.message}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="mb-1 block text-xs font-medium text-gray-600">
+                      Languages
+                      <input
+                        type="text"
+                        {...register(`rules.${index}.language`)}
+                        disabled={isSaving}
+                        placeholder="de, fr"
+                        className={`mt-1 font-normal ${INPUT_CLASS_NAME}`}
+                      />
+                    </label>
+                    {ruleErrors?.language && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {ruleErrors.language.message}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                {ruleErrors?.device && (
+                  <p className="text-sm text-red-600">
+                    {ruleErrors.device.message}
+                  </p>
+                )}
+              </div>
+
+              <button
+                type="button"
+                onClick={() => updateRules(rules.filter((_, i) => i !== index))}
+                disabled={isSaving}
+                aria-label={`Remove ${rule.name || "rule"}`}
+                className="self-start rounded p-1 text-gray-500 hover:bg-red-50 hover:text-red-600"
+              >
+                <RiDeleteBinLine className="h-4 w-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+      {errors.rules?.message && (
+        <p className="mt-1 text-sm text-red-600">{errors.rules.message}</p>
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center justify-between gap-3 rounded-md bg-gray-50 p-4 text-sm">
+        <p className="min-w-0 text-gray-700">
+          <span className="font-medium">
+            {rules.length > 0 ? "Everyone else" : "Every visitor"}
+          </span>{" "}
+          goes to{" "}
+          <span className="break-all text-gray-900">{url?.original_url}</span>
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleAddRule}
+          disabled={isSaving || !canAddRule}
+          startIcon={<RiAddLine />}
+        >
+          Add Rule
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RedirectRulesEditor;
@@ -2,9 +2,14 @@
 
 import React from "react";
 import { useUrls } from "@/hooks/useUrls";
+import { useUrlSelection } from "@/hooks/useUrlSelection";
+import { useUrlBulkActions } from "@/hooks/useUrlBulkActions";
+import { useUrlTags } from "@/hooks/url/useUrlTags";
 import UrlItem from "@/components/molecules/UrlItem";
+import UrlBulkActionsBar from "@/components/molecules/UrlBulkActionsBar";
 import UrlFilter, { FilterOptions } from "@/components/molecules/UrlFilter";
 import Pagination from "@/components/molecules/Pagination";
+import type { UrlStatus } from "@/interfaces/url";
 
 /**
  * URL List Component
@@ -23,19 +28,50 @@ const UrlList = () => {
     refreshUrls,
   } = useUrls();
 
+  const { tagNames } = useUrlTags();
+
+  const {
+    selectedUrls,
+    selectedUrlIds,
+    selectedCount,
+    isAllMatchingSelected,
+    handleSelectUrl,
+    handleSelectAllUrls,
+    selectAllMatching,
+    clearSelection,
+  } = useUrlSelection(urls, pagination.total);
+
+  const {
+    isRunning,
+    handleBulkStatusChange,
+    handleBulkDelete,
+    handleBulkExtendExpiry,
+    handleBulkUpdateTags,
+    handleBulkGenerateQrCodes,
+  } = useUrlBulkActions(filter, refreshUrls, clearSelection);
+
+  const bulkSelection = {
+    urls: selectedUrls,
+    isAllMatching: isAllMatchingSelected,
+  };
+
   const handleFilterChangeForUrlFilter = (
     filterType: keyof FilterOptions,
     value: string | number
   ) => {
+    clearSelection();
+
     if (filterType === "status") {
       updateFilter({
         status:
-          value !== "all"
-            ? (value as "active" | "expired" | "inactive")
-            : undefined,
+          value !== "all" ? (value as UrlStatus) : undefined,
       });
     } else if (filterType === "limit") {
       updateFilter({ limit: value as number });
+    } else if (filterType === "tag") {
+      updateFilter({
+        tags: value !== "all" ? [value as string] : undefined,
+      });
     }
   };
 
@@ -86,8 +122,30 @@ const UrlList = () => {
         filters={{
           status: filter.status,
           limit: filter.limit,
+          tag: filter.tags?.[0],
         }}
         onFilterChange={handleFilterChangeForUrlFilter}
+        tagOptions={tagNames}
+      />
+
+      <UrlBulkActionsBar
+        selectedCount={selectedCount}
+        totalCount={pagination.total}
+        isPageSelected={urls.every((url) => selectedUrlIds.includes(url.id))}
+        isAllMatchingSelected={isAllMatchingSelected}
+        isRunning={isRunning}
+        onSelectPage={handleSelectAllUrls}
+        onSelectAllMatching={selectAllMatching}
+        onClearSelection={clearSelection}
+        onStatusChange={(isActive) =>
+          handleBulkStatusChange(bulkSelection, isActive)
+        }
+        onExtendExpiry={(days) => handleBulkExtendExpiry(bulkSelection, days)}
+        onUpdateTags={(tags, mode) =>
+          handleBulkUpdateTags(bulkSelection, tags, mode)
+        }
+        onGenerateQrCodes={() => handleBulkGenerateQrCodes(bulkSelection)}
+        onDelete={() => handleBulkDelete(bulkSelection, selectedCount)}
       />
 
       <div>
@@ -97,6 +155,8 @@ const UrlList = () => {
             url={url}
             onDelete={deleteUrl}
             onToggleStatus={updateUrlStatus}
+            isSelected={selectedUrlIds.includes(url.id)}
+            onSelect={handleSelectUrl}
           />
         ))}
       </div>
@@ -0,0 +1,172 @@
+"use client";
+
+import React from "react";
+import Button from "../atoms/Button";
+import LoadingSpinner from "../atoms/LoadingSpinner";
+import type { Url } from "@/interfaces/url";
+import type {
+  UrlRevision,
+  UrlRevisionChange,
+  UrlRevisionField,
+} from "@/interfaces/urlRevision";
+import { formatDate, formatDateTime } from "@/utils/dateFormatter";
+import { RiArrowGoBackLine, RiHistoryLine } from "react-icons/ri";
+
+/**
+ * UrlRevisionHistory props
+ * @interface UrlRevisionHistoryProps
+ */
+interface UrlRevisionHistoryProps {
+  /** URL as currently saved, null while loading */
+  url: Url | null;
+  /** Revisions of the URL, newest first */
+  revisions: UrlRevision[];
+  /** Whether the revisions are loading */
+  isLoading?: boolean;
+  /** ID of the revision being restored, if any */
+  restoringId?: number | null;
+  /** Function to call to put back the values a revision replaced */
+  onRestore: (revision: UrlRevision) => void;
+}
+
+/**
+ * Label of each tracked field
+ */
+const FIELD_LABELS: Record<UrlRevisionField, string> = {
+  original_url: "Destination",
+  short_code: "Short code",
+  title: "Title",
+  expiry_date: "Expiry date",
+};
+
+/**
+ * Format a value of a revision for display
+ * @param change - Change the value belongs to
+ * @param value - Value before or after the change
+ * @returns Readable value
+ */
+const formatValue = (change: UrlRevisionChange, value: string | null) => {
+  if (!value) return "None";
+  return change.field === "expiry_date" ? formatDate(value) : value;
+};
+
+/**
+ * Check whether a URL already has the values a revision replaced
+ * @param url - URL as currently saved
+ * @param revision - Revision to check
+ * @returns true if restoring the revision would change nothing
+ */
+const isRestored = (url: Url, revision: UrlRevision) =>
+  revision.changes.every(
+    (change) => (url[change.field] || null) === change.previous
+  );
+
+/**
+ * UrlRevisionHistory Component
+ * @description Timeline of the changes made to a URL, newest first, with the previous and new value
+ * of each changed field. Restoring a revision puts back the values it replaced and is recorded as a
+ * revision of its own, so it can be undone the same way.
+ */
+const UrlRevisionHistory: React.FC<UrlRevisionHistoryProps> = ({
+  url,
+  revisions,
+  isLoading = false,
+  restoringId = null,
+  onRestore,
+}) => {
+  if (isLoading && revisions.length === 0) {
+    return (
+      <div className="flex justify-center py-10">
+        <LoadingSpinner size="medium" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Edit History</h2>
+        <p className="text-sm text-gray-600">
+          Changes to the destination, short code, title and expiry date of
+          this link.
+        </p>
+      </div>
+
+      <ol className="relative space-y-6 border-l border-gray-200 pl-6">
+        {revisions.map((revision) => (
+          <li key={revision.id} className="relative">
+            <span className="absolute -left-[31px] top-1 h-3 w-3 rounded-full border-2 border-white bg-blue-600" />
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {revision.author.name}
+                  {revision.restored_from && (
+                    <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-normal text-gray-600">
+                      Restored revision #{revision.restored_from}
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Revision #{revision.id} &middot;{" "}
+                  {formatDateTime(revision.created_at)}
+                </p>
+              </div>
+              {url && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onRestore(revision)}
+                  disabled={restoringId !== null || isRestored(url, revision)}
+                  loading={restoringId === revision.id}
+                  startIcon={<RiArrowGoBackLine />}
+                >
+                  {restoringId === revision.id
+                    ? "Restoring..."
+                    : "Restore Previous Values"}
+                </Button>
+              )}
+            </div>
+
+            <dl className="mt-3 space-y-2 rounded-md bg-gray-50 p-3 text-sm">
+              {revision.changes.map((change) => (
+                <div
+                  key={change.field}
+                  className="grid grid-cols-1 gap-1 md:grid-cols-[8rem_1fr]"
+                >
+                  <dt className="font-medium text-gray-700">
+                    {FIELD_LABELS[change.field]}
+                  </dt>
+                  <dd className="min-w-0 break-all">
+                    <del className="text-red-600">
+                      {formatValue(change, change.previous)}
+                    </del>
+                    <span className="mx-2 text-gray-400">&rarr;</span>
+                    <ins className="text-green-700 no-underline">
+                      {formatValue(change, change.current)}
+                    </ins>
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </li>
+        ))}
+
+        {url && (
+          <li className="relative">
+            <span className="absolute -left-[31px] top-1 h-3 w-3 rounded-full border-2 border-white bg-gray-400" />
+            <p className="flex items-center gap-2 text-sm font-medium text-gray-900">
+              <RiHistoryLine className="text-gray-500" aria-hidden />
+              Link created
+            </p>
+            <p className="text-xs text-gray-500">
+              {formatDateTime(url.created_at)}
+              {revisions.length === 0 && " · No edits since"}
+            </p>
+          </li>
+        )}
+      </ol>
+    </div>
+  );
+};
+
+export default UrlRevisionHistory;
@@ -0,0 +1,410 @@
+"use client";
+
+import React, { useEffect } from "react";
+import Link from "next/link";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import Button from "../atoms/Button";
+import LoadingSpinner from "../atoms/LoadingSpinner";
+import BioLinkEditorList from "../molecules/BioLinkEditorList";
+import BioPageView from "../organisms/BioPageView";
+import type {
+  BioPage,
+  BioPageTheme,
+  PublicBioPage,
+  UpdateBioPageRequest,
+} from "@/interfaces/bioPage";
+import type { Url } from "@/interfaces/url";
+import { BIO_PAGE_LIMITS, BIO_PAGE_THEMES } from "@/config/bioPage";
+import { URL_DISPLAY_CONFIG } from "@/config/urlLimits";
+import { useApiErrorHandler } from "@/hooks/useApiErrorHandler";
+import {
+  bioPageFormSchema,
+  type BioPageFormSchema,
+} from "@/schemas/bioPageForm";
+import { getUrlStatus } from "@/utils/urlStatus";
+import { RiExternalLinkLine, RiSaveLine } from "react-icons/ri";
+
+/**
+ * Prop types for BioPageEditorTemplate component
+ */
+interface BioPageEditorTemplateProps {
+  /**
+   * Saved bio page, null while loading
+   */
+  bioPage: BioPage | null;
+  /**
+   * URLs of the user that can be listed
+   */
+  urls: Url[];
+  /**
+   * Whether the page is loading
+   */
+  isLoading?: boolean;
+  /**
+   * Whether the page is being saved
+   */
+  isSaving?: boolean;
+  /**
+   * Function to call when the page is saved, rejecting keeps the changes with the error shown
+   */
+  onSave: (page: UpdateBioPageRequest) => Promise<void>;
+}
+
+/**
+ * Build the form values of a bio page
+ * @param bioPage - Saved bio page
+ * @returns Form values
+ */
+const toFormValues = (bioPage: BioPage | null): BioPageFormSchema => ({
+  username: bioPage?.username ?? "",
+  display_name: bioPage?.display_name ?? "",
+  bio: bioPage?.bio ?? "",
+  avatar_url: bioPage?.avatar_url ?? "",
+  theme: bioPage?.theme ?? "light",
+  links: bioPage?.links ?? [],
+});
+
+/**
+ * BioPageEditorTemplate Component
+ * @description Template for the bio page editor, with the profile, theme and ordered links on
+ * one side and a live preview of the public page on the other
+ */
+const BioPageEditorTemplate: React.FC<BioPageEditorTemplateProps> = ({
+  bioPage,
+  urls,
+  isLoading = false,
+  isSaving = false,
+  onSave,
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isDirty },
+    reset,
+    watch,
+    setError,
+    setValue,
+    control,
+  } = useForm<BioPageFormSchema>({
+    resolver: zodResolver(bioPageFormSchema),
+    defaultValues: toFormValues(bioPage),
+  });
+
+  const { handleApiError } = useApiErrorHandler();
+
+  // Show the saved page once loaded, and again after each save
+  useEffect(() => {
+    if (bioPage) reset(toFormValues(bioPage));
+  }, [bioPage, reset]);
+
+  const values = watch();
+  const linkedIds = values.links.map((link) => link.url_id);
+  const availableUrls = urls.filter((url) => !linkedIds.includes(url.id));
+
+  // Array errors come from the list itself, the others from one of its links
+  const linkErrors = Array.isArray(errors.links) ? errors.links : [];
+  const linksError =
+    errors.links?.message ??
+    errors.links?.root?.message ??
+    linkErrors
+      .map((error) => error?.title?.message ?? error?.description?.message)
+      .find(Boolean);
+
+  const preview: PublicBioPage = {
+    username: values.username,
+    display_name: values.display_name || "Your name",
+    bio: values.bio,
+    avatar_url: values.avatar_url || undefined,
+    theme: values.theme,
+    links: values.links.flatMap((link) => {
+      const url = urls.find((item) => item.id === link.url_id);
+      if (!url) return [];
+      return [
+        { ...link, short_code: url.short_code, short_url: url.short_url },
+      ];
+    }),
+  };
+
+  const handleAddLink = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const url = urls.find((item) => item.id === Number(e.target.value));
+    if (!url) return;
+
+    setValue(
+      "links",
+      [
+        ...values.links,
+        { url_id: url.id, title: url.title || url.short_code, icon: "link" },
+      ],
+      { shouldDirty: true, shouldValidate: true }
+    );
+  };
+
+  const handleFormSubmit = async (data: BioPageFormSchema) => {
+    try {
+      await onSave({
+        ...data,
+        bio: data.bio || undefined,
+        avatar_url: data.avatar_url || undefined,
+        links: data.links.map((link) => ({
+          ...link,
+          description: link.description || undefined,
+        })),
+      });
+    } catch (error) {
+      handleApiError(error, { setError });
+    }
+  };
+
+  if (isLoading && !bioPage) {
+    return (
+      <div className="flex justify-center py-20">
+        <LoadingSpinner size="large" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-transparent">
+      <div className="container mx-auto px-2 sm:px-4 gap-6">
+        {/* Header Section */}
+        <div className="py-6 mb-6 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-black">Bio Page</h1>
+            <p className="text-sm text-[#607D8B]">
+              Share one link that lists your favorite short links
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {bioPage && (
+              <Link
+                href={`/@${bioPage.username}`}
+                target="_blank"
+                className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline"
+              >
+                {URL_DISPLAY_CONFIG.SHORT_URL_DOMAIN}/@{bioPage.username}
+                <RiExternalLinkLine />
+              </Link>
+            )}
+            <Button
+              variant="primary"
+              onClick={handleSubmit(handleFormSubmit)}
+              disabled={isSaving || !isDirty}
+              loading={isSaving}
+              startIcon={<RiSaveLine />}
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <form className="space-y-6" onSubmit={handleSubmit(handleFormSubmit)}>
+            {/* Profile */}
+            <section className="space-y-4 rounded-lg border border-gray-200 bg-white p-4">
+              <h2 className="text-lg font-semibold text-gray-900">Profile</h2>
+
+              <div>
+                <label
+                  htmlFor="username"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Username
+                </label>
+                <div className="flex">
+                  <span className="inline-flex items-center px-3 rounded-l-md border border-r-0 border-gray-300 bg-gray-50 text-gray-500 text-sm">
+                    {URL_DISPLAY_CONFIG.SHORT_URL_DOMAIN}/@
+                  </span>
+                  <input
+                    type="text"
+                    id="username"
+                    maxLength={BIO_PAGE_LIMITS.USERNAME_MAX_LENGTH}
+                    {...register("username")}
+                    className="flex-1 min-w-0 p-2 border border-gray-300 rounded-r-md focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                {errors.username && (
+                  <p className="mt-1 text-sm text-red-600">
+                    {errors.username.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label
+                  htmlFor="display_name"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Display Name
+                </label>
+                <input
+                  type="text"
+                  id="display_name"
+                  maxLength={BIO_PAGE_LIMITS.DISPLAY_NAME_MAX_LENGTH}
+                  {...register("display_name")}
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+                {errors.display_name && (
+                  <p className="mt-1 text-sm text-red-600">
+                    {errors.display_name.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label
+                  htmlFor="bio"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Bio (Optional)
+                </label>
+                <textarea
+                  id="bio"
+                  rows={3}
+                  maxLength={BIO_PAGE_LIMITS.BIO_MAX_LENGTH}
+                  {...register("bio")}
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="mt-1 text-right text-xs text-gray-500">
+                  {values.bio?.length ?? 0}/{BIO_PAGE_LIMITS.BIO_MAX_LENGTH}
+                </p>
+                {errors.bio && (
+                  <p className="mt-1 text-sm text-red-600">
+                    {errors.bio.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label
+                  htmlFor="avatar_url"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Avatar Image URL (Optional)
+                </label>
+                <input
+                  type="url"
+                  id="avatar_url"
+                  placeholder="https://"
+                  {...register("avatar_url")}
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Your initials are shown without an image.
+                </p>
+                {errors.avatar_url && (
+                  <p className="mt-1 text-sm text-red-600">
+                    {errors.avatar_url.message}
+                  </p>
+                )}
+              </div>
+            </section>
+
+            {/* Theme */}
+            <section className="space-y-3 rounded-lg border border-gray-200 bg-white p-4">
+              <h2 className="text-lg font-semibold text-gray-900">Theme</h2>
+              <Controller
+                name="theme"
+                control={control}
+                render={({ field }) => (
+                  <div
+                    role="radiogroup"
+                    aria-label="Theme"
+                    className="grid grid-cols-2 gap-2 sm:grid-cols-4"
+                  >
+                    {(Object.keys(BIO_PAGE_THEMES) as BioPageTheme[]).map(
+                      (theme) => (
+                        <button
+                          key={theme}
+                          type="button"
+                          role="radio"
+                          aria-checked={field.value === theme}
+                          onClick={() => field.onChange(theme)}
+                          className={`rounded-md border-2 p-1 text-sm ${
+                            field.value === theme
+                              ? "border-blue-600"
+                              : "border-transparent hover:border-gray-300"
+                          }`}
+                        >
+                          <span
+                            className={`block rounded px-2 py-3 ${BIO_PAGE_THEMES[theme].pageClassName}`}
+                          >
+                            {BIO_PAGE_THEMES[theme].label}
+                          </span>
+                        </button>
+                      )
+                    )}
+                  </div>
+                )}
+              />
+            </section>
+
+            {/* Links */}
+            <section className="space-y-3 rounded-lg border border-gray-200 bg-white p-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900">Links</h2>
+                <span className="text-xs text-gray-500">
+                  {values.links.length}/{BIO_PAGE_LIMITS.MAX_LINKS}
+                </span>
+              </div>
+
+              <select
+                value=""
+                onChange={handleAddLink}
+                disabled={
+                  availableUrls.length === 0 ||
+                  values.links.length >= BIO_PAGE_LIMITS.MAX_LINKS
+                }
+                aria-label="Add a short link"
+                className="w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Add a short link...</option>
+                {availableUrls.map((url) => {
+                  const status = getUrlStatus(url);
+                  return (
+                    <option key={url.id} value={url.id}>
+                      {`${url.title || url.short_code} (${url.short_code})${
+                        status === "active" ? "" : ` - ${status}, hidden`
+                      }`}
+                    </option>
+                  );
+                })}
+              </select>
+
+              <Controller
+                name="links"
+                control={control}
+                render={({ field }) => (
+                  <BioLinkEditorList
+                    links={field.value}
+                    urls={urls}
+                    onChange={field.onChange}
+                    error={linksError}
+                    disabled={isSaving}
+                  />
+                )}
+              />
+              <p className="text-xs text-gray-500">
+                Only links that currently redirect are shown on your page.
+              </p>
+            </section>
+          </form>
+
+          {/* Preview */}
+          <div className="lg:sticky lg:top-6 lg:self-start">
+            <p className="mb-2 text-sm font-medium text-gray-700">Preview</p>
+            <div className="overflow-hidden rounded-lg border border-gray-200">
+              <BioPageView
+                page={preview}
+                onLinkClick={(_, event) => event.preventDefault()}
+                className="min-h-[480px]"
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BioPageEditorTemplate;
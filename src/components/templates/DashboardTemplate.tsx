@@ -100,6 +100,15 @@ interface DashboardTemplateProps {
    * Function to call when QR code is clicked for preview
    */
   onQrPreview: (qrCode: QrCode) => void;
+  /**
+   * Function to call when a URL row is clicked, instead of opening its detail page
+   */
+  onViewUrlDetail?: (url: Url) => void;
+  /**
+   * Whether changing tabs navigates to the matching dashboard page. When false, tabs
+   * switch in place
+   */
+  navigateOnTabChange?: boolean;
 }
 
 /**
@@ -128,6 +137,8 @@ const DashboardTemplate: React.FC<DashboardTemplateProps> = ({
   onEditQr,
   onDeleteQr,
   onQrPreview,
+  onViewUrlDetail,
+  navigateOnTabChange = true,
 }) => {
   // Get query params and router for updating URL
   const searchParams = useSearchParams();
@@ -151,6 +162,8 @@ const DashboardTemplate: React.FC<DashboardTemplateProps> = ({
   const handleTabChange = (tab: string) => {
     setActiveTab(tab);
 
+    if (!navigateOnTabChange) return;
+
     // Update URL based on tab
     if (tab === "qrcodes") {
       router.push("/dashboard/qr-codes");
@@ -226,6 +239,7 @@ const DashboardTemplate: React.FC<DashboardTemplateProps> = ({
               onGenerateQr={onGenerateQr}
               onEdit={onEditUrl}
               onDelete={onDeleteUrl}
+              onViewDetail={onViewUrlDetail}
               className="mb-6"
             />
 
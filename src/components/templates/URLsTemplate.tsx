@@ -1,15 +1,27 @@
 "use client";
 
-import type { DashboardStats, Url } from "@/interfaces/url";
+import type {
+  DashboardStats,
+  Url,
+  UrlDateRangeFilter,
+} from "@/interfaces/url";
+import type { UtmField, UtmParams } from "@/interfaces/utm";
 import type React from "react";
 import UrlStatsSummary from "../molecules/UrlStatsSummary";
 import UrlHeader from "../organisms/UrlHeader";
 import UrlsTable from "../molecules/UrlsTable";
 import SearchInput from "../atoms/SearchInput";
-import { RiAddLine } from "react-icons/ri";
+import {
+  RiAddLine,
+  RiAlertLine,
+  RiDownloadLine,
+  RiPriceTag3Line,
+  RiUploadCloud2Line,
+} from "react-icons/ri";
 import Button from "../atoms/Button";
 import Pagination from "../molecules/Pagination";
 import UrlFilter from "../molecules/UrlFilter";
+import UrlBulkActionsBar from "../molecules/UrlBulkActionsBar";
 
 /**
  * Prop types for DashboardTemplate component
@@ -41,7 +53,28 @@ interface UrlTemplateProps {
   urlFilters: {
     status?: string;
     limit?: number;
+    tag?: string;
   };
+  /**
+   * Tags offered in the tag filter
+   */
+  urlTagOptions?: string[];
+  /**
+   * Current date range of the URL list, null when not filtering by date
+   */
+  urlDateRange?: UrlDateRangeFilter | null;
+  /**
+   * Function to call when the date range of the URL list changes
+   */
+  onUrlDateRangeChange?: (dateRange: UrlDateRangeFilter | null) => void;
+  /**
+   * Current UTM filter of the URL list
+   */
+  urlUtmFilter?: UtmParams;
+  /**
+   * Function to call when a UTM filter of the URL list changes, null clears it
+   */
+  onUrlUtmFilterChange?: (field: UtmField, value: string | null) => void;
   /**
    * Function to call when any URL filter changes
    */
@@ -74,6 +107,18 @@ interface UrlTemplateProps {
    * Function to call when create URL button is clicked
    */
   onCreateUrl: () => void;
+  /**
+   * Function to call when import URLs button is clicked
+   */
+  onImportUrls?: () => void;
+  /**
+   * Function to call when export URLs button is clicked
+   */
+  onExportUrls?: () => void;
+  /**
+   * Function to call when manage tags button is clicked
+   */
+  onManageTags?: () => void;
   /**
    * Function to call when URL copy button is clicked
    */
@@ -90,6 +135,70 @@ interface UrlTemplateProps {
    * Function to call when URL delete button is clicked
    */
   onDeleteUrl: (url: Url) => void;
+  /**
+   * Number of offline changes the server rejected
+   */
+  offlineConflictCount?: number;
+  /**
+   * Function to call to review the rejected offline changes
+   */
+  onReviewOfflineChanges?: () => void;
+  /**
+   * Number of URLs matching the current filters, on all pages
+   */
+  totalUrlCount?: number;
+  /**
+   * IDs of the selected URLs of the current page
+   */
+  selectedUrlIds?: number[];
+  /**
+   * Number of selected URLs, on all pages
+   */
+  selectedUrlCount?: number;
+  /**
+   * Whether every URL matching the filters is selected
+   */
+  isAllMatchingSelected?: boolean;
+  /**
+   * Whether a bulk action is running
+   */
+  isBulkActionRunning?: boolean;
+  /**
+   * Function to call when URL selection changes, enables the bulk actions when set
+   */
+  onSelectUrl?: (url: Url, selected: boolean) => void;
+  /**
+   * Function to call when all URLs of the page are selected/deselected
+   */
+  onSelectAllUrls?: (selected: boolean) => void;
+  /**
+   * Function to call to select every URL matching the filters
+   */
+  onSelectAllMatchingUrls?: () => void;
+  /**
+   * Function to call to clear the URL selection
+   */
+  onClearUrlSelection?: () => void;
+  /**
+   * Function to call when bulk activate/deactivate is requested
+   */
+  onBulkStatusChange?: (isActive: boolean) => void;
+  /**
+   * Function to call when bulk expiry extension is requested
+   */
+  onBulkExtendExpiry?: (days: number) => void;
+  /**
+   * Function to call when bulk tag changes are requested
+   */
+  onBulkUpdateTags?: (tags: string[], mode: "add" | "remove") => void;
+  /**
+   * Function to call when bulk QR code generation is requested
+   */
+  onBulkGenerateQrCodes?: () => void;
+  /**
+   * Function to call when bulk delete is requested
+   */
+  onBulkDeleteUrls?: () => void;
 }
 
 /**
@@ -104,6 +213,11 @@ const UrlTemplate: React.FC<UrlTemplateProps> = ({
   currentUrlPage,
   totalUrlPages,
   urlFilters,
+  urlTagOptions,
+  urlDateRange,
+  onUrlDateRangeChange,
+  urlUtmFilter,
+  onUrlUtmFilterChange,
   onUrlFilterChange,
   onUrlPageChange,
   onUrlSortChange,
@@ -111,11 +225,34 @@ const UrlTemplate: React.FC<UrlTemplateProps> = ({
   urlSortDirection,
   onSearch,
   onCreateUrl,
+  onImportUrls,
+  onExportUrls,
+  onManageTags,
   onCopyUrl,
   onGenerateQr,
   onEditUrl,
   onDeleteUrl,
+  offlineConflictCount = 0,
+  onReviewOfflineChanges,
+  totalUrlCount = 0,
+  selectedUrlIds = [],
+  selectedUrlCount = 0,
+  isAllMatchingSelected = false,
+  isBulkActionRunning = false,
+  onSelectUrl,
+  onSelectAllUrls,
+  onSelectAllMatchingUrls,
+  onClearUrlSelection,
+  onBulkStatusChange,
+  onBulkExtendExpiry,
+  onBulkUpdateTags,
+  onBulkGenerateQrCodes,
+  onBulkDeleteUrls,
 }) => {
+  // Calculate if all URLs on the current page are selected
+  const isPageSelected =
+    urls.length > 0 && urls.every((url) => selectedUrlIds.includes(url.id));
+
   return (
     <div className="bg-transparent">
       <div className="container mx-auto px-2 sm:px-4 gap-6">
@@ -144,9 +281,41 @@ const UrlTemplate: React.FC<UrlTemplateProps> = ({
             <UrlFilter
               filters={urlFilters}
               onFilterChange={onUrlFilterChange}
+              tagOptions={urlTagOptions}
+              dateRange={urlDateRange}
+              onDateRangeChange={onUrlDateRangeChange}
+              utmFilter={urlUtmFilter}
+              onUtmFilterChange={onUrlUtmFilterChange}
               data-tour-id="urls-filter"
             />
           </div>
+          {onImportUrls && (
+            <Button
+              variant="outline"
+              onClick={() => onImportUrls()}
+              startIcon={<RiUploadCloud2Line className="max-h-4 max-w-4" />}
+            >
+              Import CSV
+            </Button>
+          )}
+          {onExportUrls && (
+            <Button
+              variant="outline"
+              onClick={() => onExportUrls()}
+              startIcon={<RiDownloadLine className="max-h-4 max-w-4" />}
+            >
+              Export
+            </Button>
+          )}
+          {onManageTags && (
+            <Button
+              variant="outline"
+              onClick={() => onManageTags()}
+              startIcon={<RiPriceTag3Line className="max-h-4 max-w-4" />}
+            >
+              Tags
+            </Button>
+          )}
           <Button
             variant="primary"
             onClick={() => onCreateUrl()}
@@ -156,6 +325,41 @@ const UrlTemplate: React.FC<UrlTemplateProps> = ({
             Create New URL
           </Button>
         </div>
+        {offlineConflictCount > 0 && (
+          <div className="mt-6 flex items-center justify-between gap-4 rounded-lg bg-[#FFF8E1] p-4 text-sm text-[#333333]">
+            <div className="flex items-center gap-2">
+              <RiAlertLine className="h-5 w-5 text-[#F57F17]" />
+              {offlineConflictCount === 1
+                ? "1 change made offline could not be applied."
+                : `${offlineConflictCount} changes made offline could not be applied.`}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onReviewOfflineChanges?.()}
+            >
+              Review
+            </Button>
+          </div>
+        )}
+        {onSelectUrl && (
+          <UrlBulkActionsBar
+            selectedCount={selectedUrlCount}
+            totalCount={totalUrlCount}
+            isPageSelected={isPageSelected}
+            isAllMatchingSelected={isAllMatchingSelected}
+            isRunning={isBulkActionRunning}
+            onSelectPage={(selected) => onSelectAllUrls?.(selected)}
+            onSelectAllMatching={() => onSelectAllMatchingUrls?.()}
+            onClearSelection={() => onClearUrlSelection?.()}
+            onStatusChange={(isActive) => onBulkStatusChange?.(isActive)}
+            onExtendExpiry={(days) => onBulkExtendExpiry?.(days)}
+            onUpdateTags={(tags, mode) => onBulkUpdateTags?.(tags, mode)}
+            onGenerateQrCodes={() => onBulkGenerateQrCodes?.()}
+            onDelete={() => onBulkDeleteUrls?.()}
+            className="mt-6"
+          />
+        )}
         <div className="mt-6">
           <UrlsTable
             urls={urls}
@@ -167,6 +371,12 @@ const UrlTemplate: React.FC<UrlTemplateProps> = ({
             onGenerateQr={onGenerateQr}
             onEdit={onEditUrl}
             onDelete={onDeleteUrl}
+            onReviewSync={onReviewOfflineChanges}
+            selectedUrlIds={selectedUrlIds}
+            onSelectUrl={onSelectUrl}
+            onSelectAllUrls={onSelectAllUrls}
+            utmFilter={urlUtmFilter}
+            onUtmFilterChange={onUrlUtmFilterChange}
             className="mb-6"
             data-tour-id="urls-table"
           />
@@ -12,13 +12,27 @@ import {
 } from "react-icons/fi";
 
 import { useAdvancedUrlAnalytics } from "@/hooks/useAdvancedUrlAnalytics";
+import { useRedirectRules } from "@/hooks/url/useRedirectRules";
+import { useAbTest } from "@/hooks/url/useAbTest";
+import { useUrlRevisions } from "@/hooks/url/useUrlRevisions";
+import { useApiErrorHandler } from "@/hooks/useApiErrorHandler";
+import { useToast } from "@/contexts/ToastContext";
+import type { RedirectRule } from "@/interfaces/redirectRules";
+import type { AbVariant, AbVariantStats } from "@/interfaces/abTest";
+import type { UrlRevision } from "@/interfaces/urlRevision";
 import MetricCard from "@/components/atoms/MetricCard";
 import ResponsiveTimeSeriesChart from "@/components/molecules/TimeSeriesChart";
 import ResponsiveBarChart, {
   BarChartData,
 } from "@/components/molecules/BarChart";
-import DateRangePicker from "@/components/molecules/DateRangePicker";
+import DateRangePicker, {
+  defaultPresets,
+} from "@/components/molecules/DateRangePicker";
 import LoadingSpinner from "@/components/atoms/LoadingSpinner";
+import AbVariantStatsTable from "@/components/molecules/AbVariantStatsTable";
+import RedirectRulesEditor from "@/components/organisms/RedirectRulesEditor";
+import AbTestEditor from "@/components/organisms/AbTestEditor";
+import UrlRevisionHistory from "@/components/organisms/UrlRevisionHistory";
 
 interface UrlAnalyticsDashboardProps {
   urlId: number;
@@ -46,6 +60,26 @@ export const UrlAnalyticsDashboard: React.FC<UrlAnalyticsDashboardProps> = ({
     group_by: "day",
     comparison: "30",
   });
+  const {
+    url,
+    isLoading: isUrlLoading,
+    isSaving: isSavingRules,
+    saveRedirectRules,
+  } = useRedirectRules(urlId);
+  const {
+    isSaving: isSavingVariants,
+    promotingId,
+    saveAbVariants,
+    promoteVariant,
+  } = useAbTest(urlId);
+  const {
+    revisions,
+    isLoading: isRevisionsLoading,
+    restoringId,
+    restoreRevision,
+  } = useUrlRevisions(urlId);
+  const { showToast } = useToast();
+  const { handleApiError } = useApiErrorHandler();
 
   /**
    * Transform browser stats to chart data
@@ -87,6 +121,70 @@ export const UrlAnalyticsDashboard: React.FC<UrlAnalyticsDashboardProps> = ({
       }));
   }, [analyticsData?.country_stats]);
 
+  /**
+   * Transform redirect rule matches to chart data
+   */
+  const redirectRuleChartData: BarChartData[] = useMemo(() => {
+    if (!analyticsData?.redirect_rule_stats) return [];
+    return analyticsData.redirect_rule_stats.map((stats) => ({
+      label: stats.name,
+      value: stats.count,
+    }));
+  }, [analyticsData?.redirect_rule_stats]);
+
+  /**
+   * Handle redirect rules save, refreshing the rule matches
+   */
+  const handleSaveRedirectRules = async (rules: RedirectRule[]) => {
+    await saveRedirectRules(rules);
+    showToast("Redirect rules saved", "success");
+    refetch();
+  };
+
+  /**
+   * Handle A/B variants save, refreshing the variant stats
+   */
+  const handleSaveAbVariants = async (variants: AbVariant[]) => {
+    await saveAbVariants(variants);
+    showToast(
+      variants.length ? "A/B test saved" : "A/B test stopped",
+      "success"
+    );
+    refetch();
+  };
+
+  /**
+   * Handle promoting a variant to the permanent destination, which ends the test
+   */
+  const handlePromoteVariant = async (stats: AbVariantStats) => {
+    try {
+      await promoteVariant({
+        id: stats.variant_id,
+        name: stats.name,
+        destination_url: stats.destination_url,
+        weight: stats.weight,
+      });
+      showToast("Variant promoted to the permanent destination", "success");
+      refetch();
+    } catch (error) {
+      handleApiError(error);
+    }
+  };
+
+  /**
+   * Handle restoring the values a revision replaced
+   */
+  const handleRestoreRevision = async (revision: UrlRevision) => {
+    if (!url) return;
+
+    try {
+      await restoreRevision(url, revision);
+      showToast("Previous values restored", "success");
+    } catch (error) {
+      handleApiError(error);
+    }
+  };
+
   /**
    * Handle date range changes
    */
@@ -196,6 +294,7 @@ export const UrlAnalyticsDashboard: React.FC<UrlAnalyticsDashboardProps> = ({
               customComparisonStart={currentParams.custom_comparison_start}
               customComparisonEnd={currentParams.custom_comparison_end}
               onCustomComparisonChange={handleCustomComparisonChange}
+              presets={defaultPresets}
               className="w-full sm:w-auto"
             />
           </div>
@@ -270,6 +369,25 @@ export const UrlAnalyticsDashboard: React.FC<UrlAnalyticsDashboardProps> = ({
               />
             </motion.div>
 
+            {/* A/B Test Variants */}
+            {analyticsData?.ab_variant_stats?.length ? (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5, delay: 0.15 }}
+                className="bg-white rounded-lg border border-gray-200 p-6 mb-8"
+              >
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">
+                  A/B Test Variants
+                </h2>
+                <AbVariantStatsTable
+                  stats={analyticsData.ab_variant_stats}
+                  promotingId={promotingId}
+                  onPromote={handlePromoteVariant}
+                />
+              </motion.div>
+            ) : null}
+
             {/* Charts Section */}
             <div className="space-y-8">
               {/* Time Series Chart */}
@@ -328,6 +446,21 @@ export const UrlAnalyticsDashboard: React.FC<UrlAnalyticsDashboardProps> = ({
                 />
               </motion.div>
 
+              {/* Redirect Rule Matches */}
+              {redirectRuleChartData.length > 0 && (
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.5, delay: 0.55 }}
+                >
+                  <ResponsiveBarChart
+                    data={redirectRuleChartData}
+                    title="Visits by Redirect Rule"
+                    height={300}
+                  />
+                </motion.div>
+              )}
+
               {/* Top Referrers Table */}
               {analyticsData?.top_referrers &&
                 analyticsData.top_referrers.length > 0 && (
@@ -374,6 +507,52 @@ export const UrlAnalyticsDashboard: React.FC<UrlAnalyticsDashboardProps> = ({
             </div>
           </>
         )}
+
+        {/* Redirect Rules Editor */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.7 }}
+          className="mt-8"
+        >
+          <RedirectRulesEditor
+            url={url}
+            isLoading={isUrlLoading}
+            isSaving={isSavingRules}
+            onSave={handleSaveRedirectRules}
+          />
+        </motion.div>
+
+        {/* A/B Test Editor */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.8 }}
+          className="mt-8"
+        >
+          <AbTestEditor
+            url={url}
+            isLoading={isUrlLoading}
+            isSaving={isSavingVariants}
+            onSave={handleSaveAbVariants}
+          />
+        </motion.div>
+
+        {/* Edit History */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.9 }}
+          className="mt-8"
+        >
+          <UrlRevisionHistory
+            url={url}
+            revisions={revisions}
+            isLoading={isRevisionsLoading}
+            restoringId={restoringId}
+            onRestore={handleRestoreRevision}
+          />
+        </motion.div>
       </div>
     </div>
   );
@@ -0,0 +1,125 @@
+"use client";
+
+import type React from "react";
+import Link from "next/link";
+import type { UrlTagSummary } from "@/interfaces/url";
+import TagsTable from "../molecules/TagsTable";
+import Button from "../atoms/Button";
+import { RiArrowLeftLine, RiGitMergeLine } from "react-icons/ri";
+
+/**
+ * Prop types for UrlTagsTemplate component
+ */
+interface UrlTagsTemplateProps {
+  /**
+   * Tags with their URL count
+   */
+  tags: UrlTagSummary[];
+  /**
+   * Whether tags are loading
+   */
+  isLoading?: boolean;
+  /**
+   * Whether a tag change is running
+   */
+  isUpdating?: boolean;
+  /**
+   * Names of the selected tags
+   */
+  selectedTags: string[];
+  /**
+   * Function to call when tag selection changes
+   */
+  onSelectTag: (tag: string, selected: boolean) => void;
+  /**
+   * Function to call when all tags are selected/deselected
+   */
+  onSelectAllTags: (selected: boolean) => void;
+  /**
+   * Function to call when merge button is clicked
+   */
+  onMergeTags: () => void;
+  /**
+   * Function to call when tag rename button is clicked
+   */
+  onRenameTag: (tag: string) => void;
+  /**
+   * Function to call when tag delete button is clicked
+   */
+  onDeleteTag: (tag: string) => void;
+  /**
+   * Function to call to list the URLs of a tag
+   */
+  onViewTagUrls: (tag: string) => void;
+}
+
+/**
+ * UrlTagsTemplate Component
+ * @description Template for the tag manager page, to rename, merge and delete tags across
+ * all URLs
+ */
+const UrlTagsTemplate: React.FC<UrlTagsTemplateProps> = ({
+  tags,
+  isLoading = false,
+  isUpdating = false,
+  selectedTags,
+  onSelectTag,
+  onSelectAllTags,
+  onMergeTags,
+  onRenameTag,
+  onDeleteTag,
+  onViewTagUrls,
+}) => {
+  return (
+    <div className="bg-transparent">
+      <div className="container mx-auto px-2 sm:px-4 gap-6">
+        {/* Header Section */}
+        <div className="py-6 mb-6">
+          <Link
+            href="/dashboard/urls"
+            className="mb-3 inline-flex items-center gap-1 text-sm text-[#607D8B] hover:text-black"
+          >
+            <RiArrowLeftLine /> Back to URLs
+          </Link>
+          <h1 className="text-2xl font-bold text-black">Tags</h1>
+          <p className="text-sm text-[#607D8B]">
+            Rename, merge and delete the tags of all your URLs
+          </p>
+        </div>
+
+        {/* Bulk Actions */}
+        {selectedTags.length > 0 && (
+          <div className="mb-4 flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-md">
+            <span className="text-sm text-gray-700">
+              {selectedTags.length} selected
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onMergeTags}
+              disabled={isUpdating || selectedTags.length < 2}
+              startIcon={<RiGitMergeLine />}
+            >
+              Merge selected
+            </Button>
+          </div>
+        )}
+
+        <TagsTable
+          tags={tags}
+          isLoading={isLoading}
+          selectedTags={selectedTags}
+          onSelectTag={onSelectTag}
+          onSelectAllTags={onSelectAllTags}
+          onViewUrls={onViewTagUrls}
+          onRename={onRenameTag}
+          onDelete={onDeleteTag}
+          disabled={isUpdating}
+          className="mb-6"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default UrlTagsTemplate;
@@ -0,0 +1,32 @@
+/**
+ * A/B Test Configuration
+ * @description Limits of the weighted destination rotation of a short link
+ */
+
+/**
+ * A/B test limits
+ * @description Checked by the variant editor and the API
+ */
+export const AB_TEST_LIMITS = {
+  /** Minimum number of variants of a running test */
+  MIN_VARIANTS: 2,
+  /** Maximum number of variants of a test */
+  MAX_VARIANTS: 5,
+  /** Smallest weight of a variant */
+  MIN_WEIGHT: 1,
+  /** Largest weight of a variant */
+  MAX_WEIGHT: 100,
+  /** Maximum length of a variant name */
+  NAME_MAX_LENGTH: 30,
+} as const;
+
+/**
+ * Cookie keeping a visitor on the same variant of a short link
+ * @description Followed by the short code, like "cylink_ab_promo"
+ */
+export const AB_VARIANT_COOKIE_PREFIX = "cylink_ab_";
+
+/**
+ * Days a visitor is kept on the same variant
+ */
+export const AB_VARIANT_COOKIE_DAYS = 30;
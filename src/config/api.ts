@@ -0,0 +1,27 @@
+/**
+ * API Client Configuration
+ * @description Centralized configuration for the axios client in src/services/api.ts
+ */
+
+import type { RetryPolicy } from "@/interfaces/api";
+
+/**
+ * HTTP methods retried automatically
+ * @description Only idempotent reads are retried. Mutations are never replayed on their own, since
+ * the first attempt may have reached the server before the connection dropped.
+ */
+export const RETRYABLE_METHODS = ["get", "head", "options"] as const;
+
+/**
+ * Default retry policy
+ * @description Covers dropped connections and transient gateway or rate-limit responses. Override
+ * it per call with the `retry` option of the request config, or pass `retry: false` to disable it.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelay: 500,
+  maxDelay: 8000,
+  maxRetryAfter: 30000,
+  retryOnStatus: [429, 502, 503, 504],
+  retryOnNetworkError: true,
+};
@@ -0,0 +1,104 @@
+/**
+ * Bio Page Configuration
+ * @description Themes, link icons and limits of link-in-bio pages
+ */
+
+import type { IconType } from "react-icons";
+import {
+  RiArticleLine,
+  RiCalendarLine,
+  RiGlobalLine,
+  RiLinkM,
+  RiMailLine,
+  RiMusic2Line,
+  RiStore2Line,
+  RiVideoLine,
+} from "react-icons/ri";
+import type { BioLinkIcon, BioPageTheme } from "@/interfaces/bioPage";
+
+/**
+ * Limits of a bio page
+ */
+export const BIO_PAGE_LIMITS = {
+  USERNAME_MIN_LENGTH: 3,
+  USERNAME_MAX_LENGTH: 30,
+  DISPLAY_NAME_MAX_LENGTH: 50,
+  BIO_MAX_LENGTH: 160,
+  MAX_LINKS: 50,
+  LINK_TITLE_MAX_LENGTH: 60,
+  LINK_DESCRIPTION_MAX_LENGTH: 120,
+};
+
+/**
+ * Characters allowed in bio page usernames
+ */
+export const BIO_PAGE_USERNAME_PATTERN = /^[a-z0-9_-]+$/;
+
+/**
+ * Referrer recorded on clicks made from a bio page, sent in the SHORT_URL_REFERRER_PARAM of its
+ * short URLs
+ */
+export const BIO_PAGE_REFERRER = "bio_page";
+
+/**
+ * Label and classes of each theme
+ */
+export const BIO_PAGE_THEMES: Record<
+  BioPageTheme,
+  {
+    label: string;
+    /** Page background and text color */
+    pageClassName: string;
+    /** Link card colors */
+    linkClassName: string;
+    /** Color of secondary text */
+    mutedClassName: string;
+  }
+> = {
+  light: {
+    label: "Light",
+    pageClassName: "bg-gray-50 text-gray-900",
+    linkClassName:
+      "bg-white border border-gray-200 text-gray-900 hover:border-gray-400",
+    mutedClassName: "text-gray-500",
+  },
+  dark: {
+    label: "Dark",
+    pageClassName: "bg-gray-900 text-white",
+    linkClassName:
+      "bg-gray-800 border border-gray-700 text-white hover:border-gray-500",
+    mutedClassName: "text-gray-400",
+  },
+  ocean: {
+    label: "Ocean",
+    pageClassName: "bg-gradient-to-b from-sky-100 to-blue-200 text-blue-950",
+    linkClassName:
+      "bg-white/80 border border-blue-200 text-blue-950 hover:bg-white",
+    mutedClassName: "text-blue-800",
+  },
+  sunset: {
+    label: "Sunset",
+    pageClassName:
+      "bg-gradient-to-b from-orange-100 to-rose-200 text-rose-950",
+    linkClassName:
+      "bg-white/80 border border-rose-200 text-rose-950 hover:bg-white",
+    mutedClassName: "text-rose-800",
+  },
+};
+
+/**
+ * Label and icon of each link icon choice
+ */
+export const BIO_LINK_ICONS: Record<
+  BioLinkIcon,
+  { label: string; icon: IconType }
+> = {
+  link: { label: "Link", icon: RiLinkM },
+  globe: { label: "Website", icon: RiGlobalLine },
+  store: { label: "Store", icon: RiStore2Line },
+  video: { label: "Video", icon: RiVideoLine },
+  music: { label: "Music", icon: RiMusic2Line },
+  article: { label: "Article", icon: RiArticleLine },
+  calendar: { label: "Event", icon: RiCalendarLine },
+  mail: { label: "Contact", icon: RiMailLine },
+};
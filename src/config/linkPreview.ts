@@ -0,0 +1,50 @@
+/**
+ * Link Preview Configuration
+ * @description Limits of the route handler reading the title and preview metadata of destinations
+ */
+
+/**
+ * Route handler serving link previews
+ */
+export const LINK_PREVIEW_ENDPOINT = "/api/link-preview";
+
+/**
+ * Link preview limits
+ * @description Destinations are fetched by the app server, so every fetch is bounded in time, size
+ * and redirects
+ */
+export const LINK_PREVIEW_LIMITS = {
+  /** Maximum time to fetch a destination, redirects included */
+  TIMEOUT_MS: 5000,
+  /** Maximum number of bytes read from a page, metadata being in its head */
+  MAX_RESPONSE_BYTES: 512 * 1024,
+  /** Maximum number of redirects followed */
+  MAX_REDIRECTS: 3,
+  /** Maximum length of the title kept */
+  MAX_TITLE_LENGTH: 200,
+  /** Delay after the last keystroke before a destination is fetched */
+  DEBOUNCE_DELAY: 600,
+} as const;
+
+/**
+ * Link preview rate limit
+ * @description Each signed in client may only make a limited number of previews per window, so
+ * the handler cannot be used to fetch pages in bulk
+ */
+export const LINK_PREVIEW_RATE_LIMIT = {
+  /** Maximum number of previews per client in a window */
+  MAX_REQUESTS: 30,
+  /** Length of a window in milliseconds */
+  WINDOW_MS: 60 * 1000,
+} as const;
+
+/**
+ * Ports destinations may be fetched on
+ */
+export const LINK_PREVIEW_ALLOWED_PORTS = ["", "80", "443"];
+
+/**
+ * User agent sent when fetching destinations
+ */
+export const LINK_PREVIEW_USER_AGENT =
+  "Mozilla/5.0 (compatible; CyLinkPreview/1.0; +https://cylink.co)";
@@ -0,0 +1,44 @@
+/**
+ * Mock API Configuration
+ * @description Settings of the in-browser mock backend served from src/fakedb
+ */
+
+/**
+ * Whether every request is served by the mock API
+ * @description Set NEXT_PUBLIC_USE_MOCK_API=true to work on the dashboard without a backend
+ */
+export const MOCK_API_ENABLED = process.env.NEXT_PUBLIC_USE_MOCK_API === "true";
+
+/**
+ * Simulated network latency in milliseconds
+ * @description Each response waits a random time in this range so loading states stay visible
+ */
+export const MOCK_API_LATENCY = {
+  min: 150,
+  max: 450,
+};
+
+/**
+ * Seed of the generated data, so every session sees the same numbers
+ */
+export const MOCK_DATA_SEED = 20240611;
+
+/**
+ * Number of days of generated traffic history
+ */
+export const MOCK_HISTORY_DAYS = 120;
+
+/**
+ * Domain of the generated short URLs
+ */
+export const MOCK_SHORT_URL_BASE =
+  process.env.NEXT_PUBLIC_APP_URL || "https://cylink.id";
+
+/**
+ * Account signed in while the mock API is active
+ */
+export const DEMO_USER = {
+  id: 1,
+  email: "demo@cylink.id",
+  name: "Demo User",
+};
@@ -0,0 +1,52 @@
+/**
+ * Redirect Rule Configuration
+ * @description Limits and options of the device, country, language and OS redirect rules
+ */
+
+/**
+ * Redirect rule limits
+ * @description Checked by the rule editor and the API
+ */
+export const REDIRECT_RULE_LIMITS = {
+  /** Maximum number of rules on one URL */
+  MAX_RULES: 20,
+  /** Maximum length of a rule name */
+  NAME_MAX_LENGTH: 50,
+  /** Maximum number of countries or languages in one condition */
+  MAX_CODES: 30,
+} as const;
+
+/**
+ * Two-letter country code, like "DE"
+ */
+export const REDIRECT_COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+
+/**
+ * Two-letter language code, like "fr"
+ */
+export const REDIRECT_LANGUAGE_CODE_PATTERN = /^[a-z]{2}$/;
+
+/**
+ * Device types a rule can target, in display order
+ */
+export const REDIRECT_RULE_DEVICES = [
+  { value: "mobile", label: "Mobile" },
+  { value: "tablet", label: "Tablet" },
+  { value: "desktop", label: "Desktop" },
+] as const;
+
+/**
+ * Operating systems a rule can target, in display order
+ */
+export const REDIRECT_RULE_OS = [
+  { value: "ios", label: "iOS" },
+  { value: "android", label: "Android" },
+  { value: "windows", label: "Windows" },
+  { value: "macos", label: "macOS" },
+  { value: "linux", label: "Linux" },
+] as const;
+
+/**
+ * Name of the destination used when no rule matches, in the analytics
+ */
+export const REDIRECT_FALLBACK_NAME = "Fallback";
@@ -4,6 +4,7 @@ import {
   RiDashboardLine,
   RiLinkM,
   RiQrCodeLine,
+  RiProfileLine,
   RiLineChartLine,
   RiSettings4Line,
   RiUserLine,
@@ -37,6 +38,13 @@ export const sidebarNavItems: NavItem[] = [
     icon: <RiQrCodeLine />,
     requiresAuth: true,
   },
+  {
+    id: "bio",
+    label: "Bio Page",
+    path: "/dashboard/bio",
+    icon: <RiProfileLine />,
+    requiresAuth: true,
+  },
   {
     id: "analytics",
     label: "Analytics",
@@ -0,0 +1,148 @@
+/**
+ * URL Configuration
+ * @description Centralized configuration for URL forms
+ */
+
+/**
+ * Backend URL fields and the form fields they map to
+ * @description Used to show server-side validation errors on the create, edit and QR code URL forms.
+ * The edit endpoint names the custom code short_code while the create endpoint uses custom_code.
+ */
+export const URL_FORM_FIELD_MAP = {
+  title: "title",
+  original_url: "originalUrl",
+  custom_code: "customCode",
+  short_code: "customCode",
+  expiry_date: "expiryDate",
+} as const;
+
+/**
+ * Description limits
+ */
+export const URL_DESCRIPTION_LIMITS = {
+  /** Maximum length of a description, longer ones read from pages are cut */
+  MAX_LENGTH: 300,
+} as const;
+
+/**
+ * Checks of scheduled links once their countdown ends
+ * @description The link is looked up again, waiting longer each time the API still reports it as
+ * scheduled, so a visitor clock ahead of the server does not reload the page in a loop
+ */
+export const SCHEDULED_LINK_RECHECK = {
+  /** Wait before the first check again (seconds) */
+  INITIAL_DELAY: 2,
+  /** Longest wait between checks (seconds) */
+  MAX_DELAY: 60,
+} as const;
+
+/**
+ * Tag limits
+ * @description Tags are trimmed and compared case-sensitively, as the API stores them
+ */
+export const URL_TAG_LIMITS = {
+  /** Maximum number of tags on one URL */
+  MAX_TAGS: 10,
+  /** Maximum length of one tag */
+  MAX_LENGTH: 30,
+} as const;
+
+/**
+ * Tag badge colors
+ * @description A tag always gets the same color, picked from its name
+ */
+export const URL_TAG_COLORS = [
+  "bg-[#E3F2FD] text-[#1565C0]",
+  "bg-[#E8F5E9] text-[#2E7D32]",
+  "bg-[#FFF3E0] text-[#E65100]",
+  "bg-[#F3E5F5] text-[#6A1B9A]",
+  "bg-[#FCE4EC] text-[#AD1457]",
+  "bg-[#E0F2F1] text-[#00695C]",
+  "bg-[#FFFDE7] text-[#F57F17]",
+  "bg-[#ECEFF1] text-[#455A64]",
+] as const;
+
+/**
+ * Date range presets of the URL list filter, in display order
+ */
+export const URL_DATE_RANGE_PRESETS = [
+  { value: "today", label: "Today" },
+  { value: "7d", label: "Last 7 days" },
+  { value: "30d", label: "Last 30 days" },
+  { value: "90d", label: "Last 90 days" },
+  { value: "this_month", label: "This month" },
+] as const;
+
+/**
+ * Dates of a URL the list can be filtered by
+ */
+export const URL_DATE_FIELDS = {
+  created_at: "Created",
+  expiry_date: "Expires",
+} as const;
+
+/**
+ * Password protection limits
+ * @description The attempt limit mirrors the API, which also rejects attempts while locked out
+ */
+export const URL_PASSWORD_LIMITS = {
+  /** Minimum password length */
+  MIN_LENGTH: 4,
+  /** Maximum password length */
+  MAX_LENGTH: 64,
+  /** Wrong passwords allowed before the link is locked for the visitor */
+  MAX_ATTEMPTS: 5,
+  /** How long the link stays locked after too many wrong passwords */
+  LOCKOUT_SECONDS: 60,
+} as const;
+
+/**
+ * Click limit bounds of capped links
+ */
+export const URL_MAX_CLICKS_LIMITS = {
+  /** Smallest click limit */
+  MIN: 1,
+  /** Largest click limit */
+  MAX: 1_000_000,
+} as const;
+
+/**
+ * Duplicate destination lookup settings
+ */
+export const URL_DUPLICATE_LOOKUP = {
+  /** Pause after typing before existing links are searched (milliseconds) */
+  DEBOUNCE_DELAY: 400,
+  /** Most existing links returned for one destination */
+  MAX_MATCHES: 5,
+} as const;
+
+/**
+ * Query parameter of a short URL naming where it was followed from, recorded with the click
+ */
+export const SHORT_URL_REFERRER_PARAM = "ref";
+
+/**
+ * Query parameters that only tell where a visit came from
+ * @description Ignored when comparing destinations, along with every parameter starting with one
+ * of URL_TRACKING_PARAM_PREFIXES
+ */
+export const URL_TRACKING_PARAMS = [
+  "fbclid",
+  "gclid",
+  "dclid",
+  "gbraid",
+  "wbraid",
+  "msclkid",
+  "yclid",
+  "twclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_gl",
+];
+
+/**
+ * Prefixes of tracking query parameters
+ */
+export const URL_TRACKING_PARAM_PREFIXES = ["utm_"];
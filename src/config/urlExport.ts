@@ -0,0 +1,54 @@
+/**
+ * URL Export Configuration
+ * @description Formats and columns offered by the URL export
+ */
+
+import type {
+  UrlExportColumn,
+  UrlExportDateFormat,
+  UrlExportFormat,
+} from "@/interfaces/urlExport";
+
+/**
+ * Label, extension and MIME type of each export format
+ */
+export const URL_EXPORT_FORMATS: Record<
+  UrlExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  csv: { label: "CSV", extension: "csv", mimeType: "text/csv;charset=utf-8" },
+  json: {
+    label: "JSON",
+    extension: "json",
+    mimeType: "application/json;charset=utf-8",
+  },
+  xlsx: {
+    label: "Excel",
+    extension: "xls",
+    mimeType: "application/vnd.ms-excel;charset=utf-8",
+  },
+};
+
+/**
+ * Exportable columns in their default order, with the header of each
+ */
+export const URL_EXPORT_COLUMNS: { key: UrlExportColumn; label: string }[] = [
+  { key: "shortUrl", label: "Short URL" },
+  { key: "originalUrl", label: "Original URL" },
+  { key: "title", label: "Title" },
+  { key: "clicks", label: "Clicks" },
+  { key: "status", label: "Status" },
+  { key: "expiryDate", label: "Expiry date" },
+  { key: "tags", label: "Tags" },
+  { key: "createdAt", label: "Created at" },
+  { key: "updatedAt", label: "Updated at" },
+];
+
+/**
+ * Label of each date format, with an example
+ */
+export const URL_EXPORT_DATE_FORMATS: Record<UrlExportDateFormat, string> = {
+  iso: "ISO 8601 (2030-12-31T09:30:00.000Z)",
+  date: "Date only (2030-12-31)",
+  locale: "Local format",
+};
@@ -0,0 +1,53 @@
+/**
+ * URL Import Configuration
+ * @description Settings of the bulk URL import from CSV files
+ */
+
+import type { UrlImportField } from "@/interfaces/urlImport";
+
+/**
+ * URL Import Limits
+ * @description Keep imports small enough to preview and throttle them to spare the API
+ */
+export const URL_IMPORT_LIMITS = {
+  /** Maximum size of the CSV file in bytes */
+  MAX_FILE_SIZE: 1024 * 1024,
+  /** Maximum number of rows in one import */
+  MAX_ROWS: 500,
+  /** Number of URLs created at the same time */
+  BATCH_SIZE: 5,
+  /** Pause between two batches in milliseconds */
+  BATCH_DELAY: 1000,
+} as const;
+
+/**
+ * Accepted CSV headers of each URL field
+ * @description Headers are matched case-insensitively, ignoring spaces, dashes and underscores
+ */
+export const URL_IMPORT_COLUMNS: Record<UrlImportField, string[]> = {
+  originalUrl: ["originalurl", "url", "destination", "longurl"],
+  customCode: ["customcode", "code", "shortcode", "backhalf"],
+  title: ["title", "name"],
+  expiryDate: ["expirydate", "expiry", "expiresat", "expires"],
+  tags: ["tags", "tag"],
+};
+
+/**
+ * Separator of the tags within their cell
+ */
+export const URL_IMPORT_TAG_SEPARATOR = /[;|]/;
+
+/**
+ * Example file users can download and fill in
+ */
+export const URL_IMPORT_TEMPLATE = [
+  ["original_url", "custom_code", "title", "expiry_date", "tags"],
+  [
+    "https://example.com/spring-sale",
+    "spring-sale",
+    "Spring sale landing page",
+    "2030-12-31",
+    "marketing;sale",
+  ],
+  ["https://example.com/docs", "", "Product documentation", "2030-12-31", ""],
+];
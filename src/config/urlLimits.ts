@@ -19,8 +19,66 @@ export const URL_CUSTOM_CODE_LIMITS = {
   WARNING_THRESHOLD: 24, // 80% of 30
   /** Critical threshold - when to show danger styling (90% of max) */
   CRITICAL_THRESHOLD: 27, // 90% of 30
+  /** Maximum number of available alternatives suggested for an unavailable code */
+  MAX_SUGGESTIONS: 3,
 } as const;
 
+/**
+ * Known App Routes
+ * @description First path segments served by the app itself rather than by a short code, so they
+ * are never treated as short URLs and cannot be picked as custom codes
+ */
+export const KNOWN_ROUTES = [
+  // App routes
+  "dashboard",
+  "login",
+  "register",
+  "forgot-password",
+  "reset-password",
+  "settings",
+  "profile",
+  "demo",
+  "bio",
+  "changelog",
+  // Asset directories
+  "api",
+  "_next",
+  "images",
+  "assets",
+  "static",
+  "logo",
+  "data",
+  "illustrations",
+  // Common files
+  "favicon.ico",
+  "robots.txt",
+  "sitemap.xml",
+];
+
+/**
+ * Blocked Custom Code Words
+ * @description A custom code is rejected when one of its hyphen-separated words starts with one of
+ * these, after digits used as letters are read as letters, so only words that rarely start
+ * harmless ones are listed
+ */
+export const BLOCKED_CUSTOM_CODE_WORDS = [
+  "fuck",
+  "shit",
+  "cunt",
+  "bitch",
+  "bastard",
+  "asshole",
+  "pussy",
+  "slut",
+  "whore",
+  "twat",
+  "wank",
+  "bollock",
+  "porn",
+  "nigger",
+  "faggot",
+];
+
 /**
  * URL Validation Patterns
  * @description Regular expressions for URL validation
@@ -44,6 +102,12 @@ export const URL_ERROR_MESSAGES = {
     "Custom code can only contain letters, numbers, and hyphens",
   /** Error message for empty required field */
   CUSTOM_CODE_REQUIRED: "Custom code is required",
+  /** Error message for codes matching a page of the app */
+  CUSTOM_CODE_RESERVED: "This custom code is reserved for a page of the app",
+  /** Error message for offensive codes */
+  CUSTOM_CODE_BLOCKED: "This custom code contains a blocked word",
+  /** Error message for codes used by another link */
+  CUSTOM_CODE_TAKEN: "This custom code is already taken",
   /** Error message for URL format */
   INVALID_URL: "Please enter a valid URL",
   /** Error message for title length */
@@ -102,8 +166,36 @@ export const getCustomCodeValidationConfig = () => ({
   a11yDescription: URL_DISPLAY_CONFIG.CUSTOM_CODE_A11Y_DESCRIPTION,
 });
 
+/**
+ * Digits commonly typed in place of letters
+ */
+const LOOKALIKE_DIGITS: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+};
+
+/**
+ * Check whether a custom code contains a blocked word
+ * @param value - Custom code
+ * @returns true if one of its words starts with a blocked word
+ */
+const hasBlockedWord = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[013457]/g, (digit) => LOOKALIKE_DIGITS[digit])
+    .split("-")
+    .some((word) =>
+      BLOCKED_CUSTOM_CODE_WORDS.some((blocked) => word.startsWith(blocked))
+    );
+
 /**
  * Helper function to validate custom code format
+ * @description Shared by the URL forms and the API so both reject the same codes: too long, with
+ * other characters than letters, numbers and hyphens, matching an app route, or offensive
  * @param value - The custom code value to validate
  * @returns Validation result with isValid flag and error message
  */
@@ -128,6 +220,20 @@ export const validateCustomCodeFormat = (
     };
   }
 
+  if (KNOWN_ROUTES.includes(value.toLowerCase())) {
+    return {
+      isValid: false,
+      error: URL_ERROR_MESSAGES.CUSTOM_CODE_RESERVED,
+    };
+  }
+
+  if (hasBlockedWord(value)) {
+    return {
+      isValid: false,
+      error: URL_ERROR_MESSAGES.CUSTOM_CODE_BLOCKED,
+    };
+  }
+
   return { isValid: true };
 };
 
@@ -0,0 +1,95 @@
+/**
+ * URL Safety Configuration
+ * @description Lists used by the destination analyzer. They are bundled with the app so the
+ * analysis runs instantly and offline.
+ */
+
+import type { UrlSafetyCheck, UrlSafetySeverity } from "@/interfaces/urlSafety";
+
+/**
+ * Severity of each check
+ */
+export const URL_SAFETY_SEVERITIES: Record<
+  UrlSafetyCheck,
+  UrlSafetySeverity
+> = {
+  blocklisted: "high",
+  embedded_credentials: "high",
+  homoglyph: "high",
+  punycode: "medium",
+  ip_host: "medium",
+  url_shortener: "medium",
+  suspicious_tld: "low",
+  insecure_protocol: "low",
+};
+
+/**
+ * Label and colors of each risk level
+ */
+export const URL_SAFETY_LEVELS: Record<
+  UrlSafetySeverity | "safe",
+  { label: string; className: string }
+> = {
+  safe: { label: "No issues found", className: "bg-[#E8F5E9] text-[#388E3C]" },
+  low: { label: "Low risk", className: "bg-[#FFFDE7] text-[#F57F17]" },
+  medium: { label: "Medium risk", className: "bg-[#FFF3E0] text-[#E65100]" },
+  high: { label: "High risk", className: "bg-[#FFEBEE] text-[#D32F2F]" },
+};
+
+/**
+ * Hosts of URL shorteners, whose links hide their real destination behind a redirect chain
+ */
+export const KNOWN_URL_SHORTENERS = [
+  "bit.ly",
+  "bit.do",
+  "buff.ly",
+  "cutt.ly",
+  "goo.gl",
+  "is.gd",
+  "ow.ly",
+  "rb.gy",
+  "rebrand.ly",
+  "s.id",
+  "shorturl.at",
+  "t.co",
+  "t.ly",
+  "tiny.cc",
+  "tinyurl.com",
+  "v.gd",
+];
+
+/**
+ * Top-level domains that are cheap to register or easily confused with file names, and often
+ * used by phishing pages
+ */
+export const SUSPICIOUS_TLDS = [
+  "cf",
+  "click",
+  "country",
+  "ga",
+  "gq",
+  "kim",
+  "loan",
+  "ml",
+  "mov",
+  "tk",
+  "top",
+  "work",
+  "xyz",
+  "zip",
+];
+
+/**
+ * Blocked hosts, a link to one of them or to one of their subdomains is flagged
+ * @description Seeded with public test hosts of browser safety lists
+ */
+export const URL_SAFETY_BLOCKLIST = [
+  "malware.testing.google.test",
+  "testsafebrowsing.appspot.com",
+  "wicar.org",
+];
+
+/**
+ * Cyrillic and Greek letters that look like Latin ones
+ */
+export const HOMOGLYPH_CHARACTERS = "аеорсухіјӏѕһԁԛԝвмнктαβεικνορτυχ";
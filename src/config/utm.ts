@@ -0,0 +1,63 @@
+/**
+ * UTM Configuration
+ * @description Fields of the UTM campaign builder and limits of saved presets
+ */
+
+import type { UtmField } from "@/interfaces/utm";
+
+/**
+ * UTM fields in the order of the builder, with the query parameter of each
+ */
+export const UTM_FIELDS: {
+  key: UtmField;
+  param: string;
+  label: string;
+  placeholder: string;
+}[] = [
+  {
+    key: "source",
+    param: "utm_source",
+    label: "Source",
+    placeholder: "newsletter",
+  },
+  { key: "medium", param: "utm_medium", label: "Medium", placeholder: "email" },
+  {
+    key: "campaign",
+    param: "utm_campaign",
+    label: "Campaign",
+    placeholder: "spring_sale",
+  },
+  {
+    key: "term",
+    param: "utm_term",
+    label: "Term",
+    placeholder: "running_shoes",
+  },
+  {
+    key: "content",
+    param: "utm_content",
+    label: "Content",
+    placeholder: "header_link",
+  },
+];
+
+/**
+ * UTM fields shown as filterable columns of the URL table
+ */
+export const UTM_TABLE_FIELDS: UtmField[] = ["source", "medium", "campaign"];
+
+/**
+ * Limits of saved UTM presets
+ * @description Presets are kept in the browser, so their number is capped
+ */
+export const UTM_PRESET_LIMITS = {
+  /** Most presets a user can save */
+  MAX_PRESETS: 20,
+  /** Maximum preset name length */
+  NAME_MAX_LENGTH: 40,
+} as const;
+
+/**
+ * Local storage key of the saved presets
+ */
+export const UTM_PRESETS_STORAGE_KEY = "cylink_utm_presets";
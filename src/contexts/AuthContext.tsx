@@ -3,19 +3,41 @@
 import React, { createContext, useContext, ReactNode, useState, useEffect } from 'react'
 import { User, LoginRequest, RegisterRequest, AuthContextType } from '@/interfaces/auth'
 import AuthService from '@/services/auth'
+import { SESSION_EXPIRED_EVENT } from '@/services/api'
 import { useRouter } from 'next/navigation'
-import { AxiosError } from 'axios'
 import { useToast } from '@/contexts/ToastContext'
-import { ToastType } from '@/components/atoms/Toast'
 import posthogClient from '@/utils/posthogClient'
 import { useConversionTracking } from '@/hooks/useConversionTracking'
 import { useOnboarding } from '@/contexts/OnboardingContext'
+import { useApiErrorHandler } from '@/hooks/useApiErrorHandler'
+import { ApiErrorKind, getApiErrorMessage } from '@/utils/apiErrors'
 
 // Navigation delay to allow toast to be visible
 const NAVIGATION_DELAY = 2000
 // Toast duration should be longer than navigation delay
 const TOAST_DURATION = NAVIGATION_DELAY + 500
 
+/**
+ * Registration error messages per API error kind
+ */
+const SIGNUP_ERROR_MESSAGES: Partial<Record<ApiErrorKind, string>> = {
+  validation: 'Invalid registration data. Please check all fields and try again.',
+  conflict: 'An account with this email already exists. Please try logging in instead.',
+  network: 'Server did not respond. Please try again later.',
+  server: 'An error occurred during registration. Please try again later.'
+}
+
+/**
+ * Login error messages per API error kind
+ */
+const LOGIN_ERROR_MESSAGES: Partial<Record<ApiErrorKind, string>> = {
+  validation: 'Invalid credentials. Please check your email and password.',
+  auth: 'Your account is not verified. Please check your email for verification instructions.',
+  not_found: 'Account not found. Please check your email or register for a new account.',
+  network: 'Server did not respond. Please try again later.',
+  server: 'An error occurred during login. Please try again later.'
+}
+
 /**
  * Initial authentication context state
  */
@@ -60,6 +82,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [error, setError] = useState<string | null>(null)
   const { trackUserRegister } = useConversionTracking()
   const { triggerOnboarding } = useOnboarding()
+  const { handleApiError } = useApiErrorHandler()
 
   /**
    * Initialize auth state from localStorage on mount
@@ -103,10 +126,31 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }, delay)
   }
 
+  /**
+   * Log the user out when the API layer could not refresh the session
+   */
+  useEffect(() => {
+    const handleSessionExpired = () => {
+      setUser(null)
+      posthogClient.resetUser()
+      showToast('Your session has expired. Please log in again.', 'warning', TOAST_DURATION)
+      setTimeout(() => {
+        router.push('/login')
+      }, NAVIGATION_DELAY)
+    }
+
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired)
+
+    return () => {
+      window.removeEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired)
+    }
+  }, [router, showToast])
+
   /**
    * Register handler
    * @description Registers a new user with provided credentials
    * @param credentials - Registration credentials
+   * @throws ApiError after the error toast has been shown
    */
   const signup = async (credentials: RegisterRequest) => {
     // Clear any existing toasts
@@ -170,58 +214,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     } catch (err) {
       console.error('Registration error details:', err)
 
-      // Handle different error cases
-      let errorMessage = 'An error occurred during registration. Please try again later.'
-      const errorType: ToastType = 'error'
-
-      if (err instanceof AxiosError) {
-        const error = err as AxiosError
-
-        if (error.response) {
-          console.log('Error response status:', error.response.status)
-          console.log('Error response data:', error.response.data)
-
-          switch (error.response.status) {
-            case 400:
-              errorMessage = 'Invalid registration data. Please check all fields and try again.'
-              break
-            case 409:
-              errorMessage = 'An account with this email already exists. Please try logging in instead.'
-              break
-            case 422:
-              errorMessage =
-                'Please check that your password meets the requirements and all fields are filled correctly.'
-              break
-            default:
-              // Try to get error message from response
-              if (error.message) {
-                errorMessage = error.message
-              }
-          }
-        } else if (error.request) {
-          // The request was made but no response was received
-          console.log('No response received from server')
-          errorMessage = 'Server did not respond. Please try again later.'
-        } else {
-          // Something happened in setting up the request that triggered an Error
-          console.log('Error setting up request:', error.message)
-          errorMessage = 'Failed to connect to the server. Please check your connection.'
-        }
-      } else {
-        // Not an Axios error
-        console.log('Non-Axios error:', err)
-        if (err instanceof Error) {
-          errorMessage = err.message
-        }
-      }
-
-      setError(errorMessage)
+      const apiError = handleApiError(err, { messages: SIGNUP_ERROR_MESSAGES, duration: 6000 })
 
+      setError(getApiErrorMessage(apiError, SIGNUP_ERROR_MESSAGES))
       setIsModalOpen(false)
-
-      // Show error toast with longer duration
-      showToast(errorMessage, errorType, 6000)
       setIsLoading(false)
+
+      // Rethrow so the form can show field errors
+      throw apiError
     }
   }
 
@@ -230,6 +230,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
    * @description Authenticates user with provided credentials
    * @param credentials - Login credentials
    * @param remember - Remember login option
+   * @throws ApiError after the error toast has been shown
    */
   const login = async (credentials: LoginRequest, remember: boolean = false) => {
     // Clear any existing toasts
@@ -301,50 +302,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     } catch (err) {
       console.error('Login error details:', err)
 
-      // Handle different error cases
-      let errorMessage = 'An error occurred during login. Please try again later.'
-      const errorType: ToastType = 'error'
-
-      if (err instanceof AxiosError) {
-        const error = err as AxiosError
-
-        if (error.response) {
-          console.log('Error response status:', error.response.status)
-          console.log('Error response data:', error.response.data)
-
-          switch (error.response.status) {
-            case 400:
-              errorMessage = 'Invalid credentials. Please check your email and password.'
-              break
-            case 401:
-              errorMessage = 'Your account is not verified. Please check your email for verification instructions.'
-              break
-            case 404:
-              errorMessage = 'Account not found. Please check your email or register for a new account.'
-              break
-          }
-        } else if (error.request) {
-          // The request was made but no response was received
-          console.log('No response received from server')
-          errorMessage = 'Server did not respond. Please try again later.'
-        } else {
-          // Something happened in setting up the request that triggered an Error
-          console.log('Error setting up request:', error.message)
-          errorMessage = 'Failed to connect to the server. Please check your connection.'
-        }
-      } else {
-        // Not an Axios error
-        console.log('Non-Axios error:', err)
-        if (err instanceof Error) {
-          errorMessage = err.message
-        }
-      }
-
-      setError(errorMessage)
+      const apiError = handleApiError(err, { messages: LOGIN_ERROR_MESSAGES, duration: 6000 })
 
-      // Show error toast with longer duration
-      showToast(errorMessage, errorType, 6000)
+      setError(getApiErrorMessage(apiError, LOGIN_ERROR_MESSAGES))
       setIsLoading(false)
+
+      // Rethrow so the form can show field errors
+      throw apiError
     }
   }
 
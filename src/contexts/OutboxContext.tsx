@@ -0,0 +1,264 @@
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import {
+  OutboxContextType,
+  OutboxItem,
+  OutboxMutation,
+} from "@/interfaces/outbox";
+import {
+  getOutboxItems,
+  isOffline,
+  isReplayableError,
+  isOutboxSupported,
+  queueMutation as storeMutation,
+  removeOutboxItem,
+  subscribeOutbox,
+  syncOutbox,
+  updateOutboxItem,
+} from "@/services/outbox";
+import { DEMO_MODE_ENDED_EVENT } from "@/services/mockApi";
+import { ApiError } from "@/utils/apiErrors";
+import logger from "@/utils/logger";
+
+/**
+ * Context for the offline mutation outbox
+ */
+const OutboxContext = createContext<OutboxContextType | undefined>(undefined);
+
+/**
+ * Props for OutboxProvider component
+ */
+interface OutboxProviderProps {
+  /**
+   * Child components
+   */
+  children: React.ReactNode;
+}
+
+/**
+ * Pluralize the word "change"
+ * @param count - Number of changes
+ * @returns Count followed by "change" or "changes"
+ */
+const formatChangeCount = (count: number) =>
+  `${count} offline ${count === 1 ? "change" : "changes"}`;
+
+/**
+ * Outbox Provider Component
+ * @description Exposes the queued URL mutations of the current user and replays them whenever
+ * the browser comes back online
+ */
+export const OutboxProvider: React.FC<OutboxProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+
+  const userId = user?.id;
+
+  // Load the outbox of the current user and follow its changes
+  useEffect(() => {
+    if (!userId || !isOutboxSupported()) {
+      setItems([]);
+      return;
+    }
+
+    let isSubscribed = true;
+
+    const loadItems = () => {
+      getOutboxItems(userId)
+        .then((nextItems) => {
+          if (isSubscribed) setItems(nextItems);
+        })
+        .catch((error) => logger.error("Failed to read the outbox", error));
+    };
+
+    loadItems();
+    const unsubscribe = subscribeOutbox(loadItems);
+
+    return () => {
+      isSubscribed = false;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  /**
+   * Replay pending mutations and report the outcome
+   */
+  const syncNow = useCallback(async () => {
+    if (!userId || !isOutboxSupported() || isOffline()) return;
+
+    setIsSyncing(true);
+
+    try {
+      const result = await syncOutbox(userId);
+
+      if (result.synced > 0) {
+        setLastSyncedAt(Date.now());
+        showToast(`${formatChangeCount(result.synced)} synced`, "success", 3000);
+      }
+
+      if (result.conflicts > 0) {
+        showToast(
+          `${formatChangeCount(result.conflicts)} could not be applied and need your review`,
+          "warning",
+          6000
+        );
+      }
+    } catch (error) {
+      logger.error("Failed to sync the outbox", error);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [userId, showToast]);
+
+  // Replay leftovers from a previous visit, then again each time the connection comes back or a
+  // demo, which pauses the sync, ends
+  useEffect(() => {
+    setIsOnline(!isOffline());
+    syncNow();
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    window.addEventListener(DEMO_MODE_ENDED_EVENT, syncNow);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      window.removeEventListener(DEMO_MODE_ENDED_EVENT, syncNow);
+    };
+  }, [syncNow]);
+
+  /**
+   * Store a mutation until the browser is back online
+   * @param mutation - Mutation to queue
+   * @returns Promise with the queued item
+   * @throws {ApiError} Network error if the outbox cannot be used
+   */
+  const queueMutation = useCallback(
+    async (mutation: OutboxMutation) => {
+      if (!userId || !isOutboxSupported()) {
+        throw new ApiError("network");
+      }
+
+      const item = await storeMutation(userId, mutation);
+      showToast(
+        "You're offline. This change will sync when you're back online.",
+        "info",
+        4000
+      );
+
+      return item;
+    },
+    [userId, showToast]
+  );
+
+  /**
+   * Send a mutation, falling back to the outbox when the browser is offline
+   * @description Mutations are queued without being sent while offline. Once sent, only the ones
+   * that can be replayed safely are queued on a network error, never creations.
+   * @param mutation - Mutation to queue if the request cannot reach the server
+   * @param request - Function sending the mutation
+   * @returns Promise with the request result, or null if the mutation was queued
+   * @throws The request error when the mutation cannot be queued after it
+   */
+  const runOrQueue = useCallback(
+    async <T,>(
+      mutation: OutboxMutation,
+      request: () => Promise<T>
+    ): Promise<T | null> => {
+      if (!isOffline()) {
+        try {
+          return await request();
+        } catch (error) {
+          if (!isReplayableError(mutation, error)) throw error;
+        }
+      }
+
+      await queueMutation(mutation);
+      return null;
+    },
+    [queueMutation]
+  );
+
+  /**
+   * Queue a conflicting mutation again and replay it
+   * @param id - Outbox item ID
+   * @param mutation - Corrected mutation, defaults to the stored one
+   */
+  const retryItem = useCallback(
+    async (id: number, mutation?: OutboxMutation) => {
+      const item = items.find((queued) => queued.id === id);
+      if (!item) return;
+
+      await updateOutboxItem({
+        ...(mutation ?? item),
+        id: item.id,
+        userId: item.userId,
+        queuedAt: item.queuedAt,
+        status: "pending",
+        conflict: undefined,
+      });
+      await syncNow();
+    },
+    [items, syncNow]
+  );
+
+  /**
+   * Drop a queued mutation
+   * @param id - Outbox item ID
+   */
+  const discardItem = useCallback(async (id: number) => {
+    await removeOutboxItem(id);
+  }, []);
+
+  const value: OutboxContextType = {
+    items,
+    isOnline,
+    isSyncing,
+    lastSyncedAt,
+    queueMutation,
+    runOrQueue,
+    syncNow,
+    retryItem,
+    discardItem,
+  };
+
+  return (
+    <OutboxContext.Provider value={value}>{children}</OutboxContext.Provider>
+  );
+};
+
+/**
+ * Custom hook to use the outbox context
+ * @returns Outbox state and methods
+ * @throws Error if used outside of OutboxProvider
+ */
+export const useOutbox = (): OutboxContextType => {
+  const context = useContext(OutboxContext);
+
+  if (context === undefined) {
+    throw new Error("useOutbox must be used within an OutboxProvider");
+  }
+
+  return context;
+};
+
+export default OutboxContext;
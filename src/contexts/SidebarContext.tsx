@@ -61,6 +61,8 @@ export const SidebarProvider: React.FC<SidebarProviderProps> = ({
       setActiveItemId("qrcodes");
     } else if (pathname === "/dashboard/urls") {
       setActiveItemId("urls");
+    } else if (pathname === "/dashboard/bio") {
+      setActiveItemId("bio");
     } else if (pathname === "/settings") {
       setActiveItemId("settings");
     }
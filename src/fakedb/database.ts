@@ -0,0 +1,37 @@
+import type { MockDatabase } from '@/interfaces/mockApi'
+import { createSeedDatabase } from './seed'
+
+/**
+ * Mock Database
+ * @description In-memory store behind the mock API. It is seeded on first use and lives until
+ * the page is reloaded, so changes made through the mock API persist for the session.
+ */
+
+let database: MockDatabase | null = null
+
+/**
+ * Get the mock database, seeding it on first use
+ * @returns The database of the current session
+ */
+export const getMockDatabase = (): MockDatabase => {
+  if (!database) {
+    database = createSeedDatabase()
+  }
+
+  return database
+}
+
+/**
+ * Drop every change and start again from the seed data
+ */
+export const resetMockDatabase = () => {
+  database = null
+}
+
+/**
+ * Get the ID of the next record of a collection
+ * @param records - Records of the collection
+ * @returns One above the highest ID in use
+ */
+export const nextId = (records: Array<{ id: number }>): number =>
+  records.reduce((highest, record) => Math.max(highest, record.id), 0) + 1
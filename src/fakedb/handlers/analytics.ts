@@ -0,0 +1,429 @@
+import type { MockDailyTraffic, MockRequest, MockResponse } from '@/interfaces/mockApi'
+import { MOCK_DATA_SEED } from '@/config/mockApi'
+import { REDIRECT_FALLBACK_NAME } from '@/config/redirectRules'
+import { getMockDatabase } from '../database'
+import { fail, ok, readNumber } from '../responses'
+import { createRandom } from '../seed'
+import {
+  compareMetric,
+  ctr,
+  groupTraffic,
+  Period,
+  readPeriod,
+  readPreviousPeriod,
+  round,
+  sumTraffic,
+  topDays,
+  TrafficTotals
+} from '../traffic'
+
+/**
+ * Mock Analytics Handlers
+ * @description Serve the click, CTR and conversion analytics computed from the mock traffic
+ */
+
+/**
+ * Share of traffic per browser
+ */
+const BROWSER_WEIGHTS = { Chrome: 0.58, Safari: 0.21, Firefox: 0.08, Edge: 0.07, Other: 0.06 }
+
+/**
+ * Share of traffic per device type
+ */
+const DEVICE_WEIGHTS = { desktop: 0.47, mobile: 0.46, tablet: 0.07 }
+
+/**
+ * Share of traffic per country
+ */
+const COUNTRY_WEIGHTS = {
+  Indonesia: 0.41,
+  'United States': 0.19,
+  Singapore: 0.1,
+  Malaysia: 0.08,
+  Germany: 0.07,
+  India: 0.06,
+  Japan: 0.05,
+  Other: 0.04
+}
+
+/**
+ * Share of traffic per referrer
+ */
+const REFERRER_WEIGHTS = {
+  direct: 0.34,
+  'google.com': 0.22,
+  'twitter.com': 0.14,
+  'linkedin.com': 0.12,
+  'facebook.com': 0.1,
+  'newsletter.example.com': 0.08
+}
+
+/**
+ * Conversion goals reported by the conversion endpoint
+ */
+const CONVERSION_GOALS = [
+  { goal_id: 1, name: 'Sign up', rate: 0.042, value: 0 },
+  { goal_id: 2, name: 'Purchase', rate: 0.018, value: 49 },
+  { goal_id: 3, name: 'Newsletter subscription', rate: 0.065, value: 0 }
+]
+
+/**
+ * Split a total across named shares
+ * @param total - Number to split
+ * @param weights - Share of each name, summing to 1
+ * @param random - Random number generator jittering the shares
+ * @returns Count per name, summing to the total
+ */
+const distribute = (total: number, weights: Record<string, number>, random: () => number) => {
+  const entries = Object.entries(weights).map(([name, weight]) => [name, weight * (0.8 + random() * 0.4)] as const)
+  const weightSum = entries.reduce((sum, [, weight]) => sum + weight, 0)
+  const counts: Record<string, number> = {}
+  let remaining = total
+
+  entries.forEach(([name, weight], index) => {
+    const count = index === entries.length - 1 ? remaining : Math.round((total * weight) / weightSum)
+    counts[name] = Math.max(0, Math.min(count, remaining))
+    remaining -= counts[name]
+  })
+
+  return counts
+}
+
+/**
+ * Format a time series point with its CTR, with counts as strings like the backend sends them
+ * @param totals - Traffic of the day
+ * @returns CTR data point
+ */
+const toCtrPoint = (totals: TrafficTotals) => ({
+  date: totals.date,
+  impressions: String(totals.impressions),
+  clicks: String(totals.clicks),
+  ctr: ctr(totals.clicks, totals.impressions).toFixed(2)
+})
+
+/**
+ * Format a period as start and end dates
+ * @param period - Period
+ * @returns Period block as sent by the backend
+ */
+const toPeriodBlock = (period: Period) => ({ start_date: period.start, end_date: period.end })
+
+/**
+ * Break traffic down by source
+ * @param totals - Traffic to break down
+ * @param random - Random number generator jittering the shares
+ * @returns CTR per source, busiest first
+ */
+const getCtrBySource = (totals: TrafficTotals, random: () => number) => {
+  const impressions = distribute(totals.impressions, REFERRER_WEIGHTS, random)
+  const clicks = distribute(totals.clicks, REFERRER_WEIGHTS, random)
+
+  return Object.keys(REFERRER_WEIGHTS)
+    .map(source => ({
+      source,
+      impressions: String(impressions[source]),
+      clicks: String(clicks[source]),
+      ctr: ctr(clicks[source], impressions[source]).toFixed(2)
+    }))
+    .sort((a, b) => Number(b.clicks) - Number(a.clicks))
+}
+
+/**
+ * Compare CTR metrics between two periods
+ * @param current - Traffic of the analysis period
+ * @param previous - Traffic of the comparison period
+ * @returns Metrics block with counts as strings like the backend sends them
+ */
+const compareCtrMetrics = (current: TrafficTotals, previous: TrafficTotals) => {
+  const asStrings = (metric: ReturnType<typeof compareMetric>) => ({
+    ...metric,
+    current: String(metric.current),
+    previous: String(metric.previous)
+  })
+
+  return {
+    impressions: asStrings(compareMetric(current.impressions, previous.impressions)),
+    clicks: asStrings(compareMetric(current.clicks, previous.clicks)),
+    ctr: asStrings(compareMetric(ctr(current.clicks, current.impressions), ctr(previous.clicks, previous.impressions)))
+  }
+}
+
+/**
+ * GET /api/v1/urls/total-clicks
+ * @description Supports the period, comparison, group_by, page and limit parameters
+ */
+export const getTotalClicks = ({ query }: MockRequest): MockResponse => {
+  const { urls, traffic } = getMockDatabase()
+  const period = readPeriod(query)
+  const previousPeriod = readPreviousPeriod(query, period)
+
+  const current = sumTraffic(traffic, period)
+  const previous = sumTraffic(traffic, previousPeriod)
+  const series = groupTraffic(traffic, period, query.get('group_by')).map(totals => ({
+    date: totals.date,
+    clicks: totals.clicks,
+    urls_count: totals.activeUrls,
+    avg_clicks: totals.activeUrls > 0 ? round(totals.clicks / totals.activeUrls) : 0
+  }))
+
+  const page = readNumber(query, 'page', 1)
+  const limit = readNumber(query, 'limit', series.length || 1)
+  const averagePerUrl = (totals: TrafficTotals) => (urls.length > 0 ? round(totals.clicks / urls.length) : 0)
+
+  return ok(
+    {
+      summary: {
+        total_clicks: current.clicks,
+        total_urls: urls.length,
+        avg_clicks_per_url: averagePerUrl(current),
+        analysis_period: { ...toPeriodBlock(period), days: period.days },
+        comparison: {
+          period_days: previousPeriod.days,
+          previous_period: toPeriodBlock(previousPeriod),
+          total_clicks: compareMetric(current.clicks, previous.clicks),
+          avg_clicks_per_url: compareMetric(averagePerUrl(current), averagePerUrl(previous)),
+          active_urls: compareMetric(current.activeUrls, previous.activeUrls)
+        }
+      },
+      time_series: {
+        data: series.slice((page - 1) * limit, page * limit),
+        pagination: {
+          total_items: series.length,
+          total_pages: Math.max(1, Math.ceil(series.length / limit)),
+          current_page: page,
+          limit
+        }
+      },
+      top_performing_days: [...series].sort((a, b) => b.clicks - a.clicks).slice(0, 5)
+    },
+    'Total clicks retrieved successfully'
+  )
+}
+
+/**
+ * GET /api/v1/ctr/stats
+ * @description Includes the comparison block when a comparison period is requested
+ */
+export const getCtrStats = ({ query }: MockRequest): MockResponse => {
+  const { traffic } = getMockDatabase()
+  const period = readPeriod(query)
+  const current = sumTraffic(traffic, period)
+  const daily = groupTraffic(traffic, period, query.get('group_by'))
+  const uniqueImpressions = Math.round(current.impressions * 0.78)
+
+  const hasComparison = query.has('comparison') || query.has('custom_comparison_start')
+  const previousPeriod = readPreviousPeriod(query, period)
+
+  return ok(
+    {
+      overall: {
+        total_impressions: String(current.impressions),
+        total_clicks: String(current.clicks),
+        ctr: ctr(current.clicks, current.impressions).toFixed(2),
+        unique_impressions: String(uniqueImpressions),
+        unique_ctr: ctr(current.uniqueVisitors, uniqueImpressions).toFixed(2),
+        analysis_period: { ...toPeriodBlock(period), days: period.days }
+      },
+      ...(hasComparison && {
+        comparison: {
+          period_days: previousPeriod.days,
+          previous_period: toPeriodBlock(previousPeriod),
+          metrics: compareCtrMetrics(current, sumTraffic(traffic, previousPeriod))
+        }
+      }),
+      time_series: { data: daily.map(toCtrPoint) },
+      top_performing_days: topDays(daily).map(toCtrPoint),
+      ctr_by_source: getCtrBySource(current, createRandom(MOCK_DATA_SEED + period.days))
+    },
+    'CTR statistics retrieved successfully'
+  )
+}
+
+/**
+ * GET /api/v1/urls/:id/analytics
+ */
+export const getUrlAnalytics = ({ params, query }: MockRequest): MockResponse => {
+  const database = getMockDatabase()
+  const url = database.urls.find(item => String(item.id) === params.id)
+  if (!url) return fail(404, 'URL not found')
+
+  const traffic: MockDailyTraffic[] = database.traffic.filter(day => day.urlId === url.id)
+  const random = createRandom(MOCK_DATA_SEED + url.id)
+  const period = readPeriod(query)
+  const previousPeriod = readPreviousPeriod(query, period)
+
+  const current = sumTraffic(traffic, period)
+  const previous = sumTraffic(traffic, previousPeriod)
+  const daily = groupTraffic(traffic, period, query.get('group_by'))
+  const clickSeries = daily.map(totals => ({ date: totals.date, clicks: totals.clicks }))
+  const uniqueImpressions = Math.round(current.impressions * 0.78)
+
+  const page = readNumber(query, 'page', 1)
+  const limit = readNumber(query, 'limit', clickSeries.length || 1)
+  const uniqueVisitors = traffic.reduce((total, day) => total + day.uniqueVisitors, 0)
+
+  // Clicks recorded with a referrer, like bio page clicks, replace their share of the generated ones
+  const recordedReferrers = database.clickReferrers[url.id] ?? {}
+  const recordedReferrerClicks = Object.values(recordedReferrers).reduce((total, count) => total + count, 0)
+  const ruleMatches = database.redirectRuleMatches[url.id]
+  const variantClicks = database.abVariantClicks[url.id] ?? {}
+  const conversionRate = CONVERSION_GOALS.reduce((total, goal) => total + goal.rate, 0)
+
+  return ok(
+    {
+      url_id: url.id,
+      short_code: url.short_code,
+      total_clicks: url.clicks,
+      unique_visitors: uniqueVisitors,
+      time_series_data: clickSeries,
+      browser_stats: distribute(url.clicks, BROWSER_WEIGHTS, random),
+      device_stats: distribute(url.clicks, DEVICE_WEIGHTS, random),
+      country_stats: distribute(url.clicks, COUNTRY_WEIGHTS, random),
+      top_referrers: Object.entries({
+        ...distribute(Math.max(0, url.clicks - recordedReferrerClicks), REFERRER_WEIGHTS, random),
+        ...recordedReferrers
+      })
+        .map(([referrer, count]) => ({ referrer, count }))
+        .sort((a, b) => b.count - a.count),
+      ...(!!url.redirect_rules?.length && {
+        redirect_rule_stats: [
+          ...url.redirect_rules.map(rule => ({
+            rule_id: rule.id,
+            name: rule.name,
+            count: ruleMatches?.rules[rule.id] ?? 0
+          })),
+          { rule_id: null, name: REDIRECT_FALLBACK_NAME, count: ruleMatches?.fallback ?? 0 }
+        ]
+      }),
+      ...(!!url.ab_variants?.length && {
+        ab_variant_stats: url.ab_variants.map(variant => {
+          const clicks = variantClicks[variant.id] ?? 0
+          // Each destination converts a bit differently
+          const conversions = Math.round(clicks * conversionRate * (0.6 + random() * 0.8))
+          return {
+            variant_id: variant.id,
+            name: variant.name,
+            destination_url: variant.destination_url,
+            weight: variant.weight,
+            clicks,
+            conversions,
+            conversion_rate: clicks > 0 ? round((conversions / clicks) * 100) : 0
+          }
+        })
+      }),
+      historical_analysis: {
+        summary: {
+          analysis_period: { ...toPeriodBlock(period), days: period.days },
+          comparison: {
+            period_days: previousPeriod.days,
+            previous_period: { ...toPeriodBlock(previousPeriod), days: previousPeriod.days },
+            total_clicks: compareMetric(current.clicks, previous.clicks)
+          }
+        },
+        time_series: {
+          data: clickSeries.slice((page - 1) * limit, page * limit),
+          pagination: {
+            page,
+            limit,
+            total: clickSeries.length,
+            total_pages: Math.max(1, Math.ceil(clickSeries.length / limit))
+          }
+        },
+        top_performing_days: topDays(daily).map(totals => ({ date: totals.date, clicks: totals.clicks }))
+      },
+      ctr_statistics: {
+        overall: {
+          total_impressions: String(current.impressions),
+          total_clicks: String(current.clicks),
+          ctr: ctr(current.clicks, current.impressions).toFixed(2),
+          unique_impressions: String(uniqueImpressions),
+          unique_ctr: ctr(current.uniqueVisitors, uniqueImpressions).toFixed(2)
+        },
+        comparison: {
+          period_days: previousPeriod.days,
+          previous_period: { ...toPeriodBlock(previousPeriod), days: previousPeriod.days },
+          metrics: compareCtrMetrics(current, previous)
+        },
+        time_series: { data: daily.map(toCtrPoint) },
+        top_performing_days: topDays(daily).map(toCtrPoint),
+        ctr_by_source: getCtrBySource(current, random)
+      }
+    },
+    'URL analytics retrieved successfully'
+  )
+}
+
+/**
+ * GET /api/v1/conversion-rate
+ * @description Supports the start_date, end_date, comparison and goal_id parameters
+ */
+export const getConversionRate = ({ query }: MockRequest): MockResponse => {
+  const { traffic } = getMockDatabase()
+  const period = readPeriod(query)
+  const previousPeriod = readPreviousPeriod(query, period)
+  const current = sumTraffic(traffic, period)
+  const previous = sumTraffic(traffic, previousPeriod)
+
+  const goalId = Number(query.get('goal_id'))
+  const goals = CONVERSION_GOALS.filter(goal => !goalId || goal.goal_id === goalId)
+
+  const measureGoals = (clicks: number) =>
+    goals.map(goal => {
+      const conversions = Math.round(clicks * goal.rate)
+      return {
+        goal_id: goal.goal_id,
+        name: goal.name,
+        conversions,
+        conversion_rate: clicks > 0 ? round((conversions / clicks) * 100) : 0,
+        conversion_value: conversions * goal.value
+      }
+    })
+
+  const currentGoals = measureGoals(current.clicks)
+  const previousGoals = measureGoals(previous.clicks)
+  const sum = (items: typeof currentGoals, field: 'conversions' | 'conversion_value') =>
+    items.reduce((total, item) => total + item[field], 0)
+
+  const totalConversions = sum(currentGoals, 'conversions')
+  const previousConversions = sum(previousGoals, 'conversions')
+  const totalValue = sum(currentGoals, 'conversion_value')
+  const conversionRate = current.clicks > 0 ? round((totalConversions / current.clicks) * 100) : 0
+  const previousRate = previous.clicks > 0 ? round((previousConversions / previous.clicks) * 100) : 0
+
+  return ok(
+    {
+      period: toPeriodBlock(period),
+      overall_stats: {
+        total_clicks: current.clicks,
+        total_conversions: totalConversions,
+        conversion_rate: conversionRate,
+        total_conversion_value: totalValue,
+        average_value_per_conversion: totalConversions > 0 ? round(totalValue / totalConversions) : 0
+      },
+      goals: currentGoals,
+      comparison: {
+        previous_period: toPeriodBlock(previousPeriod),
+        overall: {
+          previous_conversion_rate: previousRate,
+          change_percentage: compareMetric(conversionRate, previousRate).change_percentage,
+          previous_conversions: previousConversions,
+          change: totalConversions - previousConversions
+        },
+        goals: currentGoals.map((goal, index) => {
+          const before = previousGoals[index]
+          return {
+            goal_id: goal.goal_id,
+            previous_conversion_rate: before.conversion_rate,
+            change_percentage:
+              before.conversion_rate > 0
+                ? compareMetric(goal.conversion_rate, before.conversion_rate).change_percentage
+                : null,
+            previous_conversions: before.conversions,
+            change: goal.conversions - before.conversions
+          }
+        })
+      }
+    },
+    'Conversion rate retrieved successfully'
+  )
+}
@@ -0,0 +1,117 @@
+import type { MockRequest, MockResponse } from '@/interfaces/mockApi'
+import type { LoginRequest, RegisterRequest, ResetPasswordRequest } from '@/interfaces/auth'
+import { getMockDatabase } from '../database'
+import { fail, ok, readBody } from '../responses'
+
+/**
+ * Mock Auth Handlers
+ * @description Serve /api/v1/auth. Any email and password sign in as the demo user, so the
+ * mock API never needs real credentials.
+ */
+
+/**
+ * Issue a fake token pair
+ * @returns Access and refresh tokens
+ */
+const issueTokens = () => {
+  const issuedAt = Date.now().toString(36)
+  return { access: `mock-access-${issuedAt}`, refresh: `mock-refresh-${issuedAt}` }
+}
+
+/**
+ * Check the password fields of a registration or reset request
+ * @param payload - Request body
+ * @returns Error response, or null if the passwords are valid
+ */
+const validatePasswords = (payload: Partial<ResetPasswordRequest>): MockResponse | null => {
+  if (!payload.password || payload.password.length < 8) {
+    return fail(422, 'Validation failed', { password: 'Password must be at least 8 characters' })
+  }
+
+  if (payload.password !== payload.password_confirmation) {
+    return fail(422, 'Validation failed', { password_confirmation: 'Passwords do not match' })
+  }
+
+  return null
+}
+
+/**
+ * POST /api/v1/auth/login
+ */
+export const login = ({ body }: MockRequest): MockResponse => {
+  const { email, password } = readBody<LoginRequest>(body)
+
+  if (!email || !password) {
+    return fail(422, 'Validation failed', {
+      ...(!email && { email: 'Email is required' }),
+      ...(!password && { password: 'Password is required' })
+    })
+  }
+
+  return ok({ user: getMockDatabase().user, token: issueTokens(), first_login: false }, 'Login successful')
+}
+
+/**
+ * POST /api/v1/auth/register
+ */
+export const register = ({ body }: MockRequest): MockResponse => {
+  const payload = readBody<RegisterRequest>(body)
+
+  if (!payload.email || !payload.username) {
+    return fail(422, 'Validation failed', {
+      ...(!payload.email && { email: 'Email is required' }),
+      ...(!payload.username && { username: 'Username is required' })
+    })
+  }
+
+  const invalid = validatePasswords(payload)
+  if (invalid) return invalid
+
+  const now = new Date().toISOString()
+
+  return ok(
+    {
+      user: {
+        id: getMockDatabase().user.id,
+        email: payload.email,
+        name: payload.username,
+        email_verified_at: null,
+        created_at: now,
+        updated_at: now,
+        is_verified: false
+      },
+      verification_token: 'mock-verification-token'
+    },
+    'Registration successful. Please check your email to verify your account.',
+    201
+  )
+}
+
+/**
+ * POST /api/v1/auth/refresh
+ */
+export const refresh = (): MockResponse => ok({ token: issueTokens() }, 'Token refreshed')
+
+/**
+ * POST /api/v1/auth/forgot-password
+ */
+export const forgotPassword = (): MockResponse =>
+  ok({ message: 'If the email is registered, a reset link has been sent' }, 'Password reset email sent')
+
+/**
+ * POST /api/v1/auth/reset-password
+ */
+export const resetPassword = ({ query, body }: MockRequest): MockResponse => {
+  if (!query.get('token')) return fail(400, 'Reset token is missing or invalid')
+
+  return validatePasswords(readBody<ResetPasswordRequest>(body)) ?? ok(undefined, 'Password has been reset')
+}
+
+/**
+ * GET /api/v1/auth/register/verify
+ */
+export const verifyEmail = ({ query }: MockRequest): MockResponse => {
+  if (!query.get('token')) return fail(400, 'Verification token is missing or invalid')
+
+  return ok({ user: getMockDatabase().user }, 'Email verified successfully')
+}
@@ -0,0 +1,131 @@
+import type { MockRequest, MockResponse } from '@/interfaces/mockApi'
+import type { BioPageLink, BioPageTheme, PublicBioPageLink, UpdateBioPageRequest } from '@/interfaces/bioPage'
+import { BIO_LINK_ICONS, BIO_PAGE_LIMITS, BIO_PAGE_THEMES, BIO_PAGE_USERNAME_PATTERN } from '@/config/bioPage'
+import { getUrlStatus } from '@/utils/urlStatus'
+import { getMockDatabase } from '../database'
+import { fail, ok, readBody } from '../responses'
+
+/**
+ * Mock Bio Page Handlers
+ * @description Serve /api/v1/bio-page and the public bio page lookup
+ */
+
+/**
+ * Check the fields of a bio page
+ * @param payload - Bio page sent by the client
+ * @returns Error response, or null if the page is valid
+ */
+const validateBioPage = (payload: Partial<UpdateBioPageRequest>): MockResponse | null => {
+  const username = payload.username ?? ''
+  const { USERNAME_MIN_LENGTH, USERNAME_MAX_LENGTH } = BIO_PAGE_LIMITS
+  if (
+    username.length < USERNAME_MIN_LENGTH ||
+    username.length > USERNAME_MAX_LENGTH ||
+    !BIO_PAGE_USERNAME_PATTERN.test(username)
+  ) {
+    return fail(422, 'Validation failed', {
+      username: `Username must be ${USERNAME_MIN_LENGTH} to ${USERNAME_MAX_LENGTH} lowercase letters, numbers, underscores or hyphens`
+    })
+  }
+
+  if (!payload.display_name?.trim() || payload.display_name.length > BIO_PAGE_LIMITS.DISPLAY_NAME_MAX_LENGTH) {
+    return fail(422, 'Validation failed', {
+      display_name: `Display name is required and must be ${BIO_PAGE_LIMITS.DISPLAY_NAME_MAX_LENGTH} characters or less`
+    })
+  }
+
+  if ((payload.bio?.length ?? 0) > BIO_PAGE_LIMITS.BIO_MAX_LENGTH) {
+    return fail(422, 'Validation failed', { bio: `Bio must be ${BIO_PAGE_LIMITS.BIO_MAX_LENGTH} characters or less` })
+  }
+
+  if (!payload.theme || !(payload.theme in BIO_PAGE_THEMES)) {
+    return fail(422, 'Validation failed', { theme: 'Theme is not supported' })
+  }
+
+  const links = payload.links ?? []
+  if (links.length > BIO_PAGE_LIMITS.MAX_LINKS) {
+    return fail(422, 'Validation failed', { links: `A bio page can list up to ${BIO_PAGE_LIMITS.MAX_LINKS} links` })
+  }
+
+  const urls = getMockDatabase().urls
+  const urlIds = links.map(link => link.url_id)
+  if (urlIds.some((id, index) => !urls.some(url => url.id === id) || urlIds.indexOf(id) !== index)) {
+    return fail(422, 'Validation failed', { links: 'Links must be distinct URLs of your account' })
+  }
+
+  const invalidLink = links.find(
+    link =>
+      !link.title?.trim() ||
+      link.title.length > BIO_PAGE_LIMITS.LINK_TITLE_MAX_LENGTH ||
+      (link.description?.length ?? 0) > BIO_PAGE_LIMITS.LINK_DESCRIPTION_MAX_LENGTH ||
+      !(link.icon in BIO_LINK_ICONS)
+  )
+  if (invalidLink) {
+    return fail(422, 'Validation failed', { links: 'Every link needs a title and a supported icon' })
+  }
+
+  return null
+}
+
+/**
+ * GET /api/v1/bio-page
+ */
+export const getBioPage = (): MockResponse => ok(getMockDatabase().bioPage, 'Bio page retrieved successfully')
+
+/**
+ * PUT /api/v1/bio-page
+ */
+export const updateBioPage = ({ body }: MockRequest): MockResponse => {
+  const payload = readBody<UpdateBioPageRequest>(body)
+
+  const invalid = validateBioPage(payload)
+  if (invalid) return invalid
+
+  const database = getMockDatabase()
+  database.bioPage = {
+    username: payload.username as string,
+    display_name: (payload.display_name as string).trim(),
+    bio: payload.bio?.trim() || undefined,
+    avatar_url: payload.avatar_url?.trim() || undefined,
+    theme: payload.theme as BioPageTheme,
+    links: (payload.links ?? []).map(
+      (link): BioPageLink => ({
+        url_id: link.url_id,
+        title: link.title.trim(),
+        description: link.description?.trim() || undefined,
+        icon: link.icon
+      })
+    ),
+    updated_at: new Date().toISOString()
+  }
+
+  return ok(database.bioPage, 'Bio page updated successfully')
+}
+
+/**
+ * GET /api/v1/public/bio/:username
+ * @description Only lists the links that currently redirect, without their destination, so visitors
+ * go through the short URL and its rules, password prompt and click count.
+ */
+export const getPublicBioPage = ({ params }: MockRequest): MockResponse => {
+  const database = getMockDatabase()
+  const { username, display_name, bio, avatar_url, theme, links } = database.bioPage
+  if (username !== params.username.toLowerCase()) return fail(404, 'Bio page not found')
+
+  const publicLinks = links.flatMap((link): PublicBioPageLink[] => {
+    const url = database.urls.find(item => item.id === link.url_id)
+    if (!url || getUrlStatus(url) !== 'active') return []
+
+    return [
+      {
+        short_code: url.short_code,
+        short_url: url.short_url,
+        title: link.title,
+        description: link.description,
+        icon: link.icon
+      }
+    ]
+  })
+
+  return ok({ username, display_name, bio, avatar_url, theme, links: publicLinks }, 'Bio page retrieved successfully')
+}
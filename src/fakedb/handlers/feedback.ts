@@ -0,0 +1,259 @@
+import type { MockFeedback, MockFeedbackUser, MockRequest, MockResponse } from '@/interfaces/mockApi'
+import type { CreateFeedbackFormData, VoteApiRequest } from '@/interfaces/feedback'
+import { getMockDatabase, nextId } from '../database'
+import { fail, ok, paginate, readBody } from '../responses'
+
+/**
+ * Mock Feedback Handlers
+ * @description Serve /api/v1/feedback from the items in feedback.json
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Number of voters shown in the facepile of an item
+ */
+const FACEPILE_SIZE = 5
+
+/**
+ * Find a feedback item by ID
+ * @param id - Feedback ID from the path
+ * @returns The item, if any
+ */
+const findFeedback = (id: string) => getMockDatabase().feedback.find(item => String(item.id) === id)
+
+/**
+ * Format a user for facepiles and author lines
+ * @param user - Stored user
+ * @returns Simplified user
+ */
+const toFeedbackUser = (user: MockFeedbackUser) => ({ ...user, avatar_url: user.avatar_url ?? undefined })
+
+/**
+ * Get the users who upvoted an item
+ * @param feedbackId - Feedback ID
+ * @returns Upvoters, earliest first
+ */
+const getUpvoters = (feedbackId: number) => {
+  const { feedbackVotes, feedbackUsers } = getMockDatabase()
+
+  return feedbackVotes
+    .filter(vote => vote.feedback_id === feedbackId && vote.vote_type === 'upvote')
+    .map(vote => feedbackUsers.find(user => user.id === vote.user_id))
+    .filter((user): user is MockFeedbackUser => user !== undefined)
+    .map(toFeedbackUser)
+}
+
+/**
+ * Join the votes and author of a feedback item
+ * @param item - Stored feedback item
+ * @returns Feedback item as returned by the API
+ */
+const toApiFeedback = (item: MockFeedback) => {
+  const { user, feedbackVotes, feedbackUsers } = getMockDatabase()
+  const upvoters = getUpvoters(item.id)
+  const author = feedbackUsers.find(feedbackUser => feedbackUser.id === item.user_id)
+
+  return {
+    ...item,
+    voters: upvoters.slice(0, FACEPILE_SIZE),
+    total_voters: upvoters.length,
+    user_vote: feedbackVotes.find(vote => vote.feedback_id === item.id && vote.user_id === user.id)?.vote_type,
+    author: author ? toFeedbackUser(author) : undefined
+  }
+}
+
+/**
+ * Build the response of a vote change
+ * @param item - Voted feedback item
+ * @param message - Message of the envelope
+ * @returns Mock response with the updated counts
+ */
+const toVoteResponse = (item: MockFeedback, message: string) => {
+  const apiItem = toApiFeedback(item)
+
+  return ok(
+    {
+      id: item.id,
+      upvotes: item.upvotes,
+      downvotes: item.downvotes,
+      score: item.score,
+      user_vote: apiItem.user_vote ?? null,
+      voters: apiItem.voters,
+      total_voters: apiItem.total_voters
+    },
+    message
+  )
+}
+
+/**
+ * Rank feedback items as "trending"
+ * @description Votes count less as the item gets older
+ * @param item - Feedback item
+ * @returns Ranking score
+ */
+const trendingScore = (item: MockFeedback) =>
+  item.score / Math.pow((Date.now() - new Date(item.created_at).getTime()) / DAY_MS + 2, 1.5)
+
+/**
+ * GET /api/v1/feedback
+ * @description Supports the type, status, search, myVotes, sortBy, page and limit parameters
+ */
+export const listFeedback = ({ query }: MockRequest): MockResponse => {
+  const { user, feedback, feedbackVotes } = getMockDatabase()
+  const type = query.get('type')
+  const status = query.get('status')
+  const search = query.get('search')?.toLowerCase()
+  const myVotes = query.get('myVotes') === 'true'
+
+  const items = feedback
+    .filter(item => {
+      if (type && item.type !== type) return false
+      if (status && item.status !== status) return false
+      if (myVotes && !feedbackVotes.some(vote => vote.feedback_id === item.id && vote.user_id === user.id)) return false
+
+      return !search || `${item.title} ${item.description}`.toLowerCase().includes(search)
+    })
+    .sort((a, b) => {
+      switch (query.get('sortBy')) {
+        case 'top_voted':
+          return b.score - a.score
+        case 'trending':
+          return trendingScore(b) - trendingScore(a)
+        default:
+          return b.created_at.localeCompare(a.created_at)
+      }
+    })
+    .map(toApiFeedback)
+
+  return paginate(items, query, 'Feedback retrieved successfully')
+}
+
+/**
+ * POST /api/v1/feedback
+ */
+export const createFeedback = ({ body }: MockRequest): MockResponse => {
+  const database = getMockDatabase()
+  const payload = readBody<CreateFeedbackFormData>(body)
+
+  if (!payload.title?.trim() || !payload.description?.trim()) {
+    return fail(422, 'Validation failed', {
+      ...(!payload.title?.trim() && { title: 'Title is required' }),
+      ...(!payload.description?.trim() && { description: 'Description is required' })
+    })
+  }
+
+  const now = new Date().toISOString()
+  const item: MockFeedback = {
+    ...payload,
+    id: nextId(database.feedback),
+    title: payload.title.trim(),
+    description: payload.description.trim(),
+    type: payload.type === 'bug' ? 'bug' : 'feature',
+    status: 'open',
+    user_id: database.user.id,
+    created_at: now,
+    updated_at: now,
+    upvotes: 0,
+    downvotes: 0,
+    score: 0
+  }
+
+  database.feedback.push(item)
+
+  return ok(toApiFeedback(item), 'Feedback submitted successfully', 201)
+}
+
+/**
+ * DELETE /api/v1/feedback/:id
+ * @description Only the author can delete an item
+ */
+export const deleteFeedback = ({ params }: MockRequest): MockResponse => {
+  const database = getMockDatabase()
+  const item = findFeedback(params.id)
+
+  if (!item) return fail(404, 'Feedback not found')
+  if (item.user_id !== database.user.id) return fail(403, 'You can only delete your own feedback')
+
+  database.feedback = database.feedback.filter(feedbackItem => feedbackItem.id !== item.id)
+  database.feedbackVotes = database.feedbackVotes.filter(vote => vote.feedback_id !== item.id)
+
+  return { status: 200, data: { status: 200, message: 'Feedback deleted successfully' } }
+}
+
+/**
+ * Remove the vote of the current user from an item and update its counts
+ * @param item - Feedback item
+ * @returns true if there was a vote to remove
+ */
+const withdrawVote = (item: MockFeedback): boolean => {
+  const database = getMockDatabase()
+  const vote = database.feedbackVotes.find(
+    feedbackVote => feedbackVote.feedback_id === item.id && feedbackVote.user_id === database.user.id
+  )
+  if (!vote) return false
+
+  database.feedbackVotes = database.feedbackVotes.filter(feedbackVote => feedbackVote.id !== vote.id)
+  if (vote.vote_type === 'upvote') item.upvotes -= 1
+  else item.downvotes -= 1
+  item.score = item.upvotes - item.downvotes
+
+  return true
+}
+
+/**
+ * POST /api/v1/feedback/:id/vote
+ * @description Replaces any earlier vote of the current user
+ */
+export const voteFeedback = ({ params, body }: MockRequest): MockResponse => {
+  const database = getMockDatabase()
+  const item = findFeedback(params.id)
+  if (!item) return fail(404, 'Feedback not found')
+
+  const { vote_type: voteType } = readBody<VoteApiRequest>(body)
+  if (voteType !== 'upvote' && voteType !== 'downvote') {
+    return fail(422, 'Validation failed', { vote_type: 'Vote type must be upvote or downvote' })
+  }
+
+  withdrawVote(item)
+  database.feedbackVotes.push({
+    id: nextId(database.feedbackVotes),
+    feedback_id: item.id,
+    user_id: database.user.id,
+    vote_type: voteType,
+    created_at: new Date().toISOString()
+  })
+  if (voteType === 'upvote') item.upvotes += 1
+  else item.downvotes += 1
+  item.score = item.upvotes - item.downvotes
+
+  return toVoteResponse(item, 'Vote recorded successfully')
+}
+
+/**
+ * DELETE /api/v1/feedback/:id/vote
+ */
+export const removeVote = ({ params }: MockRequest): MockResponse => {
+  const item = findFeedback(params.id)
+  if (!item) return fail(404, 'Feedback not found')
+
+  if (!withdrawVote(item)) return fail(404, 'You have not voted on this feedback')
+
+  return toVoteResponse(item, 'Vote removed successfully')
+}
+
+/**
+ * GET /api/v1/feedback/:id/voters
+ * @description Supports the search parameter
+ */
+export const listVoters = ({ params, query }: MockRequest): MockResponse => {
+  const item = findFeedback(params.id)
+  if (!item) return fail(404, 'Feedback not found')
+
+  const search = query.get('search')?.toLowerCase()
+  const voters = getUpvoters(item.id).filter(
+    voter => !search || `${voter.name} ${voter.email}`.toLowerCase().includes(search)
+  )
+
+  return ok({ voters, total: voters.length }, 'Voters retrieved successfully')
+}
@@ -0,0 +1,206 @@
+import type { MockQrCode, MockRequest, MockResponse } from '@/interfaces/mockApi'
+import { DEFAULT_QR_COLORS, PRESET_BACKGROUND_COLORS, PRESET_FOREGROUND_COLORS } from '@/config/qrcode'
+import { getMockDatabase, nextId } from '../database'
+import { fail, ok, paginate, readBody } from '../responses'
+
+/**
+ * Mock QR Code Handlers
+ * @description Serve /api/v1/qr-codes
+ */
+
+/**
+ * Customization fields sent when generating or editing a QR code
+ */
+interface QrCodePayload {
+  url_id: number
+  color: string
+  background_color: string
+  include_logo: boolean
+  logo_size: number
+  size: number
+}
+
+/**
+ * Read a logo size as a ratio of the QR code size
+ * @description The edit form sends an integer percentage, the rest of the app uses a ratio
+ * @param value - Logo size from the request
+ * @param fallback - Value used when the request does not set one
+ * @returns Logo size between 0 and 1
+ */
+const readLogoSize = (value: unknown, fallback: number) => {
+  if (typeof value !== 'number' || value <= 0) return fallback
+  return value > 1 ? value / 100 : value
+}
+
+/**
+ * Build the API representation of a QR code
+ * @param qrCode - Stored QR code
+ * @returns QR code with the fields of its URL joined in, or null if the URL is gone
+ */
+const toApiQrCode = (qrCode: MockQrCode) => {
+  const url = getMockDatabase().urls.find(item => item.id === qrCode.url_id)
+  if (!url) return null
+
+  const imagePath = `/api/v1/qr-codes/${qrCode.id}/image`
+
+  return {
+    ...qrCode,
+    short_code: url.short_code,
+    short_url: url.short_url,
+    qr_code_url: imagePath,
+    png_url: `${imagePath}.png`,
+    svg_url: `${imagePath}.svg`,
+    url: {
+      id: url.id,
+      original_url: url.original_url,
+      title: url.title ?? url.short_code,
+      clicks: url.clicks,
+      favicon_url: url.favicon_url,
+      preview_image_url: url.preview_image_url
+    }
+  }
+}
+
+/**
+ * Build the response of a generated or updated QR code
+ * @param qrCode - Stored QR code
+ * @returns QR code in the shape of the update endpoint
+ */
+const toCustomizedQrCode = (qrCode: MockQrCode) => {
+  const apiQrCode = toApiQrCode(qrCode)
+
+  return {
+    id: qrCode.id,
+    url_id: qrCode.url_id,
+    short_url: apiQrCode?.short_url ?? '',
+    image_url: apiQrCode?.png_url ?? '',
+    customization: {
+      foreground_color: qrCode.color,
+      background_color: qrCode.background_color,
+      include_logo: qrCode.include_logo,
+      logo_size: qrCode.logo_size,
+      size: qrCode.size
+    },
+    created_at: qrCode.created_at,
+    updated_at: qrCode.updated_at
+  }
+}
+
+/**
+ * GET /api/v1/qr-codes/colors
+ */
+export const getQrCodeColors = (): MockResponse =>
+  ok(
+    {
+      foreground_colors: PRESET_FOREGROUND_COLORS.map(({ name, hex }) => ({ name, hex })),
+      background_colors: PRESET_BACKGROUND_COLORS.map(({ name, hex }) => ({ name, hex }))
+    },
+    'QR code colors retrieved successfully'
+  )
+
+/**
+ * GET /api/v1/qr-codes
+ * @description Supports the search, color, includeLogo, sortBy, sortOrder, page and limit parameters
+ */
+export const listQrCodes = ({ query }: MockRequest): MockResponse => {
+  const search = query.get('search')?.toLowerCase()
+  const color = query.get('color')?.toLowerCase()
+  const includeLogo = query.get('includeLogo')
+  const direction = query.get('sortOrder') === 'asc' ? 1 : -1
+  const sortBy = query.get('sortBy') ?? 'created_at'
+
+  const qrCodes = getMockDatabase()
+    .qrCodes.map(toApiQrCode)
+    .filter((qrCode): qrCode is NonNullable<typeof qrCode> => {
+      if (!qrCode) return false
+      if (color && qrCode.color.toLowerCase() !== color) return false
+      if (includeLogo !== null && String(qrCode.include_logo) !== includeLogo) return false
+
+      return (
+        !search ||
+        [qrCode.short_code, qrCode.url.title, qrCode.url.original_url].some(value =>
+          value.toLowerCase().includes(search)
+        )
+      )
+    })
+    .sort((a, b) => {
+      if (sortBy === 'clicks' || sortBy === 'scans') return (a.url.clicks - b.url.clicks) * direction
+      if (sortBy === 'title') return a.url.title.localeCompare(b.url.title) * direction
+      return a.created_at.localeCompare(b.created_at) * direction
+    })
+    .map(qrCode => (query.get('includeUrl') === 'false' ? { ...qrCode, url: undefined } : qrCode))
+
+  return paginate(qrCodes, query, 'QR codes retrieved successfully')
+}
+
+/**
+ * POST /api/v1/qr-codes
+ */
+export const generateQrCode = ({ body }: MockRequest): MockResponse => {
+  const database = getMockDatabase()
+  const payload = readBody<QrCodePayload>(body)
+
+  if (!database.urls.some(url => url.id === payload.url_id)) {
+    return fail(422, 'Validation failed', { url_id: 'The selected URL does not exist' })
+  }
+
+  const now = new Date().toISOString()
+  const qrCode: MockQrCode = {
+    id: nextId(database.qrCodes),
+    url_id: payload.url_id as number,
+    color: payload.color ?? DEFAULT_QR_COLORS.foreground,
+    background_color: payload.background_color ?? DEFAULT_QR_COLORS.background,
+    include_logo: payload.include_logo ?? false,
+    logo_size: readLogoSize(payload.logo_size, 0.25),
+    size: payload.size ?? 300,
+    created_at: now,
+    updated_at: now
+  }
+
+  database.qrCodes.push(qrCode)
+  const apiQrCode = toApiQrCode(qrCode)
+
+  return ok({ ...apiQrCode, url: undefined, image_url: apiQrCode?.png_url }, 'QR code generated successfully', 201)
+}
+
+/**
+ * GET /api/v1/qr-codes/:id
+ */
+export const getQrCode = ({ params }: MockRequest): MockResponse => {
+  const qrCode = getMockDatabase().qrCodes.find(item => String(item.id) === params.id)
+  return qrCode ? ok(toCustomizedQrCode(qrCode), 'QR code retrieved successfully') : fail(404, 'QR code not found')
+}
+
+/**
+ * PUT /api/v1/qr-codes/:id
+ */
+export const updateQrCode = ({ params, body }: MockRequest): MockResponse => {
+  const qrCode = getMockDatabase().qrCodes.find(item => String(item.id) === params.id)
+  if (!qrCode) return fail(404, 'QR code not found')
+
+  const payload = readBody<QrCodePayload>(body)
+
+  Object.assign(qrCode, {
+    color: payload.color ?? qrCode.color,
+    background_color: payload.background_color ?? qrCode.background_color,
+    include_logo: payload.include_logo ?? qrCode.include_logo,
+    logo_size: readLogoSize(payload.logo_size, qrCode.logo_size),
+    size: payload.size ?? qrCode.size,
+    updated_at: new Date().toISOString()
+  })
+
+  return ok(toCustomizedQrCode(qrCode), 'QR code updated successfully')
+}
+
+/**
+ * DELETE /api/v1/qr-codes/:id
+ */
+export const deleteQrCode = ({ params }: MockRequest): MockResponse => {
+  const database = getMockDatabase()
+  const qrCode = database.qrCodes.find(item => String(item.id) === params.id)
+  if (!qrCode) return fail(404, 'QR code not found')
+
+  database.qrCodes = database.qrCodes.filter(item => item.id !== qrCode.id)
+
+  return ok({ id: qrCode.id, deleted_at: new Date().toISOString() }, 'QR code deleted successfully')
+}
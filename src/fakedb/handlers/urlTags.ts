@@ -0,0 +1,63 @@
+import type { MockRequest, MockResponse } from '@/interfaces/mockApi'
+import { URL_TAG_LIMITS } from '@/config/url'
+import { normalizeTag, replaceTags, summarizeUrlTags } from '@/utils/urlTags'
+import { getMockDatabase } from '../database'
+import { fail, ok, readBody } from '../responses'
+
+/**
+ * Mock URL Tag Handlers
+ * @description Serve /api/v1/url-tags. Tags are changed on every URL carrying them in a single
+ * request, so a failure leaves no URL half updated.
+ */
+
+/**
+ * Replace some tags on every URL carrying them
+ * @param sources - Tags to replace
+ * @param target - Replacing tag, or null to remove the tags
+ * @returns Number of URLs whose tags changed
+ */
+const applyTagChange = (sources: string[], target: string | null): number => {
+  const updatedAt = new Date().toISOString()
+  const changed = getMockDatabase().urls.filter(url => url.tags?.some(tag => sources.includes(tag)))
+
+  changed.forEach(url => {
+    url.tags = replaceTags(url.tags ?? [], sources, target)
+    url.updated_at = updatedAt
+  })
+
+  return changed.length
+}
+
+/**
+ * GET /api/v1/url-tags
+ * @description Tags used on the URLs with their number of URLs, sorted by name
+ */
+export const listUrlTags = (): MockResponse =>
+  ok(summarizeUrlTags(getMockDatabase().urls), 'Tags retrieved successfully')
+
+/**
+ * POST /api/v1/url-tags/merge
+ * @description Replaces the tags with the target on every URL. Renaming a tag merges it alone into
+ * its new name, and renaming to an existing tag merges both.
+ */
+export const mergeUrlTags = ({ body }: MockRequest): MockResponse => {
+  const payload = readBody<{ tags?: string[]; target?: string }>(body)
+  const tags = (payload.tags ?? []).filter(tag => typeof tag === 'string')
+  const target = normalizeTag(payload.target ?? '')
+
+  if (tags.length === 0) return fail(422, 'Validation failed', { tags: 'Select at least one tag' })
+  if (!target || target.length > URL_TAG_LIMITS.MAX_LENGTH) {
+    return fail(422, 'Validation failed', {
+      target: `Tag must be 1 to ${URL_TAG_LIMITS.MAX_LENGTH} characters`
+    })
+  }
+
+  return ok({ updated: applyTagChange(tags, target) }, 'Tags merged successfully')
+}
+
+/**
+ * DELETE /api/v1/url-tags/:tag
+ * @description Removes the tag from every URL
+ */
+export const deleteUrlTag = ({ params }: MockRequest): MockResponse =>
+  ok({ updated: applyTagChange([params.tag], null) }, 'Tag deleted successfully')
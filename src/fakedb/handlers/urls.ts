@@ -0,0 +1,841 @@
+import type { MockRequest, MockResponse } from '@/interfaces/mockApi'
+import type { AbVariant } from '@/interfaces/abTest'
+import type { RedirectRule } from '@/interfaces/redirectRules'
+import type { Url } from '@/interfaces/url'
+import type { UrlRevision, UrlRevisionField } from '@/interfaces/urlRevision'
+import type { UrlSafetyReport } from '@/interfaces/urlSafety'
+import { AB_TEST_LIMITS } from '@/config/abTest'
+import {
+  REDIRECT_COUNTRY_CODE_PATTERN,
+  REDIRECT_LANGUAGE_CODE_PATTERN,
+  REDIRECT_RULE_DEVICES,
+  REDIRECT_RULE_LIMITS,
+  REDIRECT_RULE_OS
+} from '@/config/redirectRules'
+import { URL_DUPLICATE_LOOKUP, URL_MAX_CLICKS_LIMITS, URL_PASSWORD_LIMITS } from '@/config/url'
+import {
+  URL_CUSTOM_CODE_LIMITS,
+  URL_ERROR_MESSAGES,
+  URL_VALIDATION_PATTERNS,
+  validateCustomCodeFormat
+} from '@/config/urlLimits'
+import { UTM_FIELDS } from '@/config/utm'
+import { getCustomCodeCandidates } from '@/utils/customCode'
+import { hasRedirectConditions } from '@/utils/redirectRules'
+import { normalizeDestinationUrl } from '@/utils/urlNormalization'
+import { getUtmParams } from '@/utils/utm'
+import { getMockDatabase, nextId } from '../database'
+import { matchRedirectRule, pickAbVariant, readRedirectVisitor } from '../redirects'
+import { fail, ok, paginate, readBody } from '../responses'
+import { buildShortUrl, toDay } from '../seed'
+
+/**
+ * Mock URL Handlers
+ * @description Serve /api/v1/urls and the public short URL lookups
+ */
+
+/**
+ * URL fields sent by the create and edit forms
+ */
+interface UrlPayload {
+  title: string
+  description: string
+  original_url: string
+  custom_code: string
+  short_code: string
+  expiry_date: string
+  activates_at: string | null
+  max_clicks: number | null
+  is_active: boolean
+  tags: string[]
+  password: string | null
+  safety_report: UrlSafetyReport
+  favicon_url: string
+  preview_image_url: string
+}
+
+const SHORT_CODE_ALPHABET = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+/**
+ * Fields whose changes are recorded as revisions
+ */
+const REVISION_FIELDS: UrlRevisionField[] = ['original_url', 'short_code', 'title', 'expiry_date']
+
+/**
+ * Check whether a URL is past its expiry date
+ * @param url - URL to check
+ * @returns true if the URL expired
+ */
+const isExpired = (url: Url) => !!url.expiry_date && new Date(url.expiry_date).getTime() < Date.now()
+
+/**
+ * Check whether a URL is waiting for its activation time
+ * @param url - URL to check
+ * @returns true if the URL is not live yet
+ */
+const isScheduled = (url: Url) => !!url.activates_at && new Date(url.activates_at).getTime() > Date.now()
+
+/**
+ * Check whether a capped URL used up its clicks
+ * @param url - URL to check
+ * @returns true if the URL reached its click limit
+ */
+const isExhausted = (url: Url) => !!url.max_clicks && url.clicks >= url.max_clicks
+
+/**
+ * Find a URL by its numeric ID or its short code
+ * @param identifier - ID or short code
+ * @returns The URL, if any
+ */
+const findUrl = (identifier: string) =>
+  getMockDatabase().urls.find(url => String(url.id) === identifier || url.short_code === identifier)
+
+/**
+ * Check whether another URL uses a short code
+ * @param shortCode - Short code to check
+ * @param urlId - ID of the URL being edited, whose own code does not count
+ * @returns true if the code is in use
+ */
+const isShortCodeTaken = (shortCode: string, urlId?: number) =>
+  getMockDatabase().urls.some(url => url.short_code === shortCode && url.id !== urlId)
+
+/**
+ * Generate a short code that is not in use
+ * @returns Random six character code
+ */
+const generateShortCode = (): string => {
+  let code = ''
+
+  do {
+    code = Array.from({ length: 6 }, () => SHORT_CODE_ALPHABET[Math.floor(Math.random() * SHORT_CODE_ALPHABET.length)]).join(
+      ''
+    )
+  } while (isShortCodeTaken(code))
+
+  return code
+}
+
+/**
+ * Validate the fields of a create or edit request
+ * @param payload - Request body
+ * @param shortCode - Requested short code, if any
+ * @param urlId - ID of the URL being edited
+ * @returns Error response, or null if the payload is valid
+ */
+const validateUrlPayload = (payload: Partial<UrlPayload>, shortCode: string, urlId?: number): MockResponse | null => {
+  if (!payload.original_url || !URL_VALIDATION_PATTERNS.URL_REGEX.test(payload.original_url)) {
+    return fail(422, 'Validation failed', { original_url: URL_ERROR_MESSAGES.INVALID_URL })
+  }
+
+  const { isValid, error } = validateCustomCodeFormat(shortCode)
+  if (!isValid) {
+    return fail(422, 'Validation failed', { custom_code: error ?? URL_ERROR_MESSAGES.CUSTOM_CODE_INVALID_CHARS })
+  }
+
+  if (shortCode && isShortCodeTaken(shortCode, urlId)) {
+    return fail(409, 'Custom code is already in use', { custom_code: URL_ERROR_MESSAGES.CUSTOM_CODE_TAKEN })
+  }
+
+  const { activates_at: activatesAt, expiry_date: expiryDate } = payload
+  if (activatesAt && Number.isNaN(Date.parse(activatesAt))) {
+    return fail(422, 'Validation failed', { activates_at: 'Activation time must be a valid date' })
+  }
+  if (activatesAt && expiryDate && new Date(activatesAt) >= new Date(expiryDate)) {
+    return fail(422, 'Validation failed', { activates_at: 'Activation time must be before the expiry date' })
+  }
+
+  const { max_clicks: maxClicks } = payload
+  if (
+    maxClicks !== undefined &&
+    maxClicks !== null &&
+    (!Number.isInteger(maxClicks) || maxClicks < URL_MAX_CLICKS_LIMITS.MIN || maxClicks > URL_MAX_CLICKS_LIMITS.MAX)
+  ) {
+    return fail(422, 'Validation failed', {
+      max_clicks: `Max clicks must be between ${URL_MAX_CLICKS_LIMITS.MIN} and ${URL_MAX_CLICKS_LIMITS.MAX}`
+    })
+  }
+
+  const { password } = payload
+  const { MIN_LENGTH, MAX_LENGTH } = URL_PASSWORD_LIMITS
+  if (password && (password.length < MIN_LENGTH || password.length > MAX_LENGTH)) {
+    return fail(422, 'Validation failed', {
+      password: `Password must be between ${MIN_LENGTH} and ${MAX_LENGTH} characters`
+    })
+  }
+
+  return null
+}
+
+/**
+ * Read an image URL sent with a payload
+ * @param value - URL sent, if any
+ * @returns The URL if it is a valid http(s) URL
+ */
+const readImageUrl = (value: string | undefined) =>
+  value && URL_VALIDATION_PATTERNS.URL_REGEX.test(value) ? value : undefined
+
+/**
+ * Keep the favicon and preview image of a URL only while they show its destination
+ * @param url - URL as saved
+ * @param destination - Destination of the URL after the change
+ * @returns Favicon and preview image to save
+ */
+const keepPreviewImages = (url: Url, destination: string) =>
+  destination === url.original_url
+    ? { favicon_url: url.favicon_url, preview_image_url: url.preview_image_url }
+    : { favicon_url: undefined, preview_image_url: undefined }
+
+/**
+ * Validate the redirect rules of a URL
+ * @param rules - Rules in the order they are checked
+ * @returns Error response, or null if the rules are valid
+ */
+const validateRedirectRules = (rules: RedirectRule[]): MockResponse | null => {
+  const { MAX_RULES, NAME_MAX_LENGTH, MAX_CODES } = REDIRECT_RULE_LIMITS
+  if (rules.length > MAX_RULES) {
+    return fail(422, 'Validation failed', { redirect_rules: `A URL can have up to ${MAX_RULES} redirect rules` })
+  }
+
+  for (const [index, rule] of rules.entries()) {
+    const field = `redirect_rules.${index}`
+    const { device = [], os = [], country = [], language = [] } = rule.conditions ?? {}
+
+    if (!rule.id || rules.some((other, otherIndex) => otherIndex !== index && other.id === rule.id)) {
+      return fail(422, 'Validation failed', { [`${field}.id`]: 'Every rule needs its own ID' })
+    }
+    if (!rule.name?.trim() || rule.name.length > NAME_MAX_LENGTH) {
+      return fail(422, 'Validation failed', {
+        [`${field}.name`]: `Rule names must be between 1 and ${NAME_MAX_LENGTH} characters`
+      })
+    }
+    if (!rule.destination_url || !URL_VALIDATION_PATTERNS.URL_REGEX.test(rule.destination_url)) {
+      return fail(422, 'Validation failed', { [`${field}.destination_url`]: URL_ERROR_MESSAGES.INVALID_URL })
+    }
+    if (!hasRedirectConditions(rule.conditions ?? {})) {
+      return fail(422, 'Validation failed', { [`${field}.conditions`]: 'Add at least one condition' })
+    }
+    if (
+      !device.every(value => REDIRECT_RULE_DEVICES.some(option => option.value === value)) ||
+      !os.every(value => REDIRECT_RULE_OS.some(option => option.value === value))
+    ) {
+      return fail(422, 'Validation failed', { [`${field}.conditions`]: 'Unknown device type or operating system' })
+    }
+    if (
+      country.length > MAX_CODES ||
+      language.length > MAX_CODES ||
+      !country.every(code => REDIRECT_COUNTRY_CODE_PATTERN.test(code)) ||
+      !language.every(code => REDIRECT_LANGUAGE_CODE_PATTERN.test(code))
+    ) {
+      return fail(422, 'Validation failed', {
+        [`${field}.conditions`]: `Use up to ${MAX_CODES} two-letter country and language codes`
+      })
+    }
+  }
+
+  return null
+}
+
+/**
+ * Validate the A/B variants of a URL
+ * @param variants - Variants the traffic is split across, empty to stop the test
+ * @returns Error response, or null if the variants are valid
+ */
+const validateAbVariants = (variants: AbVariant[]): MockResponse | null => {
+  const { MIN_VARIANTS, MAX_VARIANTS, MIN_WEIGHT, MAX_WEIGHT, NAME_MAX_LENGTH } = AB_TEST_LIMITS
+  if (variants.length > 0 && (variants.length < MIN_VARIANTS || variants.length > MAX_VARIANTS)) {
+    return fail(422, 'Validation failed', {
+      ab_variants: `A test needs between ${MIN_VARIANTS} and ${MAX_VARIANTS} variants`
+    })
+  }
+
+  for (const [index, variant] of variants.entries()) {
+    const field = `ab_variants.${index}`
+
+    if (!variant.id || variants.some((other, otherIndex) => otherIndex !== index && other.id === variant.id)) {
+      return fail(422, 'Validation failed', { [`${field}.id`]: 'Every variant needs its own ID' })
+    }
+    if (!variant.name?.trim() || variant.name.length > NAME_MAX_LENGTH) {
+      return fail(422, 'Validation failed', {
+        [`${field}.name`]: `Variant names must be between 1 and ${NAME_MAX_LENGTH} characters`
+      })
+    }
+    if (!variant.destination_url || !URL_VALIDATION_PATTERNS.URL_REGEX.test(variant.destination_url)) {
+      return fail(422, 'Validation failed', { [`${field}.destination_url`]: URL_ERROR_MESSAGES.INVALID_URL })
+    }
+    if (!Number.isInteger(variant.weight) || variant.weight < MIN_WEIGHT || variant.weight > MAX_WEIGHT) {
+      return fail(422, 'Validation failed', {
+        [`${field}.weight`]: `Weights must be between ${MIN_WEIGHT} and ${MAX_WEIGHT}`
+      })
+    }
+  }
+
+  return null
+}
+
+/**
+ * Set or remove the password of a URL
+ * @param url - URL to update
+ * @param password - New password, null to remove it, undefined to keep the current one
+ */
+const applyPassword = (url: Url, password: string | null | undefined) => {
+  if (password === undefined) return
+
+  const database = getMockDatabase()
+  if (password) {
+    database.urlPasswords[url.id] = password
+  } else {
+    delete database.urlPasswords[url.id]
+  }
+  delete database.urlUnlockAttempts[url.short_code]
+  url.is_password_protected = !!password
+}
+
+/**
+ * Record the tracked fields that changed on a URL as a revision by the signed-in user
+ * @param url - URL after the change
+ * @param previous - Copy of the URL before the change
+ * @param restoredFrom - Revision whose previous values were restored, if any
+ * @returns The revision, or undefined when no tracked field changed
+ */
+const recordRevision = (url: Url, previous: Url, restoredFrom?: number): UrlRevision | undefined => {
+  const changes = REVISION_FIELDS.filter(field => (previous[field] || null) !== (url[field] || null)).map(field => ({
+    field,
+    previous: previous[field] || null,
+    current: url[field] || null
+  }))
+  if (changes.length === 0) return undefined
+
+  const database = getMockDatabase()
+  const { id, name, email } = database.user
+  const revision: UrlRevision = {
+    id: nextId(database.urlRevisions),
+    url_id: url.id,
+    author: { id, name, email },
+    changes,
+    restored_from: restoredFrom,
+    created_at: new Date().toISOString()
+  }
+  database.urlRevisions.push(revision)
+
+  return revision
+}
+
+/**
+ * Count a click on a URL for today
+ * @param url - URL that was opened
+ * @param referrer - Where the URL was followed from, if known
+ */
+const countClick = (url: Url, referrer?: string | null) => {
+  const database = getMockDatabase()
+  const date = toDay(Date.now())
+  let today = database.traffic.find(day => day.urlId === url.id && day.date === date)
+
+  if (!today) {
+    today = { urlId: url.id, date, impressions: 0, clicks: 0, uniqueVisitors: 0 }
+    database.traffic.push(today)
+  }
+
+  today.impressions += 1
+  today.clicks += 1
+  today.uniqueVisitors += 1
+  url.clicks += 1
+
+  if (referrer) {
+    const referrers = (database.clickReferrers[url.id] ??= {})
+    referrers[referrer] = (referrers[referrer] ?? 0) + 1
+  }
+}
+
+/**
+ * Pick the destination of a URL for the visitor described by the query parameters
+ * @description A matching redirect rule wins. Otherwise URLs under an A/B test keep the visitor on
+ * the variant of its cookie, or pick one by weight. Rule matches and variant visits are counted
+ * for the URL analytics, and neither the rules nor the variants are sent to visitors.
+ * @param url - URL being opened
+ * @param query - Query string parameters of the lookup
+ * @returns URL as sent to the visitor
+ */
+const resolveDestination = (url: Url, query: URLSearchParams): Url => {
+  const { redirect_rules: rules, ab_variants: variants, ...publicUrl } = url
+  const database = getMockDatabase()
+  const visitor = readRedirectVisitor(query)
+
+  if (rules?.length) {
+    const rule = matchRedirectRule(rules, visitor)
+    const matches = (database.redirectRuleMatches[url.id] ??= { rules: {}, fallback: 0 })
+    if (rule) {
+      matches.rules[rule.id] = (matches.rules[rule.id] ?? 0) + 1
+      return { ...publicUrl, original_url: rule.destination_url, matched_rule_id: rule.id }
+    }
+    matches.fallback += 1
+  }
+
+  const variant = variants?.find(item => item.id === visitor.variant) ?? pickAbVariant(variants ?? [])
+  if (!variant) return publicUrl
+
+  const variantClicks = (database.abVariantClicks[url.id] ??= {})
+  variantClicks[variant.id] = (variantClicks[variant.id] ?? 0) + 1
+  return { ...publicUrl, original_url: variant.destination_url, ab_variant_id: variant.id }
+}
+
+/**
+ * Compare two URLs on a sortable column
+ * @param sortBy - Column to sort on
+ * @returns Comparison function, ascending
+ */
+const compareUrls =
+  (sortBy: string) =>
+  (a: Url, b: Url): number => {
+    switch (sortBy) {
+      case 'clicks':
+        return a.clicks - b.clicks
+      case 'title':
+        return (a.title ?? '').localeCompare(b.title ?? '')
+      case 'expiry_date':
+        return (a.expiry_date ?? '9999').localeCompare(b.expiry_date ?? '9999')
+      case 'status':
+        return Number(a.is_active) - Number(b.is_active)
+      default:
+        return a.created_at.localeCompare(b.created_at)
+    }
+  }
+
+/**
+ * GET /api/v1/urls
+ * @description Supports the search, status, tags, dateField, startDate, endDate, utm_*, sortBy,
+ * sortOrder, page and limit parameters. Scheduled and exhausted URLs are not counted as active.
+ */
+export const listUrls = ({ query }: MockRequest): MockResponse => {
+  const search = query.get('search')?.toLowerCase()
+  const status = query.get('status')
+  const tags = query.get('tags')?.split(',').filter(Boolean) ?? []
+  const dateField = query.get('dateField') === 'expiry_date' ? 'expiry_date' : 'created_at'
+  const startDate = query.get('startDate')
+  const endDate = query.get('endDate')
+  const utmFilters = UTM_FIELDS.flatMap(({ key, param }) => {
+    const value = query.get(param)?.toLowerCase()
+    return value ? [{ key, value }] : []
+  })
+  const direction = query.get('sortOrder') === 'asc' ? 1 : -1
+
+  const urls = getMockDatabase()
+    .urls.filter(url => {
+      if (
+        search &&
+        ![url.title, url.original_url, url.short_code].some(value => value?.toLowerCase().includes(search))
+      ) {
+        return false
+      }
+
+      if (status === 'active' && (!url.is_active || isExpired(url) || isScheduled(url) || isExhausted(url))) {
+        return false
+      }
+      if (status === 'inactive' && url.is_active) return false
+      if (status === 'expired' && !isExpired(url)) return false
+      if (status === 'scheduled' && (!url.is_active || !isScheduled(url))) return false
+      if (status === 'exhausted' && (!url.is_active || !isExhausted(url))) return false
+
+      if (startDate || endDate) {
+        const date = url[dateField]?.slice(0, 10)
+        if (!date) return false
+        if (startDate && date < startDate) return false
+        if (endDate && date > endDate) return false
+      }
+
+      if (utmFilters.length > 0) {
+        const utm = getUtmParams(url.original_url)
+        if (!utmFilters.every(({ key, value }) => utm[key]?.toLowerCase() === value)) return false
+      }
+
+      return tags.every(tag => url.tags?.includes(tag))
+    })
+    .sort((a, b) => compareUrls(query.get('sortBy') ?? 'created_at')(a, b) * direction)
+
+  return paginate(urls, query, 'URLs retrieved successfully')
+}
+
+/**
+ * GET /api/v1/urls/duplicates
+ * @description URLs whose destination normalizes to the same page as the original_url parameter
+ */
+export const findDuplicateUrls = ({ query }: MockRequest): MockResponse => {
+  const destination = normalizeDestinationUrl(query.get('original_url') ?? '')
+  if (!destination) return fail(422, 'Validation failed', { original_url: URL_ERROR_MESSAGES.INVALID_URL })
+
+  const duplicates = getMockDatabase()
+    .urls.filter(url => normalizeDestinationUrl(url.original_url) === destination)
+    .sort((a, b) => b.clicks - a.clicks)
+    .slice(0, URL_DUPLICATE_LOOKUP.MAX_MATCHES)
+
+  return ok(duplicates, 'Duplicate URLs retrieved successfully')
+}
+
+/**
+ * GET /api/v1/urls/code-availability
+ */
+export const checkCustomCodeAvailability = ({ query }: MockRequest): MockResponse => {
+  const code = query.get('code')?.trim() ?? ''
+  if (!code) return fail(422, 'Validation failed', { code: URL_ERROR_MESSAGES.CUSTOM_CODE_REQUIRED })
+
+  const excludeId = Number(query.get('exclude_id')) || undefined
+  const isAvailable = (candidate: string) =>
+    validateCustomCodeFormat(candidate).isValid && !isShortCodeTaken(candidate, excludeId)
+
+  const { error } = validateCustomCodeFormat(code)
+  const message = error ?? (isShortCodeTaken(code, excludeId) ? URL_ERROR_MESSAGES.CUSTOM_CODE_TAKEN : undefined)
+  const suggestions = message
+    ? getCustomCodeCandidates({
+        code,
+        title: query.get('title') ?? undefined,
+        originalUrl: query.get('original_url') ?? undefined
+      })
+        .filter(candidate => candidate !== code && isAvailable(candidate))
+        .slice(0, URL_CUSTOM_CODE_LIMITS.MAX_SUGGESTIONS)
+    : []
+
+  return ok({ code, available: !message, message, suggestions }, 'Custom code availability checked successfully')
+}
+
+/**
+ * POST /api/v1/urls
+ */
+export const createUrl = ({ body }: MockRequest): MockResponse => {
+  const payload = readBody<UrlPayload>(body)
+  const shortCode = payload.custom_code?.trim() ?? ''
+
+  const invalid = validateUrlPayload(payload, shortCode)
+  if (invalid) return invalid
+
+  const database = getMockDatabase()
+  const now = new Date().toISOString()
+  const code = shortCode || generateShortCode()
+  const url: Url = {
+    id: nextId(database.urls),
+    original_url: payload.original_url as string,
+    short_code: code,
+    short_url: buildShortUrl(code),
+    title: payload.title || undefined,
+    description: payload.description || undefined,
+    created_at: now,
+    updated_at: now,
+    expiry_date: payload.expiry_date || undefined,
+    activates_at: payload.activates_at || undefined,
+    max_clicks: payload.max_clicks || undefined,
+    clicks: 0,
+    is_active: true,
+    user_id: database.user.id,
+    tags: payload.tags ?? [],
+    is_password_protected: false,
+    safety_report: payload.safety_report,
+    favicon_url: readImageUrl(payload.favicon_url),
+    preview_image_url: readImageUrl(payload.preview_image_url)
+  }
+
+  applyPassword(url, payload.password || undefined)
+  database.urls.push(url)
+
+  return ok(url, 'URL created successfully', 201)
+}
+
+/**
+ * PUT /api/v1/urls/:id
+ */
+export const updateUrl = ({ params, body }: MockRequest): MockResponse => {
+  const url = findUrl(params.id)
+  if (!url) return fail(404, 'URL not found')
+
+  const payload = readBody<UrlPayload>(body)
+  const shortCode = payload.short_code?.trim() || url.short_code
+
+  const invalid = validateUrlPayload(payload, shortCode, url.id)
+  if (invalid) return invalid
+
+  const previous = { ...url }
+  Object.assign(url, {
+    ...keepPreviewImages(url, payload.original_url as string),
+    title: payload.title ?? url.title,
+    original_url: payload.original_url,
+    short_code: shortCode,
+    short_url: buildShortUrl(shortCode),
+    expiry_date: payload.expiry_date || undefined,
+    activates_at: payload.activates_at === undefined ? url.activates_at : payload.activates_at || undefined,
+    max_clicks: payload.max_clicks === undefined ? url.max_clicks : payload.max_clicks || undefined,
+    tags: payload.tags ?? url.tags,
+    safety_report: payload.safety_report ?? url.safety_report,
+    updated_at: new Date().toISOString()
+  })
+  applyPassword(url, payload.password)
+  const revision = recordRevision(url, previous)
+
+  return ok({ ...url, revision_id: revision?.id }, 'URL updated successfully')
+}
+
+/**
+ * DELETE /api/v1/urls/:id
+ * @description Also removes the QR codes and traffic of the URL
+ */
+export const deleteUrl = ({ params }: MockRequest): MockResponse => {
+  const database = getMockDatabase()
+  const url = findUrl(params.id)
+  if (!url) return fail(404, 'URL not found')
+
+  database.urls = database.urls.filter(item => item.id !== url.id)
+  delete database.urlPasswords[url.id]
+  database.qrCodes = database.qrCodes.filter(qrCode => qrCode.url_id !== url.id)
+  database.traffic = database.traffic.filter(day => day.urlId !== url.id)
+  delete database.redirectRuleMatches[url.id]
+  delete database.abVariantClicks[url.id]
+  database.urlRevisions = database.urlRevisions.filter(revision => revision.url_id !== url.id)
+
+  return ok({ id: url.id, short_code: url.short_code, deleted_at: new Date().toISOString() }, 'URL deleted successfully')
+}
+
+/**
+ * PUT /api/v1/urls/:id/status
+ */
+export const updateUrlStatus = ({ params, body }: MockRequest): MockResponse => {
+  const url = findUrl(params.id)
+  if (!url) return fail(404, 'URL not found')
+
+  const { is_active: isActive } = readBody<UrlPayload>(body)
+  if (typeof isActive !== 'boolean') {
+    return fail(422, 'Validation failed', { is_active: 'Status must be true or false' })
+  }
+
+  url.is_active = isActive
+  url.updated_at = new Date().toISOString()
+
+  return ok(url, 'URL status updated successfully')
+}
+
+/**
+ * PUT /api/v1/urls/:id/redirect-rules
+ * @description Replaces every rule of the URL, an empty list removes them
+ */
+export const updateRedirectRules = ({ params, body }: MockRequest): MockResponse => {
+  const url = findUrl(params.id)
+  if (!url) return fail(404, 'URL not found')
+
+  const { redirect_rules: rules } = readBody<{ redirect_rules: RedirectRule[] }>(body)
+  if (!Array.isArray(rules)) {
+    return fail(422, 'Validation failed', { redirect_rules: 'Redirect rules must be a list' })
+  }
+
+  const invalid = validateRedirectRules(rules)
+  if (invalid) return invalid
+
+  url.redirect_rules = rules.length > 0 ? rules : undefined
+  url.updated_at = new Date().toISOString()
+
+  return ok(url, 'Redirect rules updated successfully')
+}
+
+/**
+ * PUT /api/v1/urls/:id/ab-variants
+ * @description Replaces every variant of the URL, an empty list stops the test. Visits of removed
+ * variants are dropped.
+ */
+export const updateAbVariants = ({ params, body }: MockRequest): MockResponse => {
+  const database = getMockDatabase()
+  const url = findUrl(params.id)
+  if (!url) return fail(404, 'URL not found')
+
+  const { ab_variants: variants } = readBody<{ ab_variants: AbVariant[] }>(body)
+  if (!Array.isArray(variants)) {
+    return fail(422, 'Validation failed', { ab_variants: 'A/B variants must be a list' })
+  }
+
+  const invalid = validateAbVariants(variants)
+  if (invalid) return invalid
+
+  const variantClicks = database.abVariantClicks[url.id] ?? {}
+  database.abVariantClicks[url.id] = Object.fromEntries(
+    Object.entries(variantClicks).filter(([variantId]) => variants.some(variant => variant.id === variantId))
+  )
+  url.ab_variants = variants.length > 0 ? variants : undefined
+  url.updated_at = new Date().toISOString()
+
+  return ok(url, 'A/B variants updated successfully')
+}
+
+/**
+ * POST /api/v1/urls/:id/ab-variants/:variantId/promote
+ * @description Makes the destination of the variant the destination of the URL and ends the test,
+ * replacing the safety report with the one sent for the new destination
+ */
+export const promoteAbVariant = ({ params, body }: MockRequest): MockResponse => {
+  const database = getMockDatabase()
+  const url = findUrl(params.id)
+  if (!url) return fail(404, 'URL not found')
+
+  const variant = url.ab_variants?.find(item => item.id === params.variantId)
+  if (!variant) return fail(404, 'A/B variant not found')
+
+  const previous = { ...url }
+  Object.assign(url, {
+    ...keepPreviewImages(url, variant.destination_url),
+    original_url: variant.destination_url,
+    ab_variants: undefined,
+    safety_report: readBody<UrlPayload>(body).safety_report,
+    updated_at: new Date().toISOString()
+  })
+  delete database.abVariantClicks[url.id]
+  recordRevision(url, previous)
+
+  return ok(url, 'A/B variant promoted successfully')
+}
+
+/**
+ * GET /api/v1/urls/:id/revisions
+ * @description Newest revision first
+ */
+export const listUrlRevisions = ({ params }: MockRequest): MockResponse => {
+  const url = findUrl(params.id)
+  if (!url) return fail(404, 'URL not found')
+
+  const revisions = getMockDatabase()
+    .urlRevisions.filter(revision => revision.url_id === url.id)
+    .sort((a, b) => b.id - a.id)
+
+  return ok(revisions, 'URL revisions retrieved successfully')
+}
+
+/**
+ * POST /api/v1/urls/:id/revisions/:revisionId/restore
+ * @description Puts back the values the fields changed by the revision had before it, recording the
+ * restore as a new revision. The safety report sent replaces the current one when the destination
+ * changes back.
+ */
+export const restoreUrlRevision = ({ params, body }: MockRequest): MockResponse => {
+  const url = findUrl(params.id)
+  if (!url) return fail(404, 'URL not found')
+
+  const revision = getMockDatabase().urlRevisions.find(
+    item => item.url_id === url.id && String(item.id) === params.revisionId
+  )
+  if (!revision) return fail(404, 'URL revision not found')
+
+  const restored: Partial<Pick<Url, UrlRevisionField>> = {}
+  revision.changes.forEach(change => {
+    restored[change.field] = change.previous ?? undefined
+  })
+  const next = { ...url, ...restored }
+
+  const invalid = validateUrlPayload(
+    { original_url: next.original_url, expiry_date: next.expiry_date, activates_at: next.activates_at },
+    next.short_code,
+    url.id
+  )
+  if (invalid) return invalid
+
+  const previous = { ...url }
+  const destinationChanged = next.original_url !== url.original_url
+  Object.assign(url, {
+    ...keepPreviewImages(url, next.original_url),
+    ...restored,
+    short_url: buildShortUrl(next.short_code),
+    safety_report: destinationChanged ? readBody<UrlPayload>(body).safety_report : url.safety_report,
+    updated_at: new Date().toISOString()
+  })
+  const restoreRevision = recordRevision(url, previous, revision.id)
+
+  return ok({ ...url, revision_id: restoreRevision?.id }, 'URL revision restored successfully')
+}
+
+/**
+ * GET /api/v1/urls/:identifier and GET /api/v1/urls/by-code/:code
+ */
+export const getUrl = ({ params }: MockRequest): MockResponse => {
+  const url = findUrl(params.identifier ?? params.code)
+  return url ? ok(url, 'URL retrieved successfully') : fail(404, 'URL not found')
+}
+
+/**
+ * GET /api/v1/public/urls/:code
+ * @description Only resolves active URLs that have not expired, counting a click each time the
+ * destination is sent. Scheduled URLs only return their activation time and the seconds left until
+ * then, measured on the server clock, and exhausted URLs only
+ * report their click limit. Protected URLs are returned without their destination, which is only
+ * sent once the password is checked. The destination is picked by the redirect rules of the URL for
+ * the visitor described by the device, os, language and variant parameters, the country being found
+ * by the API. Clicks are counted under the referrer parameter if set.
+ */
+export const getPublicUrl = ({ params, query }: MockRequest): MockResponse => {
+  const url = getMockDatabase().urls.find(item => item.short_code === params.code)
+
+  if (!url) return fail(404, 'URL not found')
+  if (!url.is_active || isExpired(url)) return fail(410, 'This link is no longer available')
+  if (isScheduled(url)) {
+    return ok(
+      {
+        short_code: url.short_code,
+        activates_at: url.activates_at,
+        seconds_until_active: Math.ceil((new Date(url.activates_at as string).getTime() - Date.now()) / 1000)
+      },
+      'This link is not available yet'
+    )
+  }
+  if (isExhausted(url)) {
+    return ok({ short_code: url.short_code, click_limit_reached: true }, 'This link has reached its click limit')
+  }
+  if (url.is_password_protected) {
+    return ok({ short_code: url.short_code, is_password_protected: true }, 'Password required')
+  }
+
+  countClick(url, query.get('referrer'))
+  return ok(resolveDestination(url, query), 'URL retrieved successfully')
+}
+
+/**
+ * POST /api/v1/public/urls/:code/unlock
+ * @description Checks the password of a protected URL. Too many wrong passwords lock the URL
+ * for a while, answered with a 429 and a Retry-After header. The destination is picked as for the
+ * public lookup.
+ */
+export const unlockUrl = ({ params, query, body }: MockRequest): MockResponse => {
+  const database = getMockDatabase()
+  const url = database.urls.find(item => item.short_code === params.code)
+
+  if (!url) return fail(404, 'URL not found')
+  if (!url.is_active || isExpired(url)) return fail(410, 'This link is no longer available')
+  if (isScheduled(url)) return fail(409, 'This link is not available yet')
+  if (isExhausted(url)) return fail(410, 'This link has reached its click limit')
+  if (!url.is_password_protected) return ok(url, 'URL retrieved successfully')
+
+  const attempts = (database.urlUnlockAttempts[url.short_code] ??= { failures: 0 })
+  const lockedFor = Math.ceil(((attempts.lockedUntil ?? 0) - Date.now()) / 1000)
+  if (lockedFor > 0) {
+    return {
+      ...fail(429, 'Too many wrong passwords, please try again later'),
+      headers: { 'retry-after': String(lockedFor) }
+    }
+  }
+
+  const { password } = readBody<UrlPayload>(body)
+  if (password !== database.urlPasswords[url.id]) {
+    attempts.failures += 1
+    if (attempts.failures >= URL_PASSWORD_LIMITS.MAX_ATTEMPTS) {
+      attempts.failures = 0
+      attempts.lockedUntil = Date.now() + URL_PASSWORD_LIMITS.LOCKOUT_SECONDS * 1000
+    }
+    return fail(403, 'Incorrect password')
+  }
+
+  delete database.urlUnlockAttempts[url.short_code]
+  countClick(url, query.get('referrer'))
+  return ok(resolveDestination(url, query), 'URL unlocked')
+}
+
+/**
+ * GET /api/v1/urls/click/:code
+ * @description Counts a click on the URL for today
+ */
+export const recordClick = ({ params }: MockRequest): MockResponse => {
+  const database = getMockDatabase()
+  const url = database.urls.find(item => item.short_code === params.code)
+  if (!url) return fail(404, 'URL not found')
+  if (isExhausted(url)) return fail(410, 'This link has reached its click limit')
+
+  countClick(url)
+  return ok({ short_code: url.short_code, clicks: url.clicks }, 'Click recorded')
+}
@@ -0,0 +1,78 @@
+import type { AbVariant } from '@/interfaces/abTest'
+import type { MatchedRedirectVisitor, RedirectRule, RedirectRuleDevice, RedirectRuleOs } from '@/interfaces/redirectRules'
+import { REDIRECT_RULE_DEVICES, REDIRECT_RULE_OS } from '@/config/redirectRules'
+import { hasRedirectConditions } from '@/utils/redirectRules'
+
+/**
+ * Mock Redirect Resolution
+ * @description Picks the destination of rule and A/B test links the way the backend must: the
+ * client only sends the device, operating system, browser language and A/B variant cookie of the
+ * visitor, and the API finds the country, matches the rules and picks the variant
+ */
+
+/**
+ * Check whether a value passes a condition
+ * @param values - Values of the condition, unset or empty when it does not apply
+ * @param value - Value of the visitor
+ * @returns true if the condition does not apply or has the value
+ */
+const matchesCondition = <T extends string>(values: T[] | undefined, value: T | undefined): boolean =>
+  !values?.length || (!!value && values.includes(value))
+
+/**
+ * Read the visitor described by the query string of a public URL lookup
+ * @description The backend finds the country from the IP address of the request. The mock API has
+ * no request address, so it uses the region of the browser language instead.
+ * @param query - Query string parameters
+ * @returns Visitor, unknown values left out
+ */
+export const readRedirectVisitor = (query: URLSearchParams): MatchedRedirectVisitor => {
+  const device = query.get('device')
+  const os = query.get('os')
+  const [language, region] = (query.get('language') ?? '').split('-')
+
+  return {
+    device: REDIRECT_RULE_DEVICES.some(option => option.value === device) ? (device as RedirectRuleDevice) : 'other',
+    os: REDIRECT_RULE_OS.some(option => option.value === os) ? (os as RedirectRuleOs) : undefined,
+    country: region?.toUpperCase() || undefined,
+    language: language?.toLowerCase() || undefined,
+    variant: query.get('variant') || undefined
+  }
+}
+
+/**
+ * Pick the redirect rule that applies to a visitor
+ * @description Rules are checked in order and the first one whose conditions all match wins
+ * @param rules - Rules of the short link
+ * @param visitor - Visitor opening the short link
+ * @returns The matching rule, or undefined to use the fallback destination
+ */
+export const matchRedirectRule = (rules: RedirectRule[], visitor: MatchedRedirectVisitor): RedirectRule | undefined =>
+  rules.find(
+    ({ conditions }) =>
+      hasRedirectConditions(conditions) &&
+      matchesCondition<string>(conditions.device, visitor.device) &&
+      matchesCondition(conditions.os, visitor.os) &&
+      matchesCondition(conditions.country, visitor.country) &&
+      matchesCondition(conditions.language, visitor.language)
+  )
+
+/**
+ * Pick a variant in proportion to its weight
+ * @param variants - Variants of the short link
+ * @param roll - Number between 0 and 1, random by default
+ * @returns The picked variant, or undefined when there is none
+ * @example
+ * pickAbVariant([{ weight: 3, ... }, { weight: 1, ... }]) // returns the first one 75% of the time
+ */
+export const pickAbVariant = (variants: AbVariant[], roll: number = Math.random()): AbVariant | undefined => {
+  const totalWeight = variants.reduce((total, variant) => total + variant.weight, 0)
+  let threshold = roll * totalWeight
+
+  return (
+    variants.find(variant => {
+      threshold -= variant.weight
+      return threshold < 0
+    }) ?? variants[variants.length - 1]
+  )
+}
@@ -0,0 +1,77 @@
+import type { MockResponse } from '@/interfaces/mockApi'
+
+/**
+ * Mock Responses
+ * @description Builders for the response envelopes the backend sends
+ */
+
+/**
+ * Successful response in the standard envelope
+ * @param data - Payload of the data field
+ * @param message - Message of the envelope
+ * @param status - HTTP status code
+ * @returns Mock response
+ */
+export const ok = (data: unknown, message = 'Success', status = 200): MockResponse => ({
+  status,
+  data: { status, message, data }
+})
+
+/**
+ * Error response in the format read by toApiError
+ * @param status - HTTP status code
+ * @param message - Error message
+ * @param errors - Optional errors keyed by field name
+ * @returns Mock response
+ */
+export const fail = (status: number, message: string, errors?: Record<string, string>): MockResponse => ({
+  status,
+  data: { status, message, ...(errors && { errors }) }
+})
+
+/**
+ * Read a positive integer query parameter
+ * @param query - Query string parameters
+ * @param name - Parameter name
+ * @param fallback - Value used when the parameter is missing or invalid
+ * @returns The parameter value
+ */
+export const readNumber = (query: URLSearchParams, name: string, fallback: number): number => {
+  const value = Number(query.get(name))
+  return Number.isInteger(value) && value > 0 ? value : fallback
+}
+
+/**
+ * Paginated list response in the standard envelope
+ * @param items - Every item matching the request, in order
+ * @param query - Query string with the page and limit parameters
+ * @param message - Message of the envelope
+ * @returns Mock response with the requested page
+ */
+export const paginate = (items: unknown[], query: URLSearchParams, message = 'Success'): MockResponse => {
+  const page = readNumber(query, 'page', 1)
+  const limit = readNumber(query, 'limit', 10)
+
+  return {
+    status: 200,
+    data: {
+      status: 200,
+      message,
+      data: items.slice((page - 1) * limit, page * limit),
+      pagination: {
+        total: items.length,
+        page,
+        limit,
+        total_pages: Math.max(1, Math.ceil(items.length / limit))
+      }
+    }
+  }
+}
+
+/**
+ * Read the JSON body of a request as an object
+ * @param body - Parsed request body
+ * @returns The body, or an empty object if it is not an object
+ */
+export const readBody = <T extends object>(body: unknown): Partial<T> =>
+  body && typeof body === 'object' ? (body as Partial<T>) : {}
@@ -0,0 +1,105 @@
+import type { MockHttpMethod, MockRoute, MockRouteHandler } from '@/interfaces/mockApi'
+import * as analytics from './handlers/analytics'
+import * as auth from './handlers/auth'
+import * as bioPage from './handlers/bioPage'
+import * as feedback from './handlers/feedback'
+import * as qrCodes from './handlers/qrCodes'
+import * as urlTags from './handlers/urlTags'
+import * as urls from './handlers/urls'
+
+/**
+ * Mock API Routes
+ * @description Every endpoint called by the services and hooks. Routes are matched in order, so
+ * fixed paths must come before parameterized ones sharing their prefix.
+ */
+export const MOCK_ROUTES: MockRoute[] = [
+  // Auth
+  { method: 'POST', path: '/api/v1/auth/login', handler: auth.login },
+  { method: 'POST', path: '/api/v1/auth/register', handler: auth.register },
+  { method: 'GET', path: '/api/v1/auth/register/verify', handler: auth.verifyEmail },
+  { method: 'POST', path: '/api/v1/auth/refresh', handler: auth.refresh },
+  { method: 'POST', path: '/api/v1/auth/forgot-password', handler: auth.forgotPassword },
+  { method: 'POST', path: '/api/v1/auth/reset-password', handler: auth.resetPassword },
+
+  // URLs
+  { method: 'GET', path: '/api/v1/urls', handler: urls.listUrls },
+  { method: 'POST', path: '/api/v1/urls', handler: urls.createUrl },
+  { method: 'GET', path: '/api/v1/urls/total-clicks', handler: analytics.getTotalClicks },
+  { method: 'GET', path: '/api/v1/urls/duplicates', handler: urls.findDuplicateUrls },
+  { method: 'GET', path: '/api/v1/urls/code-availability', handler: urls.checkCustomCodeAvailability },
+  { method: 'GET', path: '/api/v1/urls/by-code/:code', handler: urls.getUrl },
+  { method: 'GET', path: '/api/v1/urls/click/:code', handler: urls.recordClick },
+  { method: 'GET', path: '/api/v1/urls/:id/analytics', handler: analytics.getUrlAnalytics },
+  { method: 'PUT', path: '/api/v1/urls/:id/status', handler: urls.updateUrlStatus },
+  { method: 'PUT', path: '/api/v1/urls/:id/redirect-rules', handler: urls.updateRedirectRules },
+  { method: 'PUT', path: '/api/v1/urls/:id/ab-variants', handler: urls.updateAbVariants },
+  { method: 'POST', path: '/api/v1/urls/:id/ab-variants/:variantId/promote', handler: urls.promoteAbVariant },
+  { method: 'GET', path: '/api/v1/urls/:id/revisions', handler: urls.listUrlRevisions },
+  { method: 'POST', path: '/api/v1/urls/:id/revisions/:revisionId/restore', handler: urls.restoreUrlRevision },
+  { method: 'GET', path: '/api/v1/urls/:identifier', handler: urls.getUrl },
+  { method: 'PUT', path: '/api/v1/urls/:id', handler: urls.updateUrl },
+  { method: 'DELETE', path: '/api/v1/urls/:id', handler: urls.deleteUrl },
+  { method: 'GET', path: '/api/v1/public/urls/:code', handler: urls.getPublicUrl },
+  { method: 'POST', path: '/api/v1/public/urls/:code/unlock', handler: urls.unlockUrl },
+
+  // URL tags
+  { method: 'GET', path: '/api/v1/url-tags', handler: urlTags.listUrlTags },
+  { method: 'POST', path: '/api/v1/url-tags/merge', handler: urlTags.mergeUrlTags },
+  { method: 'DELETE', path: '/api/v1/url-tags/:tag', handler: urlTags.deleteUrlTag },
+
+  // Bio page
+  { method: 'GET', path: '/api/v1/bio-page', handler: bioPage.getBioPage },
+  { method: 'PUT', path: '/api/v1/bio-page', handler: bioPage.updateBioPage },
+  { method: 'GET', path: '/api/v1/public/bio/:username', handler: bioPage.getPublicBioPage },
+
+  // Analytics
+  { method: 'GET', path: '/api/v1/ctr/stats', handler: analytics.getCtrStats },
+  { method: 'GET', path: '/api/v1/conversion-rate', handler: analytics.getConversionRate },
+
+  // QR codes
+  { method: 'GET', path: '/api/v1/qr-codes/colors', handler: qrCodes.getQrCodeColors },
+  { method: 'GET', path: '/api/v1/qr-codes', handler: qrCodes.listQrCodes },
+  { method: 'POST', path: '/api/v1/qr-codes', handler: qrCodes.generateQrCode },
+  { method: 'GET', path: '/api/v1/qr-codes/:id', handler: qrCodes.getQrCode },
+  { method: 'PUT', path: '/api/v1/qr-codes/:id', handler: qrCodes.updateQrCode },
+  { method: 'DELETE', path: '/api/v1/qr-codes/:id', handler: qrCodes.deleteQrCode },
+
+  // Feedback
+  { method: 'GET', path: '/api/v1/feedback', handler: feedback.listFeedback },
+  { method: 'POST', path: '/api/v1/feedback', handler: feedback.createFeedback },
+  { method: 'DELETE', path: '/api/v1/feedback/:id', handler: feedback.deleteFeedback },
+  { method: 'POST', path: '/api/v1/feedback/:id/vote', handler: feedback.voteFeedback },
+  { method: 'DELETE', path: '/api/v1/feedback/:id/vote', handler: feedback.removeVote },
+  { method: 'GET', path: '/api/v1/feedback/:id/voters', handler: feedback.listVoters }
+]
+
+/**
+ * Find the route serving a request
+ * @param method - HTTP method
+ * @param path - Request path without the query string
+ * @returns The route handler and the captured path parameters, or null if no route matches
+ */
+export const matchMockRoute = (
+  method: MockHttpMethod,
+  path: string
+): { handler: MockRouteHandler; params: Record<string, string> } | null => {
+  const segments = path.replace(/\/+$/, '').split('/')
+
+  for (const route of MOCK_ROUTES) {
+    const routeSegments = route.path.split('/')
+    if (route.method !== method || routeSegments.length !== segments.length) continue
+
+    const params: Record<string, string> = {}
+    const matches = routeSegments.every((segment, index) => {
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = decodeURIComponent(segments[index])
+        return true
+      }
+      return segment === segments[index]
+    })
+
+    if (matches) return { handler: route.handler, params }
+  }
+
+  return null
+}
@@ -0,0 +1,417 @@
+import type { Url } from '@/interfaces/url'
+import type {
+  MockDailyTraffic,
+  MockDatabase,
+  MockFeedback,
+  MockFeedbackUser,
+  MockFeedbackVote,
+  MockQrCode
+} from '@/interfaces/mockApi'
+import { DEMO_USER, MOCK_DATA_SEED, MOCK_HISTORY_DAYS, MOCK_SHORT_URL_BASE } from '@/config/mockApi'
+import feedbackData from './feedback.json'
+
+/**
+ * Mock Data Seed
+ * @description Generates the data served by the mock API. A seeded random generator keeps the
+ * numbers identical across reloads while dates stay relative to today, so charts always end now.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * URL the seed creates, before its traffic is generated
+ */
+interface SeedUrl {
+  title: string
+  original_url: string
+  short_code: string
+  tags: string[]
+  /** Days since the URL was created */
+  age: number
+  /** Average clicks per day once the launch spike has passed */
+  dailyClicks: number
+  /** Share of impressions that turn into clicks */
+  ctr: number
+  is_active?: boolean
+  /** Days from today until the URL expires, negative if it already expired */
+  expiresIn?: number
+}
+
+const SEED_URLS: SeedUrl[] = [
+  {
+    title: 'Spring Sale Landing Page',
+    original_url: 'https://shop.example.com/campaigns/spring-sale?ref=newsletter',
+    short_code: 'spring-sale',
+    tags: ['marketing', 'campaign'],
+    age: 45,
+    dailyClicks: 38,
+    ctr: 0.14,
+    expiresIn: 20
+  },
+  {
+    title: 'Product Documentation',
+    original_url: 'https://docs.example.com/getting-started/installation',
+    short_code: 'docs',
+    tags: ['docs'],
+    age: 118,
+    dailyClicks: 24,
+    ctr: 0.21
+  },
+  {
+    title: 'Webinar Registration: Securing Your APIs',
+    original_url: 'https://events.example.com/webinars/securing-your-apis/register',
+    short_code: 'api-webinar',
+    tags: ['events', 'security'],
+    age: 21,
+    dailyClicks: 31,
+    ctr: 0.17,
+    expiresIn: 9
+  },
+  {
+    title: 'Engineering Blog: Scaling Postgres',
+    original_url: 'https://blog.example.com/engineering/scaling-postgres-to-a-billion-rows',
+    short_code: 'pg-scale',
+    tags: ['blog', 'engineering'],
+    age: 63,
+    dailyClicks: 19,
+    ctr: 0.11
+  },
+  {
+    title: 'Careers',
+    original_url: 'https://careers.example.com/open-positions?team=all',
+    short_code: 'jobs',
+    tags: ['hiring'],
+    age: 110,
+    dailyClicks: 15,
+    ctr: 0.09
+  },
+  {
+    title: 'Customer Survey Q2',
+    original_url: 'https://forms.example.com/s/customer-satisfaction-q2',
+    short_code: 'survey-q2',
+    tags: ['research'],
+    age: 34,
+    dailyClicks: 12,
+    ctr: 0.19
+  },
+  {
+    title: 'Mobile App Download',
+    original_url: 'https://apps.example.com/download?platform=auto',
+    short_code: 'get-app',
+    tags: ['mobile', 'marketing'],
+    age: 97,
+    dailyClicks: 27,
+    ctr: 0.13
+  },
+  {
+    title: 'Pricing',
+    original_url: 'https://www.example.com/pricing?billing=annual',
+    short_code: 'pricing',
+    tags: ['marketing'],
+    age: 88,
+    dailyClicks: 22,
+    ctr: 0.12
+  },
+  {
+    title: 'Conference Slides 2024',
+    original_url: 'https://slides.example.com/d/3f9c1a/conference-keynote-2024',
+    short_code: 'keynote-slides',
+    tags: ['events'],
+    age: 72,
+    dailyClicks: 6,
+    ctr: 0.24,
+    is_active: false
+  },
+  {
+    title: 'Security Advisory CVE-2024-1234',
+    original_url: 'https://security.example.com/advisories/cve-2024-1234',
+    short_code: 'advisory-1234',
+    tags: ['security'],
+    age: 40,
+    dailyClicks: 9,
+    ctr: 0.16
+  },
+  {
+    title: 'Holiday Promo',
+    original_url: 'https://shop.example.com/campaigns/holiday-promo',
+    short_code: 'holiday',
+    tags: ['marketing', 'campaign'],
+    age: 115,
+    dailyClicks: 11,
+    ctr: 0.1,
+    expiresIn: -30
+  },
+  {
+    title: 'Status Page',
+    original_url: 'https://status.example.com',
+    short_code: 'status',
+    tags: ['support'],
+    age: 105,
+    dailyClicks: 5,
+    ctr: 0.07
+  },
+  {
+    title: 'Onboarding Checklist',
+    original_url: 'https://help.example.com/articles/onboarding-checklist',
+    short_code: 'onboarding',
+    tags: ['support', 'docs'],
+    age: 56,
+    dailyClicks: 8,
+    ctr: 0.18
+  },
+  {
+    title: 'Open Source Repository',
+    original_url: 'https://github.com/example/cylink-sdk',
+    short_code: 'sdk',
+    tags: ['engineering'],
+    age: 80,
+    dailyClicks: 14,
+    ctr: 0.15
+  },
+  {
+    title: 'Partner Program',
+    original_url: 'https://partners.example.com/apply?source=shortlink',
+    short_code: 'partners',
+    tags: ['sales'],
+    age: 27,
+    dailyClicks: 7,
+    ctr: 0.11
+  },
+  {
+    title: 'Release Notes v3.2',
+    original_url: 'https://www.example.com/changelog/v3-2',
+    short_code: 'v3-2',
+    tags: ['product'],
+    age: 12,
+    dailyClicks: 16,
+    ctr: 0.2
+  },
+  {
+    title: 'Team Offsite Photos',
+    original_url: 'https://photos.example.com/albums/team-offsite-2024',
+    short_code: 'offsite-pics',
+    tags: [],
+    age: 18,
+    dailyClicks: 3,
+    ctr: 0.3,
+    is_active: false
+  },
+  {
+    title: 'Newsletter Archive',
+    original_url: 'https://newsletter.example.com/archive',
+    short_code: 'newsletter',
+    tags: ['marketing'],
+    age: 66,
+    dailyClicks: 10,
+    ctr: 0.08
+  },
+  {
+    title: 'Support Ticket Portal',
+    original_url: 'https://support.example.com/tickets/new',
+    short_code: 'help',
+    tags: ['support'],
+    age: 92,
+    dailyClicks: 13,
+    ctr: 0.14
+  },
+  {
+    title: 'Community Forum',
+    original_url: 'https://community.example.com/c/general',
+    short_code: 'forum',
+    tags: ['community'],
+    age: 8,
+    dailyClicks: 9,
+    ctr: 0.12
+  },
+  {
+    title: 'Brand Assets',
+    original_url: 'https://brand.example.com/press-kit.zip',
+    short_code: 'press-kit',
+    tags: ['marketing'],
+    age: 3,
+    dailyClicks: 4,
+    ctr: 0.22
+  },
+  {
+    title: 'Quarterly Report',
+    original_url: 'https://investors.example.com/reports/q1',
+    short_code: 'q1-report',
+    tags: ['finance'],
+    age: 0,
+    dailyClicks: 5,
+    ctr: 0.1
+  }
+]
+
+/**
+ * Short codes of the URLs that get a QR code, with its customization
+ */
+const SEED_QR_CODES: Array<Pick<MockQrCode, 'color' | 'background_color' | 'include_logo'> & { short_code: string }> = [
+  { short_code: 'spring-sale', color: '#3B82F6', background_color: '#FFFFFF', include_logo: true },
+  { short_code: 'api-webinar', color: '#000000', background_color: '#FFFFFF', include_logo: false },
+  { short_code: 'get-app', color: '#10B981', background_color: '#ECFDF5', include_logo: true },
+  { short_code: 'docs', color: '#000000', background_color: '#FFFFFF', include_logo: false },
+  { short_code: 'survey-q2', color: '#8B5CF6', background_color: '#FFFFFF', include_logo: false },
+  { short_code: 'keynote-slides', color: '#EF4444', background_color: '#FFFFFF', include_logo: true },
+  { short_code: 'pricing', color: '#000000', background_color: '#F9FAFB', include_logo: false },
+  { short_code: 'onboarding', color: '#1F2937', background_color: '#FFFFFF', include_logo: true },
+  { short_code: 'press-kit', color: '#000000', background_color: '#FFFFFF', include_logo: false }
+]
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32)
+ * @param seed - Seed of the sequence
+ * @returns Function returning the next number in [0, 1)
+ */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Format a timestamp as a day
+ * @param time - Timestamp in milliseconds
+ * @returns Day in YYYY-MM-DD format
+ */
+export const toDay = (time: number): string => new Date(time).toISOString().slice(0, 10)
+
+/**
+ * Generate the daily traffic of a URL from its creation until today
+ * @description Traffic ramps up after launch, dips on weekends and varies from day to day
+ * @param url - URL to generate traffic for
+ * @param seedUrl - Seed describing the URL's audience
+ * @param random - Random number generator
+ * @returns One entry per day, oldest first
+ */
+const generateTraffic = (url: Url, seedUrl: SeedUrl, random: () => number): MockDailyTraffic[] => {
+  const days = Math.min(seedUrl.age, MOCK_HISTORY_DAYS)
+  const traffic: MockDailyTraffic[] = []
+
+  for (let daysAgo = days; daysAgo >= 0; daysAgo--) {
+    const time = Date.now() - daysAgo * DAY_MS
+    const age = days - daysAgo
+    const weekday = new Date(time).getDay()
+
+    const launchBoost = 1 + 1.5 * Math.exp(-age / 4)
+    const weekendDip = weekday === 0 || weekday === 6 ? 0.6 : 1
+    const noise = 0.7 + random() * 0.6
+    const activity = seedUrl.is_active === false && daysAgo < 10 ? 0 : 1
+
+    const clicks = Math.round(seedUrl.dailyClicks * launchBoost * weekendDip * noise * activity)
+    const ctr = seedUrl.ctr * (0.85 + random() * 0.3)
+
+    traffic.push({
+      urlId: url.id,
+      date: toDay(time),
+      clicks,
+      impressions: Math.max(clicks, Math.round(clicks / ctr)),
+      uniqueVisitors: Math.round(clicks * (0.65 + random() * 0.25))
+    })
+  }
+
+  return traffic
+}
+
+/**
+ * Build the short URL of a short code
+ * @param shortCode - Short code
+ * @returns Full short URL
+ */
+export const buildShortUrl = (shortCode: string) => `${MOCK_SHORT_URL_BASE}/${shortCode}`
+
+/**
+ * Generate the data of a fresh mock API session
+ * @returns Seeded database
+ */
+export const createSeedDatabase = (): MockDatabase => {
+  const random = createRandom(MOCK_DATA_SEED)
+  const now = Date.now()
+  const urls: Url[] = []
+  const traffic: MockDailyTraffic[] = []
+
+  SEED_URLS.forEach((seedUrl, index) => {
+    const createdAt = new Date(now - seedUrl.age * DAY_MS - Math.round(random() * 8) * 60 * 60 * 1000).toISOString()
+    const url: Url = {
+      id: index + 1,
+      original_url: seedUrl.original_url,
+      short_code: seedUrl.short_code,
+      short_url: buildShortUrl(seedUrl.short_code),
+      title: seedUrl.title,
+      created_at: createdAt,
+      updated_at: createdAt,
+      expiry_date:
+        seedUrl.expiresIn === undefined ? undefined : new Date(now + seedUrl.expiresIn * DAY_MS).toISOString(),
+      clicks: 0,
+      is_active: seedUrl.is_active ?? true,
+      user_id: DEMO_USER.id,
+      tags: seedUrl.tags
+    }
+
+    const urlTraffic = generateTraffic(url, seedUrl, random)
+    url.clicks = urlTraffic.reduce((total, day) => total + day.clicks, 0)
+
+    urls.push(url)
+    traffic.push(...urlTraffic)
+  })
+
+  const qrCodes: MockQrCode[] = SEED_QR_CODES.map((seedQrCode, index) => {
+    const url = urls.find(item => item.short_code === seedQrCode.short_code) as Url
+    const createdAt = new Date(
+      Math.min(now, new Date(url.created_at).getTime() + Math.round(random() * 3) * DAY_MS)
+    ).toISOString()
+
+    return {
+      id: index + 1,
+      url_id: url.id,
+      color: seedQrCode.color,
+      background_color: seedQrCode.background_color,
+      include_logo: seedQrCode.include_logo,
+      logo_size: 0.25,
+      size: 300,
+      created_at: createdAt,
+      updated_at: createdAt
+    }
+  })
+
+  const createdAt = new Date(now - MOCK_HISTORY_DAYS * DAY_MS).toISOString()
+
+  return {
+    user: {
+      ...DEMO_USER,
+      email_verified_at: createdAt,
+      created_at: createdAt,
+      updated_at: createdAt,
+      is_verified: true
+    },
+    urls,
+    traffic,
+    qrCodes,
+    feedback: feedbackData.feedback as MockFeedback[],
+    feedbackVotes: feedbackData.votes as MockFeedbackVote[],
+    feedbackUsers: feedbackData.users as MockFeedbackUser[],
+    urlPasswords: {},
+    urlUnlockAttempts: {},
+    clickReferrers: {},
+    redirectRuleMatches: {},
+    abVariantClicks: {},
+    urlRevisions: [],
+    bioPage: {
+      username: 'demo',
+      display_name: DEMO_USER.name,
+      bio: 'Links I share the most, all in one place.',
+      theme: 'light',
+      links: urls
+        .filter(url => url.is_active && !url.expiry_date)
+        .slice(0, 3)
+        .map(url => ({ url_id: url.id, title: url.title ?? url.short_code, icon: 'link' })),
+      updated_at: createdAt
+    }
+  }
+}
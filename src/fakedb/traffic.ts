@@ -0,0 +1,200 @@
+import type { MockDailyTraffic } from '@/interfaces/mockApi'
+import { toDay } from './seed'
+
+/**
+ * Mock Traffic Aggregation
+ * @description Turns the daily traffic of the mock database into the periods, time series and
+ * comparisons returned by the analytics endpoints
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Analysis period
+ */
+export interface Period {
+  /** First day, YYYY-MM-DD */
+  start: string
+  /** Last day, YYYY-MM-DD */
+  end: string
+  /** Number of days in the period */
+  days: number
+}
+
+/**
+ * Traffic summed over a day or a group of days
+ */
+export interface TrafficTotals {
+  date: string
+  impressions: number
+  clicks: number
+  uniqueVisitors: number
+  /** Number of URLs with at least one click */
+  activeUrls: number
+}
+
+/**
+ * Build a period ending on a given day
+ * @param end - Last day, YYYY-MM-DD
+ * @param days - Length in days
+ * @returns Period
+ */
+const periodEndingOn = (end: string, days: number): Period => ({
+  start: toDay(new Date(end).getTime() - (days - 1) * DAY_MS),
+  end,
+  days
+})
+
+/**
+ * Read the analysis period of a request
+ * @description Uses start_date and end_date when given, otherwise the last `comparison` or
+ * `period` days
+ * @param query - Query string parameters
+ * @param defaultDays - Length of the period when the request does not set one
+ * @returns Analysis period
+ */
+export const readPeriod = (query: URLSearchParams, defaultDays = 30): Period => {
+  const startDate = query.get('start_date')
+  const endDate = query.get('end_date')
+
+  if (startDate && endDate) {
+    const days = Math.round((new Date(endDate).getTime() - new Date(startDate).getTime()) / DAY_MS) + 1
+    return { start: startDate.slice(0, 10), end: endDate.slice(0, 10), days: Math.max(1, days) }
+  }
+
+  const days = Number(query.get('comparison') ?? query.get('period'))
+  return periodEndingOn(toDay(Date.now()), Number.isInteger(days) && days > 0 ? days : defaultDays)
+}
+
+/**
+ * Read the period the analysis period is compared against
+ * @description Uses custom_comparison_start and custom_comparison_end when given, otherwise the
+ * period of the same length right before the analysis period
+ * @param query - Query string parameters
+ * @param period - Analysis period
+ * @returns Comparison period
+ */
+export const readPreviousPeriod = (query: URLSearchParams, period: Period): Period => {
+  const startDate = query.get('custom_comparison_start')
+  const endDate = query.get('custom_comparison_end')
+
+  if (startDate && endDate) {
+    return readPeriod(new URLSearchParams({ start_date: startDate, end_date: endDate }))
+  }
+
+  return periodEndingOn(toDay(new Date(period.start).getTime() - DAY_MS), period.days)
+}
+
+/**
+ * Get the group a day belongs to
+ * @param date - Day, YYYY-MM-DD
+ * @param groupBy - Grouping of the time series
+ * @returns First day of the group
+ */
+const getGroupDate = (date: string, groupBy: string | null): string => {
+  if (groupBy === 'month') return `${date.slice(0, 7)}-01`
+
+  if (groupBy === 'week') {
+    const time = new Date(date).getTime()
+    const weekday = (new Date(time).getUTCDay() + 6) % 7
+    return toDay(time - weekday * DAY_MS)
+  }
+
+  return date
+}
+
+/**
+ * Sum traffic per day, week or month over a period
+ * @param traffic - Daily traffic to aggregate
+ * @param period - Period to cover; days without traffic are included with zero counts
+ * @param groupBy - "day", "week" or "month"
+ * @returns Totals per group, oldest first
+ */
+export const groupTraffic = (traffic: MockDailyTraffic[], period: Period, groupBy: string | null = 'day') => {
+  const groups = new Map<string, TrafficTotals & { urlIds: Set<number> }>()
+  const startTime = new Date(period.start).getTime()
+
+  for (let offset = 0; offset < period.days; offset++) {
+    const date = getGroupDate(toDay(startTime + offset * DAY_MS), groupBy)
+    if (!groups.has(date)) {
+      groups.set(date, { date, impressions: 0, clicks: 0, uniqueVisitors: 0, activeUrls: 0, urlIds: new Set() })
+    }
+  }
+
+  traffic.forEach(day => {
+    if (day.date < period.start || day.date > period.end) return
+
+    const group = groups.get(getGroupDate(day.date, groupBy))
+    if (!group) return
+
+    group.impressions += day.impressions
+    group.clicks += day.clicks
+    group.uniqueVisitors += day.uniqueVisitors
+    if (day.clicks > 0) group.urlIds.add(day.urlId)
+  })
+
+  return Array.from(groups.values()).map(({ urlIds, ...group }): TrafficTotals => ({
+    ...group,
+    activeUrls: urlIds.size
+  }))
+}
+
+/**
+ * Sum traffic over a period
+ * @param traffic - Daily traffic to aggregate
+ * @param period - Period to cover
+ * @returns Totals of the period
+ */
+export const sumTraffic = (traffic: MockDailyTraffic[], period: Period): TrafficTotals => {
+  const urlIds = new Set<number>()
+  const totals: TrafficTotals = { date: period.start, impressions: 0, clicks: 0, uniqueVisitors: 0, activeUrls: 0 }
+
+  traffic.forEach(day => {
+    if (day.date < period.start || day.date > period.end) return
+
+    totals.impressions += day.impressions
+    totals.clicks += day.clicks
+    totals.uniqueVisitors += day.uniqueVisitors
+    if (day.clicks > 0) urlIds.add(day.urlId)
+  })
+
+  totals.activeUrls = urlIds.size
+  return totals
+}
+
+/**
+ * Round a number to two decimals
+ * @param value - Number to round
+ * @returns Rounded number
+ */
+export const round = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Click-through rate in percent
+ * @param clicks - Number of clicks
+ * @param impressions - Number of impressions
+ * @returns Rate rounded to two decimals
+ */
+export const ctr = (clicks: number, impressions: number) => (impressions > 0 ? round((clicks / impressions) * 100) : 0)
+
+/**
+ * Compare a metric between two periods
+ * @param current - Value in the analysis period
+ * @param previous - Value in the comparison period
+ * @returns Comparison block as sent by the backend
+ */
+export const compareMetric = (current: number, previous: number) => ({
+  current: round(current),
+  previous: round(previous),
+  change: round(current - previous),
+  change_percentage: previous > 0 ? round(((current - previous) / previous) * 100) : current > 0 ? 100 : 0
+})
+
+/**
+ * Pick the days with the most clicks
+ * @param totals - Totals per day
+ * @param count - Number of days to keep
+ * @returns Busiest days, busiest first
+ */
+export const topDays = (totals: TrafficTotals[], count = 5) =>
+  [...totals].sort((a, b) => b.clicks - a.clicks).slice(0, count)
@@ -0,0 +1,56 @@
+import { useCallback, useState } from "react";
+import type { UpdateBioPageRequest } from "@/interfaces/bioPage";
+import { fetchBioPage, updateBioPage } from "@/services/bioPage";
+import { fetchAllUrls } from "@/services/url";
+import { createQueryKey } from "@/services/queryCache";
+import { useQuery } from "@/hooks/useQuery";
+
+const BIO_PAGE_QUERY_KEY = createQueryKey("/api/v1/bio-page");
+
+/**
+ * Lives under the URL endpoint so URL mutations refresh the links that can be added
+ */
+const BIO_PAGE_URLS_QUERY_KEY = createQueryKey("/api/v1/urls/bio-page");
+
+/**
+ * Bio Page Hook
+ * @description Reads the bio page of the signed-in user and the URLs it can list through the
+ * shared query cache, and saves the page
+ * @returns Bio page, URLs, loading state, error and save action
+ */
+export const useBioPage = () => {
+  const { data, isLoading, error } = useQuery(BIO_PAGE_QUERY_KEY, fetchBioPage);
+  const { data: urls, isLoading: isLoadingUrls } = useQuery(
+    BIO_PAGE_URLS_QUERY_KEY,
+    () => fetchAllUrls()
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * Save the bio page
+   * @param page - Every field of the page, links in display order
+   * @returns The saved page
+   * @throws {ApiError} If the page is rejected
+   */
+  const saveBioPage = useCallback(async (page: UpdateBioPageRequest) => {
+    setIsSaving(true);
+
+    try {
+      const response = await updateBioPage(page);
+      return response.data;
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  return {
+    bioPage: data?.data ?? null,
+    urls: urls ?? [],
+    isLoading: isLoading || isLoadingUrls,
+    error,
+    isSaving,
+    saveBioPage,
+  };
+};
+
+export default useBioPage;
@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+import type { PublicBioPage } from "@/interfaces/bioPage";
+import { fetchPublicBioPage } from "@/services/bioPage";
+import { getApiErrorMessage } from "@/utils/apiErrors";
+
+/**
+ * Public Bio Page Hook
+ * @description Loads a bio page for its visitors, without authentication or caching so the
+ * listed links are always current
+ * @param username - Username of the page
+ * @returns Bio page, loading state and error message
+ */
+export const usePublicBioPage = (username: string) => {
+  const [bioPage, setBioPage] = useState<PublicBioPage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setIsLoading(true);
+    setError(null);
+
+    fetchPublicBioPage(username)
+      .then((response) => {
+        if (isCurrent) setBioPage(response.data);
+      })
+      .catch((err) => {
+        if (isCurrent) {
+          setError(
+            getApiErrorMessage(err, { not_found: "This page does not exist." })
+          );
+        }
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [username]);
+
+  return { bioPage, isLoading, error };
+};
+
+export default usePublicBioPage;
@@ -11,6 +11,8 @@ import {
 import { QR_CREATION_STEPS } from "@/config/qrcode";
 import { Url } from "@/interfaces/url";
 import { useConversionTracking } from "@/hooks/useConversionTracking";
+import { useApiErrorHandler } from "@/hooks/useApiErrorHandler";
+import { URL_FORM_FIELD_MAP } from "@/config/url";
 
 /**
  * QR Creation Flow Hook
@@ -29,6 +31,7 @@ export const useQrCreationFlow = (
   const [currentStep, setCurrentStep] = useState(1);
   const [isCreatingUrl, setIsCreatingUrl] = useState(false);
   const { trackUrlCreation } = useConversionTracking();
+  const { handleApiError } = useApiErrorHandler();
 
   // Form state with validation
   const form = useForm<QrCodeCreateFormSchema>({
@@ -168,11 +171,11 @@ export const useQrCreationFlow = (
         return { success: true, url: newUrl };
       } catch (error) {
         console.error("Error creating URL:", error);
-        return {
-          success: false,
-          error:
-            error instanceof Error ? error.message : "Failed to create URL",
-        };
+        const apiError = handleApiError(error, {
+          setError: form.setError,
+          fieldMap: URL_FORM_FIELD_MAP,
+        });
+        return { success: false, error: apiError.message };
       } finally {
         setIsCreatingUrl(false);
       }
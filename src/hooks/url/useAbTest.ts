@@ -0,0 +1,76 @@
+import { useCallback, useState } from "react";
+import type { AbVariant } from "@/interfaces/abTest";
+import {
+  fetchUrlByIdentifier,
+  promoteAbVariant,
+  updateUrlAbVariants,
+} from "@/services/url";
+import { createQueryKey } from "@/services/queryCache";
+import { useQuery } from "@/hooks/useQuery";
+
+/**
+ * A/B Test Hook
+ * @description Reads a URL and its A/B variants through the shared query cache, saves the
+ * variants and promotes the winning one
+ * @param urlId - ID of the URL
+ * @returns URL, its variants, loading state, error and test actions
+ */
+export const useAbTest = (urlId: number) => {
+  const { data, isLoading, error } = useQuery(
+    createQueryKey(`/api/v1/urls/${urlId}`),
+    () => fetchUrlByIdentifier(String(urlId))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+
+  /**
+   * Replace the variants of the URL
+   * @param variants - Variants the traffic is split across, empty to stop the test
+   * @returns The updated URL
+   * @throws {ApiError} If the variants are rejected
+   */
+  const saveAbVariants = useCallback(
+    async (variants: AbVariant[]) => {
+      setIsSaving(true);
+
+      try {
+        return await updateUrlAbVariants(urlId, variants);
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [urlId]
+  );
+
+  /**
+   * Make a variant the permanent destination of the URL
+   * @param variant - Winning variant
+   * @returns The updated URL
+   * @throws {ApiError} If the variant cannot be promoted
+   */
+  const promoteVariant = useCallback(
+    async (variant: AbVariant) => {
+      setPromotingId(variant.id);
+
+      try {
+        return await promoteAbVariant(urlId, variant);
+      } finally {
+        setPromotingId(null);
+      }
+    },
+    [urlId]
+  );
+
+  return {
+    url: data,
+    variants: data?.ab_variants ?? [],
+    isLoading,
+    error,
+    isSaving,
+    promotingId,
+    saveAbVariants,
+    promoteVariant,
+  };
+};
+
+export default useAbTest;
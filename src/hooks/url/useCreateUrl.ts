@@ -1,7 +1,10 @@
 import { CreateUrlFormData, CreateUrlFormResponse } from "@/interfaces/url";
-import Cookies from "js-cookie";
 import { useState } from "react";
 import { useConversionTracking } from "@/hooks/useConversionTracking";
+import { useOutbox } from "@/contexts/OutboxContext";
+import { createUrlFromForm } from "@/services/url";
+import { toApiError } from "@/utils/apiErrors";
+import { UrlCreationMethod } from "@/types/conversionTracking";
 
 /**
  * URL Creation Hook
@@ -12,43 +15,23 @@ export const useCreateUrl = () => {
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const { trackUrlCreation } = useConversionTracking();
+  const { runOrQueue } = useOutbox();
 
   /**
    * Create a new URL with PostHog conversion tracking
    * @param formData - URL creation form data
+   * @param creationMethod - How the URL was created, for tracking
    * @returns Promise with the created URL response
    */
-  const createUrl = async (formData: CreateUrlFormData) => {
+  const createUrl = async (
+    formData: CreateUrlFormData,
+    creationMethod: UrlCreationMethod = "manual"
+  ) => {
     setIsCreating(true);
     setError(null);
 
-    const token = Cookies.get("accessToken");
-
     try {
-      const response = await fetch(
-        `${process.env.NEXT_PUBLIC_BASE_API_URL}/api/v1/urls`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
-          },
-          body: JSON.stringify({
-            title: formData.title,
-            original_url: formData.originalUrl,
-            custom_code: formData.customCode || "",
-            expiry_date: formData.expiryDate,
-          }),
-          credentials: "same-origin",
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to create URL");
-      }
-
-      const responseData = await response.json();
+      const responseData = await createUrlFromForm(formData);
 
       // Track URL creation conversion goal in PostHog
       trackUrlCreation({
@@ -58,15 +41,14 @@ export const useCreateUrl = () => {
         custom_code_length: formData.customCode?.length || 0,
         expiry_date: formData.expiryDate,
         original_url_length: formData.originalUrl.length,
-        creation_method: "manual", // or 'qr_code_flow' if called from QR creation
+        creation_method: creationMethod,
         success: true,
       });
 
-      return responseData as CreateUrlFormResponse;
+      return responseData;
     } catch (err) {
       console.error("Error in createUrl:", err);
-      const error =
-        err instanceof Error ? err : new Error("Failed to create URL");
+      const error = toApiError(err);
       setError(error);
       throw error;
     } finally {
@@ -74,8 +56,29 @@ export const useCreateUrl = () => {
     }
   };
 
+  /**
+   * Create a URL, or store it in the outbox when the browser is offline
+   * @description Use where the new URL is not needed right away; the outbox creates it once
+   * the connection is back. A creation that fails once sent is reported rather than queued, as it
+   * may have reached the server.
+   * @param formData - URL creation form data
+   * @returns Promise with the created URL response, or null if the creation was queued
+   * @throws {ApiError} Network error while offline if the URL has a password, which is never queued
+   */
+  const createOrQueueUrl = async (
+    formData: CreateUrlFormData
+  ): Promise<CreateUrlFormResponse | null> => {
+    const response = await runOrQueue({ type: "create", formData }, () =>
+      createUrl(formData)
+    );
+
+    if (!response) setError(null);
+    return response;
+  };
+
   return {
     createUrl,
+    createOrQueueUrl,
     isCreating,
     error,
   };
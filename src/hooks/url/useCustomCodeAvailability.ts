@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { checkCustomCodeAvailability } from "@/services/url";
+import { createQueryKey } from "@/services/queryCache";
+import { useQuery } from "@/hooks/useQuery";
+import { URL_FORM_CONFIG } from "@/config/urlLimits";
+import type { CustomCodeAvailabilityParams } from "@/interfaces/url";
+
+/**
+ * State of a custom code availability check
+ */
+export type CustomCodeAvailabilityStatus =
+  | "idle"
+  | "checking"
+  | "available"
+  | "unavailable";
+
+/**
+ * Options of the custom code availability hook
+ * @interface UseCustomCodeAvailabilityOptions
+ */
+interface UseCustomCodeAvailabilityOptions {
+  /** Custom code as typed */
+  code: string;
+  /** Title and destination as typed, used to suggest alternatives */
+  title?: string;
+  originalUrl?: string;
+  /** URL being edited, whose current code is always available */
+  url?: { id: number; short_code: string } | null;
+  /** Set to false to skip the check, e.g. while the form is closed */
+  enabled?: boolean;
+}
+
+/**
+ * Custom Code Availability Hook
+ * @description Checks whether a custom code being typed can be used, once typing pauses. The API
+ * rejects codes that are taken, reserved for app routes or offensive, and suggests available ones.
+ * Failed checks leave the status idle, so the form can still be submitted and validated there.
+ * @param options - Code to check and the text suggestions are built from
+ * @returns Status of the check, why the code cannot be used and the suggested alternatives
+ */
+export const useCustomCodeAvailability = ({
+  code,
+  title = "",
+  originalUrl = "",
+  url = null,
+  enabled = true,
+}: UseCustomCodeAvailabilityOptions) => {
+  const trimmedCode = code.trim();
+  const trimmedTitle = title.trim();
+  const trimmedUrl = originalUrl.trim();
+  const urlId = url?.id;
+  const [params, setParams] = useState<CustomCodeAvailabilityParams>({
+    code: trimmedCode,
+  });
+
+  useEffect(() => {
+    const timeoutId = setTimeout(
+      () =>
+        setParams({
+          code: trimmedCode,
+          title: trimmedTitle,
+          original_url: trimmedUrl,
+          exclude_id: urlId,
+        }),
+      URL_FORM_CONFIG.VALIDATION_DEBOUNCE_DELAY
+    );
+    return () => clearTimeout(timeoutId);
+  }, [trimmedCode, trimmedTitle, trimmedUrl, urlId]);
+
+  const shouldCheck =
+    enabled && !!trimmedCode && trimmedCode !== url?.short_code;
+  const { data, isLoading, error } = useQuery(
+    createQueryKey("/api/v1/urls/code-availability", params),
+    () => checkCustomCodeAvailability(params),
+    // Each typed code is a one-off lookup, not worth keeping across reloads
+    { enabled: shouldCheck && !!params.code, persist: false }
+  );
+
+  // Results of a previous code are not shown while the new one is checked
+  const isCurrent = params.code === trimmedCode && !isLoading;
+  let status: CustomCodeAvailabilityStatus = "idle";
+  if (shouldCheck && !isCurrent) status = "checking";
+  else if (shouldCheck && data && !error) {
+    status = data.available ? "available" : "unavailable";
+  }
+
+  return {
+    status,
+    message: status === "unavailable" ? data?.message : undefined,
+    suggestions: status === "unavailable" ? data?.suggestions ?? [] : [],
+  };
+};
+
+export default useCustomCodeAvailability;
@@ -0,0 +1,47 @@
+import { useEffect, useState } from "react";
+import { findDuplicateUrls } from "@/services/url";
+import { createQueryKey } from "@/services/queryCache";
+import { useQuery } from "@/hooks/useQuery";
+import { URL_DUPLICATE_LOOKUP } from "@/config/url";
+import { normalizeDestinationUrl } from "@/utils/urlNormalization";
+
+/**
+ * Duplicate URLs Hook
+ * @description Looks up the existing links pointing to the same page as a destination being typed,
+ * once typing pauses. Destinations are normalized first, so equivalent ones share a cached lookup.
+ * @param originalUrl - Destination as typed
+ * @param enabled - Set to false to skip the lookup, e.g. while the form is closed
+ * @returns Matching URLs, most clicked first, and whether the lookup is running
+ */
+export const useDuplicateUrls = (originalUrl: string, enabled = true) => {
+  const destination = normalizeDestinationUrl(originalUrl);
+  const [debouncedDestination, setDebouncedDestination] =
+    useState(destination);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(
+      () => setDebouncedDestination(destination),
+      URL_DUPLICATE_LOOKUP.DEBOUNCE_DELAY
+    );
+    return () => clearTimeout(timeoutId);
+  }, [destination]);
+
+  const isSettled = !!destination && debouncedDestination === destination;
+  const { data, isLoading } = useQuery(
+    createQueryKey("/api/v1/urls/duplicates", {
+      original_url: debouncedDestination,
+    }),
+    () => findDuplicateUrls(debouncedDestination ?? ""),
+    { enabled: enabled && !!debouncedDestination }
+  );
+
+  // Matches of a previous destination are not shown while the new one is looked up
+  const isCurrent = enabled && isSettled && !isLoading;
+
+  return {
+    duplicates: isCurrent ? data ?? [] : [],
+    isChecking: enabled && !!destination && !isCurrent,
+  };
+};
+
+export default useDuplicateUrls;
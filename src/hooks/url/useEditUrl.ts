@@ -1,7 +1,9 @@
 import { EditUrlFormData, EditUrlFormResponse } from "@/interfaces/url";
-import Cookies from "js-cookie";
 import { useState } from "react";
 import { useConversionTracking } from "@/hooks/useConversionTracking";
+import { useOutbox } from "@/contexts/OutboxContext";
+import { editUrlById } from "@/services/url";
+import { toApiError } from "@/utils/apiErrors";
 
 /**
  * Custom hook for editing URL entries
@@ -11,56 +13,21 @@ export const useEditUrl = () => {
   const [isEditing, setIsEditing] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const { trackUrlEdit } = useConversionTracking();
+  const { runOrQueue } = useOutbox();
 
   /**
    * Edit a URL entry
    * @param {number} id - The ID of the URL to edit
    * @param {EditUrlFormData} formData - The new data for the URL
    * @returns {Promise<EditUrlFormResponse>} The response from the API
-   * @throws {Error} If the edit operation fails
+   * @throws {ApiError} If the edit operation fails
    */
   const editUrl = async (id: number, formData: EditUrlFormData) => {
     setIsEditing(true);
     setError(null);
 
-    const token = Cookies.get("accessToken");
-
     try {
-      const apiUrl = `${process.env.NEXT_PUBLIC_BASE_API_URL}/api/v1/urls/${id}`;
-
-      // Ensure the date is in the correct format for the API
-      // The API expects a full ISO date string, but our form has YYYY-MM-DD
-      let expiryDate = formData.expiryDate;
-      if (expiryDate && !expiryDate.includes("T")) {
-        // If it's just a date without time (YYYY-MM-DD), convert to ISO format
-        expiryDate = new Date(expiryDate).toISOString();
-      }
-
-      // Prepare request body with correct field mappings
-      const requestBody = {
-        title: formData.title,
-        original_url: formData.originalUrl,
-        short_code: formData.customCode || "", // Using short_code instead of custom_code
-        expiry_date: expiryDate,
-      };
-
-      const response = await fetch(apiUrl, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify(requestBody),
-        credentials: "same-origin",
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error("Failed to edit URL:", errorData);
-        throw new Error(errorData.message || "Failed to edit URL");
-      }
-
-      const responseData = await response.json();
+      const responseData = await editUrlById(id, formData);
 
       // Track URL edit conversion goal in PostHog
       const originalUrl =
@@ -76,6 +43,10 @@ export const useEditUrl = () => {
         fieldsModified.push("custom_code");
       if (formData.expiryDate !== responseData.data?.expiry_date)
         fieldsModified.push("expiry_date");
+      if (formData.activatesAt !== undefined)
+        fieldsModified.push("activates_at");
+      if (formData.maxClicks !== undefined) fieldsModified.push("max_clicks");
+      if (formData.password !== undefined) fieldsModified.push("password");
 
       trackUrlEdit({
         url_id: id,
@@ -95,13 +66,13 @@ export const useEditUrl = () => {
         fields_modified:
           fieldsModified.length > 0 ? fieldsModified : ["unknown"],
         success: true,
+        revision_id: responseData.data?.revision_id,
       });
 
-      return responseData as EditUrlFormResponse;
+      return responseData;
     } catch (err) {
       console.error("Error in URL edit operation:", err);
-      const error =
-        err instanceof Error ? err : new Error("Failed to edit URL");
+      const error = toApiError(err);
       setError(error);
 
       // Track failed URL edit conversion goal in PostHog
@@ -123,8 +94,30 @@ export const useEditUrl = () => {
     }
   };
 
+  /**
+   * Edit a URL, or store the edit in the outbox when the browser is offline
+   * @param {number} id - The ID of the URL to edit
+   * @param {EditUrlFormData} formData - The new data for the URL
+   * @returns {Promise<EditUrlFormResponse | null>} The response from the API, or null if the edit was queued
+   * @throws {ApiError} If the edit operation fails for another reason than being offline, or sets
+   * a password while offline, since passwords are never queued
+   */
+  const editOrQueueUrl = async (
+    id: number,
+    formData: EditUrlFormData
+  ): Promise<EditUrlFormResponse | null> => {
+    const response = await runOrQueue(
+      { type: "edit", urlId: id, formData },
+      () => editUrl(id, formData)
+    );
+
+    if (!response) setError(null);
+    return response;
+  };
+
   return {
     editUrl,
+    editOrQueueUrl,
     isEditing,
     error,
   };
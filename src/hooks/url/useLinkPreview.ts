@@ -0,0 +1,51 @@
+import { useEffect, useState } from "react";
+import { fetchLinkPreview } from "@/services/linkPreview";
+import { createQueryKey } from "@/services/queryCache";
+import { useQuery } from "@/hooks/useQuery";
+import {
+  LINK_PREVIEW_ENDPOINT,
+  LINK_PREVIEW_LIMITS,
+} from "@/config/linkPreview";
+import { normalizeDestinationUrl } from "@/utils/urlNormalization";
+
+/**
+ * Link Preview Hook
+ * @description Reads the title and preview metadata of a destination being typed, once typing
+ * pauses. Pages that cannot be read leave the preview empty, so the form is filled in by hand.
+ * @param originalUrl - Destination as typed
+ * @param enabled - Set to false to skip the lookup, e.g. while the form is closed
+ * @returns Metadata of the current destination, null until read, and whether it is being read
+ */
+export const useLinkPreview = (originalUrl: string, enabled = true) => {
+  const destination = normalizeDestinationUrl(originalUrl)
+    ? originalUrl.trim()
+    : "";
+  const [debouncedDestination, setDebouncedDestination] =
+    useState(destination);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(
+      () => setDebouncedDestination(destination),
+      LINK_PREVIEW_LIMITS.DEBOUNCE_DELAY
+    );
+    return () => clearTimeout(timeoutId);
+  }, [destination]);
+
+  const isSettled = !!destination && debouncedDestination === destination;
+  const { data, isLoading, error } = useQuery(
+    createQueryKey(LINK_PREVIEW_ENDPOINT, { url: debouncedDestination }),
+    () => fetchLinkPreview(debouncedDestination),
+    // Previews of destinations being typed are only needed while the form is open
+    { enabled: enabled && !!debouncedDestination, persist: false }
+  );
+
+  // The preview of a previous destination is not shown while the new one is read
+  const isCurrent = enabled && isSettled && !isLoading;
+
+  return {
+    preview: isCurrent && !error ? data : null,
+    isLoading: enabled && !!destination && !isCurrent,
+  };
+};
+
+export default useLinkPreview;
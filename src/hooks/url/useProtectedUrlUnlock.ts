@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Url } from "@/interfaces/url";
+import { URL_PASSWORD_LIMITS } from "@/config/url";
+import { unlockProtectedUrl } from "@/services/url";
+import { toApiError } from "@/utils/apiErrors";
+import { getRedirectVisitor } from "@/utils/redirectRules";
+
+/**
+ * Wrong password attempts of the visitor on one link
+ */
+interface UnlockAttempts {
+  /** Wrong passwords since the last lockout */
+  failures: number;
+  /** Timestamp until which the prompt is locked, 0 when not locked */
+  lockedUntil: number;
+}
+
+const NO_ATTEMPTS: UnlockAttempts = { failures: 0, lockedUntil: 0 };
+
+/**
+ * Get the session storage key of a link's attempts
+ * @param shortCode - Short code of the link
+ * @returns Storage key
+ */
+const getStorageKey = (shortCode: string) => `cylink_unlock_${shortCode}`;
+
+/**
+ * Read the attempts stored for a link
+ * @param shortCode - Short code of the link
+ * @returns Stored attempts, or none
+ */
+const readAttempts = (shortCode: string): UnlockAttempts => {
+  try {
+    const stored = sessionStorage.getItem(getStorageKey(shortCode));
+    return stored ? { ...NO_ATTEMPTS, ...JSON.parse(stored) } : NO_ATTEMPTS;
+  } catch {
+    return NO_ATTEMPTS;
+  }
+};
+
+/**
+ * Store the attempts of a link for the rest of the session
+ * @param shortCode - Short code of the link
+ * @param attempts - Attempts to store
+ */
+const saveAttempts = (shortCode: string, attempts: UnlockAttempts) => {
+  try {
+    sessionStorage.setItem(getStorageKey(shortCode), JSON.stringify(attempts));
+  } catch {
+    // Storage can be unavailable, the API still enforces the limit
+  }
+};
+
+/**
+ * Protected URL Unlock Hook
+ * @description Checks the password of a protected link and locks the prompt after too many wrong
+ * passwords. Attempts are kept in session storage so reloading the page does not reset them,
+ * and lockouts reported by the API take precedence.
+ * @param shortCode - Short code of the link
+ * @returns Unlock action, error and lockout state
+ */
+export const useProtectedUrlUnlock = (shortCode: string) => {
+  const [attempts, setAttempts] = useState<UnlockAttempts>(NO_ATTEMPTS);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Restore the attempts made before a reload
+  useEffect(() => {
+    setAttempts(readAttempts(shortCode));
+  }, [shortCode]);
+
+  // Tick every second while locked so the remaining time stays current
+  useEffect(() => {
+    if (attempts.lockedUntil <= Date.now()) return;
+
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= attempts.lockedUntil) clearInterval(timer);
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [attempts.lockedUntil]);
+
+  const lockedSeconds = Math.max(
+    0,
+    Math.ceil((attempts.lockedUntil - now) / 1000)
+  );
+
+  const updateAttempts = useCallback(
+    (next: UnlockAttempts) => {
+      setAttempts(next);
+      setNow(Date.now());
+      saveAttempts(shortCode, next);
+    },
+    [shortCode]
+  );
+
+  /**
+   * Check a password
+   * @param password - Password typed by the visitor
+   * @returns The unlocked URL, or null if the password was rejected
+   */
+  const unlock = useCallback(
+    async (password: string): Promise<Url | null> => {
+      if (attempts.lockedUntil > Date.now()) return null;
+
+      setIsUnlocking(true);
+      setError(null);
+
+      try {
+        const url = await unlockProtectedUrl(
+          shortCode,
+          password,
+          getRedirectVisitor(shortCode)
+        );
+        updateAttempts(NO_ATTEMPTS);
+        return url;
+      } catch (err) {
+        const apiError = toApiError(err);
+        const lockout = (duration: number) =>
+          updateAttempts({ failures: 0, lockedUntil: Date.now() + duration });
+
+        if (apiError.kind === "rate_limited") {
+          lockout(
+            apiError.retryAfter ?? URL_PASSWORD_LIMITS.LOCKOUT_SECONDS * 1000
+          );
+          setError("Too many wrong passwords.");
+        } else if (apiError.kind === "forbidden") {
+          const failures = attempts.failures + 1;
+          const attemptsLeft = URL_PASSWORD_LIMITS.MAX_ATTEMPTS - failures;
+
+          if (attemptsLeft <= 0) {
+            lockout(URL_PASSWORD_LIMITS.LOCKOUT_SECONDS * 1000);
+            setError("Too many wrong passwords.");
+          } else {
+            updateAttempts({ failures, lockedUntil: 0 });
+            setError(
+              `Incorrect password, ${attemptsLeft} attempt${
+                attemptsLeft === 1 ? "" : "s"
+              } left.`
+            );
+          }
+        } else {
+          setError(apiError.message);
+        }
+
+        return null;
+      } finally {
+        setIsUnlocking(false);
+      }
+    },
+    [shortCode, attempts, updateAttempts]
+  );
+
+  return { unlock, isUnlocking, error, lockedSeconds };
+};
+
+export default useProtectedUrlUnlock;
@@ -0,0 +1,50 @@
+import { useCallback, useState } from "react";
+import type { RedirectRule } from "@/interfaces/redirectRules";
+import { fetchUrlByIdentifier, updateUrlRedirectRules } from "@/services/url";
+import { createQueryKey } from "@/services/queryCache";
+import { useQuery } from "@/hooks/useQuery";
+
+/**
+ * Redirect Rules Hook
+ * @description Reads a URL and its redirect rules through the shared query cache, and saves the
+ * rules
+ * @param urlId - ID of the URL
+ * @returns URL, its rules, loading state, error and save action
+ */
+export const useRedirectRules = (urlId: number) => {
+  const { data, isLoading, error } = useQuery(
+    createQueryKey(`/api/v1/urls/${urlId}`),
+    () => fetchUrlByIdentifier(String(urlId))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * Replace the rules of the URL
+   * @param rules - Rules in the order they are checked
+   * @returns The updated URL
+   * @throws {ApiError} If the rules are rejected
+   */
+  const saveRedirectRules = useCallback(
+    async (rules: RedirectRule[]) => {
+      setIsSaving(true);
+
+      try {
+        return await updateUrlRedirectRules(urlId, rules);
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [urlId]
+  );
+
+  return {
+    url: data,
+    rules: data?.redirect_rules ?? [],
+    isLoading,
+    error,
+    isSaving,
+    saveRedirectRules,
+  };
+};
+
+export default useRedirectRules;
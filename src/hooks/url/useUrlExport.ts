@@ -0,0 +1,61 @@
+import { useCallback, useState } from "react";
+import type { UrlFilter } from "@/interfaces/url";
+import type { UrlExportOptions } from "@/interfaces/urlExport";
+import { fetchAllUrls } from "@/services/url";
+import { useToast } from "@/contexts/ToastContext";
+import { toApiError } from "@/utils/apiErrors";
+import { downloadTextFile } from "@/utils/csv";
+import { buildUrlExportFile } from "@/utils/urlExport";
+
+/**
+ * URL Export Hook
+ * @description Collects every URL matching a filter, page by page, and downloads them in the
+ * chosen format
+ * @returns Export action and loading state
+ */
+export const useUrlExport = () => {
+  const [isExporting, setIsExporting] = useState(false);
+  const { showToast } = useToast();
+
+  /**
+   * Export the URLs matching a filter
+   * @param filter - Current URL filter; search, status and sort are kept, paging is not
+   * @param options - Format, columns and date format
+   * @returns Whether the file was downloaded
+   */
+  const exportUrls = useCallback(
+    async (filter: Partial<UrlFilter>, options: UrlExportOptions) => {
+      setIsExporting(true);
+
+      try {
+        const urls = await fetchAllUrls(filter);
+        if (urls.length === 0) {
+          showToast("No URLs match the current filters", "info", 3000);
+          return false;
+        }
+
+        const { content, filename, mimeType } = buildUrlExportFile(
+          urls,
+          options
+        );
+        downloadTextFile(content, filename, mimeType);
+        showToast(
+          `${urls.length} URL${urls.length === 1 ? "" : "s"} exported`,
+          "success",
+          2000
+        );
+        return true;
+      } catch (err) {
+        showToast(toApiError(err).message, "error", 5000);
+        return false;
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [showToast]
+  );
+
+  return { exportUrls, isExporting };
+};
+
+export default useUrlExport;
@@ -0,0 +1,235 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  UrlImportField,
+  UrlImportProgress,
+  UrlImportRow,
+} from "@/interfaces/urlImport";
+import { URL_IMPORT_LIMITS } from "@/config/urlImport";
+import { URL_FORM_FIELD_MAP } from "@/config/url";
+import { useCreateUrl } from "@/hooks/url/useCreateUrl";
+import { toApiError } from "@/utils/apiErrors";
+import { downloadTextFile } from "@/utils/csv";
+import {
+  buildUrlImportErrorReport,
+  parseUrlImportFile,
+  UrlImportFileError,
+} from "@/utils/urlImport";
+
+/**
+ * Wait between two batches
+ * @param ms - Delay in milliseconds
+ * @returns Promise resolved after the delay
+ */
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Bulk URL Import Hook
+ * @description Reads a CSV file into validated rows, then creates the valid ones in throttled
+ * batches, tracked with the "bulk_import" creation method. Failed rows keep their server error
+ * and can be retried or downloaded as a report.
+ * @returns Import rows, progress and actions
+ */
+export const useUrlImport = () => {
+  const [rows, setRows] = useState<UrlImportRow[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<UrlImportProgress>({
+    completed: 0,
+    total: 0,
+  });
+  const { createUrl } = useCreateUrl();
+
+  // Set to stop the import after the current batch
+  const isCancelledRef = useRef(false);
+
+  // Stop importing when the component unmounts
+  useEffect(() => {
+    return () => {
+      isCancelledRef.current = true;
+    };
+  }, []);
+
+  /**
+   * Update one row by its number
+   * @param rowNumber - Number of the row
+   * @param changes - Fields to change
+   */
+  const updateRow = useCallback(
+    (rowNumber: number, changes: Partial<UrlImportRow>) => {
+      setRows((prev) =>
+        prev.map((row) =>
+          row.rowNumber === rowNumber ? { ...row, ...changes } : row
+        )
+      );
+    },
+    []
+  );
+
+  /**
+   * Read and validate a CSV file
+   * @param file - File picked by the user
+   */
+  const loadFile = useCallback(async (file: File) => {
+    setFileName(file.name);
+    setFileError(null);
+    setRows([]);
+    setProgress({ completed: 0, total: 0 });
+
+    if (file.size > URL_IMPORT_LIMITS.MAX_FILE_SIZE) {
+      setFileError(
+        `The file is larger than ${URL_IMPORT_LIMITS.MAX_FILE_SIZE / 1024 / 1024} MB`
+      );
+      return;
+    }
+
+    try {
+      setRows(parseUrlImportFile(await file.text()));
+    } catch (err) {
+      setFileError(
+        err instanceof UrlImportFileError
+          ? err.message
+          : "The file could not be read as CSV"
+      );
+    }
+  }, []);
+
+  /**
+   * Create the URL of one row and record the outcome
+   * @param row - Row to create
+   */
+  const createRow = useCallback(
+    async (row: UrlImportRow) => {
+      updateRow(row.rowNumber, {
+        status: "creating",
+        errors: {},
+        error: undefined,
+      });
+
+      try {
+        const response = await createUrl(row.data, "bulk_import");
+        updateRow(row.rowNumber, {
+          status: "created",
+          shortUrl: response.data.short_url,
+        });
+      } catch (err) {
+        const apiError = toApiError(err);
+        const errors: Partial<Record<UrlImportField, string>> = {};
+
+        Object.entries(apiError.fieldErrors).forEach(([field, message]) => {
+          const formField =
+            URL_FORM_FIELD_MAP[field as keyof typeof URL_FORM_FIELD_MAP];
+          if (formField) errors[formField] = message;
+        });
+
+        updateRow(row.rowNumber, {
+          status: "failed",
+          errors,
+          error: Object.keys(errors).length > 0 ? undefined : apiError.message,
+        });
+      } finally {
+        setProgress((prev) => ({ ...prev, completed: prev.completed + 1 }));
+      }
+    },
+    [createUrl, updateRow]
+  );
+
+  /**
+   * Create the given rows in throttled batches
+   * @param rowsToCreate - Rows to send
+   */
+  const runImport = useCallback(
+    async (rowsToCreate: UrlImportRow[]) => {
+      if (rowsToCreate.length === 0) return;
+
+      isCancelledRef.current = false;
+      setIsImporting(true);
+      setProgress({ completed: 0, total: rowsToCreate.length });
+
+      for (let i = 0; i < rowsToCreate.length; i += URL_IMPORT_LIMITS.BATCH_SIZE) {
+        if (isCancelledRef.current) break;
+        if (i > 0) await wait(URL_IMPORT_LIMITS.BATCH_DELAY);
+
+        await Promise.all(
+          rowsToCreate
+            .slice(i, i + URL_IMPORT_LIMITS.BATCH_SIZE)
+            .map((row) => createRow(row))
+        );
+      }
+
+      setIsImporting(false);
+    },
+    [createRow]
+  );
+
+  /**
+   * Create every valid row that was not created yet
+   */
+  const startImport = useCallback(
+    () => runImport(rows.filter((row) => row.status === "ready")),
+    [rows, runImport]
+  );
+
+  /**
+   * Send the rows the server rejected again
+   */
+  const retryFailed = useCallback(
+    () => runImport(rows.filter((row) => row.status === "failed")),
+    [rows, runImport]
+  );
+
+  /**
+   * Stop the import once the current batch is done
+   */
+  const cancelImport = useCallback(() => {
+    isCancelledRef.current = true;
+  }, []);
+
+  /**
+   * Download the invalid and failed rows with their errors as CSV
+   */
+  const downloadErrorReport = useCallback(() => {
+    const baseName = fileName?.replace(/\.csv$/i, "") || "urls";
+    downloadTextFile(
+      buildUrlImportErrorReport(rows),
+      `${baseName}-import-errors.csv`
+    );
+  }, [fileName, rows]);
+
+  /**
+   * Forget the loaded file and its rows
+   */
+  const reset = useCallback(() => {
+    isCancelledRef.current = true;
+    setRows([]);
+    setFileName(null);
+    setFileError(null);
+    setProgress({ completed: 0, total: 0 });
+  }, []);
+
+  const countByStatus = (status: UrlImportRow["status"]) =>
+    rows.filter((row) => row.status === status).length;
+
+  return {
+    rows,
+    fileName,
+    fileError,
+    isImporting,
+    progress,
+    counts: {
+      total: rows.length,
+      invalid: countByStatus("invalid"),
+      ready: countByStatus("ready"),
+      created: countByStatus("created"),
+      failed: countByStatus("failed"),
+    },
+    loadFile,
+    startImport,
+    retryFailed,
+    cancelImport,
+    downloadErrorReport,
+    reset,
+  };
+};
+
+export default useUrlImport;
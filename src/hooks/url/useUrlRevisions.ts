@@ -0,0 +1,72 @@
+import { useCallback, useState } from "react";
+import type { Url } from "@/interfaces/url";
+import type { UrlRevision } from "@/interfaces/urlRevision";
+import { fetchUrlRevisions, restoreUrlRevision } from "@/services/url";
+import { createQueryKey } from "@/services/queryCache";
+import { useQuery } from "@/hooks/useQuery";
+import { useConversionTracking } from "@/hooks/useConversionTracking";
+
+/**
+ * URL Revisions Hook
+ * @description Reads the revisions of a URL through the shared query cache and restores the values
+ * a revision replaced
+ * @param urlId - ID of the URL
+ * @returns Revisions, loading state, error and the restore action
+ */
+export const useUrlRevisions = (urlId: number) => {
+  const { data, isLoading, error } = useQuery(
+    createQueryKey(`/api/v1/urls/${urlId}/revisions`),
+    () => fetchUrlRevisions(urlId)
+  );
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+  const { trackUrlEdit } = useConversionTracking();
+
+  /**
+   * Put back the values the URL had before a revision
+   * @param url - URL as currently saved
+   * @param revision - Revision to undo
+   * @returns The API response
+   * @throws {ApiError} If the values cannot be restored, e.g. when the short code was taken since
+   */
+  const restoreRevision = useCallback(
+    async (url: Url, revision: UrlRevision) => {
+      setRestoringId(revision.id);
+
+      const trackRestore = (success: boolean, revisionId?: number) =>
+        trackUrlEdit({
+          url_id: url.id,
+          url_title: url.title || "Untitled",
+          has_custom_code: !!url.short_code,
+          custom_code_length: url.short_code.length,
+          expiry_date: url.expiry_date || "",
+          original_url_length: url.original_url.length,
+          edit_method: "restore",
+          fields_modified: revision.changes.map((change) => change.field),
+          success,
+          revision_id: revisionId,
+        });
+
+      try {
+        const response = await restoreUrlRevision(url.id, revision);
+        trackRestore(true, response.data.revision_id);
+        return response;
+      } catch (error) {
+        trackRestore(false);
+        throw error;
+      } finally {
+        setRestoringId(null);
+      }
+    },
+    [trackUrlEdit]
+  );
+
+  return {
+    revisions: data?.data ?? [],
+    isLoading,
+    error,
+    restoringId,
+    restoreRevision,
+  };
+};
+
+export default useUrlRevisions;
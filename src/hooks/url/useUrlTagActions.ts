@@ -0,0 +1,98 @@
+import { useCallback, useState } from "react";
+import type { UrlTagChange } from "@/interfaces/url";
+import { deleteUrlTag, mergeUrlTags } from "@/services/url";
+import { useToast } from "@/contexts/ToastContext";
+import { toApiError } from "@/utils/apiErrors";
+import { normalizeTag } from "@/utils/urlTags";
+
+/**
+ * URL Tag Actions Hook
+ * @description Renames, merges and deletes tags across all the user's URLs. Each action is a
+ * single API request, so the URLs are either all updated or left as they were.
+ * @param onDone - Function to call once the URLs are updated
+ * @returns Tag actions and running state
+ */
+export const useUrlTagActions = (onDone?: () => void) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const { showToast } = useToast();
+
+  /**
+   * Run a tag change and report it
+   * @param change - Function sending the change
+   * @param doneLabel - Description of the change for the final toast, like "Tag renamed"
+   * @returns Whether the URLs were updated
+   */
+  const runTagChange = useCallback(
+    async (change: () => Promise<UrlTagChange>, doneLabel: string) => {
+      setIsRunning(true);
+
+      try {
+        const { updated } = await change();
+        showToast(
+          `${doneLabel} on ${updated} URL${updated === 1 ? "" : "s"}`,
+          "success",
+          3000
+        );
+
+        onDone?.();
+        return true;
+      } catch (error) {
+        showToast(toApiError(error).message, "error", 5000);
+        return false;
+      } finally {
+        setIsRunning(false);
+      }
+    },
+    [showToast, onDone]
+  );
+
+  /**
+   * Rename a tag on every URL
+   * @description Renaming to an existing tag merges both
+   * @param tag - Current tag name
+   * @param newName - New tag name
+   * @returns Whether the URLs were updated
+   */
+  const renameTag = useCallback(
+    (tag: string, newName: string) =>
+      runTagChange(
+        () => mergeUrlTags([tag], normalizeTag(newName)),
+        "Tag renamed"
+      ),
+    [runTagChange]
+  );
+
+  /**
+   * Merge several tags into one on every URL
+   * @param tags - Tags to merge
+   * @param target - Tag they are merged into, one of them or a new one
+   * @returns Whether the URLs were updated
+   */
+  const mergeTags = useCallback(
+    (tags: string[], target: string) =>
+      runTagChange(
+        () => mergeUrlTags(tags, normalizeTag(target)),
+        "Tags merged"
+      ),
+    [runTagChange]
+  );
+
+  /**
+   * Remove a tag from every URL
+   * @param tag - Tag to delete
+   * @returns Whether the URLs were updated
+   */
+  const deleteTag = useCallback(
+    async (tag: string) => {
+      if (!window.confirm(`Remove the tag "${tag}" from every URL?`)) {
+        return false;
+      }
+      return runTagChange(() => deleteUrlTag(tag), "Tag deleted");
+    },
+    [runTagChange]
+  );
+
+  return { isRunning, renameTag, mergeTags, deleteTag };
+};
+
+export default useUrlTagActions;
@@ -0,0 +1,40 @@
+import { useCallback, useMemo } from "react";
+import { fetchUrlTags } from "@/services/url";
+import { createQueryKey } from "@/services/queryCache";
+import { useQuery } from "@/hooks/useQuery";
+
+/**
+ * Tags are only reloaded when a change may affect them, see URL_TAG_QUERY_PREFIXES
+ */
+const URL_TAGS_QUERY_KEY = createQueryKey("/api/v1/url-tags");
+
+/**
+ * URL Tags Hook
+ * @description Reads the tags used on the user's URLs through the shared query cache
+ * @param enabled - Set to false to skip loading, for example while a modal is closed
+ * @returns Tags with their URL count, tag names, loading state and refresh function
+ */
+export const useUrlTags = (enabled: boolean = true) => {
+  const { data, isLoading, error, refetch } = useQuery(
+    URL_TAGS_QUERY_KEY,
+    fetchUrlTags,
+    { enabled }
+  );
+
+  const tagNames = useMemo(() => (data ?? []).map((tag) => tag.name), [data]);
+
+  /**
+   * Reload the tags from the API
+   */
+  const refreshTags = useCallback(() => refetch(), [refetch]);
+
+  return {
+    tags: data ?? [],
+    tagNames,
+    isLoading,
+    error,
+    refreshTags,
+  };
+};
+
+export default useUrlTags;
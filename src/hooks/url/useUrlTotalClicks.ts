@@ -1,15 +1,15 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef, useMemo } from "react";
-import { get } from "@/services/api";
+import { getValidated } from "@/services/api";
+import { urlTotalClicksResponseSchema } from "@/schemas/urlTotalClicks";
 import {
   UrlTotalClicksData,
   UrlTotalClicksParams,
-  UrlTotalClicksResponse,
 } from "@/interfaces/urlTotalClicks";
 import { ChartDataPoint } from "@/interfaces/dashboard";
 import AuthService from "@/services/auth";
-import { AxiosError } from "axios";
+import { isApiError } from "@/utils/apiErrors";
 
 interface UseUrlTotalClicksReturn {
   data: UrlTotalClicksData | null;
@@ -218,7 +218,10 @@ export const useUrlTotalClicks = (
           queryString ? `?${queryString}` : ""
         }`;
 
-        const response = await get<UrlTotalClicksResponse>(endpoint);
+        const response = await getValidated(
+          endpoint,
+          urlTotalClicksResponseSchema
+        );
 
         // Check if the effect instance is still current
         if (
@@ -251,13 +254,10 @@ export const useUrlTotalClicks = (
       } catch (err) {
         // Handle authentication errors specifically
         let errorMessage = "Failed to fetch URL total clicks";
-        if (err && typeof err === "object" && "response" in err) {
-          const axiosError = err as AxiosError;
-          if (axiosError.response?.status === 401) {
-            errorMessage = "Authentication failed. Please log in again.";
-            // Clear tokens on 401 error
-            AuthService.clearTokens();
-          }
+        if (isApiError(err) && err.kind === "auth") {
+          errorMessage = "Authentication failed. Please log in again.";
+          // Clear tokens on 401 error
+          AuthService.clearTokens();
         }
 
         setApiResponse((prev) => ({
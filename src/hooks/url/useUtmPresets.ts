@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useState } from "react";
+import type { UtmParams, UtmPreset } from "@/interfaces/utm";
+import { UTM_PRESET_LIMITS, UTM_PRESETS_STORAGE_KEY } from "@/config/utm";
+import logger from "@/utils/logger";
+
+/**
+ * Read the presets saved in this browser
+ * @returns Saved presets, or none
+ */
+const readPresets = (): UtmPreset[] => {
+  try {
+    const stored = localStorage.getItem(UTM_PRESETS_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as UtmPreset[]) : [];
+  } catch (error) {
+    logger.error("Failed to read UTM presets", error);
+    return [];
+  }
+};
+
+/**
+ * Save the presets in this browser
+ * @param presets - Presets to save
+ */
+const savePresets = (presets: UtmPreset[]) => {
+  try {
+    localStorage.setItem(UTM_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    logger.error("Failed to save UTM presets", error);
+  }
+};
+
+/**
+ * UTM Presets Hook
+ * @description Keeps the reusable UTM presets of the user in local storage. Saving a preset
+ * under an existing name replaces it, new names are ignored once the preset limit is reached.
+ * @returns Presets with save and delete actions
+ */
+export const useUtmPresets = () => {
+  const [presets, setPresets] = useState<UtmPreset[]>([]);
+
+  // Local storage is only available in the browser
+  useEffect(() => {
+    setPresets(readPresets());
+  }, []);
+
+  const updatePresets = useCallback(
+    (update: (current: UtmPreset[]) => UtmPreset[]) => {
+      const next = update(readPresets());
+      savePresets(next);
+      setPresets(next);
+    },
+    []
+  );
+
+  /**
+   * Save parameters as a preset
+   * @param name - Preset name
+   * @param params - Parameters of the preset
+   */
+  const savePreset = useCallback(
+    (name: string, params: UtmParams) => {
+      const trimmedName = name
+        .trim()
+        .slice(0, UTM_PRESET_LIMITS.NAME_MAX_LENGTH);
+      if (!trimmedName) return;
+
+      updatePresets((current) => {
+        const others = current.filter(
+          (preset) => preset.name.toLowerCase() !== trimmedName.toLowerCase()
+        );
+        if (others.length >= UTM_PRESET_LIMITS.MAX_PRESETS) return current;
+
+        const preset: UtmPreset = {
+          id: `utm-${Date.now().toString(36)}`,
+          name: trimmedName,
+          params,
+        };
+
+        return [...others, preset].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        );
+      });
+    },
+    [updatePresets]
+  );
+
+  /**
+   * Delete a preset
+   * @param id - ID of the preset
+   */
+  const deletePreset = useCallback(
+    (id: string) => {
+      updatePresets((current) => current.filter((preset) => preset.id !== id));
+    },
+    [updatePresets]
+  );
+
+  return { presets, savePreset, deletePreset };
+};
+
+export default useUtmPresets;
@@ -1,64 +1,69 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useEffect, useCallback } from "react";
+import { UrlFilter } from "@/interfaces/url";
 import { fetchUrls } from "@/services/url";
+import { createQueryKey } from "@/services/queryCache";
+import { useQuery } from "@/hooks/useQuery";
 
 /**
- * @description Fetches URLs with status=active to get accurate count for dashboard stats
- * @returns Active URLs count, loading state, and refresh function
+ * Filter used to count active URLs
+ * @description We only need the total count, not the actual data
  */
-export const useActiveUrls = () => {
-  const [activeUrlsCount, setActiveUrlsCount] = useState<number>(0);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [error, setError] = useState<Error | null>(null);
+const ACTIVE_URLS_FILTER: UrlFilter = {
+  status: "active",
+  page: 1,
+  limit: 1,
+  sortBy: "created_at",
+  sortOrder: "desc",
+};
 
-  /**
-   * Fetch active URLs count from API
-   */
-  const fetchActiveUrlsCount = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
+const ACTIVE_URLS_QUERY_KEY = createQueryKey(
+  "/api/v1/urls",
+  ACTIVE_URLS_FILTER
+);
 
-    try {
-      // Fetch URLs with active status filter
-      const response = await fetchUrls({
-        status: "active",
-        page: 1,
-        limit: 1, // We only need the total count, not the actual data
-        sortBy: "created_at",
-        sortOrder: "desc",
-      });
+/**
+ * Fetch active URLs count from API
+ * @returns Number of active URLs
+ */
+const fetchActiveUrlsCount = async (): Promise<number> => {
+  // Fetch URLs with active status filter
+  const response = await fetchUrls(ACTIVE_URLS_FILTER);
 
-      if (response?.pagination?.total !== undefined) {
-        setActiveUrlsCount(response.pagination.total);
-      } else {
-        console.error("Unexpected API response structure:", response);
-        setError(new Error("Failed to get active URLs count"));
-      }
-    } catch (err) {
-      setError(
-        err instanceof Error ? err : new Error("Failed to fetch active URLs")
-      );
-      console.error("Failed to fetch active URLs:", err);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+  if (response?.pagination?.total !== undefined) {
+    return response.pagination.total;
+  }
+
+  console.error("Unexpected API response structure:", response);
+  throw new Error("Failed to get active URLs count");
+};
+
+/**
+ * @description Fetches URLs with status=active to get accurate count for dashboard stats
+ * @returns Active URLs count, loading state, and refresh function
+ */
+export const useActiveUrls = () => {
+  const { data, isLoading, error, refetch } = useQuery(
+    ACTIVE_URLS_QUERY_KEY,
+    fetchActiveUrlsCount
+  );
 
-  // Fetch active URLs count on mount
   useEffect(() => {
-    fetchActiveUrlsCount();
-  }, [fetchActiveUrlsCount]);
+    if (error) {
+      console.error("Failed to fetch active URLs:", error);
+    }
+  }, [error]);
 
   /**
    * Manually refresh active URLs count
    */
   const refreshActiveUrls = useCallback(() => {
-    return fetchActiveUrlsCount();
-  }, [fetchActiveUrlsCount]);
+    return refetch();
+  }, [refetch]);
 
   return {
-    activeUrlsCount,
+    activeUrlsCount: data ?? 0,
     isLoading,
     error,
     refreshActiveUrls,
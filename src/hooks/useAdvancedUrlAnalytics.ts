@@ -1,11 +1,13 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
-import { get } from "@/services/api";
+import { useState, useEffect, useCallback } from "react";
+import { getValidated } from "@/services/api";
+import { urlAnalyticsResponseSchema } from "@/schemas/urlAnalytics";
+import { isCancelledError } from "@/utils/apiErrors";
+import { useLatestRequest } from "./useLatestRequest";
 import {
   UrlAnalyticsData,
   UrlAnalyticsParams,
-  UrlAnalyticsResponse,
 } from "@/interfaces/urlAnalytics";
 
 interface UseAdvancedUrlAnalyticsParams extends UrlAnalyticsParams {
@@ -58,14 +60,14 @@ export const useAdvancedUrlAnalytics = ({
     limit,
   });
 
-  // Use ref to track if component is mounted
-  const isMountedRef = useRef<boolean>(true);
+  // Only the latest analytics request is kept, older ones are cancelled
+  const { startRequest } = useLatestRequest();
 
   /**
    * Validate if we should proceed with the API call
    */
   const shouldFetch = useCallback((): boolean => {
-    if (!urlId || !isMountedRef.current) return false;
+    if (!urlId) return false;
 
     // Don't fetch if custom comparison is selected but dates are missing
     if (
@@ -133,6 +135,7 @@ export const useAdvancedUrlAnalytics = ({
   const fetchAnalyticsData = useCallback(async () => {
     if (!shouldFetch()) return;
 
+    const signal = startRequest();
     setIsLoading(true);
     setError(null);
 
@@ -143,13 +146,15 @@ export const useAdvancedUrlAnalytics = ({
         queryString ? `?${queryString}` : ""
       }`;
 
-      const response = await get<UrlAnalyticsResponse>(endpoint);
+      const response = await getValidated(endpoint, urlAnalyticsResponseSchema, {
+        signal,
+      });
 
-      if (isMountedRef.current) {
+      if (!signal.aborted) {
         setAnalyticsData(response.data);
       }
     } catch (err) {
-      if (isMountedRef.current) {
+      if (!signal.aborted && !isCancelledError(err)) {
         const error =
           err instanceof Error
             ? err
@@ -158,11 +163,11 @@ export const useAdvancedUrlAnalytics = ({
         console.error("Failed to fetch URL analytics:", err);
       }
     } finally {
-      if (isMountedRef.current) {
+      if (!signal.aborted) {
         setIsLoading(false);
       }
     }
-  }, [urlId, shouldFetch, buildQueryParams]);
+  }, [urlId, shouldFetch, buildQueryParams, startRequest]);
 
   /**
    * Update analytics parameters and optionally refetch
@@ -188,13 +193,6 @@ export const useAdvancedUrlAnalytics = ({
     }
   }, [fetchAnalyticsData, autoFetch]);
 
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      isMountedRef.current = false;
-    };
-  }, []);
-
   return {
     analyticsData,
     isLoading,
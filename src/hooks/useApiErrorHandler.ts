@@ -0,0 +1,82 @@
+"use client";
+
+import { useCallback } from "react";
+import type { FieldValues, Path, UseFormSetError } from "react-hook-form";
+import { useToast } from "@/contexts/ToastContext";
+import {
+  ApiError,
+  ApiErrorKind,
+  getApiErrorMessage,
+  isCancelledError,
+  isSessionExpiredError,
+  setApiFieldErrors,
+  toApiError,
+} from "@/utils/apiErrors";
+import logger from "@/utils/logger";
+
+/**
+ * Options for handling an API error
+ * @interface HandleApiErrorOptions
+ */
+export interface HandleApiErrorOptions<TFieldValues extends FieldValues> {
+  /** setError function of the form, used to show server-side field errors */
+  setError?: UseFormSetError<TFieldValues>;
+  /** Form field of each backend field whose name differs */
+  fieldMap?: Partial<Record<string, Path<TFieldValues>>>;
+  /** Context-specific messages per error kind */
+  messages?: Partial<Record<ApiErrorKind, string>>;
+  /** Toast duration in milliseconds */
+  duration?: number;
+  /** Skip the toast, for callers that display the message themselves */
+  silent?: boolean;
+}
+
+/**
+ * Custom hook mapping API errors to toasts and form field errors
+ * @description Field errors are shown on the form when the backend reports them, otherwise a
+ * toast explains the failure. Expired sessions are skipped because the session expiry flow
+ * already notifies the user, and cancelled requests are ignored.
+ * @returns Function handling an error and returning it normalized
+ */
+export const useApiErrorHandler = () => {
+  const { showToast } = useToast();
+
+  const handleApiError = useCallback(
+    <TFieldValues extends FieldValues = FieldValues>(
+      error: unknown,
+      {
+        setError,
+        fieldMap,
+        messages,
+        duration = 5000,
+        silent = false,
+      }: HandleApiErrorOptions<TFieldValues> = {}
+    ): ApiError => {
+      const apiError = toApiError(error);
+
+      // Cancelled requests were superseded or abandoned on purpose, there is nothing to report
+      if (isCancelledError(apiError)) return apiError;
+
+      logger.warn(`API error (${apiError.kind})`, {
+        status: apiError.status,
+        endpoint: apiError.endpoint,
+        message: apiError.message,
+      });
+
+      const hasFieldErrors = setError
+        ? setApiFieldErrors(apiError, setError, fieldMap)
+        : false;
+
+      if (!silent && !hasFieldErrors && !isSessionExpiredError(apiError)) {
+        showToast(getApiErrorMessage(apiError, messages), "error", duration);
+      }
+
+      return apiError;
+    },
+    [showToast]
+  );
+
+  return { handleApiError };
+};
+
+export default useApiErrorHandler;
@@ -2,7 +2,7 @@ import { useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import AuthService from "@/services/auth";
 import { LoginRequest, User } from "@/interfaces/auth";
-import { AxiosError } from "axios";
+import { getApiErrorMessage } from "@/utils/apiErrors";
 import { useToast } from "@/contexts/ToastContext";
 
 /**
@@ -48,29 +48,14 @@ const useAuth = () => {
         router.push("/dashboard");
       } catch (err) {
         // Handle different error cases
-        const error = err as AxiosError;
-        let errorMessage =
-          "An error occurred during login. Please try again later.";
-
-        if (error.response) {
-          switch (error.response.status) {
-            case 400:
-              errorMessage =
-                "Invalid credentials. Please check your email and password.";
-              break;
-            case 401:
-              errorMessage =
-                "Your account is not verified. Please check your email for verification instructions.";
-              break;
-            case 404:
-              errorMessage =
-                "Account not found. Please check your email or register for a new account.";
-              break;
-          }
-        } else {
-          errorMessage =
-            "Network error. Please check your internet connection and try again.";
-        }
+        const errorMessage = getApiErrorMessage(err, {
+          validation:
+            "Invalid credentials. Please check your email and password.",
+          auth: "Your account is not verified. Please check your email for verification instructions.",
+          not_found:
+            "Account not found. Please check your email or register for a new account.",
+          server: "An error occurred during login. Please try again later.",
+        });
 
         setError(errorMessage);
         // Show error toast
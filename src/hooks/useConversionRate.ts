@@ -1,10 +1,12 @@
-import { useState, useEffect, useMemo } from "react";
+import { useEffect, useMemo } from "react";
 import {
   ConversionRateParams,
   ConversionRateResponse,
   ConversionDashboardStats,
 } from "@/interfaces/conversion";
 import { getConversionRate } from "@/services/conversion";
+import { createQueryKey } from "@/services/queryCache";
+import { useQuery } from "@/hooks/useQuery";
 
 /**
  * Custom hook for fetching and managing conversion rate data
@@ -12,16 +14,29 @@ import { getConversionRate } from "@/services/conversion";
  * @returns Object containing conversion rate data, loading state, error state, and refresh function
  */
 export const useConversionRate = (params?: ConversionRateParams) => {
-  const [data, setData] = useState<ConversionRateResponse | null>(null);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [error, setError] = useState<Error | null>(null);
-
   // Memoize parameters to prevent unnecessary re-renders
   const memoizedParams = useMemo(
     () => params,
     [params?.start_date, params?.end_date, params?.goal_id, params?.comparison]
   );
 
+  // Conversion rate data is read through the shared query cache
+  const { data, isLoading, error, refetch } = useQuery<ConversionRateResponse>(
+    createQueryKey("/api/v1/conversion-rate", memoizedParams),
+    () => getConversionRate(memoizedParams)
+  );
+
+  useEffect(() => {
+    if (error) {
+      console.error("Failed to fetch conversion rate data:", error);
+    }
+  }, [error]);
+
+  // Manual refresh function
+  const refreshConversionRate = () => {
+    refetch();
+  };
+
   // Processed stats for dashboard display
   const conversionStats: ConversionDashboardStats | null = useMemo(() => {
     if (!data) return null;
@@ -35,36 +50,6 @@ export const useConversionRate = (params?: ConversionRateParams) => {
     };
   }, [data]);
 
-  // Fetch conversion rate data
-  const fetchConversionRate = async () => {
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const response = await getConversionRate(memoizedParams);
-      setData(response);
-    } catch (err) {
-      setError(
-        err instanceof Error
-          ? err
-          : new Error("Failed to fetch conversion rate data")
-      );
-      console.error("Failed to fetch conversion rate data:", err);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Fetch data when parameters change
-  useEffect(() => {
-    fetchConversionRate();
-  }, [memoizedParams]);
-
-  // Manual refresh function
-  const refreshConversionRate = () => {
-    fetchConversionRate();
-  };
-
   return {
     data,
     conversionStats,
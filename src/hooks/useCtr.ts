@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
-import { get } from "@/services/api";
+import { getValidated } from "@/services/api";
+import { ctrStatsResponseSchema } from "@/schemas/url";
 import { CtrStatsResponse, CtrStatsParams } from "@/interfaces/url";
 
 /**
@@ -105,7 +106,7 @@ export const useCtrStats = (params?: CtrStatsParams) => {
         console.log(`Fetching CTR statistics data from: ${endpoint}`);
       }
 
-      const response = await get<CtrStatsResponse>(endpoint);
+      const response = await getValidated(endpoint, ctrStatsResponseSchema);
 
       if (process.env.NODE_ENV === "development") {
         console.log("CTR statistics data response:", response);
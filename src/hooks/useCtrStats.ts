@@ -1,5 +1,7 @@
-import { useState, useEffect, useCallback } from "react";
-import { get } from "@/services/api";
+import { useEffect } from "react";
+import { getValidated } from "@/services/api";
+import { ctrStatsResponseSchema } from "@/schemas/url";
+import { useQuery } from "@/hooks/useQuery";
 
 // API endpoint
 const CTR_STATS_ENDPOINT = "/api/v1/ctr/stats";
@@ -79,205 +81,206 @@ export interface CtrStatsParams {
 }
 
 /**
- * Custom hook for fetching and managing CTR statistics
- * @param params - Optional parameters for the CTR stats API
- * @returns Object containing CTR stats data, loading state, error state, and refresh function
+ * Mock CTR stats shown when the API request fails
  */
-export const useCtrStats = (params?: CtrStatsParams) => {
-  const [ctrStats, setCtrStats] = useState<CtrStatsResponse | null>(null);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [error, setError] = useState<Error | null>(null);
+const MOCK_CTR_STATS: CtrStatsResponse = {
+  status: 200,
+  message: "Mock CTR stats data",
+  data: {
+    overall: {
+      total_impressions: "1245",
+      total_clicks: "189",
+      ctr: "15.18",
+      unique_impressions: "985",
+      unique_ctr: "12.08",
+      analysis_period: {
+        start_date: "2023-09-01",
+        end_date: "2023-09-30",
+        days: 30,
+      },
+    },
+    top_performing_days: [
+      {
+        date: "2023-09-12",
+        impressions: "98",
+        clicks: "24",
+        ctr: "24.49",
+      },
+      {
+        date: "2023-09-15",
+        impressions: "112",
+        clicks: "19",
+        ctr: "16.96",
+      },
+      {
+        date: "2023-09-08",
+        impressions: "76",
+        clicks: "12",
+        ctr: "15.79",
+      },
+    ],
+    ctr_by_source: [
+      {
+        source: "Twitter",
+        impressions: "345",
+        clicks: "78",
+        ctr: "22.61",
+      },
+      {
+        source: "LinkedIn",
+        impressions: "289",
+        clicks: "42",
+        ctr: "14.53",
+      },
+      {
+        source: "Direct",
+        impressions: "201",
+        clicks: "25",
+        ctr: "12.44",
+      },
+      {
+        source: "Facebook",
+        impressions: "243",
+        clicks: "29",
+        ctr: "11.93",
+      },
+      {
+        source: "Email",
+        impressions: "167",
+        clicks: "15",
+        ctr: "8.98",
+      },
+    ],
+  },
+};
 
-  const fetchCtrStats = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
+/**
+ * Fetch CTR statistics from the API
+ * @param endpoint - CTR stats endpoint including query string
+ * @param params - CTR stats parameters
+ * @returns CTR stats response
+ */
+const fetchCtrStats = async (
+  endpoint: string,
+  params?: CtrStatsParams
+): Promise<CtrStatsResponse> => {
+  // Use the API service which automatically handles authentication
+  const responseData: CtrStatsResponse = await getValidated(
+    endpoint,
+    ctrStatsResponseSchema
+  );
 
-    try {
-      // Use the API service which automatically handles authentication
-      const queryString = params?.comparison
-        ? `?comparison=${params.comparison}`
-        : "";
-      const endpoint = `${CTR_STATS_ENDPOINT}${queryString}`;
+  // Karena API tidak mendukung parameter comparison, kita akan menambahkan data mock saat parameter comparison ada
+  if (params?.comparison && responseData.data?.overall) {
+    const currentCtr = parseFloat(responseData.data.overall.ctr);
+    const mockPreviousCtr = currentCtr * (Math.random() < 0.5 ? 0.8 : 1.2); // Random previous CTR (±20%)
+    const change = currentCtr - mockPreviousCtr;
+    const changePct = (change / mockPreviousCtr) * 100;
 
-      const responseData = await get<CtrStatsResponse>(endpoint);
+    const currentClicks = parseFloat(
+      responseData.data.overall.total_clicks
+    );
+    const currentImpressions = parseFloat(
+      responseData.data.overall.total_impressions
+    );
+    const mockPreviousClicks = currentClicks * 0.85; // 15% fewer clicks in previous period
+    const mockPreviousImpressions = currentImpressions * 0.9; // 10% fewer impressions
 
-      // Karena API tidak mendukung parameter comparison, kita akan menambahkan data mock saat parameter comparison ada
-      if (params?.comparison && responseData.data?.overall) {
-        const currentCtr = parseFloat(responseData.data.overall.ctr);
-        const mockPreviousCtr = currentCtr * (Math.random() < 0.5 ? 0.8 : 1.2); // Random previous CTR (±20%)
-        const change = currentCtr - mockPreviousCtr;
-        const changePct = (change / mockPreviousCtr) * 100;
+    // Determine period days based on requested period
+    let periodDays = 30; // Default
+    if (params.comparison === "7") {
+      periodDays = 7;
+    } else if (params.comparison === "14") {
+      periodDays = 14;
+    } else if (params.comparison === "30") {
+      periodDays = 30;
+    } else if (params.comparison === "90") {
+      periodDays = 90;
+    }
 
-        const currentClicks = parseFloat(
-          responseData.data.overall.total_clicks
-        );
-        const currentImpressions = parseFloat(
-          responseData.data.overall.total_impressions
-        );
-        const mockPreviousClicks = currentClicks * 0.85; // 15% fewer clicks in previous period
-        const mockPreviousImpressions = currentImpressions * 0.9; // 10% fewer impressions
+    // Calculate dates for previous period
+    const endDate = new Date(
+      responseData.data.overall.analysis_period.end_date
+    );
+    const startDate = new Date(
+      responseData.data.overall.analysis_period.start_date
+    );
+    const periodLength =
+      (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
 
-        // Determine period days based on requested period
-        let periodDays = 30; // Default
-        if (params.comparison === "7") {
-          periodDays = 7;
-        } else if (params.comparison === "14") {
-          periodDays = 14;
-        } else if (params.comparison === "30") {
-          periodDays = 30;
-        } else if (params.comparison === "90") {
-          periodDays = 90;
-        }
+    const previousEndDate = new Date(startDate);
+    previousEndDate.setDate(previousEndDate.getDate() - 1);
+    const previousStartDate = new Date(previousEndDate);
+    previousStartDate.setDate(
+      previousStartDate.getDate() - Math.round(periodLength)
+    );
 
-        // Calculate dates for previous period
-        const endDate = new Date(
-          responseData.data.overall.analysis_period.end_date
-        );
-        const startDate = new Date(
-          responseData.data.overall.analysis_period.start_date
-        );
-        const periodLength =
-          (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
+    // Add mock comparison data
+    responseData.data.comparison = {
+      period_days: periodDays,
+      previous_period: {
+        start_date: previousStartDate.toISOString().split("T")[0],
+        end_date: previousEndDate.toISOString().split("T")[0],
+      },
+      metrics: {
+        impressions: {
+          current: currentImpressions.toString(),
+          previous: mockPreviousImpressions.toString(),
+          change: currentImpressions - mockPreviousImpressions,
+          change_percentage:
+            ((currentImpressions - mockPreviousImpressions) /
+              mockPreviousImpressions) *
+            100,
+        },
+        clicks: {
+          current: currentClicks.toString(),
+          previous: mockPreviousClicks.toString(),
+          change: currentClicks - mockPreviousClicks,
+          change_percentage:
+            ((currentClicks - mockPreviousClicks) / mockPreviousClicks) *
+            100,
+        },
+        ctr: {
+          current: currentCtr.toFixed(2),
+          previous: mockPreviousCtr.toFixed(2),
+          change: change,
+          change_percentage: changePct,
+        },
+      },
+    };
+  }
 
-        const previousEndDate = new Date(startDate);
-        previousEndDate.setDate(previousEndDate.getDate() - 1);
-        const previousStartDate = new Date(previousEndDate);
-        previousStartDate.setDate(
-          previousStartDate.getDate() - Math.round(periodLength)
-        );
+  return responseData;
+};
 
-        // Add mock comparison data
-        responseData.data.comparison = {
-          period_days: periodDays,
-          previous_period: {
-            start_date: previousStartDate.toISOString().split("T")[0],
-            end_date: previousEndDate.toISOString().split("T")[0],
-          },
-          metrics: {
-            impressions: {
-              current: currentImpressions.toString(),
-              previous: mockPreviousImpressions.toString(),
-              change: currentImpressions - mockPreviousImpressions,
-              change_percentage:
-                ((currentImpressions - mockPreviousImpressions) /
-                  mockPreviousImpressions) *
-                100,
-            },
-            clicks: {
-              current: currentClicks.toString(),
-              previous: mockPreviousClicks.toString(),
-              change: currentClicks - mockPreviousClicks,
-              change_percentage:
-                ((currentClicks - mockPreviousClicks) / mockPreviousClicks) *
-                100,
-            },
-            ctr: {
-              current: currentCtr.toFixed(2),
-              previous: mockPreviousCtr.toFixed(2),
-              change: change,
-              change_percentage: changePct,
-            },
-          },
-        };
-      }
+/**
+ * Custom hook for fetching and managing CTR statistics
+ * @description Reads through the shared query cache, so repeated mounts reuse the same request
+ * @param params - Optional parameters for the CTR stats API
+ * @returns Object containing CTR stats data, loading state, error state, and refresh function
+ */
+export const useCtrStats = (params?: CtrStatsParams) => {
+  const queryString = params?.comparison
+    ? `?comparison=${params.comparison}`
+    : "";
+  const endpoint = `${CTR_STATS_ENDPOINT}${queryString}`;
 
-      setCtrStats(responseData);
-    } catch (err) {
-      console.error("Error fetching CTR stats:", err);
-      setError(err instanceof Error ? err : new Error(String(err)));
+  const { data, isLoading, error, refetch } = useQuery(endpoint, () =>
+    fetchCtrStats(endpoint, params)
+  );
 
-      // Return mock data in case of error
-      setCtrStats({
-        status: 200,
-        message: "Mock CTR stats data",
-        data: {
-          overall: {
-            total_impressions: "1245",
-            total_clicks: "189",
-            ctr: "15.18",
-            unique_impressions: "985",
-            unique_ctr: "12.08",
-            analysis_period: {
-              start_date: "2023-09-01",
-              end_date: "2023-09-30",
-              days: 30,
-            },
-          },
-          top_performing_days: [
-            {
-              date: "2023-09-12",
-              impressions: "98",
-              clicks: "24",
-              ctr: "24.49",
-            },
-            {
-              date: "2023-09-15",
-              impressions: "112",
-              clicks: "19",
-              ctr: "16.96",
-            },
-            {
-              date: "2023-09-08",
-              impressions: "76",
-              clicks: "12",
-              ctr: "15.79",
-            },
-          ],
-          ctr_by_source: [
-            {
-              source: "Twitter",
-              impressions: "345",
-              clicks: "78",
-              ctr: "22.61",
-            },
-            {
-              source: "LinkedIn",
-              impressions: "289",
-              clicks: "42",
-              ctr: "14.53",
-            },
-            {
-              source: "Direct",
-              impressions: "201",
-              clicks: "25",
-              ctr: "12.44",
-            },
-            {
-              source: "Facebook",
-              impressions: "243",
-              clicks: "29",
-              ctr: "11.93",
-            },
-            {
-              source: "Email",
-              impressions: "167",
-              clicks: "15",
-              ctr: "8.98",
-            },
-          ],
-        },
-      });
-    } finally {
-      setIsLoading(false);
+  useEffect(() => {
+    if (error) {
+      console.error("Error fetching CTR stats:", error);
     }
-  }, [params]);
+  }, [error]);
 
-  // Fetch data on initial load and when params change
-  useEffect(() => {
-    fetchCtrStats();
-  }, [
-    params?.period,
-    params?.comparison,
-    params?.start_date,
-    params?.end_date,
-    params?.custom_comparison_start,
-    params?.custom_comparison_end,
-    params?.group_by,
-  ]);
+  // Return mock data in case of error
+  const ctrStats = data ?? (error ? MOCK_CTR_STATS : null);
 
   // Manual refresh function
   const refreshCtrStats = () => {
-    fetchCtrStats();
+    refetch();
   };
 
   return {
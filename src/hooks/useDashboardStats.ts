@@ -13,7 +13,6 @@ export const useDashboardStats = () => {
   const [stats, setStats] = useState<ExtendedDashboardStats | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<Error | null>(null);
-  const [statsLoaded, setStatsLoaded] = useState<boolean>(false);
 
   // Memoize the parameters to prevent unnecessary re-renders
   const totalClicksParams = useMemo(() => ({ comparison: "30" } as const), []);
@@ -24,6 +23,7 @@ export const useDashboardStats = () => {
     totalUrls,
     isLoading: isTotalUrlsLoading,
     error: totalUrlsError,
+    refreshTotalUrls,
   } = useTotalUrls();
 
   // Use the totalClicks hook to get real total clicks data from API
@@ -31,6 +31,7 @@ export const useDashboardStats = () => {
     totalClicksData,
     isLoading: isTotalClicksLoading,
     error: totalClicksError,
+    refreshTotalClicks,
   } = useTotalClicks(totalClicksParams);
 
   // Use the conversionRate hook to get real conversion data from API
@@ -38,6 +39,7 @@ export const useDashboardStats = () => {
     conversionStats,
     isLoading: isConversionRateLoading,
     error: conversionRateError,
+    refreshConversionRate,
   } = useConversionRate(conversionRateParams);
 
   // Use the QR code stats hook to get real QR code data from API
@@ -45,6 +47,7 @@ export const useDashboardStats = () => {
     stats: qrCodeStats,
     isLoading: isQrCodeStatsLoading,
     error: qrCodeStatsError,
+    refreshStats: refreshQrCodeStats,
   } = useQrCodeStats();
 
   // Log the value of totalUrls for debugging
@@ -81,15 +84,8 @@ export const useDashboardStats = () => {
     }
   }, [qrCodeStats]);
 
+  // Rebuild stats whenever cached or revalidated source data changes
   useEffect(() => {
-    // Skip if we've already loaded stats and data hasn't changed
-    if (statsLoaded && stats && !isLoading) {
-      if (process.env.NODE_ENV === "development") {
-        console.log("Skipping fetchStats as stats are already loaded");
-      }
-      return;
-    }
-
     const fetchStats = async () => {
       setIsLoading(true);
       setError(null);
@@ -205,8 +201,6 @@ export const useDashboardStats = () => {
           urlsCreatedToday: mockStats.urlsCreatedToday,
         });
 
-        // Simulate API delay
-        await new Promise((resolve) => setTimeout(resolve, 800));
         console.log(
           "Setting stats with totalUrls:",
           mockStats.totalUrls,
@@ -214,7 +208,6 @@ export const useDashboardStats = () => {
           mockStats.totalClicks
         );
         setStats(mockStats);
-        setStatsLoaded(true);
       } catch (err) {
         setError(
           err instanceof Error
@@ -259,101 +252,28 @@ export const useDashboardStats = () => {
     isConversionRateLoading,
     qrCodeStats,
     isQrCodeStatsLoading,
-    stats,
-    isLoading,
-    statsLoaded,
   ]);
 
   /**
    * Refresh dashboard statistics
+   * @description Refetches every source query; stats are rebuilt once the new data arrives
    * @returns Promise that resolves when refresh is complete
    */
   const refreshStats = async () => {
-    setStatsLoaded(false); // Force a refresh by setting statsLoaded to false
-    setIsLoading(true);
     setError(null);
 
     try {
-      // Create stats using actual API data
-      const refreshedStats: ExtendedDashboardStats = {
-        // Use the real totalUrls from API
-        totalUrls: totalUrls ?? 0,
-
-        // Use real total clicks data from API if available
-        totalClicks:
-          totalClicksData?.summary?.total_clicks ?? stats?.totalClicks ?? 0,
-
-        // Use conversion rate from API if available
-        conversionRate:
-          conversionStats?.conversionRate ?? stats?.conversionRate ?? 0,
-
-        // Use real QR code stats from API if available
-        qrCodesGenerated: qrCodeStats.total ?? stats?.qrCodesGenerated ?? 0,
-
-        // Use real active URLs from API if available
-        activeUrls:
-          totalClicksData?.summary?.comparison?.active_urls?.current ??
-          stats?.activeUrls ??
-          0,
-
-        // Use real QR codes created today from API if available
-        urlsCreatedToday: 3,
-        qrCodesCreatedToday:
-          qrCodeStats.createdToday ?? stats?.qrCodesCreatedToday ?? 0,
-
-        // Use real average clicks data from API if available
-        averageClicksPerUrl:
-          totalClicksData?.summary?.avg_clicks_per_url ??
-          stats?.averageClicksPerUrl ??
-          0,
-
-        // Use existing most clicked URL data or create a placeholder
-        mostClickedUrl: stats?.mostClickedUrl ?? {
-          id: 1,
-          original_url: "https://example.com",
-          short_code: "demo123",
-          short_url: "cylink.co/demo123",
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          clicks: 0,
-          is_active: true,
-          user_id: 1,
-        },
-
-        // Add the extended total clicks data if available
-        totalClicksData: totalClicksData?.summary
-          ? {
-              avg_clicks_per_url:
-                parseFloat(
-                  String(totalClicksData.summary.avg_clicks_per_url)
-                ) || 0,
-              change_percentage:
-                totalClicksData.summary.comparison?.total_clicks
-                  ?.change_percentage ?? 0,
-            }
-          : undefined,
-
-        // Add the conversion data if available
-        conversionData: conversionStats
-          ? {
-              totalConversions: conversionStats.totalConversions,
-              changePercentage: conversionStats.conversionChangePercentage,
-              topClicksCount: conversionStats.topClicksCount,
-            }
-          : undefined,
-      };
-
-      // Simulate API delay
-      await new Promise((resolve) => setTimeout(resolve, 800));
-      setStats(refreshedStats);
-      setStatsLoaded(true);
+      await Promise.all([
+        refreshTotalUrls(),
+        refreshTotalClicks(),
+        refreshConversionRate(),
+        refreshQrCodeStats(),
+      ]);
     } catch (err) {
       setError(
         err instanceof Error ? err : new Error("Failed to refresh stats")
       );
       console.error("Failed to refresh stats:", err);
-    } finally {
-      setIsLoading(false);
     }
   };
 
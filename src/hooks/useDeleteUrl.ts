@@ -2,6 +2,7 @@
 
 import { useState, useCallback } from "react";
 import { useToast } from "@/contexts/ToastContext";
+import { useOutbox } from "@/contexts/OutboxContext";
 import { deleteUrlById } from "@/services/url";
 import { useConversionTracking } from "@/hooks/useConversionTracking";
 import { Url } from "@/interfaces/url";
@@ -16,9 +17,11 @@ export const useDeleteUrl = () => {
   const [error, setError] = useState<Error | null>(null);
   const { showToast } = useToast();
   const { trackUrlDeletion } = useConversionTracking();
+  const { runOrQueue } = useOutbox();
 
   /**
    * Delete a URL by ID
+   * @description While offline the deletion is queued and applied once the connection is back
    * @param id - ID of the URL to delete
    * @param urlData - URL data for tracking purposes
    * @returns Promise resolving to the success status
@@ -29,7 +32,17 @@ export const useDeleteUrl = () => {
       setError(null);
 
       try {
-        const response = await deleteUrlById(id);
+        const response = await runOrQueue(
+          {
+            type: "delete",
+            urlId: id,
+            shortCode: urlData?.short_code ?? String(id),
+          },
+          () => deleteUrlById(id)
+        );
+
+        // Queued for later, the outbox already told the user
+        if (!response) return true;
 
         // Track URL deletion conversion goal in PostHog
         if (urlData) {
@@ -80,7 +93,7 @@ export const useDeleteUrl = () => {
         setIsDeleting(false);
       }
     },
-    [showToast, trackUrlDeletion]
+    [showToast, trackUrlDeletion, runOrQueue]
   );
 
   return {
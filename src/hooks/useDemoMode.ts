@@ -0,0 +1,26 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { startDemoMode, endDemoMode } from "@/services/mockApi";
+
+/**
+ * Custom hook running the public demo while the component is mounted
+ * @description Requests are answered by the mock API from mount until unmount. Render the
+ * data-fetching children only once `isReady` is true, so their first requests already hit
+ * the mock API instead of the backend.
+ * @returns Whether demo mode is active
+ */
+export const useDemoMode = () => {
+  const [isReady, setIsReady] = useState<boolean>(false);
+
+  useEffect(() => {
+    startDemoMode();
+    setIsReady(true);
+
+    return () => {
+      endDemoMode();
+    };
+  }, []);
+
+  return { isReady };
+};
@@ -3,6 +3,8 @@ import { useState, useEffect, useCallback } from 'react'
 import { FeedbackItem, FeedbackFilter } from '@/interfaces/feedback'
 import { fetchFeedback, deleteFeedback } from '@/services/feedback'
 import { useToast } from '@/contexts/ToastContext'
+import { isApiContractError, isCancelledError } from '@/utils/apiErrors'
+import { useLatestRequest } from './useLatestRequest'
 /**
  * Custom hook for fetching and managing feedback items
  * @param initialFilter - Initial filter settings
@@ -28,30 +30,28 @@ export const useFeedback = (
     total_pages: 0
   })
   const { showToast } = useToast()
+  const { startRequest } = useLatestRequest()
   /**
    * Fetch feedback based on current filter
    */
   const fetchFeedbackData = useCallback(async () => {
+    // Cancel the previous fetch so a slower, older response cannot overwrite newer results
+    const signal = startRequest()
     setIsLoading(true)
     setError(null)
     try {
-      const response = await fetchFeedback(filter)
-      if (response?.data) {
-        setFeedback(response.data)
-        if (response.pagination) {
-          setPagination(response.pagination)
-        }
-      } else {
-        setError(new Error('Unexpected API response structure'))
-        setFeedback([])
-      }
+      const response = await fetchFeedback(filter, signal)
+      if (signal.aborted) return
+      setFeedback(response.data)
+      setPagination(response.pagination)
     } catch (err) {
+      if (signal.aborted || isCancelledError(err)) return
       setError(err instanceof Error ? err : new Error('Failed to fetch feedback'))
-      showToast('Failed to load feedback', 'error', 4000)
+      showToast(isApiContractError(err) ? err.message : 'Failed to load feedback', 'error', 4000)
     } finally {
-      setIsLoading(false)
+      if (!signal.aborted) setIsLoading(false)
     }
-  }, [filter, showToast])
+  }, [filter, showToast, startRequest])
   // Fetch feedback when filter changes
   useEffect(() => {
     fetchFeedbackData()
@@ -5,6 +5,7 @@ import { CreateFeedbackFormData, FeedbackItem } from '@/interfaces/feedback'
 import { createFeedback, searchSimilar } from '@/services/feedback'
 import { useToast } from '@/contexts/ToastContext'
 import logger from '@/utils/logger'
+import { toApiError } from '@/utils/apiErrors'
 
 /**
  * Custom hook for feedback submission
@@ -66,6 +67,7 @@ export const useFeedbackSubmission = () => {
    * Submit new feedback
    * @param data - Feedback form data
    * @param onSuccess - Callback on successful submission
+   * @throws ApiError so the form can show the failure next to its fields
    */
   const submitFeedback = useCallback(
     async (data: CreateFeedbackFormData, onSuccess?: (item: FeedbackItem) => void) => {
@@ -85,10 +87,8 @@ export const useFeedbackSubmission = () => {
 
         return response.data
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to submit feedback'
         logger.error('Feedback submission failed', { err })
-        showToast(errorMessage, 'error', 4000)
-        throw err
+        throw toApiError(err)
       } finally {
         setIsSubmitting(false)
       }
@@ -1,7 +1,7 @@
 import { useState, useCallback } from "react";
 import AuthService from "@/services/auth";
 import { ForgotPasswordRequest } from "@/interfaces/auth";
-import { AxiosError } from "axios";
+import { getApiErrorMessage, toApiError } from "@/utils/apiErrors";
 
 /**
  * Custom hook for forgot password functionality
@@ -38,31 +38,30 @@ const useForgotPassword = () => {
       );
     } catch (err) {
       // Handle different error cases
-      const error = err as AxiosError;
+      const apiError = toApiError(err);
 
-      if (error.response) {
-        switch (error.response.status) {
-          case 400:
-            setError("Please enter a valid email address.");
-            break;
-          case 429:
-            setError("Too many requests. Please try again later.");
-            break;
-          case 500:
-            setError("Internal server error. Please try again later.");
-            break;
-          default:
-            // For security reasons, show success modal even on some errors
-            setIsSuccess(true);
-            setResponseMessage(
-              "We've sent a password reset link to your email. Please check your inbox."
-            );
-            break;
-        }
-      } else {
-        setError(
-          "Network error. Please check your internet connection and try again."
-        );
+      switch (apiError.kind) {
+        case "validation":
+        case "rate_limited":
+        case "server":
+        case "network":
+        case "timeout":
+        case "contract":
+          setError(
+            getApiErrorMessage(apiError, {
+              validation: "Please enter a valid email address.",
+              rate_limited: "Too many requests. Please try again later.",
+              server: "Internal server error. Please try again later.",
+            })
+          );
+          break;
+        default:
+          // For security reasons, show success modal even on some errors
+          setIsSuccess(true);
+          setResponseMessage(
+            "We've sent a password reset link to your email. Please check your inbox."
+          );
+          break;
       }
     } finally {
       setIsLoading(false);
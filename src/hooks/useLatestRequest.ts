@@ -0,0 +1,33 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+
+/**
+ * Custom hook keeping only the latest request of a component alive
+ * @description Every call to startRequest aborts the previous request, and the last one is
+ * aborted on unmount. Callers pass the returned signal to the API layer and drop the result
+ * once `signal.aborted` is true, so a slow response can never overwrite newer data.
+ * @returns Function aborting the previous request and returning the signal of the new one
+ */
+export const useLatestRequest = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const startRequest = useCallback((): AbortSignal => {
+    controllerRef.current?.abort();
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  // Cancel the pending request when the component unmounts
+  useEffect(() => {
+    return () => {
+      controllerRef.current?.abort();
+    };
+  }, []);
+
+  return { startRequest };
+};
+
+export default useLatestRequest;
@@ -3,6 +3,16 @@
 import { useState, useEffect, useCallback } from "react";
 import { Url, UrlFilter } from "@/interfaces/url";
 import { fetchUrls } from "@/services/url";
+import { createQueryKey } from "@/services/queryCache";
+import { useQuery } from "@/hooks/useQuery";
+
+// Pagination used until the first response arrives
+const DEFAULT_PAGINATION = {
+  total: 0,
+  page: 1,
+  limit: 10,
+  total_pages: 0,
+};
 
 /**
  * Custom hook for fetching and managing URLs
@@ -17,59 +27,40 @@ export const useMostClickedUrl = (
     sortBy: "clicks",
   }
 ) => {
-  const [urls, setUrls] = useState<Url[]>([]);
   const [filter, setFilter] = useState<UrlFilter>(initialFilter);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [error, setError] = useState<Error | null>(null);
-  const [pagination, setPagination] = useState({
-    total: 0,
-    page: 1,
-    limit: 10,
-    total_pages: 0,
-  });
 
   /**
    * Fetch URLs based on current filter
    */
   const fetchUrlData = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
     console.log("Fetching URLs with filter:", filter);
 
-    try {
-      const response = await fetchUrls(filter);
-      console.log("URL Most Clicked API response:", response);
-
-      if (response && response.data) {
-        console.log("URLs from API:", response.data);
-        console.log("URLs count:", response.data.length);
-
-        setUrls(response.data);
-
-        if (response.pagination) {
-          console.log("Pagination data:", response.pagination);
-          setPagination(response.pagination);
-        }
-
-        console.log("State updated with URLs, count:", response.data.length);
-      } else {
-        console.error("Unexpected API response structure:", response);
-        setError(new Error("Unexpected API response structure"));
-        setUrls([]);
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err : new Error("Failed to fetch URLs"));
-      console.error("Failed to fetch URLs:", err);
-    } finally {
-      setIsLoading(false);
-      console.log("Loading state set to false");
+    const response = await fetchUrls(filter);
+    console.log("URL Most Clicked API response:", response);
+
+    if (response && response.data) {
+      console.log("URLs count:", response.data.length);
+      return response;
     }
+
+    console.error("Unexpected API response structure:", response);
+    throw new Error("Unexpected API response structure");
   }, [filter]);
 
-  // Fetch URLs when filter changes
+  // Fetch URLs through the shared query cache whenever the filter changes
+  const { data, isLoading, error, refetch } = useQuery(
+    createQueryKey("/api/v1/urls", filter),
+    fetchUrlData
+  );
+
   useEffect(() => {
-    fetchUrlData();
-  }, [fetchUrlData]);
+    if (error) {
+      console.error("Failed to fetch URLs:", error);
+    }
+  }, [error]);
+
+  const urls: Url[] = data?.data ?? [];
+  const pagination = data?.pagination ?? DEFAULT_PAGINATION;
 
   /**
    * Update filter settings
@@ -109,8 +100,8 @@ export const useMostClickedUrl = (
    */
   const refreshUrls = useCallback(() => {
     console.log("Manually refreshing URLs");
-    return fetchUrlData();
-  }, [fetchUrlData]);
+    return refetch();
+  }, [refetch]);
 
   return {
     urls,
@@ -8,6 +8,12 @@ import {
   QrCodeUpdateResponse,
 } from "@/interfaces/qrcode";
 import { fetchQrCodeColors, generateQrCode } from "@/services/qrcode";
+import {
+  invalidateQueries,
+  QR_CODE_QUERY_PREFIXES,
+} from "@/services/queryCache";
+import { getValidated, putValidated } from "@/services/api";
+import { qrCodeUpdateResponseSchema } from "@/schemas/qrcode";
 import { Url } from "@/interfaces/url";
 import { useToast } from "@/contexts/ToastContext";
 import { useConversionTracking } from "@/hooks/useConversionTracking";
@@ -253,22 +259,10 @@ export const useQrCode = () => {
     setIsLoading(true);
 
     try {
-      const res = await fetch(
-        `${process.env.NEXT_PUBLIC_BASE_API_URL}/api/v1/qr-codes/${id}`,
-        {
-          method: "GET",
-          headers: {
-            "Content-Type": "application/json",
-            // Add any authentication headers if needed
-          },
-        }
+      const data = await getValidated(
+        `/api/v1/qr-codes/${id}`,
+        qrCodeUpdateResponseSchema
       );
-
-      if (!res.ok) {
-        throw new Error(`Failed to fetch QR code: ${res.status}`);
-      }
-
-      const data = await res.json();
       setIsLoading(false);
       return data;
     } catch (err) {
@@ -299,26 +293,12 @@ export const useQrCode = () => {
     setIsGenerating(true);
 
     try {
-      const apiUrl = `${process.env.NEXT_PUBLIC_BASE_API_URL}/api/v1/qr-codes/${id}`;
-      const requestBody = JSON.stringify(editData);
-
-      const res = await fetch(apiUrl, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          // Add any authentication headers if needed
-        },
-        body: requestBody,
-      });
-
-      if (!res.ok) {
-        const errorText = await res.text();
-        throw new Error(
-          `Failed to update QR code: ${res.status} - ${errorText}`
-        );
-      }
-
-      const data = await res.json();
+      const data = await putValidated(
+        `/api/v1/qr-codes/${id}`,
+        qrCodeUpdateResponseSchema,
+        editData
+      );
+      invalidateQueries(QR_CODE_QUERY_PREFIXES);
 
       // Track QR code edit conversion goal in PostHog
       if (previousCustomization) {
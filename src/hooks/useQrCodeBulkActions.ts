@@ -4,6 +4,7 @@ import { useToast } from "@/contexts/ToastContext";
 import { QrCode } from "@/interfaces/url";
 import { qrCodeDownloadService } from "@/services/qrCodeDownloadService";
 import { useConversionTracking } from "@/hooks/useConversionTracking";
+import { toApiError } from "@/utils/apiErrors";
 
 /**
  * Custom hook for handling QR code bulk actions
@@ -47,42 +48,14 @@ export const useQrCodeBulkActions = (
           if (success) successCount++;
           else failedCount++;
         } catch (error) {
-          console.error(`Error deleting QR code ${qrCode.id}:`, error);
           failedCount++;
 
-          // Add specific error tracking for better debugging
-          if (error instanceof Error) {
-            if (
-              error.message.includes("network") ||
-              error.message.includes("fetch")
-            ) {
-              console.warn(
-                `Network error deleting QR code ${qrCode.id}:`,
-                error.message
-              );
-            } else if (
-              error.message.includes("validation") ||
-              error.message.includes("invalid")
-            ) {
-              console.warn(
-                `Validation error deleting QR code ${qrCode.id}:`,
-                error.message
-              );
-            } else if (
-              error.message.includes("unauthorized") ||
-              error.message.includes("403")
-            ) {
-              console.warn(
-                `Authorization error deleting QR code ${qrCode.id}:`,
-                error.message
-              );
-            } else {
-              console.warn(
-                `Unknown error deleting QR code ${qrCode.id}:`,
-                error.message
-              );
-            }
-          }
+          // Log the error category for better debugging
+          const apiError = toApiError(error);
+          console.error(
+            `Error deleting QR code ${qrCode.id} (${apiError.kind}):`,
+            apiError.message
+          );
         }
       }
 
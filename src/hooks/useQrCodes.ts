@@ -4,6 +4,8 @@ import { fetchQrCodes, deleteQrCodeById } from "@/services/qrcode";
 import { QrCodeFilter } from "@/interfaces/qrcode";
 import { useToast } from "@/contexts/ToastContext";
 import { useConversionTracking } from "@/hooks/useConversionTracking";
+import { useLatestRequest } from "@/hooks/useLatestRequest";
+import { isCancelledError } from "@/utils/apiErrors";
 import {
   mapApiListToQrCodes,
   computeQrCodeAgeDays,
@@ -51,7 +53,7 @@ export const useQrCodes = (initialFilter?: QrCodeFilter) => {
   // Keep track of previous filter to prevent unnecessary fetches
   const prevFilterRef = useRef<QrCodeFilter | null>(null);
 
-  // Fetch in progress flag to prevent concurrent fetches
+  // Fetch in progress flag, lets refreshQrCodes skip while the list is loading
   const isFetchingRef = useRef<boolean>(false);
 
   const [pagination, setPagination] = useState({
@@ -64,6 +66,9 @@ export const useQrCodes = (initialFilter?: QrCodeFilter) => {
   // Get toast context
   const { showToast } = useToast();
 
+  // Only the latest list request is kept, older ones are cancelled
+  const { startRequest } = useLatestRequest();
+
   /**
    * Build tracking payload for QR code deletion
    * @param qr QR code being deleted
@@ -95,11 +100,6 @@ export const useQrCodes = (initialFilter?: QrCodeFilter) => {
 
   useEffect(() => {
     const fetchQrCodesList = async () => {
-      // Skip if a fetch is already in progress
-      if (isFetchingRef.current) {
-        return;
-      }
-
       // Skip if filter is the same as previous one
       if (
         prevFilterRef.current &&
@@ -108,7 +108,8 @@ export const useQrCodes = (initialFilter?: QrCodeFilter) => {
         return;
       }
 
-      // Set fetching flag
+      // Cancel any fetch still running for an older filter
+      const signal = startRequest();
       isFetchingRef.current = true;
       setIsLoading(true);
       setError(null);
@@ -118,7 +119,8 @@ export const useQrCodes = (initialFilter?: QrCodeFilter) => {
         prevFilterRef.current = { ...filter };
 
         // Get QR codes from API
-        const response = await fetchQrCodes(filter);
+        const response = await fetchQrCodes(filter, signal);
+        if (signal.aborted) return;
 
         // Map API response to our internal QrCode type
         const mappedQrCodes: QrCode[] = mapApiListToQrCodes(response.data);
@@ -127,19 +129,30 @@ export const useQrCodes = (initialFilter?: QrCodeFilter) => {
         setQrCodes(mappedQrCodes);
         setPagination(response.pagination);
       } catch (err) {
+        if (signal.aborted || isCancelledError(err)) return;
+
         const errorMessage =
           err instanceof Error ? err.message : "Failed to fetch QR codes";
         setError(err instanceof Error ? err : new Error(errorMessage));
         console.error("Failed to fetch QR codes:", err);
         showToast(errorMessage, "error", 5000);
       } finally {
-        setIsLoading(false);
-        isFetchingRef.current = false;
+        if (!signal.aborted) {
+          setIsLoading(false);
+          isFetchingRef.current = false;
+        }
       }
     };
 
     fetchQrCodesList();
-  }, [filter, showToast]);
+
+    return () => {
+      // A fetch cut short by unmounting never loaded this filter, so fetch it again on remount
+      if (isFetchingRef.current) {
+        prevFilterRef.current = null;
+      }
+    };
+  }, [filter, showToast, startRequest]);
 
   /**
    * Update filter parameters
@@ -266,12 +279,14 @@ export const useQrCodes = (initialFilter?: QrCodeFilter) => {
       return false;
     }
 
+    const signal = startRequest();
     isFetchingRef.current = true;
     setIsLoading(true);
 
     try {
       // Get QR codes from API with current filter
-      const response = await fetchQrCodes(filter);
+      const response = await fetchQrCodes(filter, signal);
+      if (signal.aborted) return false;
 
       // Map API response to our internal QrCode type
       const mappedQrCodes: QrCode[] = mapApiListToQrCodes(response.data);
@@ -281,6 +296,8 @@ export const useQrCodes = (initialFilter?: QrCodeFilter) => {
       setPagination(response.pagination);
       return true;
     } catch (err) {
+      if (signal.aborted || isCancelledError(err)) return false;
+
       const errorMessage =
         err instanceof Error ? err.message : "Failed to refresh QR codes";
       setError(err instanceof Error ? err : new Error(errorMessage));
@@ -288,8 +305,10 @@ export const useQrCodes = (initialFilter?: QrCodeFilter) => {
       showToast(errorMessage, "error", 5000);
       return false;
     } finally {
-      setIsLoading(false);
-      isFetchingRef.current = false;
+      if (!signal.aborted) {
+        setIsLoading(false);
+        isFetchingRef.current = false;
+      }
     }
   };
 
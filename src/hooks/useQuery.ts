@@ -0,0 +1,123 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  DEFAULT_STALE_TIME,
+  fetchQuery,
+  getQueryData,
+  subscribeQuery,
+} from "@/services/queryCache";
+
+/**
+ * Options for the useQuery hook
+ * @interface UseQueryOptions
+ */
+export interface UseQueryOptions {
+  /** Time in milliseconds before cached data is considered stale */
+  staleTime?: number;
+  /** Set to false to skip fetching until the query can run */
+  enabled?: boolean;
+  /** Set to false for short-lived lookups that must never be written to localStorage */
+  persist?: boolean;
+}
+
+/**
+ * Custom hook for reading a query through the shared query cache
+ * @description Shows cached data right away (stale-while-revalidate), shares in-flight
+ * requests with other hooks using the same key and refetches when the key is invalidated.
+ * Shared requests are not aborted, but responses for a previous key are dropped.
+ * @param key - Query key, usually built with createQueryKey
+ * @param fetcher - Function performing the request
+ * @param options - Query options
+ * @returns Query data, loading states, error and refetch function
+ */
+export const useQuery = <T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  {
+    staleTime = DEFAULT_STALE_TIME,
+    enabled = true,
+    persist = true,
+  }: UseQueryOptions = {}
+) => {
+  const [data, setData] = useState<T | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(enabled);
+  const [isValidating, setIsValidating] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Keep the latest fetcher without making it a dependency of the effects
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  // Current key, used to drop responses of keys the hook has moved away from
+  const keyRef = useRef(key);
+  keyRef.current = key;
+
+  /**
+   * Load the query, serving cached data first and revalidating when stale
+   * @param force - Skip the freshness check and always hit the network
+   */
+  const load = useCallback(
+    async (force: boolean = false) => {
+      const cached = getQueryData<T>(key, staleTime);
+
+      if (cached) {
+        setData(cached.data);
+        setIsLoading(false);
+
+        if (!cached.isStale && !force) return;
+      } else {
+        setIsLoading(true);
+      }
+
+      setIsValidating(true);
+
+      try {
+        const result = await fetchQuery(key, () => fetcherRef.current(), {
+          staleTime,
+          force,
+          persist,
+        });
+        if (keyRef.current !== key) return;
+        setData(result);
+        setError(null);
+      } catch (err) {
+        if (keyRef.current !== key) return;
+        setError(err instanceof Error ? err : new Error(String(err)));
+      } finally {
+        if (keyRef.current === key) {
+          setIsLoading(false);
+          setIsValidating(false);
+        }
+      }
+    },
+    [key, staleTime, persist]
+  );
+
+  // Load on mount and whenever the key changes, then follow cache updates
+  useEffect(() => {
+    if (!enabled) return;
+
+    load();
+
+    return subscribeQuery(key, () => {
+      load();
+    });
+  }, [key, enabled, load]);
+
+  /**
+   * Force a network request for the query
+   * @returns Promise that resolves when the refetch is complete
+   */
+  const refetch = useCallback(() => load(true), [load]);
+
+  return {
+    data,
+    isLoading,
+    isValidating,
+    error,
+    refetch,
+  };
+};
+
+export default useQuery;
@@ -1,7 +1,7 @@
 import { useState, useCallback, useEffect } from "react";
 import AuthService from "@/services/auth";
 import { ResetPasswordRequest } from "@/interfaces/auth";
-import { AxiosError } from "axios";
+import { ApiError, getApiErrorMessage, toApiError } from "@/utils/apiErrors";
 
 /**
  * Token validation state type
@@ -30,87 +30,55 @@ const useResetPassword = (token?: string) => {
   const [isValidatingToken, setIsValidatingToken] = useState<boolean>(true);
 
   /**
-   * Handle 400 Bad Request errors
-   * @param data - Error response data
+   * Handle validation errors (400 Bad Request)
+   * @param error - Normalized API error
    */
-  const handle400Error = useCallback(
-    (data: {
-      status: number;
-      message: string;
-      error_code?: string;
-      errors?: string[];
-    }) => {
-      if (data?.error_code === "MISSING_TOKEN") {
-        setTokenValidation({
-          isValid: false,
-          isExpired: false,
-          errorCode: "MISSING_TOKEN",
-          message: data.message,
-        });
-      } else if (data?.error_code === "INVALID_TOKEN") {
-        setTokenValidation({
-          isValid: false,
-          isExpired: false,
-          errorCode: "INVALID_TOKEN",
-          message: data.message,
-        });
-      } else if (data?.error_code === "TOKEN_EXPIRED") {
-        setTokenValidation({
-          isValid: false,
-          isExpired: true,
-          errorCode: "TOKEN_EXPIRED",
-          message: data.message,
-        });
-      } else if (data?.error_code === "VALIDATION_ERROR") {
-        const validationErrors = data.errors || [data.message];
-        setError(validationErrors.join(", "));
-      } else {
-        setError(data?.message || "Please check your input and try again.");
-      }
-    },
-    []
-  );
+  const handleValidationError = useCallback((error: ApiError) => {
+    if (error.code === "MISSING_TOKEN" || error.code === "INVALID_TOKEN") {
+      setTokenValidation({
+        isValid: false,
+        isExpired: false,
+        errorCode: error.code,
+        message: error.message,
+      });
+    } else if (error.code === "TOKEN_EXPIRED") {
+      setTokenValidation({
+        isValid: false,
+        isExpired: true,
+        errorCode: "TOKEN_EXPIRED",
+        message: error.message,
+      });
+    } else {
+      // Lists of validation messages are already joined into the error message
+      setError(error.message);
+    }
+  }, []);
 
   /**
    * Handle API error response
-   * @param error - Axios error object
+   * @param err - Error thrown by the reset password request
    */
   const handleApiError = useCallback(
-    (
-      error: AxiosError<{
-        status: number;
-        message: string;
-        error_code?: string;
-        errors?: string[];
-      }>
-    ) => {
-      if (!error.response) {
-        setError(
-          "Network error. Please check your internet connection and try again."
-        );
+    (err: unknown) => {
+      const error = toApiError(err);
+
+      if (error.kind === "validation") {
+        handleValidationError(error);
         return;
       }
 
-      const { status, data } = error.response;
-
-      switch (status) {
-        case 400:
-          handle400Error(data);
-          break;
-        case 429:
-          setError(
-            "Too many password reset attempts. Please try again in 15 minutes."
-          );
-          break;
-        case 500:
-          setError("Internal server error. Please try again later.");
-          break;
-        default:
-          setError("Something went wrong. Please try again.");
-          break;
-      }
+      setError(
+        getApiErrorMessage(error, {
+          network:
+            "Network error. Please check your internet connection and try again.",
+          rate_limited:
+            "Too many password reset attempts. Please try again in 15 minutes.",
+          server: "Internal server error. Please try again later.",
+          unknown: "Something went wrong. Please try again.",
+        })
+      );
     },
-    [handle400Error]
+    [handleValidationError]
   );
 
   /**
@@ -184,14 +152,7 @@ const useResetPassword = (token?: string) => {
             "Password has been reset successfully. You can now log in with your new password."
         );
       } catch (err) {
-        const error = err as AxiosError<{
-          status: number;
-          message: string;
-          error_code?: string;
-          errors?: string[];
-        }>;
-
-        handleApiError(error);
+        handleApiError(err);
       } finally {
         setIsLoading(false);
       }
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { get, getPublic } from "@/services/api";
-import { AxiosError } from "axios";
+import { isApiError } from "@/utils/apiErrors";
 import logger from "@/utils/logger";
 import { getDeviceType } from "@/utils/deviceDetection";
 import GeolocationCache from "@/utils/geolocation";
@@ -81,7 +81,11 @@ export const useShortUrl = () => {
         );
 
         // Use getPublic to ensure no authentication headers are sent
-        const publicResponse = await getPublic<ShortUrlResponse>(publicApiUrl);
+        // Each lookup counts a click, so it is not retried
+        const publicResponse = await getPublic<ShortUrlResponse>(
+          publicApiUrl,
+          { retry: false }
+        );
 
         const originalUrl = extractOriginalUrl(publicResponse);
         if (originalUrl) {
@@ -102,10 +106,8 @@ export const useShortUrl = () => {
       } catch (publicError) {
         // Check if the error is a 404 (URL not found)
         const is404Error =
-          // Check if it's an Axios error with status 404
-          (publicError instanceof Error &&
-            publicError instanceof AxiosError &&
-            publicError.response?.status === 404) ||
+          // Check if it's an API error with status 404
+          (isApiError(publicError) && publicError.kind === "not_found") ||
           // Or check message content for other error types
           (publicError instanceof Error && publicError.message.includes("404"));
 
@@ -180,7 +182,8 @@ export const useShortUrl = () => {
 
     try {
       const endpoint = `/api/v1/urls/click/${shortCode}`;
-      await get(endpoint);
+      // Each request counts a click, so a retry could count it twice
+      await get(endpoint, { retry: false });
       logger.urlShortener.debug(`Click recorded for ${shortCode}`);
 
       // Track URL click conversion in PostHog
@@ -1,5 +1,7 @@
-import { useState, useEffect, useCallback } from "react";
-import { get } from "@/services/api";
+import { useEffect } from "react";
+import { getValidated } from "@/services/api";
+import { totalClicksResponseSchema } from "@/schemas/url";
+import { useQuery } from "@/hooks/useQuery";
 import { TotalClicksResponse, TotalClicksParams } from "@/interfaces/url";
 
 /**
@@ -84,100 +86,65 @@ const processApiData = (
   };
 };
 
+/**
+ * Fetch total clicks data from the API
+ * @param endpoint - Total clicks endpoint including query string
+ * @returns Processed total clicks data
+ */
+const fetchTotalClicksData = async (
+  endpoint: string
+): Promise<TotalClicksResponse["data"]> => {
+  if (process.env.NODE_ENV === "development") {
+    console.log(`Fetching total clicks data from: ${endpoint}`);
+  }
+
+  const response = await getValidated(endpoint, totalClicksResponseSchema);
+
+  if (process.env.NODE_ENV === "development") {
+    console.log("Total clicks data response:", response);
+  }
+
+  if (response.status === 200 && response.data) {
+    // Process the API response to ensure numeric values are properly parsed
+    return processApiData(response.data);
+  }
+
+  throw new Error(`Failed to fetch total clicks data: ${response.message}`);
+};
+
 /**
  * Custom hook for fetching total clicks analytics data
+ * @description Reads through the shared query cache, so every component asking for the
+ * same parameters shares a single request
  * @param params - Request parameters for the total clicks API
  * @returns Object containing the total clicks data, loading state, error state, and refresh function
  */
 export const useTotalClicks = (params?: TotalClicksParams) => {
-  const [totalClicksData, setTotalClicksData] = useState<
-    TotalClicksResponse["data"] | null
-  >(null);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [error, setError] = useState<Error | null>(null);
-
-  const fetchTotalClicks = useCallback(async () => {
-    // Skip duplicate API calls if already loaded and not forced refresh
-    if (totalClicksData && !isLoading) {
-      if (process.env.NODE_ENV === "development") {
-        console.log(
-          "Skipping duplicate total clicks API call, data already loaded"
-        );
-      }
-      return;
-    }
-
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      // Prepare query parameters
-      const queryParams = prepareQueryParams(params);
-      const queryString = queryParams.toString();
-      const endpoint = `/api/v1/urls/total-clicks${
-        queryString ? `?${queryString}` : ""
-      }`;
-
-      if (process.env.NODE_ENV === "development") {
-        console.log(`Fetching total clicks data from: ${endpoint}`);
-      }
-
-      const response = await get<TotalClicksResponse>(endpoint);
-
-      if (process.env.NODE_ENV === "development") {
-        console.log("Total clicks data response:", response);
-      }
-
-      if (response.status === 200 && response.data) {
-        // Process the API response to ensure numeric values are properly parsed
-        const processedData = processApiData(response.data);
-
-        if (process.env.NODE_ENV === "development") {
-          console.log("Processed data:", processedData);
-        }
-
-        // Set the processed data
-        setTotalClicksData(processedData);
-      } else {
-        throw new Error(
-          `Failed to fetch total clicks data: ${response.message}`
-        );
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err : new Error(String(err)));
-      console.error("Failed to fetch total clicks data:", err);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [
-    params, // Using params directly as a dependency
-    totalClicksData,
+  // Prepare query parameters
+  const queryString = prepareQueryParams(params).toString();
+  const endpoint = `/api/v1/urls/total-clicks${
+    queryString ? `?${queryString}` : ""
+  }`;
+
+  const {
+    data: totalClicksData,
     isLoading,
-  ]);
+    error,
+    refetch,
+  } = useQuery(endpoint, () => fetchTotalClicksData(endpoint));
 
-  // Use a separate effect to trigger the initial fetch
   useEffect(() => {
-    console.log("useTotalClicks: Initial fetch trigger");
-
-    // Only fetch if we don't have data or params have changed
-    if (!totalClicksData || isLoading) {
-      fetchTotalClicks();
+    if (error) {
+      console.error("Failed to fetch total clicks data:", error);
     }
-
-    // Cleanup function
-    return () => {
-      // No cleanup needed
-    };
-  }, [fetchTotalClicks, totalClicksData, isLoading]);
+  }, [error]);
 
   /**
    * Refresh total clicks data
    * @returns Promise that resolves when refresh is complete
    */
   const refreshTotalClicks = async () => {
-    // Reset the data to force a refresh
-    setTotalClicksData(null);
-    await fetchTotalClicks();
+    await refetch();
   };
 
   return {
@@ -3,68 +3,56 @@
  * @description Custom hook for fetching the total number of URLs from the API
  */
 
-import { useState, useEffect } from "react";
-import { get } from "@/services/api";
-import { UrlTotalCountResponse } from "@/interfaces/url";
+import { useEffect } from "react";
+import { getValidated } from "@/services/api";
+import { urlTotalCountResponseSchema } from "@/schemas/url";
+import { useQuery } from "@/hooks/useQuery";
+
+// Endpoint sesuai dengan dokumentasi API
+const TOTAL_URLS_ENDPOINT = "/api/v1/urls?limit=1";
 
 /**
- * Custom hook for fetching the total number of URLs
- * @returns Object containing total URLs count, loading state, error state, and refresh function
+ * Fetch total URLs count from the API
+ * @returns Total number of URLs
  */
-export const useTotalUrls = () => {
-  const [totalUrls, setTotalUrls] = useState<number>(0);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [error, setError] = useState<Error | null>(null);
+const fetchTotalUrls = async (): Promise<number> => {
+  console.log("Fetching total URLs count from endpoint:", TOTAL_URLS_ENDPOINT);
 
-  /**
-   * Fetch total URLs count from the API
-   */
-  const fetchTotalUrls = async () => {
-    setIsLoading(true);
-    setError(null);
+  const response = await getValidated(
+    TOTAL_URLS_ENDPOINT,
+    urlTotalCountResponseSchema
+  );
+  console.log("Total URLs API response:", response);
 
-    try {
-      // Endpoint sesuai dengan dokumentasi API
-      const endpoint = "/api/v1/urls?limit=1";
-      console.log("Fetching total URLs count from endpoint:", endpoint);
-
-      const response = await get<UrlTotalCountResponse>(endpoint);
-      console.log("Total URLs API response:", response);
+  return response.pagination.total;
+};
 
-      if (typeof response?.pagination?.total === "number") {
-        console.log("Setting total URLs to:", response.pagination.total);
-        setTotalUrls(response.pagination.total);
-      } else {
-        console.error("Pagination structure not found:", response);
-        setError(new Error("Pagination structure not found in API response"));
-      }
-    } catch (err) {
-      console.error("Failed to fetch total URLs count:", err);
-      setError(
-        err instanceof Error
-          ? err
-          : new Error("Failed to fetch total URLs count")
-      );
-    } finally {
-      setIsLoading(false);
-    }
-  };
+/**
+ * Custom hook for fetching the total number of URLs
+ * @returns Object containing total URLs count, loading state, error state, and refresh function
+ */
+export const useTotalUrls = () => {
+  const { data, isLoading, error, refetch } = useQuery(
+    TOTAL_URLS_ENDPOINT,
+    fetchTotalUrls
+  );
 
-  // Fetch total URLs count on component mount
   useEffect(() => {
-    fetchTotalUrls();
-  }, []);
+    if (error) {
+      console.error("Failed to fetch total URLs count:", error);
+    }
+  }, [error]);
 
   /**
    * Refresh total URLs count
    * @returns Promise that resolves when refresh is complete
    */
   const refreshTotalUrls = async () => {
-    return fetchTotalUrls();
+    return refetch();
   };
 
   return {
-    totalUrls,
+    totalUrls: data ?? 0,
     isLoading,
     error,
     refreshTotalUrls,
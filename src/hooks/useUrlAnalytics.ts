@@ -3,6 +3,8 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { fetchUrlAnalytics } from "@/services/url";
 import { UrlAnalyticsData } from "@/interfaces/urlAnalytics";
+import { isCancelledError } from "@/utils/apiErrors";
+import { useLatestRequest } from "./useLatestRequest";
 
 interface UseUrlAnalyticsParams {
   urlId?: number;
@@ -38,6 +40,9 @@ export const useUrlAnalytics = ({
   const prevUrlIdRef = useRef<number | undefined>(undefined);
   const hasInitiallyLoadedRef = useRef<boolean>(false);
 
+  // Only the latest analytics request is kept, older ones are cancelled
+  const { startRequest } = useLatestRequest();
+
   /**
    * Fetch URL analytics data from API
    */
@@ -66,24 +71,29 @@ export const useUrlAnalytics = ({
       setIsLoading(true);
     }
 
+    const signal = startRequest();
     setError(null);
 
     try {
-      const response = await fetchUrlAnalytics(urlId);
+      const response = await fetchUrlAnalytics(urlId, signal);
+      if (signal.aborted) return;
       setAnalyticsData(response.data);
 
       // Update refs after successful fetch
       prevUrlIdRef.current = urlId;
     } catch (err) {
+      if (signal.aborted || isCancelledError(err)) return;
       setError(
         err instanceof Error ? err : new Error("Failed to fetch URL analytics")
       );
       console.error("Failed to fetch URL analytics:", err);
     } finally {
-      setIsLoading(false);
-      setIsLazyLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+        setIsLazyLoading(false);
+      }
     }
-  }, [urlId, enableLazyLoading, analyticsData]);
+  }, [urlId, enableLazyLoading, analyticsData, startRequest]);
 
   // Manual fetch function for lazy loading
   const fetchAnalyticsData = useCallback(async () => {
@@ -91,22 +101,25 @@ export const useUrlAnalytics = ({
       return;
     }
 
+    const signal = startRequest();
     setIsLazyLoading(true);
     setError(null);
 
     try {
-      const response = await fetchUrlAnalytics(urlId);
+      const response = await fetchUrlAnalytics(urlId, signal);
+      if (signal.aborted) return;
       setAnalyticsData(response.data);
       prevUrlIdRef.current = urlId;
     } catch (err) {
+      if (signal.aborted || isCancelledError(err)) return;
       setError(
         err instanceof Error ? err : new Error("Failed to fetch URL analytics")
       );
       console.error("Failed to fetch URL analytics:", err);
     } finally {
-      setIsLazyLoading(false);
+      if (!signal.aborted) setIsLazyLoading(false);
     }
-  }, [urlId]);
+  }, [urlId, startRequest]);
 
   // Fetch data when urlId changes, but only if not using lazy loading
   useEffect(() => {
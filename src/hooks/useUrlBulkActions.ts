@@ -0,0 +1,313 @@
+"use client";
+
+import { useState } from "react";
+import { useToast } from "@/contexts/ToastContext";
+import { Url, UrlBulkSelection, UrlFilter } from "@/interfaces/url";
+import {
+  deleteUrlById,
+  editUrlById,
+  fetchAllUrls,
+  toEditUrlFormData,
+  updateUrlStatusById,
+} from "@/services/url";
+import { generateQrCode } from "@/services/qrcode";
+import { DEFAULT_QR_COLORS } from "@/config/qrcode";
+import { useConversionTracking } from "@/hooks/useConversionTracking";
+import { toApiError } from "@/utils/apiErrors";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Size of the QR codes generated in bulk, the medium preset
+ */
+const BULK_QR_CODE_SIZE = 280;
+
+/**
+ * URL that could not be updated and the reason
+ */
+interface BulkFailure {
+  url: Url;
+  message: string;
+}
+
+/**
+ * Custom hook for handling URL bulk actions
+ * @description Every action runs one URL at a time with a progress toast, reports partial
+ * failures, then clears the selection and refreshes the list
+ * @param filter - Current URL filter, used to fetch all matching URLs
+ * @param refreshUrls - Function to refresh URLs
+ * @param clearSelection - Function to clear selected URLs
+ * @returns Bulk action handlers and running state
+ */
+export const useUrlBulkActions = (
+  filter: UrlFilter,
+  refreshUrls: () => Promise<void> | void,
+  clearSelection: () => void
+) => {
+  const { showToast, hideToast } = useToast();
+  const { trackUrlDeletion, trackUrlEdit } = useConversionTracking();
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+
+  /**
+   * Get the URLs targeted by a selection
+   * @param selection - Selected URLs
+   * @returns Selected URLs, fetched from every page when all matching URLs are selected
+   */
+  const resolveTargets = async (selection: UrlBulkSelection) =>
+    selection.isAllMatching ? fetchAllUrls(filter) : selection.urls;
+
+  /**
+   * Track a bulk edit of a URL
+   * @param url - Edited URL
+   * @param fieldsModified - Fields changed by the action
+   * @param success - Whether the edit succeeded
+   * @param expiryDate - Expiry date after the edit
+   */
+  const trackBulkEdit = (
+    url: Url,
+    fieldsModified: string[],
+    success: boolean,
+    expiryDate = url.expiry_date
+  ) =>
+    trackUrlEdit({
+      url_id: url.id,
+      url_title: url.title || "Untitled",
+      has_custom_code: !!url.short_code,
+      custom_code_length: url.short_code.length,
+      expiry_date: expiryDate || "",
+      original_url_length: url.original_url.length,
+      edit_method: "bulk_edit",
+      fields_modified: fieldsModified,
+      success,
+    });
+
+  /**
+   * Run an action on every selected URL
+   * @param selection - Selected URLs
+   * @param labels - Progress verb ("Deleting") and past participle ("deleted") of the action
+   * @param action - Action on one URL, rejecting when it fails
+   * @param select - Optional filter of the URLs the action applies to
+   */
+  const runBulkAction = async (
+    selection: UrlBulkSelection,
+    labels: { progress: string; done: string },
+    action: (url: Url) => Promise<unknown>,
+    select: (url: Url) => boolean = () => true
+  ) => {
+    setIsRunning(true);
+    let progressToastId = showToast("Preparing selected URLs...", "info", 0);
+
+    try {
+      const targets = (await resolveTargets(selection)).filter(select);
+      const failures: BulkFailure[] = [];
+
+      for (const [index, url] of targets.entries()) {
+        hideToast(progressToastId);
+        progressToastId = showToast(
+          `${labels.progress} ${index + 1} of ${targets.length} URLs...`,
+          "info",
+          0
+        );
+
+        try {
+          await action(url);
+        } catch (error) {
+          failures.push({ url, message: toApiError(error).message });
+        }
+      }
+
+      hideToast(progressToastId);
+      const successCount = targets.length - failures.length;
+
+      if (targets.length === 0) {
+        showToast("None of the selected URLs can be updated", "info", 3000);
+      } else if (failures.length === 0) {
+        showToast(
+          `${successCount} URL${successCount === 1 ? "" : "s"} ${labels.done}`,
+          "success",
+          3000
+        );
+      } else {
+        const firstFailure = `${failures[0].url.short_code}: ${failures[0].message}`;
+        showToast(
+          successCount > 0
+            ? `${successCount} of ${targets.length} URLs ${labels.done}, ${failures.length} failed (${firstFailure})`
+            : `No URLs ${labels.done}, all ${failures.length} failed (${firstFailure})`,
+          successCount > 0 ? "warning" : "error",
+          6000
+        );
+      }
+
+      clearSelection();
+      await refreshUrls();
+    } catch (error) {
+      hideToast(progressToastId);
+      showToast(toApiError(error).message, "error", 5000);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  /**
+   * Handle bulk activate or deactivate
+   * @param selection - Selected URLs
+   * @param isActive - New status of the URLs
+   */
+  const handleBulkStatusChange = (
+    selection: UrlBulkSelection,
+    isActive: boolean
+  ) =>
+    runBulkAction(
+      selection,
+      isActive
+        ? { progress: "Activating", done: "activated" }
+        : { progress: "Deactivating", done: "deactivated" },
+      async (url) => {
+        try {
+          await updateUrlStatusById(url.id, isActive);
+          trackBulkEdit(url, ["is_active"], true);
+        } catch (error) {
+          trackBulkEdit(url, ["is_active"], false);
+          throw error;
+        }
+      },
+      (url) => url.is_active !== isActive
+    );
+
+  /**
+   * Handle bulk delete
+   * @param selection - Selected URLs
+   * @param selectedCount - Number of selected URLs, for the confirmation
+   */
+  const handleBulkDelete = async (
+    selection: UrlBulkSelection,
+    selectedCount: number
+  ) => {
+    if (!window.confirm(`Delete ${selectedCount} selected URLs?`)) return;
+
+    await runBulkAction(
+      selection,
+      { progress: "Deleting", done: "deleted" },
+      async (url) => {
+        const trackDeletion = (success: boolean, reason?: string) =>
+          trackUrlDeletion({
+            url_id: url.id,
+            url_title: url.title || "Untitled",
+            short_code: url.short_code,
+            original_url_length: url.original_url.length,
+            total_clicks: url.clicks,
+            deletion_method: "bulk_delete",
+            deletion_reason: reason,
+            success,
+          });
+
+        try {
+          await deleteUrlById(url.id);
+          trackDeletion(true, "Bulk deletion");
+        } catch (error) {
+          trackDeletion(false, toApiError(error).message);
+          throw error;
+        }
+      }
+    );
+  };
+
+  /**
+   * Handle bulk expiry extension
+   * @description URLs without an expiry date never expire and are left unchanged. Expired
+   * URLs are extended from today.
+   * @param selection - Selected URLs
+   * @param days - Number of days to add
+   */
+  const handleBulkExtendExpiry = (selection: UrlBulkSelection, days: number) =>
+    runBulkAction(
+      selection,
+      { progress: "Extending", done: `extended by ${days} days` },
+      async (url) => {
+        const currentExpiry = new Date(url.expiry_date as string).getTime();
+        const expiryDate = new Date(
+          Math.max(currentExpiry, Date.now()) + days * DAY_MS
+        ).toISOString();
+
+        try {
+          await editUrlById(url.id, {
+            ...toEditUrlFormData(url),
+            expiryDate,
+          });
+          trackBulkEdit(url, ["expiry_date"], true, expiryDate);
+        } catch (error) {
+          trackBulkEdit(url, ["expiry_date"], false);
+          throw error;
+        }
+      },
+      (url) => !!url.expiry_date
+    );
+
+  /**
+   * Handle bulk tag changes
+   * @param selection - Selected URLs
+   * @param tags - Tags to add or remove
+   * @param mode - Whether the tags are added or removed
+   */
+  const handleBulkUpdateTags = (
+    selection: UrlBulkSelection,
+    tags: string[],
+    mode: "add" | "remove"
+  ) =>
+    runBulkAction(
+      selection,
+      mode === "add"
+        ? { progress: "Tagging", done: "tagged" }
+        : { progress: "Untagging", done: "untagged" },
+      async (url) => {
+        const currentTags = url.tags ?? [];
+        const nextTags =
+          mode === "add"
+            ? Array.from(new Set([...currentTags, ...tags]))
+            : currentTags.filter((tag) => !tags.includes(tag));
+
+        try {
+          await editUrlById(url.id, {
+            ...toEditUrlFormData(url),
+            tags: nextTags,
+          });
+          trackBulkEdit(url, ["tags"], true);
+        } catch (error) {
+          trackBulkEdit(url, ["tags"], false);
+          throw error;
+        }
+      },
+      (url) =>
+        mode === "add"
+          ? tags.some((tag) => !url.tags?.includes(tag))
+          : tags.some((tag) => url.tags?.includes(tag))
+    );
+
+  /**
+   * Handle bulk QR code generation with the default colors
+   * @param selection - Selected URLs
+   */
+  const handleBulkGenerateQrCodes = (selection: UrlBulkSelection) =>
+    runBulkAction(
+      selection,
+      { progress: "Generating QR codes for", done: "got a QR code" },
+      (url) =>
+        generateQrCode({
+          url_id: url.id,
+          short_code: url.short_code,
+          color: DEFAULT_QR_COLORS.foreground,
+          background_color: DEFAULT_QR_COLORS.background,
+          include_logo: false,
+          size: BULK_QR_CODE_SIZE,
+        })
+    );
+
+  return {
+    isRunning,
+    handleBulkStatusChange,
+    handleBulkDelete,
+    handleBulkExtendExpiry,
+    handleBulkUpdateTags,
+    handleBulkGenerateQrCodes,
+  };
+};
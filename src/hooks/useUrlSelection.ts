@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import { Url } from "@/interfaces/url";
+
+/**
+ * Custom hook for handling URL selection for bulk actions
+ * @description URLs stay selected when the page changes. Selecting all matching URLs covers
+ * every page of the current filter, including URLs that are not loaded; bulk actions fetch
+ * them when they run.
+ * @param urls - URLs of the current page
+ * @param totalCount - Number of URLs matching the current filter
+ * @returns Selection state and handlers
+ */
+export const useUrlSelection = (urls: Url[], totalCount: number) => {
+  // URLs selected one by one or page by page
+  const [selectedUrls, setSelectedUrls] = useState<Url[]>([]);
+
+  // Whether every URL matching the filter is selected
+  const [isAllMatchingSelected, setIsAllMatchingSelected] =
+    useState<boolean>(false);
+
+  /**
+   * Handle URL selection for bulk actions
+   * @description Deselecting a URL while all matching URLs are selected keeps the rest of the
+   * current page selected
+   * @param url - URL to select or deselect
+   * @param selected - Whether the URL should be selected
+   */
+  const handleSelectUrl = (url: Url, selected: boolean) => {
+    if (isAllMatchingSelected) {
+      setIsAllMatchingSelected(false);
+      setSelectedUrls(urls.filter((item) => item.id !== url.id));
+      return;
+    }
+
+    if (selected) {
+      setSelectedUrls((prev) => [...prev, url]);
+    } else {
+      setSelectedUrls((prev) => prev.filter((item) => item.id !== url.id));
+    }
+  };
+
+  /**
+   * Handle select all URLs of the current page
+   * @param selected - Whether the URLs of the page should be selected
+   */
+  const handleSelectAllUrls = (selected: boolean) => {
+    setIsAllMatchingSelected(false);
+
+    const pageIds = new Set(urls.map((url) => url.id));
+    setSelectedUrls((prev) => {
+      const otherPages = prev.filter((url) => !pageIds.has(url.id));
+      return selected ? [...otherPages, ...urls] : otherPages;
+    });
+  };
+
+  /**
+   * Select every URL matching the current filter, on all pages
+   */
+  const selectAllMatching = () => {
+    setIsAllMatchingSelected(true);
+  };
+
+  /**
+   * Clear selected URLs
+   */
+  const clearSelection = () => {
+    setSelectedUrls([]);
+    setIsAllMatchingSelected(false);
+  };
+
+  /**
+   * Remove a URL from the selection
+   * @param urlId - ID of the URL to remove from selection
+   */
+  const removeFromSelection = (urlId: number) => {
+    setSelectedUrls((prev) => prev.filter((url) => url.id !== urlId));
+  };
+
+  // Selected URLs of the current page, used for the checkboxes
+  const selectedUrlIds = isAllMatchingSelected
+    ? urls.map((url) => url.id)
+    : selectedUrls.map((url) => url.id);
+
+  return {
+    selectedUrls,
+    selectedUrlIds,
+    selectedCount: isAllMatchingSelected ? totalCount : selectedUrls.length,
+    isAllMatchingSelected,
+    handleSelectUrl,
+    handleSelectAllUrls,
+    selectAllMatching,
+    clearSelection,
+    removeFromSelection,
+  };
+};
@@ -1,9 +1,12 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { Url, UrlFilter } from "@/interfaces/url";
 import { fetchUrls, updateUrlStatusById, deleteUrlById } from "@/services/url";
 import { useToast } from "@/contexts/ToastContext";
+import { useOutbox } from "@/contexts/OutboxContext";
+import { isApiContractError, isCancelledError } from "@/utils/apiErrors";
+import { useLatestRequest } from "./useLatestRequest";
 
 /**
  * Custom hook for fetching and managing URLs
@@ -30,50 +33,61 @@ export const useUrls = (
     total_pages: 0,
   });
   const { showToast } = useToast();
+  const { startRequest } = useLatestRequest();
+  const { runOrQueue, lastSyncedAt } = useOutbox();
 
   /**
    * Fetch URLs based on current filter
+   * @description Cancels the previous fetch so a slower, older response cannot overwrite newer results
    */
   const fetchUrlData = useCallback(async () => {
+    const signal = startRequest();
     setIsLoading(true);
     setError(null);
     console.log("Fetching URLs with filter:", filter);
 
     try {
-      const response = await fetchUrls(filter);
+      const response = await fetchUrls(filter, signal);
+      if (signal.aborted) return;
       console.log("URL API response:", response);
 
-      if (response?.data) {
-        console.log("URLs from API:", response.data);
-        console.log("URLs count:", response.data.length);
+      console.log("URLs count:", response.data.length);
+      console.log("Pagination data:", response.pagination);
 
-        setUrls(response.data);
-
-        if (response.pagination) {
-          console.log("Pagination data:", response.pagination);
-          setPagination(response.pagination);
-        }
-
-        console.log("State updated with URLs, count:", response.data.length);
-      } else {
-        console.error("Unexpected API response structure:", response);
-        setError(new Error("Unexpected API response structure"));
-        setUrls([]);
-      }
+      setUrls(response.data);
+      setPagination(response.pagination);
     } catch (err) {
+      if (signal.aborted || isCancelledError(err)) return;
+
       setError(err instanceof Error ? err : new Error("Failed to fetch URLs"));
       console.error("Failed to fetch URLs:", err);
+
+      // Contract errors carry a user-facing message, show it instead of an empty table
+      if (isApiContractError(err)) {
+        showToast(err.message, "error", 5000);
+      }
     } finally {
-      setIsLoading(false);
-      console.log("Loading state set to false");
+      if (!signal.aborted) {
+        setIsLoading(false);
+        console.log("Loading state set to false");
+      }
     }
-  }, [filter]);
+  }, [filter, showToast, startRequest]);
 
   // Fetch URLs when filter changes
   useEffect(() => {
     fetchUrlData();
   }, [fetchUrlData]);
 
+  // Keep the latest fetch function without making it a dependency of the sync effect
+  const fetchUrlDataRef = useRef(fetchUrlData);
+  fetchUrlDataRef.current = fetchUrlData;
+
+  // Reload once mutations queued while offline have been applied
+  useEffect(() => {
+    if (lastSyncedAt) fetchUrlDataRef.current();
+  }, [lastSyncedAt]);
+
   /**
    * Update filter settings
    * @param newFilter - New filter settings to apply
@@ -119,6 +133,7 @@ export const useUrls = (
 
   /**
    * Update URL status (active/inactive)
+   * @description While offline the change is queued and applied once the connection is back
    * @param id - ID of the URL to update
    * @param isActive - New active status
    * @returns Promise resolving to success status
@@ -126,9 +141,13 @@ export const useUrls = (
   const updateUrlStatus = useCallback(
     async (id: number, isActive: boolean): Promise<boolean> => {
       try {
-        await updateUrlStatusById(id, isActive);
-        // Refresh URLs after status update
-        await fetchUrlData();
+        const response = await runOrQueue(
+          { type: "status", urlId: id, isActive },
+          () => updateUrlStatusById(id, isActive)
+        );
+
+        // Refresh URLs after status update, unless it was queued for later
+        if (response) await fetchUrlData();
         return true;
       } catch (err) {
         setError(
@@ -138,18 +157,27 @@ export const useUrls = (
         return false;
       }
     },
-    [fetchUrlData]
+    [fetchUrlData, runOrQueue]
   );
 
   /**
    * Delete a URL by ID
+   * @description While offline the deletion is queued and applied once the connection is back
    * @param id - ID of the URL to delete
    * @returns Promise resolving to the success status
    */
   const deleteUrl = useCallback(
     async (id: number): Promise<boolean> => {
       try {
-        const response = await deleteUrlById(id);
+        const shortCode =
+          urls.find((url) => url.id === id)?.short_code ?? String(id);
+        const response = await runOrQueue(
+          { type: "delete", urlId: id, shortCode },
+          () => deleteUrlById(id)
+        );
+
+        // Queued for later, the outbox already told the user
+        if (!response) return true;
 
         // Display success toast
         showToast(
@@ -172,7 +200,7 @@ export const useUrls = (
         return false;
       }
     },
-    [showToast, fetchUrlData]
+    [urls, showToast, fetchUrlData, runOrQueue]
   );
 
   return {
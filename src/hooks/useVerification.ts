@@ -7,8 +7,9 @@
  */
 import { useState, useCallback } from "react";
 import { VerificationResponse } from "@/interfaces/auth";
-import { get } from "@/services/api";
-import { AxiosError } from "axios";
+import { getValidated } from "@/services/api";
+import { verificationResponseSchema } from "@/schemas/auth";
+import { getApiErrorMessage } from "@/utils/apiErrors";
 
 export interface UseVerificationResult {
   isLoading: boolean;
@@ -31,21 +32,21 @@ const useVerification = (): UseVerificationResult => {
     setIsSuccess(false);
     setResponse(null);
     try {
-      const res = await get<VerificationResponse>(
-        `/api/v1/auth/register/verify?token=${encodeURIComponent(token)}`
+      const res = await getValidated(
+        `/api/v1/auth/register/verify?token=${encodeURIComponent(token)}`,
+        verificationResponseSchema
       );
       setResponse(res);
       setIsSuccess(true);
     } catch (err) {
-      const axiosError = err as AxiosError<{ status: number; message: string }>;
-      if (axiosError.response) {
-        setError(
-          axiosError.response.data?.message ||
-            "Invalid or expired verification token."
-        );
-      } else {
-        setError("Network error. Please try again later.");
-      }
+      setError(
+        getApiErrorMessage(err, {
+          validation: "Invalid or expired verification token.",
+          not_found: "Invalid or expired verification token.",
+          network: "Network error. Please try again later.",
+          timeout: "Network error. Please try again later.",
+        })
+      );
       setIsSuccess(false);
     } finally {
       setIsLoading(false);
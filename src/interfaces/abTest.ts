@@ -0,0 +1,35 @@
+/**
+ * A/B Variant Interface
+ * @description One of the destinations a short link splits its traffic across
+ */
+export interface AbVariant {
+  /** Identifier of the variant, kept in the visitor's cookie */
+  id: string;
+  /** Name shown in the editor and the analytics, like "A" */
+  name: string;
+  /** Destination of the visitors given the variant */
+  destination_url: string;
+  /** Relative share of the traffic, compared to the weights of the other variants */
+  weight: number;
+}
+
+/**
+ * A/B Variant Stats Interface
+ * @description Traffic and conversions of one variant
+ */
+export interface AbVariantStats {
+  /** Variant the stats belong to */
+  variant_id: string;
+  /** Name of the variant */
+  name: string;
+  /** Destination of the variant */
+  destination_url: string;
+  /** Relative share of the traffic */
+  weight: number;
+  /** Visits sent to the variant */
+  clicks: number;
+  /** Conversions of those visits */
+  conversions: number;
+  /** Conversions per hundred visits */
+  conversion_rate: number;
+}
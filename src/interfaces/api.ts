@@ -0,0 +1,18 @@
+/**
+ * Retry policy of the API client
+ * @interface RetryPolicy
+ */
+export interface RetryPolicy {
+  /** Number of retries after the first attempt */
+  retries: number;
+  /** Delay in milliseconds before the first retry, doubled on each further retry */
+  baseDelay: number;
+  /** Upper bound in milliseconds of the backoff delay */
+  maxDelay: number;
+  /** Longest Retry-After in milliseconds we are willing to wait; longer waits fail right away */
+  maxRetryAfter: number;
+  /** HTTP status codes that trigger a retry */
+  retryOnStatus: number[];
+  /** Retry requests that failed without a response */
+  retryOnNetworkError: boolean;
+}
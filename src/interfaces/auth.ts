@@ -57,6 +57,28 @@ export interface ApiLoginResponse {
   };
 }
 
+/**
+ * Refresh token request interface
+ */
+export interface RefreshTokenRequest {
+  refresh_token: string;
+}
+
+/**
+ * API refresh token response interface (from server)
+ * @description The refresh token is only returned when the backend rotates it
+ */
+export interface ApiRefreshTokenResponse {
+  status: number;
+  message: string;
+  data: {
+    token: {
+      access: string;
+      refresh?: string;
+    };
+  };
+}
+
 /**
  * Login response interface (formatted for frontend)
  */
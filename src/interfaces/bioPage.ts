@@ -0,0 +1,111 @@
+/**
+ * Link-in-bio TypeScript Interfaces
+ * @description Defines interfaces for the public profile page listing a user's short links
+ */
+
+/**
+ * Color theme of a bio page
+ */
+export type BioPageTheme = "light" | "dark" | "ocean" | "sunset";
+
+/**
+ * Icon shown next to a bio page link
+ */
+export type BioLinkIcon =
+  | "link"
+  | "globe"
+  | "store"
+  | "video"
+  | "music"
+  | "article"
+  | "calendar"
+  | "mail";
+
+/**
+ * Bio Page Link Interface
+ * @description Short link listed on the bio page, in display order
+ */
+export interface BioPageLink {
+  /** ID of the short link */
+  url_id: number;
+  /** Title shown on the page */
+  title: string;
+  /** Optional description shown under the title */
+  description?: string;
+  /** Icon shown next to the title */
+  icon: BioLinkIcon;
+}
+
+/**
+ * Bio Page Interface
+ * @description Link-in-bio page of the signed-in user, as edited from the dashboard
+ */
+export interface BioPage {
+  /** Username of the page, served at /@username */
+  username: string;
+  /** Name shown at the top of the page */
+  display_name: string;
+  /** Optional short text shown under the name */
+  bio?: string;
+  /** Optional avatar image URL, initials are shown without one */
+  avatar_url?: string;
+  /** Color theme of the page */
+  theme: BioPageTheme;
+  /** Listed links in display order */
+  links: BioPageLink[];
+  /** ISO timestamp when the page was last updated */
+  updated_at: string;
+}
+
+/**
+ * Bio page fields sent when saving it
+ */
+export type UpdateBioPageRequest = Omit<BioPage, "updated_at">;
+
+/**
+ * Public Bio Page Link Interface
+ * @description Link as served to visitors, only for links that currently redirect
+ */
+export interface PublicBioPageLink {
+  /** Short code of the link */
+  short_code: string;
+  /** Complete short URL, which visitors go through so the link rules and click count apply */
+  short_url: string;
+  /** Title shown on the page */
+  title: string;
+  /** Optional description shown under the title */
+  description?: string;
+  /** Icon shown next to the title */
+  icon: BioLinkIcon;
+}
+
+/**
+ * Public Bio Page Interface
+ * @description Bio page as served to visitors at /@username
+ */
+export interface PublicBioPage {
+  username: string;
+  display_name: string;
+  bio?: string;
+  avatar_url?: string;
+  theme: BioPageTheme;
+  links: PublicBioPageLink[];
+}
+
+/**
+ * Bio page response of the dashboard endpoints
+ */
+export interface BioPageResponse {
+  status: number;
+  message: string;
+  data: BioPage;
+}
+
+/**
+ * Bio page response of the public endpoint
+ */
+export interface PublicBioPageResponse {
+  status: number;
+  message: string;
+  data: PublicBioPage;
+}
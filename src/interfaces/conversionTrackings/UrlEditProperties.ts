@@ -18,4 +18,6 @@ export interface UrlEditProperties {
   edit_method: UrlEditMethod;
   fields_modified: string[];
   success: boolean;
+  /** Revision created by the edit, absent when it failed or changed no tracked field */
+  revision_id?: number;
 }
@@ -147,6 +147,18 @@ export interface CountdownTimerProps {
    */
   onComplete: () => void;
 
+  /**
+   * Optional text shown under the timer for the remaining seconds
+   * Defaults to the redirect message
+   */
+  label?: (timeLeft: number) => string;
+
+  /**
+   * Whether to show the progress bar
+   * Defaults to true
+   */
+  showProgress?: boolean;
+
   /**
    * Optional CSS classes
    */
@@ -0,0 +1,27 @@
+/**
+ * Link Preview Interface
+ * @description Title and preview metadata read from the Open Graph tags and the head of a page
+ */
+export interface LinkPreview {
+  /** Address of the page the metadata was read from, after redirects */
+  url: string;
+  /** Open Graph title, or the title of the page */
+  title?: string;
+  /** Open Graph description, or the meta description */
+  description?: string;
+  /** Name of the site */
+  site_name?: string;
+  /** Absolute URL of the preview image */
+  image_url?: string;
+  /** Absolute URL of the favicon */
+  favicon_url?: string;
+}
+
+/**
+ * Link Preview Response Interface
+ */
+export interface LinkPreviewResponse {
+  status: number;
+  message: string;
+  data: LinkPreview;
+}
@@ -0,0 +1,199 @@
+import { User } from "@/interfaces/auth";
+import { Url } from "@/interfaces/url";
+import { BioPage } from "@/interfaces/bioPage";
+import { UrlRevision } from "@/interfaces/urlRevision";
+
+/**
+ * HTTP methods served by the mock API
+ */
+export type MockHttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+/**
+ * Request as seen by a mock route handler
+ * @interface MockRequest
+ */
+export interface MockRequest {
+  /** HTTP method */
+  method: MockHttpMethod;
+  /** Request path without the query string, e.g. "/api/v1/urls/12" */
+  path: string;
+  /** Path parameters captured by the route, e.g. { id: "12" } */
+  params: Record<string, string>;
+  /** Query string parameters */
+  query: URLSearchParams;
+  /** Parsed JSON request body */
+  body: unknown;
+}
+
+/**
+ * Response returned by a mock route handler
+ * @interface MockResponse
+ */
+export interface MockResponse {
+  /** HTTP status code */
+  status: number;
+  /** Response body */
+  data: unknown;
+  /** Extra response headers */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Function serving a mock route
+ */
+export type MockRouteHandler = (request: MockRequest) => MockResponse;
+
+/**
+ * Mock API route
+ * @interface MockRoute
+ */
+export interface MockRoute {
+  /** HTTP method */
+  method: MockHttpMethod;
+  /** Path pattern with named parameters, e.g. "/api/v1/urls/:id" */
+  path: string;
+  /** Function serving the route */
+  handler: MockRouteHandler;
+}
+
+/**
+ * Traffic of a URL on a single day
+ * @interface MockDailyTraffic
+ */
+export interface MockDailyTraffic {
+  /** ID of the URL */
+  urlId: number;
+  /** Day in YYYY-MM-DD format */
+  date: string;
+  /** Times the short link was shown */
+  impressions: number;
+  /** Times the short link was followed */
+  clicks: number;
+  /** Distinct visitors among the clicks */
+  uniqueVisitors: number;
+}
+
+/**
+ * QR code stored by the mock API
+ * @interface MockQrCode
+ */
+export interface MockQrCode {
+  id: number;
+  url_id: number;
+  color: string;
+  background_color: string;
+  include_logo: boolean;
+  logo_size: number;
+  size: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Feedback vote stored by the mock API
+ * @interface MockFeedbackVote
+ */
+export interface MockFeedbackVote {
+  id: number;
+  feedback_id: number;
+  user_id: number;
+  vote_type: "upvote" | "downvote";
+  created_at: string;
+}
+
+/**
+ * Feedback item stored by the mock API, before votes and authors are joined in
+ * @interface MockFeedback
+ */
+export interface MockFeedback {
+  id: number;
+  title: string;
+  description: string;
+  type: "bug" | "feature";
+  status:
+    | "open"
+    | "under_review"
+    | "planned"
+    | "in_progress"
+    | "completed"
+    | "closed";
+  user_id: number;
+  created_at: string;
+  updated_at: string;
+  upvotes: number;
+  downvotes: number;
+  score: number;
+  tags?: string[];
+  use_case?: string;
+  reproduction_steps?: string;
+  expected_behavior?: string;
+  actual_behavior?: string;
+}
+
+/**
+ * Feedback author or voter stored by the mock API
+ * @interface MockFeedbackUser
+ */
+export interface MockFeedbackUser {
+  id: number;
+  name: string;
+  email: string;
+  avatar_url?: string | null;
+}
+
+/**
+ * Wrong password attempts on a protected URL
+ * @interface MockUnlockAttempts
+ */
+export interface MockUnlockAttempts {
+  /** Wrong passwords since the last lockout */
+  failures: number;
+  /** Timestamp until which attempts are rejected */
+  lockedUntil?: number;
+}
+
+/**
+ * Visits sent by the redirect rules of a URL
+ * @interface MockRedirectRuleMatches
+ */
+export interface MockRedirectRuleMatches {
+  /** Visits keyed by rule ID */
+  rules: Record<string, number>;
+  /** Visits sent to the URL itself */
+  fallback: number;
+}
+
+/**
+ * In-memory data behind the mock API
+ * @interface MockDatabase
+ */
+export interface MockDatabase {
+  /** Signed-in user */
+  user: User;
+  /** Shortened URLs of the user */
+  urls: Url[];
+  /** Daily traffic of every URL */
+  traffic: MockDailyTraffic[];
+  /** QR codes of the user */
+  qrCodes: MockQrCode[];
+  /** Feedback board items */
+  feedback: MockFeedback[];
+  /** Votes on feedback items */
+  feedbackVotes: MockFeedbackVote[];
+  /** Authors and voters of feedback items */
+  feedbackUsers: MockFeedbackUser[];
+  /** Passwords of protected URLs keyed by URL ID, never sent to the client */
+  urlPasswords: Record<number, string>;
+  /** Wrong password attempts keyed by short code */
+  urlUnlockAttempts: Record<string, MockUnlockAttempts>;
+  /** Clicks recorded with an explicit referrer, keyed by URL ID then referrer */
+  clickReferrers: Record<number, Record<string, number>>;
+  /** Visits per redirect rule keyed by URL ID, the visits no rule matched counted as fallback */
+  redirectRuleMatches: Record<number, MockRedirectRuleMatches>;
+  /** Visits per A/B variant keyed by URL ID then variant ID */
+  abVariantClicks: Record<number, Record<string, number>>;
+  /** Changes made to the URLs, oldest first */
+  urlRevisions: UrlRevision[];
+  /** Link-in-bio page of the user */
+  bioPage: BioPage;
+}
@@ -0,0 +1,117 @@
+import type { CreateUrlFormData, EditUrlFormData } from "./url";
+
+/**
+ * Sync state of a queued mutation
+ * @description Pending items are replayed when the browser is back online; conflicting items
+ * were rejected by the server and wait for the user to review them
+ */
+export type OutboxItemStatus = "pending" | "conflict";
+
+/**
+ * URL mutation stored in the outbox while offline
+ */
+export type OutboxMutation =
+  | {
+      /** Create a new URL */
+      type: "create";
+      /** Create form data */
+      formData: CreateUrlFormData;
+    }
+  | {
+      /** Edit an existing URL */
+      type: "edit";
+      /** ID of the URL to edit */
+      urlId: number;
+      /** Edit form data */
+      formData: EditUrlFormData;
+    }
+  | {
+      /** Activate or deactivate a URL */
+      type: "status";
+      /** ID of the URL to update */
+      urlId: number;
+      /** New active status */
+      isActive: boolean;
+    }
+  | {
+      /** Delete a URL */
+      type: "delete";
+      /** ID of the URL to delete */
+      urlId: number;
+      /** Short code of the URL, shown while the deletion is pending */
+      shortCode: string;
+    };
+
+/**
+ * Reason the server rejected a replayed mutation
+ * @interface OutboxConflict
+ */
+export interface OutboxConflict {
+  /** User-facing message */
+  message: string;
+  /** Per-field validation messages keyed by the backend field name */
+  fieldErrors: Record<string, string>;
+}
+
+/**
+ * Bookkeeping fields of an outbox item
+ * @interface OutboxItemMeta
+ */
+export interface OutboxItemMeta {
+  /** Auto-incremented ID, also the replay order */
+  id: number;
+  /** ID of the user who queued the mutation */
+  userId: number;
+  /** ISO timestamp when the mutation was queued */
+  queuedAt: string;
+  /** Sync state */
+  status: OutboxItemStatus;
+  /** Why the server rejected the mutation, for conflicting items */
+  conflict?: OutboxConflict;
+}
+
+/**
+ * Mutation stored in the outbox
+ */
+export type OutboxItem = OutboxMutation & OutboxItemMeta;
+
+/**
+ * Result of replaying the outbox
+ * @interface OutboxSyncResult
+ */
+export interface OutboxSyncResult {
+  /** Number of mutations applied on the server */
+  synced: number;
+  /** Number of mutations that need to be reviewed */
+  conflicts: number;
+  /** Number of mutations still waiting, because the connection dropped again */
+  remaining: number;
+}
+
+/**
+ * Outbox context interface
+ * @interface OutboxContextType
+ */
+export interface OutboxContextType {
+  /** Queued mutations of the current user, in replay order */
+  items: OutboxItem[];
+  /** Whether the browser is online */
+  isOnline: boolean;
+  /** Whether the outbox is being replayed */
+  isSyncing: boolean;
+  /** Timestamp of the last sync that applied at least one mutation */
+  lastSyncedAt: number | null;
+  /** Store a mutation to replay once the browser is back online */
+  queueMutation: (mutation: OutboxMutation) => Promise<OutboxItem>;
+  /** Send a mutation, or queue it when offline; resolves to null if it was queued */
+  runOrQueue: <T>(
+    mutation: OutboxMutation,
+    request: () => Promise<T>
+  ) => Promise<T | null>;
+  /** Replay pending mutations now */
+  syncNow: () => Promise<void>;
+  /** Queue a conflicting mutation again, optionally with corrected data, and replay it */
+  retryItem: (id: number, mutation?: OutboxMutation) => Promise<void>;
+  /** Drop a queued mutation without sending it */
+  discardItem: (id: number) => Promise<void>;
+}
@@ -87,6 +87,8 @@ export interface QrCodeApiResponse {
       original_url: string;
       title: string;
       clicks: number;
+      favicon_url?: string;
+      preview_image_url?: string;
     };
   }>;
   pagination: {
@@ -0,0 +1,85 @@
+/**
+ * Device type a redirect rule can target, as classified by getDeviceType
+ */
+export type RedirectRuleDevice = "mobile" | "tablet" | "desktop";
+
+/**
+ * Operating system a redirect rule can target
+ */
+export type RedirectRuleOs = "ios" | "android" | "windows" | "macos" | "linux";
+
+/**
+ * Redirect Rule Conditions Interface
+ * @description Visitors a rule applies to. Every condition that is set must match, and a
+ * condition matches when the visitor has any of its values.
+ */
+export interface RedirectRuleConditions {
+  /** Device types */
+  device?: RedirectRuleDevice[];
+  /** Operating systems */
+  os?: RedirectRuleOs[];
+  /** Two-letter country codes in uppercase, like "DE" */
+  country?: string[];
+  /** Two-letter language codes in lowercase, like "fr" */
+  language?: string[];
+}
+
+/**
+ * Redirect Rule Interface
+ * @description Alternative destination of a short link for some visitors
+ */
+export interface RedirectRule {
+  /** Identifier of the rule, kept when the rules are reordered or edited */
+  id: string;
+  /** Name shown in the editor and the analytics */
+  name: string;
+  /** Visitors the rule applies to */
+  conditions: RedirectRuleConditions;
+  /** Destination of the visitors the rule applies to */
+  destination_url: string;
+}
+
+/**
+ * Redirect Visitor Interface
+ * @description What the client tells the API about the visitor of a short link. Only facts the
+ * browser knows are sent: the API picks the destination itself, matching the redirect rules of the
+ * link against the visitor, then keeping its A/B variant or picking one by weight.
+ */
+export interface RedirectVisitor {
+  /** Device type, "other" when it cannot be told */
+  device: RedirectRuleDevice | "other";
+  /** Operating system, if known */
+  os?: RedirectRuleOs;
+  /** Language of the browser, like "de-AT", if known */
+  language?: string;
+  /** A/B variant the visitor was given before, from its cookie */
+  variant?: string;
+  /** Where the short link was followed from, like "bio_page", recorded with the click */
+  referrer?: string;
+}
+
+/**
+ * Matched Redirect Visitor Interface
+ * @description Visitor as the API matches it against redirect rules. The country is never sent by
+ * the client: the API finds it from the IP address of the request.
+ */
+export interface MatchedRedirectVisitor
+  extends Omit<RedirectVisitor, "language"> {
+  /** Two-letter country code in uppercase, if known */
+  country?: string;
+  /** Two-letter language code in lowercase, if known */
+  language?: string;
+}
+
+/**
+ * Redirect Rule Stats Interface
+ * @description Visits sent to one destination of a short link
+ */
+export interface RedirectRuleStats {
+  /** Rule that matched, null for visits sent to the fallback destination */
+  rule_id: string | null;
+  /** Name of the rule, or "Fallback" */
+  name: string;
+  /** Number of visits */
+  count: number;
+}
@@ -5,6 +5,11 @@
  * @author CyLink Frontend Team
  */
 
+import type { AbVariant } from "./abTest";
+import type { RedirectRule } from "./redirectRules";
+import type { UrlSafetyReport } from "./urlSafety";
+import type { UtmParams } from "./utm";
+
 /**
  * URL Interface
  * @description Defines the structure of a shortened URL entity
@@ -31,14 +36,22 @@ export interface Url {
   title?: string;
   /** Optional description for the URL */
   description?: string;
+  /** Favicon of the destination, read when the URL was created */
+  favicon_url?: string;
+  /** Preview image of the destination, read from its Open Graph tags when the URL was created */
+  preview_image_url?: string;
   /** ISO timestamp when the URL was created */
   created_at: string;
   /** ISO timestamp when the URL was last updated */
   updated_at: string;
   /** Optional expiry date for the URL (ISO string format) */
   expiry_date?: string;
+  /** Optional ISO timestamp before which the URL is not available yet */
+  activates_at?: string;
   /** Number of clicks on the shortened URL */
   clicks: number;
+  /** Optional number of clicks after which the URL stops redirecting */
+  max_clicks?: number;
   /** Whether the URL is active */
   is_active: boolean;
   /** ID of the user who created the URL */
@@ -47,6 +60,18 @@ export interface Url {
   customDomain?: string;
   /** Optional tags for categorizing the URL */
   tags?: string[];
+  /** Whether visitors must enter a password to open the URL */
+  is_password_protected?: boolean;
+  /** Findings of the destination analyzer when the URL was last saved */
+  safety_report?: UrlSafetyReport;
+  /** Optional rules sending some visitors elsewhere, original_url being the fallback */
+  redirect_rules?: RedirectRule[];
+  /** Rule the destination was picked by, only set on public lookups */
+  matched_rule_id?: string;
+  /** Optional destinations the traffic is split across, original_url being kept for when the test ends */
+  ab_variants?: AbVariant[];
+  /** A/B variant the destination was picked from, only set on public lookups */
+  ab_variant_id?: string;
   /** Percentage change in clicks (e.g., +15%) */
   clickTrend?: number;
 }
@@ -68,6 +93,10 @@ export interface QrCode {
   scans: number;
   title?: string;
   description?: string;
+  /** Favicon of the destination of the URL */
+  faviconUrl?: string;
+  /** Preview image of the destination of the URL */
+  previewImageUrl?: string;
   customization?: {
     foregroundColor?: string;
     backgroundColor?: string;
@@ -156,22 +185,112 @@ export interface DashboardStats {
   qrCodesCreatedToday?: number;
 }
 
+/**
+ * URL Bulk Selection Interface
+ * @description URLs targeted by a bulk action
+ */
+export interface UrlBulkSelection {
+  /** URLs selected one by one or page by page */
+  urls: Url[];
+  /** Whether every URL matching the filter is selected, including other pages */
+  isAllMatching: boolean;
+}
+
+/**
+ * URL Tag Summary Interface
+ * @description A tag used on the user's URLs and how many URLs carry it
+ */
+export interface UrlTagSummary {
+  /** Tag name */
+  name: string;
+  /** Number of URLs with the tag */
+  count: number;
+}
+
+/**
+ * URL Tags Response Interface
+ */
+export interface UrlTagsResponse {
+  status: number;
+  message: string;
+  data: UrlTagSummary[];
+}
+
+/**
+ * URL Tag Change Interface
+ * @description Outcome of merging, renaming or deleting tags across the user's URLs
+ */
+export interface UrlTagChange {
+  /** Number of URLs whose tags changed */
+  updated: number;
+}
+
+/**
+ * URL Tag Change Response Interface
+ */
+export interface UrlTagChangeResponse {
+  status: number;
+  message: string;
+  data: UrlTagChange;
+}
+
+/**
+ * Date of a URL a date range filter applies to
+ */
+export type UrlDateField = "created_at" | "expiry_date";
+
+/**
+ * Relative date ranges offered by the URL date filter
+ */
+export type UrlDateRangePreset = "today" | "7d" | "30d" | "90d" | "this_month";
+
+/**
+ * Date range picked in the URL list filter
+ */
+export interface UrlDateRangeFilter {
+  /** Preset the range comes from, kept relative to today when bookmarked */
+  preset: UrlDateRangePreset | "custom";
+  /** Date the range applies to */
+  field: UrlDateField;
+  /** First day in YYYY-MM-DD format, empty when open-ended */
+  start: string;
+  /** Last day in YYYY-MM-DD format, empty when open-ended */
+  end: string;
+}
+
+/**
+ * Status of a URL as shown to its owner
+ * @description scheduled URLs are active but their activation time has not come yet, exhausted
+ * URLs are active but used up their click limit
+ */
+export type UrlStatus =
+  | "active"
+  | "expired"
+  | "inactive"
+  | "scheduled"
+  | "exhausted";
+
 /**
  * URL Filter Interface
  * @description Defines the structure of URL filtering options
  */
 export interface UrlFilter {
   search?: string;
-  status?: "active" | "expired" | "inactive" | "all" | undefined;
+  status?: UrlStatus | "all" | undefined;
   sortBy?: "created_at" | "clicks" | "title" | "expiry_date";
   sortOrder?: "asc" | "desc";
   page: number;
   limit: number;
   tags?: string[];
+  /** Inclusive range of YYYY-MM-DD dates */
   dateRange?: {
     start: string;
     end: string;
+    /** Date the range applies to, the creation date by default */
+    field?: UrlDateField;
   };
+  /** UTM parameters the destination must carry, matched exactly */
+  utm?: UtmParams;
 }
 
 /**
@@ -204,6 +323,51 @@ export interface UrlApiResponse {
   };
 }
 
+/**
+ * Duplicate URLs Response Interface
+ * @description Existing URLs pointing to the same destination, most clicked first
+ */
+export interface DuplicateUrlsResponse {
+  status: number;
+  message: string;
+  data: Url[];
+}
+
+/**
+ * Custom Code Availability Interface
+ * @description Whether a custom code can be used, with available alternatives when it cannot
+ */
+export interface CustomCodeAvailability {
+  code: string;
+  available: boolean;
+  /** Why the code cannot be used */
+  message?: string;
+  /** Available codes built from the title, the destination domain or the code itself */
+  suggestions: string[];
+}
+
+/**
+ * Custom Code Availability Response Interface
+ */
+export interface CustomCodeAvailabilityResponse {
+  status: number;
+  message: string;
+  data: CustomCodeAvailability;
+}
+
+/**
+ * Custom Code Availability Params Interface
+ * @description Query of a custom code availability check
+ */
+export interface CustomCodeAvailabilityParams {
+  code: string;
+  /** Title and destination the suggestions are built from */
+  title?: string;
+  original_url?: string;
+  /** ID of the URL being edited, whose own code counts as available */
+  exclude_id?: number;
+}
+
 /**
  * CTR Response Interface
  * @description Defines the structure for the total URLs count response
@@ -414,8 +578,22 @@ export interface CreateUrlFormData {
   customCode?: string;
   /** Title for the shortened URL */
   title: string;
+  /** Optional description, prefilled from the destination */
+  description?: string;
   /** Expiry date for the shortened URL (ISO string format) */
   expiryDate: string;
+  /** Optional activation time in the format of datetime-local inputs */
+  activatesAt?: string;
+  /** Optional click limit as typed in the form, empty for unlimited clicks */
+  maxClicks?: string;
+  /** Optional tags for categorizing the URL */
+  tags?: string[];
+  /** Optional password visitors must enter to open the URL */
+  password?: string;
+  /** Favicon of the destination, read from its page */
+  faviconUrl?: string;
+  /** Preview image of the destination, read from its page */
+  previewImageUrl?: string;
 }
 
 export interface CreateUrlFormResponse {
@@ -457,6 +635,14 @@ export interface EditUrlFormData {
   title?: string;
   /** Expiry date for the shortened URL (ISO string format) */
   expiryDate?: string;
+  /** Activation time, an empty value removes it and the current one is kept when omitted */
+  activatesAt?: string;
+  /** Click limit, an empty value removes it and the current one is kept when omitted */
+  maxClicks?: string;
+  /** Tags for categorizing the URL, left unchanged when omitted */
+  tags?: string[];
+  /** New password, null removes it and the current one is kept when omitted */
+  password?: string | null;
 }
 
 export interface EditUrlFormResponse {
@@ -473,6 +659,8 @@ export interface EditUrlFormResponse {
     updated_at: string;
     expiry_date: string;
     is_active: boolean;
+    /** Revision recorded by the edit, absent when no tracked field changed */
+    revision_id?: number;
   };
 }
 
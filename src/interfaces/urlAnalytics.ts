@@ -1,3 +1,6 @@
+import type { AbVariantStats } from "./abTest";
+import type { RedirectRuleStats } from "./redirectRules";
+
 /**
  * URL Analytics Request Parameters Interface
  * @description Parameters for fetching URL analytics data
@@ -215,6 +218,10 @@ export interface UrlAnalyticsData {
   device_stats: DeviceStats;
   country_stats: CountryStats;
   top_referrers: ReferrerStats[];
+  /** Visits per redirect rule and to the fallback, only for URLs with redirect rules */
+  redirect_rule_stats?: RedirectRuleStats[];
+  /** Visits and conversions per A/B variant, only for URLs under an A/B test */
+  ab_variant_stats?: AbVariantStats[];
   historical_analysis: HistoricalAnalysis;
   ctr_statistics: CtrStatistics;
 }
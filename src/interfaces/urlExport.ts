@@ -0,0 +1,52 @@
+/**
+ * File format of a URL export
+ * @description xlsx is an Excel spreadsheet document that Excel, Numbers and Sheets open directly
+ */
+export type UrlExportFormat = "csv" | "json" | "xlsx";
+
+/**
+ * URL field that can be included in an export
+ */
+export type UrlExportColumn =
+  | "shortUrl"
+  | "originalUrl"
+  | "title"
+  | "clicks"
+  | "status"
+  | "expiryDate"
+  | "tags"
+  | "createdAt"
+  | "updatedAt";
+
+/**
+ * How dates are written in an export
+ * @description iso keeps the full timestamp, date keeps the day only, locale uses the
+ * browser's date format
+ */
+export type UrlExportDateFormat = "iso" | "date" | "locale";
+
+/**
+ * URL Export Options Interface
+ * @description Choices made by the user before exporting
+ */
+export interface UrlExportOptions {
+  /** File format */
+  format: UrlExportFormat;
+  /** Columns to include, in export order */
+  columns: UrlExportColumn[];
+  /** Format of the date columns */
+  dateFormat: UrlExportDateFormat;
+}
+
+/**
+ * URL Export File Interface
+ * @description File built from the exported URLs, ready to download
+ */
+export interface UrlExportFile {
+  /** File content */
+  content: string;
+  /** Suggested file name */
+  filename: string;
+  /** MIME type of the content */
+  mimeType: string;
+}
@@ -0,0 +1,58 @@
+import type { CreateUrlFormData } from "./url";
+
+/**
+ * URL field that can be read from an import file
+ * @description Passwords are left out so they are never kept in spreadsheets, and activation
+ * times and click limits are only set from the URL forms, like the description and images read
+ * from the destination
+ */
+export type UrlImportField = Exclude<
+  keyof CreateUrlFormData,
+  | "password"
+  | "activatesAt"
+  | "maxClicks"
+  | "description"
+  | "faviconUrl"
+  | "previewImageUrl"
+>;
+
+/**
+ * Lifecycle of an import row
+ * @description invalid rows are never sent; ready rows wait for the import to start
+ */
+export type UrlImportRowStatus =
+  | "invalid"
+  | "ready"
+  | "creating"
+  | "created"
+  | "failed";
+
+/**
+ * URL Import Row Interface
+ * @description One data row of an import file with its validation and creation state
+ */
+export interface UrlImportRow {
+  /** Position of the row in the file, counting the header as row 1 and skipping blank lines */
+  rowNumber: number;
+  /** URL fields read from the row */
+  data: CreateUrlFormData;
+  /** Validation or server error of each invalid field */
+  errors: Partial<Record<UrlImportField, string>>;
+  /** Current state of the row */
+  status: UrlImportRowStatus;
+  /** Reason the creation failed, when it is not tied to a field */
+  error?: string;
+  /** Short URL of the created URL */
+  shortUrl?: string;
+}
+
+/**
+ * URL Import Progress Interface
+ * @description Progress of the creation of the rows sent in the current run
+ */
+export interface UrlImportProgress {
+  /** Number of rows processed, successfully or not */
+  completed: number;
+  /** Number of rows sent in this run */
+  total: number;
+}
@@ -0,0 +1,51 @@
+import type { User } from "./auth";
+
+/**
+ * Field of a URL whose changes are kept in its revisions
+ */
+export type UrlRevisionField =
+  | "original_url"
+  | "short_code"
+  | "title"
+  | "expiry_date";
+
+/**
+ * URL Revision Change Interface
+ * @description Value of one field before and after a revision, null when the field was empty
+ */
+export interface UrlRevisionChange {
+  /** Field that changed */
+  field: UrlRevisionField;
+  /** Value before the revision */
+  previous: string | null;
+  /** Value after the revision */
+  current: string | null;
+}
+
+/**
+ * URL Revision Interface
+ * @description Change made to a URL by an edit, a promoted A/B variant or a restore
+ */
+export interface UrlRevision {
+  /** Identifier of the revision */
+  id: number;
+  /** URL the revision belongs to */
+  url_id: number;
+  /** User who made the change */
+  author: Pick<User, "id" | "name" | "email">;
+  /** Fields that changed, never empty */
+  changes: UrlRevisionChange[];
+  /** Revision whose previous values were restored, if the revision is a restore */
+  restored_from?: number;
+  /** When the change was made */
+  created_at: string;
+}
+
+/**
+ * URL revisions response, newest revision first
+ */
+export interface UrlRevisionsResponse {
+  status: number;
+  message: string;
+  data: UrlRevision[];
+}
@@ -0,0 +1,43 @@
+/**
+ * Check run on the destination of a link before it is shortened
+ */
+export type UrlSafetyCheck =
+  | "blocklisted"
+  | "embedded_credentials"
+  | "homoglyph"
+  | "punycode"
+  | "ip_host"
+  | "url_shortener"
+  | "suspicious_tld"
+  | "insecure_protocol";
+
+/**
+ * How risky a finding is
+ */
+export type UrlSafetySeverity = "low" | "medium" | "high";
+
+/**
+ * URL Safety Finding Interface
+ * @description One problem found on a destination
+ */
+export interface UrlSafetyFinding {
+  /** Check that found the problem */
+  check: UrlSafetyCheck;
+  /** How risky the problem is */
+  severity: UrlSafetySeverity;
+  /** Explanation shown to the link owner and its visitors */
+  message: string;
+}
+
+/**
+ * URL Safety Report Interface
+ * @description Findings of the destination analyzer, recorded on the link when it is saved
+ */
+export interface UrlSafetyReport {
+  /** Highest severity found, safe when nothing was found */
+  level: UrlSafetySeverity | "safe";
+  /** Problems found, most severe first */
+  findings: UrlSafetyFinding[];
+  /** ISO timestamp of the analysis */
+  checked_at: string;
+}
@@ -0,0 +1,23 @@
+/**
+ * UTM parameter of a campaign link, without its utm_ prefix
+ */
+export type UtmField = "source" | "medium" | "campaign" | "term" | "content";
+
+/**
+ * UTM parameters of a destination URL
+ * @description Parameters that are not set are left out
+ */
+export type UtmParams = Partial<Record<UtmField, string>>;
+
+/**
+ * UTM Preset Interface
+ * @description Reusable set of UTM parameters saved by the user
+ */
+export interface UtmPreset {
+  /** Unique ID of the preset */
+  id: string;
+  /** Name shown in the preset list */
+  name: string;
+  /** Parameters applied by the preset */
+  params: UtmParams;
+}
@@ -15,6 +15,14 @@ export function middleware(request: NextRequest) {
   const accessToken = request.cookies.get("accessToken")?.value;
   const { pathname } = request.nextUrl;
 
+  // Serve link-in-bio pages, /@username is rewritten to /bio/username
+  const bioPageMatch = /^\/(?:@|%40)([^/]+)\/?$/.exec(pathname);
+  if (bioPageMatch) {
+    return NextResponse.rewrite(
+      new URL(`/bio/${bioPageMatch[1]}`, request.url)
+    );
+  }
+
   // Check if this is a short URL request
   // Pass to interstitial page which will handle feature flag check client-side
   if (isShortUrlPath(pathname)) {
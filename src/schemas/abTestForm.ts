@@ -0,0 +1,40 @@
+import { z } from 'zod'
+import { AB_TEST_LIMITS } from '@/config/abTest'
+import { URL_ERROR_MESSAGES } from '@/config/urlLimits'
+
+/**
+ * A/B test form schemas
+ * @description Validation rules of the A/B variant editor, matching the checks of the API
+ */
+
+const { MIN_VARIANTS, MAX_VARIANTS, MIN_WEIGHT, MAX_WEIGHT, NAME_MAX_LENGTH } = AB_TEST_LIMITS
+
+/**
+ * Destination the traffic is split across
+ */
+const abVariantFormSchema = z.object({
+  id: z.string(),
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Variant name is required')
+    .max(NAME_MAX_LENGTH, `Variant names must be ${NAME_MAX_LENGTH} characters or less`),
+  destination_url: z.string().trim().url(URL_ERROR_MESSAGES.INVALID_URL),
+  weight: z
+    .number({ invalid_type_error: 'Weight is required' })
+    .int('Weight must be a whole number')
+    .min(MIN_WEIGHT, `Weight must be between ${MIN_WEIGHT} and ${MAX_WEIGHT}`)
+    .max(MAX_WEIGHT, `Weight must be between ${MIN_WEIGHT} and ${MAX_WEIGHT}`)
+})
+
+/**
+ * Variants of a URL under an A/B test
+ */
+export const abTestFormSchema = z.object({
+  variants: z
+    .array(abVariantFormSchema)
+    .min(MIN_VARIANTS, `A test needs at least ${MIN_VARIANTS} variants`)
+    .max(MAX_VARIANTS, `A test can have up to ${MAX_VARIANTS} variants`)
+})
+
+export type AbTestFormSchema = z.infer<typeof abTestFormSchema>
@@ -0,0 +1,126 @@
+import { z } from 'zod'
+import type {
+  ApiLoginResponse,
+  ApiRefreshTokenResponse,
+  ForgotPasswordResponse,
+  RegisterResponse,
+  ResetPasswordResponse,
+  User,
+  VerificationResponse
+} from '@/interfaces/auth'
+import { apiEnvelope, optional, ResponseSchema } from './common'
+
+/**
+ * Auth response schemas
+ * @description Runtime counterparts of the response interfaces in src/interfaces/auth.ts
+ */
+
+/**
+ * Authenticated user
+ */
+export const userSchema: ResponseSchema<User> = z
+  .object({
+    id: z.number(),
+    email: z.string(),
+    name: z.string(),
+    email_verified_at: z.string().nullish(),
+    created_at: z.string(),
+    updated_at: z.string(),
+    is_verified: optional(z.boolean())
+  })
+  .passthrough()
+
+/**
+ * Registration response
+ */
+export const registerResponseSchema: ResponseSchema<RegisterResponse> = apiEnvelope(
+  z.union([
+    z.object({
+      user: userSchema,
+      verification_token: z.string()
+    }),
+    // Some backend versions return the created user flat instead of nested under "user"
+    z
+      .object({
+        id: z.number(),
+        email: z.string(),
+        username: z.string().nullish(),
+        name: z.string().nullish(),
+        email_verified_at: z.string().nullish(),
+        created_at: z.string().nullish(),
+        updated_at: z.string().nullish(),
+        is_verified: z.boolean().nullish(),
+        verification_token: z.string().nullish()
+      })
+      .transform(data => ({
+        user: {
+          id: data.id,
+          email: data.email,
+          name: data.username || data.name || '',
+          email_verified_at: data.email_verified_at ?? null,
+          created_at: data.created_at ?? '',
+          updated_at: data.updated_at ?? '',
+          is_verified: data.is_verified ?? false
+        },
+        verification_token: data.verification_token ?? ''
+      }))
+  ])
+)
+
+/**
+ * Login response as sent by the server
+ */
+export const apiLoginResponseSchema: ResponseSchema<ApiLoginResponse> = apiEnvelope(
+  z.object({
+    user: userSchema,
+    token: z.object({
+      access: z.string().min(1),
+      refresh: z.string().min(1)
+    }),
+    // Older accounts may not have the flag at all
+    first_login: z
+      .boolean()
+      .nullish()
+      .transform(value => !!value)
+  })
+)
+
+/**
+ * Token refresh response
+ */
+export const apiRefreshTokenResponseSchema: ResponseSchema<ApiRefreshTokenResponse> = apiEnvelope(
+  z.object({
+    token: z.object({
+      access: z.string().min(1),
+      refresh: optional(z.string())
+    })
+  })
+)
+
+/**
+ * Response of endpoints that only confirm an action with a message
+ */
+const messageResponseSchema = z.object({
+  status: z.number(),
+  message: z.string(),
+  data: optional(z.object({ message: z.string() }))
+})
+
+/**
+ * Forgot password response
+ */
+export const forgotPasswordResponseSchema: ResponseSchema<ForgotPasswordResponse> = messageResponseSchema
+
+/**
+ * Reset password response
+ */
+export const resetPasswordResponseSchema: ResponseSchema<ResetPasswordResponse> = messageResponseSchema
+
+/**
+ * Email verification response
+ */
+export const verificationResponseSchema: ResponseSchema<VerificationResponse> = z.object({
+  status: z.number(),
+  message: z.string(),
+  data: optional(z.object({ user: userSchema }))
+})
@@ -0,0 +1,57 @@
+import { z } from 'zod'
+import type { BioPageResponse, PublicBioPageResponse } from '@/interfaces/bioPage'
+import { apiEnvelope, optional, ResponseSchema } from './common'
+
+/**
+ * Bio page response schemas
+ * @description Runtime counterparts of the response interfaces in src/interfaces/bioPage.ts
+ */
+
+const bioPageThemeSchema = z.enum(['light', 'dark', 'ocean', 'sunset'])
+
+const bioLinkIconSchema = z.enum(['link', 'globe', 'store', 'video', 'music', 'article', 'calendar', 'mail'])
+
+/**
+ * Fields shared by the dashboard and public bio pages
+ */
+const bioPageBaseSchema = z.object({
+  username: z.string(),
+  display_name: z.string(),
+  bio: optional(z.string()),
+  avatar_url: optional(z.string()),
+  theme: bioPageThemeSchema
+})
+
+/**
+ * Bio page of the signed-in user
+ */
+export const bioPageResponseSchema: ResponseSchema<BioPageResponse> = apiEnvelope(
+  bioPageBaseSchema.extend({
+    links: z.array(
+      z.object({
+        url_id: z.number(),
+        title: z.string(),
+        description: optional(z.string()),
+        icon: bioLinkIconSchema
+      })
+    ),
+    updated_at: z.string()
+  })
+)
+
+/**
+ * Bio page served to visitors
+ */
+export const publicBioPageResponseSchema: ResponseSchema<PublicBioPageResponse> = apiEnvelope(
+  bioPageBaseSchema.extend({
+    links: z.array(
+      z.object({
+        short_code: z.string(),
+        short_url: z.string(),
+        title: z.string(),
+        description: optional(z.string()),
+        icon: bioLinkIconSchema
+      })
+    )
+  })
+)
@@ -0,0 +1,57 @@
+import { z } from 'zod'
+import { BIO_PAGE_LIMITS, BIO_PAGE_USERNAME_PATTERN } from '@/config/bioPage'
+
+/**
+ * Bio page form schemas
+ * @description Validation rules of the bio page editor, matching the checks of the API
+ */
+
+const {
+  USERNAME_MIN_LENGTH,
+  USERNAME_MAX_LENGTH,
+  DISPLAY_NAME_MAX_LENGTH,
+  BIO_MAX_LENGTH,
+  MAX_LINKS,
+  LINK_TITLE_MAX_LENGTH,
+  LINK_DESCRIPTION_MAX_LENGTH
+} = BIO_PAGE_LIMITS
+
+/**
+ * Link listed on the page
+ */
+const bioPageLinkSchema = z.object({
+  url_id: z.number(),
+  title: z
+    .string()
+    .trim()
+    .min(1, 'Link title is required')
+    .max(LINK_TITLE_MAX_LENGTH, `Link titles must be ${LINK_TITLE_MAX_LENGTH} characters or less`),
+  description: z
+    .string()
+    .trim()
+    .max(LINK_DESCRIPTION_MAX_LENGTH, `Descriptions must be ${LINK_DESCRIPTION_MAX_LENGTH} characters or less`)
+    .optional(),
+  icon: z.enum(['link', 'globe', 'store', 'video', 'music', 'article', 'calendar', 'mail'])
+})
+
+/**
+ * Bio page fields
+ */
+export const bioPageFormSchema = z.object({
+  username: z
+    .string()
+    .min(USERNAME_MIN_LENGTH, `Username must be at least ${USERNAME_MIN_LENGTH} characters`)
+    .max(USERNAME_MAX_LENGTH, `Username must be ${USERNAME_MAX_LENGTH} characters or less`)
+    .regex(BIO_PAGE_USERNAME_PATTERN, 'Use lowercase letters, numbers, underscores or hyphens only'),
+  display_name: z
+    .string()
+    .trim()
+    .min(1, 'Display name is required')
+    .max(DISPLAY_NAME_MAX_LENGTH, `Display name must be ${DISPLAY_NAME_MAX_LENGTH} characters or less`),
+  bio: z.string().trim().max(BIO_MAX_LENGTH, `Bio must be ${BIO_MAX_LENGTH} characters or less`).optional(),
+  avatar_url: z.string().trim().url('Please enter a valid image URL').or(z.literal('')).optional(),
+  theme: z.enum(['light', 'dark', 'ocean', 'sunset']),
+  links: z.array(bioPageLinkSchema).max(MAX_LINKS, `A bio page can list up to ${MAX_LINKS} links`)
+})
+
+export type BioPageFormSchema = z.infer<typeof bioPageFormSchema>
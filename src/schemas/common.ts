@@ -0,0 +1,66 @@
+import { z } from 'zod'
+
+/**
+ * Shared zod building blocks for API response schemas
+ * @description The backend is not strict about a few things (numbers sent as strings, null for
+ * missing optional values), so these helpers accept those variants and normalize them to the
+ * shapes declared in src/interfaces
+ */
+
+/**
+ * Number that may be sent as a numeric string
+ */
+export const numeric = z.union([z.number(), z.string().regex(/^-?\d+(\.\d+)?$/)]).transform(Number)
+
+/**
+ * Numeric string that may be sent as a number
+ */
+export const numericString = z.union([z.string(), z.number()]).transform(String)
+
+/**
+ * Optional value that may be sent as null
+ * @param schema - Schema of the value when present
+ * @returns Schema mapping null to undefined
+ */
+export const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform(value => value ?? undefined)
+
+/**
+ * Standard pagination block of list responses
+ */
+export const paginationSchema = z.object({
+  total: numeric,
+  page: numeric,
+  limit: numeric,
+  total_pages: numeric
+})
+
+/**
+ * Standard response envelope with status and message
+ * @param data - Schema of the data field
+ * @returns Envelope schema
+ */
+export const apiEnvelope = <T extends z.ZodTypeAny>(data: T) =>
+  z.object({
+    status: z.number(),
+    message: z.string(),
+    data
+  })
+
+/**
+ * Standard paginated list response envelope
+ * @param item - Schema of a list item
+ * @returns Paginated envelope schema
+ */
+export const paginatedEnvelope = <T extends z.ZodTypeAny>(item: T) =>
+  z.object({
+    status: z.number(),
+    message: z.string(),
+    data: z.array(item),
+    pagination: paginationSchema
+  })
+
+/**
+ * Schema whose output matches an interface, whatever raw input it accepts
+ */
+export type ResponseSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>
@@ -0,0 +1,56 @@
+import { z } from 'zod'
+import type { ConversionRateResponse } from '@/interfaces/conversion'
+import { apiEnvelope, numeric, ResponseSchema } from './common'
+
+/**
+ * Conversion response schemas
+ * @description Runtime counterparts of the response interfaces in src/interfaces/conversion.ts
+ */
+
+const periodSchema = z.object({
+  start_date: z.string(),
+  end_date: z.string()
+})
+
+/**
+ * Conversion rate response
+ */
+export const conversionRateResponseSchema: ResponseSchema<ConversionRateResponse> = apiEnvelope(
+  z.object({
+    period: periodSchema,
+    overall_stats: z.object({
+      total_clicks: numeric,
+      total_conversions: numeric,
+      conversion_rate: numeric,
+      total_conversion_value: numeric,
+      average_value_per_conversion: numeric
+    }),
+    goals: z.array(
+      z.object({
+        goal_id: z.number(),
+        name: z.string(),
+        conversions: numeric,
+        conversion_rate: numeric,
+        conversion_value: numeric
+      })
+    ),
+    comparison: z.object({
+      previous_period: periodSchema,
+      overall: z.object({
+        previous_conversion_rate: numeric,
+        change_percentage: numeric,
+        previous_conversions: numeric,
+        change: numeric
+      }),
+      goals: z.array(
+        z.object({
+          goal_id: z.number(),
+          previous_conversion_rate: numeric,
+          change_percentage: numeric.nullable(),
+          previous_conversions: numeric,
+          change: numeric
+        })
+      )
+    })
+  })
+)
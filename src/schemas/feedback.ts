@@ -0,0 +1,107 @@
+import { z } from 'zod'
+import type {
+  CreateFeedbackApiResponse,
+  DeleteFeedbackApiResponse,
+  FeedbackApiResponse,
+  FeedbackItem,
+  FeedbackUser,
+  SimilarFeedbackResponse,
+  VoteApiResponse,
+  VotersResponse
+} from '@/interfaces/feedback'
+import { apiEnvelope, numeric, optional, paginatedEnvelope, ResponseSchema } from './common'
+
+/**
+ * Feedback response schemas
+ * @description Runtime counterparts of the response interfaces in src/interfaces/feedback.ts
+ */
+
+const voteTypeSchema = z.enum(['upvote', 'downvote'])
+
+/**
+ * Simplified user shown in facepiles and author lines
+ */
+const feedbackUserSchema: ResponseSchema<FeedbackUser> = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    email: z.string(),
+    avatar_url: optional(z.string())
+  })
+  .passthrough()
+
+/**
+ * Feedback item entity
+ */
+export const feedbackItemSchema: ResponseSchema<FeedbackItem> = z
+  .object({
+    id: z.number(),
+    title: z.string(),
+    description: z.string(),
+    type: z.enum(['bug', 'feature']),
+    status: z.enum(['open', 'under_review', 'planned', 'in_progress', 'completed', 'closed']),
+    user_id: z.number(),
+    created_at: z.string(),
+    updated_at: z.string(),
+    upvotes: numeric,
+    downvotes: numeric,
+    score: numeric,
+    voters: z.array(feedbackUserSchema),
+    total_voters: numeric,
+    user_vote: optional(voteTypeSchema),
+    author: optional(feedbackUserSchema),
+    tags: optional(z.array(z.string())),
+    use_case: optional(z.string())
+  })
+  .passthrough()
+
+/**
+ * Feedback list response
+ */
+export const feedbackApiResponseSchema: ResponseSchema<FeedbackApiResponse> = paginatedEnvelope(feedbackItemSchema)
+
+/**
+ * Feedback creation response
+ */
+export const createFeedbackApiResponseSchema: ResponseSchema<CreateFeedbackApiResponse> =
+  apiEnvelope(feedbackItemSchema)
+
+/**
+ * Voters list response
+ */
+export const votersResponseSchema: ResponseSchema<VotersResponse> = apiEnvelope(
+  z.object({
+    voters: z.array(feedbackUserSchema),
+    total: numeric
+  })
+)
+
+/**
+ * Similar feedback response
+ */
+export const similarFeedbackResponseSchema: ResponseSchema<SimilarFeedbackResponse> = apiEnvelope(
+  z.array(feedbackItemSchema)
+)
+
+/**
+ * Vote response
+ */
+export const voteApiResponseSchema: ResponseSchema<VoteApiResponse> = apiEnvelope(
+  z.object({
+    id: z.number(),
+    upvotes: numeric,
+    downvotes: numeric,
+    score: numeric,
+    user_vote: voteTypeSchema.nullable(),
+    voters: z.array(feedbackUserSchema),
+    total_voters: numeric
+  })
+)
+
+/**
+ * Feedback deletion response
+ */
+export const deleteFeedbackApiResponseSchema: ResponseSchema<DeleteFeedbackApiResponse> = z.object({
+  status: z.number(),
+  message: z.string()
+})
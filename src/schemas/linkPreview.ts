@@ -0,0 +1,22 @@
+import { z } from 'zod'
+import type { LinkPreviewResponse } from '@/interfaces/linkPreview'
+import { apiEnvelope, optional, ResponseSchema } from './common'
+
+/**
+ * Link preview response schemas
+ * @description Runtime counterparts of the response interfaces in src/interfaces/linkPreview.ts
+ */
+
+/**
+ * Title and preview metadata of a destination
+ */
+export const linkPreviewResponseSchema: ResponseSchema<LinkPreviewResponse> = apiEnvelope(
+  z.object({
+    url: z.string(),
+    title: optional(z.string()),
+    description: optional(z.string()),
+    site_name: optional(z.string()),
+    image_url: optional(z.string()),
+    favicon_url: optional(z.string())
+  })
+)
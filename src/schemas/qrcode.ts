@@ -0,0 +1,114 @@
+import { z } from 'zod'
+import type {
+  QrCodeApiResponse,
+  QrCodeColorsResponse,
+  QrCodeDeleteResponse,
+  QrCodeGenerateResponse,
+  QrCodeUpdateResponse
+} from '@/interfaces/qrcode'
+import { apiEnvelope, numeric, optional, paginatedEnvelope, ResponseSchema } from './common'
+
+/**
+ * QR code response schemas
+ * @description Runtime counterparts of the response interfaces in src/interfaces/qrcode.ts
+ */
+
+/**
+ * Color option offered for QR codes
+ */
+const qrCodeColorSchema = z.object({
+  name: z.string(),
+  hex: z.string()
+})
+
+/**
+ * QR code colors response
+ */
+export const qrCodeColorsResponseSchema: ResponseSchema<QrCodeColorsResponse> = apiEnvelope(
+  z.object({
+    foreground_colors: z.array(qrCodeColorSchema),
+    background_colors: z.array(qrCodeColorSchema)
+  })
+)
+
+/**
+ * Fields shared by every QR code returned from the API
+ */
+const qrCodeBaseSchema = z
+  .object({
+    id: z.number(),
+    url_id: z.number(),
+    short_code: z.string(),
+    short_url: z.string(),
+    qr_code_url: z.string(),
+    png_url: z.string(),
+    svg_url: z.string(),
+    color: z.string(),
+    background_color: z.string(),
+    include_logo: z.boolean(),
+    logo_size: numeric,
+    size: numeric,
+    created_at: z.string(),
+    updated_at: z.string()
+  })
+  .passthrough()
+
+/**
+ * QR code generation response
+ */
+export const qrCodeGenerateResponseSchema: ResponseSchema<QrCodeGenerateResponse> = apiEnvelope(
+  qrCodeBaseSchema.extend({ image_url: z.string() })
+)
+
+/**
+ * QR code list response
+ */
+export const qrCodeApiResponseSchema: ResponseSchema<QrCodeApiResponse> = paginatedEnvelope(
+  qrCodeBaseSchema.extend({
+    url: optional(
+      z
+        .object({
+          id: z.number(),
+          original_url: z.string(),
+          title: z.string(),
+          clicks: numeric,
+          favicon_url: optional(z.string()),
+          preview_image_url: optional(z.string())
+        })
+        .passthrough()
+    )
+  })
+)
+
+/**
+ * QR code update response
+ */
+export const qrCodeUpdateResponseSchema: ResponseSchema<QrCodeUpdateResponse> = apiEnvelope(
+  z
+    .object({
+      id: z.number(),
+      url_id: z.number(),
+      short_url: z.string(),
+      image_url: z.string(),
+      customization: z.object({
+        foreground_color: z.string(),
+        background_color: z.string(),
+        include_logo: z.boolean(),
+        logo_size: numeric,
+        size: numeric
+      }),
+      created_at: z.string(),
+      updated_at: z.string()
+    })
+    .passthrough()
+)
+
+/**
+ * QR code deletion response
+ */
+export const qrCodeDeleteResponseSchema: ResponseSchema<QrCodeDeleteResponse> = apiEnvelope(
+  z.object({
+    id: z.number(),
+    deleted_at: z.string()
+  })
+)
@@ -0,0 +1,73 @@
+import { z } from 'zod'
+import {
+  REDIRECT_COUNTRY_CODE_PATTERN,
+  REDIRECT_LANGUAGE_CODE_PATTERN,
+  REDIRECT_RULE_LIMITS
+} from '@/config/redirectRules'
+import { URL_ERROR_MESSAGES } from '@/config/urlLimits'
+import { parseRedirectCodes } from '@/utils/redirectRules'
+
+/**
+ * Redirect rules form schemas
+ * @description Validation rules of the redirect rule editor, matching the checks of the API.
+ * Countries and languages are typed as comma separated codes.
+ */
+
+const { MAX_RULES, NAME_MAX_LENGTH, MAX_CODES } = REDIRECT_RULE_LIMITS
+
+/**
+ * Comma separated codes that must all match a pattern, in any case
+ * @param pattern - Pattern of one code
+ * @param caseOf - Function normalizing the case of a code before it is checked
+ * @param message - Error message
+ */
+const codeListSchema = (pattern: RegExp, caseOf: (code: string) => string, message: string) =>
+  z
+    .string()
+    .refine(value => parseRedirectCodes(value).length <= MAX_CODES, `Use up to ${MAX_CODES} codes`)
+    .refine(value => parseRedirectCodes(value).every(code => pattern.test(caseOf(code))), message)
+
+/**
+ * Rule sending some visitors to another destination
+ */
+const redirectRuleFormSchema = z
+  .object({
+    id: z.string(),
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Rule name is required')
+      .max(NAME_MAX_LENGTH, `Rule names must be ${NAME_MAX_LENGTH} characters or less`),
+    destination_url: z.string().trim().url(URL_ERROR_MESSAGES.INVALID_URL),
+    device: z.array(z.enum(['mobile', 'tablet', 'desktop'])),
+    os: z.array(z.enum(['ios', 'android', 'windows', 'macos', 'linux'])),
+    country: codeListSchema(
+      REDIRECT_COUNTRY_CODE_PATTERN,
+      code => code.toUpperCase(),
+      'Use two-letter country codes, like DE or FR'
+    ),
+    language: codeListSchema(
+      REDIRECT_LANGUAGE_CODE_PATTERN,
+      code => code.toLowerCase(),
+      'Use two-letter language codes, like de or fr'
+    )
+  })
+  .refine(
+    rule =>
+      rule.device.length > 0 ||
+      rule.os.length > 0 ||
+      parseRedirectCodes(rule.country).length > 0 ||
+      parseRedirectCodes(rule.language).length > 0,
+    { message: 'Pick at least one condition', path: ['device'] }
+  )
+
+/**
+ * Rules of a URL, in the order they are checked
+ */
+export const redirectRulesFormSchema = z.object({
+  rules: z.array(redirectRuleFormSchema).max(MAX_RULES, `A URL can have up to ${MAX_RULES} redirect rules`)
+})
+
+export type RedirectRulesFormSchema = z.infer<typeof redirectRulesFormSchema>
+
+export type RedirectRuleFormValues = RedirectRulesFormSchema['rules'][number]
@@ -0,0 +1,311 @@
+import { z } from 'zod'
+import type {
+  CreateUrlFormResponse,
+  CtrStatsResponse,
+  CustomCodeAvailabilityResponse,
+  DuplicateUrlsResponse,
+  EditUrlFormResponse,
+  TotalClicksResponse,
+  Url,
+  UrlApiResponse,
+  UrlTagChangeResponse,
+  UrlTagsResponse,
+  UrlTotalCountResponse
+} from '@/interfaces/url'
+import type { DeleteUrlResponse } from '@/services/url'
+import { apiEnvelope, numeric, numericString, optional, paginatedEnvelope, ResponseSchema } from './common'
+
+/**
+ * URL response schemas
+ * @description Runtime counterparts of the response interfaces in src/interfaces/url.ts
+ */
+
+/**
+ * Destination safety report recorded on a URL
+ */
+const urlSafetyReportSchema = z.object({
+  level: z.enum(['safe', 'low', 'medium', 'high']),
+  findings: z.array(
+    z.object({
+      check: z.enum([
+        'blocklisted',
+        'embedded_credentials',
+        'homoglyph',
+        'punycode',
+        'ip_host',
+        'url_shortener',
+        'suspicious_tld',
+        'insecure_protocol'
+      ]),
+      severity: z.enum(['low', 'medium', 'high']),
+      message: z.string()
+    })
+  ),
+  checked_at: z.string()
+})
+
+/**
+ * Rule sending some visitors of a URL to another destination
+ */
+const redirectRuleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  conditions: z.object({
+    device: optional(z.array(z.enum(['mobile', 'tablet', 'desktop']))),
+    os: optional(z.array(z.enum(['ios', 'android', 'windows', 'macos', 'linux']))),
+    country: optional(z.array(z.string())),
+    language: optional(z.array(z.string()))
+  }),
+  destination_url: z.string()
+})
+
+/**
+ * Destination a URL splits its traffic across
+ */
+const abVariantSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  destination_url: z.string(),
+  weight: numeric
+})
+
+/**
+ * Shortened URL entity
+ */
+export const urlSchema: ResponseSchema<Url> = z
+  .object({
+    id: z.number(),
+    original_url: z.string(),
+    short_code: z.string(),
+    short_url: z.string(),
+    title: optional(z.string()),
+    description: optional(z.string()),
+    favicon_url: optional(z.string()),
+    preview_image_url: optional(z.string()),
+    created_at: z.string(),
+    updated_at: z.string(),
+    expiry_date: optional(z.string()),
+    activates_at: optional(z.string()),
+    clicks: numeric,
+    max_clicks: optional(numeric),
+    is_active: z.boolean(),
+    user_id: z.number(),
+    customDomain: optional(z.string()),
+    tags: optional(z.array(z.string())),
+    is_password_protected: optional(z.boolean()),
+    safety_report: optional(urlSafetyReportSchema),
+    redirect_rules: optional(z.array(redirectRuleSchema)),
+    matched_rule_id: optional(z.string()),
+    ab_variants: optional(z.array(abVariantSchema)),
+    ab_variant_id: optional(z.string()),
+    clickTrend: optional(numeric)
+  })
+  .passthrough()
+
+/**
+ * URL list response
+ */
+export const urlApiResponseSchema: ResponseSchema<UrlApiResponse> = paginatedEnvelope(urlSchema)
+
+/**
+ * URL total count response (list endpoint called with limit=1)
+ */
+export const urlTotalCountResponseSchema: ResponseSchema<UrlTotalCountResponse> = paginatedEnvelope(urlSchema)
+
+/**
+ * Single URL lookup response
+ * @description Some endpoints wrap the URL in the standard envelope, others return it directly;
+ * both are accepted and normalized to the URL itself
+ */
+export const urlLookupResponseSchema: ResponseSchema<Url> = z.union([
+  z.object({ data: urlSchema }).transform(response => response.data),
+  urlSchema
+])
+
+/**
+ * Existing URLs with the same destination
+ */
+export const duplicateUrlsResponseSchema: ResponseSchema<DuplicateUrlsResponse> = apiEnvelope(z.array(urlSchema))
+
+/**
+ * Tags used on the user's URLs
+ */
+export const urlTagsResponseSchema: ResponseSchema<UrlTagsResponse> = apiEnvelope(
+  z.array(z.object({ name: z.string(), count: numeric }))
+)
+
+/**
+ * Tags merged, renamed or deleted across the user's URLs
+ */
+export const urlTagChangeResponseSchema: ResponseSchema<UrlTagChangeResponse> = apiEnvelope(
+  z.object({ updated: numeric })
+)
+
+/**
+ * Custom code availability check
+ */
+export const customCodeAvailabilityResponseSchema: ResponseSchema<CustomCodeAvailabilityResponse> = apiEnvelope(
+  z.object({
+    code: z.string(),
+    available: z.boolean(),
+    message: optional(z.string()),
+    suggestions: z.array(z.string())
+  })
+)
+
+/**
+ * Public URL lookup response
+ * @description The public endpoint may return the full URL or only its destination
+ */
+export const publicUrlResponseSchema: ResponseSchema<{ data: Url } | { original_url: string }> = z.union([
+  z.object({ data: urlSchema }),
+  z.object({ original_url: z.string().url() })
+])
+
+/**
+ * URL deletion response
+ */
+export const deleteUrlResponseSchema: ResponseSchema<DeleteUrlResponse> = apiEnvelope(
+  z.object({
+    id: z.number(),
+    short_code: z.string(),
+    deleted_at: z.string()
+  })
+)
+
+/**
+ * String that may be omitted or sent as null, normalized to an empty string
+ */
+const emptyableString = z
+  .string()
+  .nullish()
+  .transform(value => value ?? '')
+
+/**
+ * Data returned after creating or editing a URL
+ */
+const mutatedUrlSchema = z
+  .object({
+    id: z.number(),
+    original_url: z.string(),
+    short_code: z.string(),
+    short_url: z.string(),
+    title: emptyableString,
+    clicks: numeric,
+    created_at: z.string(),
+    updated_at: z.string(),
+    expiry_date: emptyableString,
+    is_active: z.boolean()
+  })
+  .passthrough()
+
+/**
+ * URL creation response
+ */
+export const createUrlFormResponseSchema: ResponseSchema<CreateUrlFormResponse> = apiEnvelope(
+  mutatedUrlSchema.extend({ user_id: z.number() })
+)
+
+/**
+ * URL edit response
+ */
+export const editUrlFormResponseSchema: ResponseSchema<EditUrlFormResponse> = apiEnvelope(
+  mutatedUrlSchema.extend({ revision_id: optional(z.number()) })
+)
+
+/**
+ * Period comparison of a single metric
+ */
+const metricComparisonSchema = z.object({
+  current: numeric,
+  previous: numeric,
+  change: numeric,
+  change_percentage: numeric
+})
+
+/**
+ * Total clicks time series data point
+ */
+const totalClicksDataPointSchema = z.object({
+  date: z.string(),
+  clicks: numeric,
+  urls_count: numeric,
+  avg_clicks: numeric
+})
+
+/**
+ * Total clicks analytics response
+ */
+export const totalClicksResponseSchema: ResponseSchema<TotalClicksResponse> = apiEnvelope(
+  z.object({
+    summary: z.object({
+      total_clicks: numeric,
+      total_urls: numeric,
+      avg_clicks_per_url: numeric,
+      analysis_period: z.object({
+        start_date: z.string(),
+        end_date: z.string(),
+        days: numeric
+      }),
+      comparison: z.object({
+        period_days: numeric,
+        previous_period: z.object({
+          start_date: z.string(),
+          end_date: z.string()
+        }),
+        total_clicks: metricComparisonSchema,
+        avg_clicks_per_url: metricComparisonSchema,
+        active_urls: metricComparisonSchema
+      })
+    }),
+    time_series: z.object({
+      data: z.array(totalClicksDataPointSchema),
+      pagination: z.object({
+        total_items: numeric,
+        total_pages: numeric,
+        current_page: numeric,
+        limit: numeric
+      })
+    }),
+    top_performing_days: z.array(totalClicksDataPointSchema)
+  })
+)
+
+/**
+ * CTR statistics response
+ * @description Extra fields such as the optional comparison block are passed through
+ */
+export const ctrStatsResponseSchema: ResponseSchema<CtrStatsResponse> = apiEnvelope(
+  z
+    .object({
+      overall: z.object({
+        total_impressions: numericString,
+        total_clicks: numericString,
+        ctr: numericString,
+        unique_impressions: numericString,
+        unique_ctr: numericString,
+        analysis_period: z.object({
+          start_date: z.string(),
+          end_date: z.string(),
+          days: numeric
+        })
+      }),
+      top_performing_days: z.array(
+        z.object({
+          date: z.string(),
+          impressions: numericString,
+          clicks: numericString,
+          ctr: numericString
+        })
+      ),
+      ctr_by_source: z.array(
+        z.object({
+          source: z.string(),
+          impressions: numericString,
+          clicks: numericString,
+          ctr: numericString
+        })
+      )
+    })
+    .passthrough()
+)
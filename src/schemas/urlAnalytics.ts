@@ -0,0 +1,118 @@
+import { z } from 'zod'
+import type { UrlAnalyticsResponse } from '@/interfaces/urlAnalytics'
+import { apiEnvelope, numeric, numericString, optional, ResponseSchema } from './common'
+
+/**
+ * URL analytics response schemas
+ * @description Runtime counterparts of the response interfaces in src/interfaces/urlAnalytics.ts
+ */
+
+const periodSchema = z.object({
+  start_date: z.string(),
+  end_date: z.string(),
+  days: numeric.optional()
+})
+
+const metricComparisonSchema = z.object({
+  current: z.union([z.string(), z.number()]),
+  previous: z.union([z.string(), z.number()]),
+  change: z.union([z.string(), z.number()]),
+  change_percentage: numeric
+})
+
+const ctrDataPointSchema = z.object({
+  date: z.string(),
+  impressions: numericString,
+  clicks: numericString,
+  ctr: numericString
+})
+
+/**
+ * Count keyed by browser, device or country name
+ */
+const countMapSchema = z.record(numeric)
+
+/**
+ * Analytics response of a single URL
+ */
+export const urlAnalyticsResponseSchema: ResponseSchema<UrlAnalyticsResponse> = apiEnvelope(
+  z
+    .object({
+      url_id: z.number(),
+      short_code: z.string(),
+      total_clicks: numeric,
+      unique_visitors: numeric,
+      time_series_data: z.array(z.object({ date: z.string(), clicks: numeric })),
+      browser_stats: countMapSchema,
+      device_stats: countMapSchema,
+      country_stats: countMapSchema,
+      top_referrers: z.array(z.object({ referrer: z.string(), count: numeric })),
+      redirect_rule_stats: optional(
+        z.array(z.object({ rule_id: z.string().nullable(), name: z.string(), count: numeric }))
+      ),
+      ab_variant_stats: optional(
+        z.array(
+          z.object({
+            variant_id: z.string(),
+            name: z.string(),
+            destination_url: z.string(),
+            weight: numeric,
+            clicks: numeric,
+            conversions: numeric,
+            conversion_rate: numeric
+          })
+        )
+      ),
+      historical_analysis: z.object({
+        summary: z.object({
+          analysis_period: periodSchema,
+          comparison: z.object({
+            period_days: numeric,
+            previous_period: periodSchema,
+            total_clicks: metricComparisonSchema
+          })
+        }),
+        time_series: z.object({
+          data: z.array(z.object({ date: z.string(), clicks: numeric })),
+          pagination: z.object({
+            page: numeric,
+            limit: numeric,
+            total: numeric,
+            total_pages: numeric
+          })
+        }),
+        top_performing_days: z.array(z.object({ date: z.string(), clicks: numeric }))
+      }),
+      ctr_statistics: z.object({
+        overall: z.object({
+          total_impressions: numericString,
+          total_clicks: numericString,
+          ctr: numericString,
+          unique_impressions: numericString,
+          unique_ctr: numericString
+        }),
+        comparison: z.object({
+          period_days: numeric,
+          previous_period: periodSchema,
+          metrics: z.object({
+            impressions: metricComparisonSchema,
+            clicks: metricComparisonSchema,
+            ctr: metricComparisonSchema
+          })
+        }),
+        time_series: z.object({
+          data: z.array(ctrDataPointSchema)
+        }),
+        top_performing_days: z.array(ctrDataPointSchema),
+        ctr_by_source: z.array(
+          z.object({
+            source: z.string(),
+            impressions: numericString,
+            clicks: numericString,
+            ctr: numericString
+          })
+        )
+      })
+    })
+    .passthrough()
+)
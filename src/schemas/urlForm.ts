@@ -0,0 +1,133 @@
+import { z } from 'zod'
+import { URL_ERROR_MESSAGES, validateCustomCodeFormat } from '@/config/urlLimits'
+import { URL_DESCRIPTION_LIMITS, URL_MAX_CLICKS_LIMITS, URL_PASSWORD_LIMITS, URL_TAG_LIMITS } from '@/config/url'
+
+/**
+ * URL form schemas
+ * @description Validation rules of the URL creation form, shared by the create modal and the
+ * CSV import so both accept exactly the same URLs
+ */
+
+/**
+ * Today's date as YYYY-MM-DD, the earliest expiry date a new URL can have
+ * @returns Date string in the format of date inputs
+ */
+export const getMinExpiryDate = () => new Date().toISOString().split('T')[0]
+
+/**
+ * Tags of a URL, shared by the create and edit forms
+ */
+export const urlTagsSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .min(1, 'Tags cannot be empty')
+      .max(URL_TAG_LIMITS.MAX_LENGTH, `Tags must be ${URL_TAG_LIMITS.MAX_LENGTH} characters or less`)
+  )
+  .max(URL_TAG_LIMITS.MAX_TAGS, `A URL can have up to ${URL_TAG_LIMITS.MAX_TAGS} tags`)
+  .optional()
+
+/**
+ * Optional link password, shared by the create and edit forms
+ * @description An empty value means no password, or keeping the current one when editing
+ */
+export const urlPasswordSchema = z
+  .string()
+  .optional()
+  .refine(value => !value || value.length >= URL_PASSWORD_LIMITS.MIN_LENGTH, {
+    message: `Password must be at least ${URL_PASSWORD_LIMITS.MIN_LENGTH} characters`
+  })
+  .refine(value => !value || value.length <= URL_PASSWORD_LIMITS.MAX_LENGTH, {
+    message: `Password must be ${URL_PASSWORD_LIMITS.MAX_LENGTH} characters or less`
+  })
+
+/**
+ * Optional activation time, shared by the create and edit forms
+ * @description Holds the local time of a datetime-local input, an empty value means the URL is
+ * live as soon as it is saved
+ */
+export const urlActivationSchema = z
+  .string()
+  .optional()
+  .refine(value => !value || !Number.isNaN(Date.parse(value)), { message: 'Activation time must be a valid date' })
+
+/**
+ * Optional click limit, shared by the create and edit forms
+ * @description Holds the value typed in the form, an empty value means unlimited clicks
+ */
+export const urlMaxClicksSchema = z
+  .string()
+  .optional()
+  .refine(value => !value || /^\d+$/.test(value.trim()), { message: 'Max clicks must be a whole number' })
+  .refine(value => !value || Number(value) >= URL_MAX_CLICKS_LIMITS.MIN, {
+    message: `Max clicks must be at least ${URL_MAX_CLICKS_LIMITS.MIN}`
+  })
+  .refine(value => !value || Number(value) <= URL_MAX_CLICKS_LIMITS.MAX, {
+    message: `Max clicks must be ${URL_MAX_CLICKS_LIMITS.MAX} or less`
+  })
+
+/**
+ * Check that a URL goes live before it expires
+ * @param data - Form values holding the activation time and the expiry date
+ * @param ctx - Refinement context the issue is added to
+ */
+export const refineActivationWindow = (
+  { activatesAt, expiryDate }: { activatesAt?: string; expiryDate?: string },
+  ctx: z.RefinementCtx
+) => {
+  if (activatesAt && expiryDate && activatesAt.slice(0, 10) >= expiryDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['activatesAt'],
+      message: 'Activation time must be before the expiry date'
+    })
+  }
+}
+
+/**
+ * Optional custom code, rejected when too long, with other characters than letters, numbers and
+ * hyphens, reserved for an app route or offensive
+ */
+export const urlCustomCodeSchema = z
+  .string()
+  .optional()
+  .superRefine((value, ctx) => {
+    const { isValid, error } = validateCustomCodeFormat(value ?? '')
+    if (!isValid) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error })
+  })
+
+/**
+ * New URL fields
+ */
+export const createUrlSchema = z
+  .object({
+    title: z.string().trim().min(1, URL_ERROR_MESSAGES.TITLE_REQUIRED),
+    description: z
+      .string()
+      .trim()
+      .max(
+        URL_DESCRIPTION_LIMITS.MAX_LENGTH,
+        `Description must be ${URL_DESCRIPTION_LIMITS.MAX_LENGTH} characters or less`
+      )
+      .optional(),
+    originalUrl: z.string().url(URL_ERROR_MESSAGES.INVALID_URL),
+    customCode: urlCustomCodeSchema,
+    expiryDate: z
+      .string()
+      .min(1, 'Expiry date is required')
+      .refine(value => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)), {
+        message: 'Expiry date must be a valid date (YYYY-MM-DD)'
+      })
+      .refine(value => value >= getMinExpiryDate(), { message: 'Expiry date cannot be in the past' }),
+    activatesAt: urlActivationSchema,
+    maxClicks: urlMaxClicksSchema,
+    tags: urlTagsSchema,
+    password: urlPasswordSchema,
+    // Read from the destination page, not typed
+    faviconUrl: z.string().optional(),
+    previewImageUrl: z.string().optional()
+  })
+  .superRefine(refineActivationWindow)
+
+export type CreateUrlFormSchema = z.infer<typeof createUrlSchema>
@@ -0,0 +1,38 @@
+import { z } from 'zod'
+import type { UrlRevisionsResponse } from '@/interfaces/urlRevision'
+import { apiEnvelope, optional, ResponseSchema } from './common'
+
+/**
+ * URL revision response schemas
+ * @description Runtime counterparts of the response interfaces in src/interfaces/urlRevision.ts
+ */
+
+/**
+ * Value of one field before and after a revision
+ */
+const urlRevisionChangeSchema = z.object({
+  field: z.enum(['original_url', 'short_code', 'title', 'expiry_date']),
+  previous: z.string().nullable(),
+  current: z.string().nullable()
+})
+
+/**
+ * Change made to a URL
+ */
+const urlRevisionSchema = z.object({
+  id: z.number(),
+  url_id: z.number(),
+  author: z.object({
+    id: z.number(),
+    name: z.string(),
+    email: z.string()
+  }),
+  changes: z.array(urlRevisionChangeSchema),
+  restored_from: optional(z.number()),
+  created_at: z.string()
+})
+
+/**
+ * Revisions of a URL, newest first
+ */
+export const urlRevisionsResponseSchema: ResponseSchema<UrlRevisionsResponse> = apiEnvelope(z.array(urlRevisionSchema))
@@ -0,0 +1,60 @@
+import { z } from 'zod'
+import type { UrlTotalClicksResponse } from '@/interfaces/urlTotalClicks'
+import { apiEnvelope, numeric, ResponseSchema } from './common'
+
+/**
+ * URL total clicks response schemas
+ * @description Runtime counterparts of the response interfaces in src/interfaces/urlTotalClicks.ts
+ */
+
+const metricComparisonSchema = z.object({
+  current: numeric,
+  previous: numeric,
+  change: numeric,
+  change_percentage: numeric.nullable()
+})
+
+const timeSeriesDataPointSchema = z.object({
+  date: z.string(),
+  clicks: numeric,
+  urls_count: numeric,
+  avg_clicks: numeric
+})
+
+/**
+ * Total clicks analytics response
+ */
+export const urlTotalClicksResponseSchema: ResponseSchema<UrlTotalClicksResponse> = apiEnvelope(
+  z.object({
+    summary: z.object({
+      total_clicks: numeric,
+      total_urls: numeric,
+      avg_clicks_per_url: numeric,
+      analysis_period: z.object({
+        start_date: z.string(),
+        end_date: z.string(),
+        days: numeric
+      }),
+      comparison: z.object({
+        period_days: numeric,
+        previous_period: z.object({
+          start_date: z.string(),
+          end_date: z.string()
+        }),
+        total_clicks: metricComparisonSchema,
+        avg_clicks_per_url: metricComparisonSchema,
+        active_urls: metricComparisonSchema
+      })
+    }),
+    time_series: z.object({
+      data: z.array(timeSeriesDataPointSchema),
+      pagination: z.object({
+        total_items: numeric,
+        total_pages: numeric,
+        current_page: numeric,
+        limit: numeric
+      })
+    }),
+    top_performing_days: z.array(timeSeriesDataPointSchema)
+  })
+)
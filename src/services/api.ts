@@ -1,10 +1,36 @@
-import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios'
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse, CanceledError, InternalAxiosRequestConfig } from 'axios'
 import Cookies from 'js-cookie'
 import logger from '@/utils/logger'
+import { RefreshTokenRequest } from '@/interfaces/auth'
+import type { RetryPolicy } from '@/interfaces/api'
+import { DEFAULT_RETRY_POLICY, RETRYABLE_METHODS } from '@/config/api'
+import { apiRefreshTokenResponseSchema } from '@/schemas/auth'
+import type { ResponseSchema } from '@/schemas/common'
+import { ApiContractError, AUTH_ENDPOINT_PREFIX, isCancelledError, parseRetryAfter, toApiError } from '@/utils/apiErrors'
+import { isDemoMode, mockAwareAdapter } from './mockApi'
+import { clearQueryCache } from './queryCache'
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Retry policy overrides for this request, or false to disable retries */
+    retry?: Partial<RetryPolicy> | false
+  }
+}
+
+/**
+ * Endpoint used to exchange the refresh token for a new access token
+ */
+const REFRESH_TOKEN_ENDPOINT = '/api/v1/auth/refresh'
+
+/**
+ * Window event dispatched when the session cannot be refreshed and the user has been logged out
+ */
+export const SESSION_EXPIRED_EVENT = 'cylink:session-expired'
 
 /**
  * Base API configuration
- * @description Axios instance with base configuration for API calls
+ * @description Axios instance with base configuration for API calls. Requests are answered by
+ * the in-browser mock API instead when it is enabled (see services/mockApi).
  */
 const api = axios.create({
   baseURL: process.env.NEXT_PUBLIC_BASE_API_URL ?? 'http://localhost:3000',
@@ -12,7 +38,8 @@ const api = axios.create({
     'Content-Type': 'application/json'
   },
   // Add a timeout to prevent hanging requests
-  timeout: 30000
+  timeout: 30000,
+  adapter: mockAwareAdapter
 })
 
 /**
@@ -44,6 +71,28 @@ export const getToken = (): string | null => {
   }
 }
 
+/**
+ * Validate a response payload against the schema of its endpoint
+ * @description Malformed payloads are logged and surfaced as an ApiContractError instead of
+ * reaching the UI as undefined values
+ * @param method - HTTP method of the request
+ * @param url - API endpoint
+ * @param schema - Response schema
+ * @param data - Raw response payload
+ * @returns The parsed, typed payload
+ */
+export const parseApiResponse = <T>(method: string, url: string, schema: ResponseSchema<T>, data: unknown): T => {
+  const result = schema.safeParse(data)
+
+  if (result.success) {
+    return result.data
+  }
+
+  const contractError = new ApiContractError(method, url, result.error.issues)
+  logger.error(`API contract violation: ${method} ${url}`, { issues: contractError.details })
+  throw contractError
+}
+
 /**
  * Request interceptor for API calls
  * @description Adds authentication token to request headers if available
@@ -71,15 +120,286 @@ api.interceptors.request.use(
   }
 )
 
+/**
+ * Request configuration that tracks whether it was already replayed after a token refresh
+ */
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean
+  /** Number of automatic retries already made for this request */
+  _retryCount?: number
+}
+
+/**
+ * Request waiting for the in-flight token refresh to settle
+ */
+interface QueuedRequest {
+  resolve: (token: string) => void
+  reject: (error: unknown) => void
+}
+
+// Only one refresh call runs at a time; concurrent 401s wait in the queue
+let isRefreshing = false
+let refreshQueue: QueuedRequest[] = []
+
+/**
+ * Settle every queued request with the refreshed token or the refresh error
+ * @param error - Error thrown by the refresh call, if any
+ * @param token - New access token when the refresh succeeded
+ */
+const processRefreshQueue = (error: unknown, token: string | null) => {
+  refreshQueue.forEach(({ resolve, reject }) => {
+    if (token) {
+      resolve(token)
+    } else {
+      reject(error)
+    }
+  })
+  refreshQueue = []
+}
+
+/**
+ * Check whether a request targets an authentication endpoint
+ * @description 401 responses from these endpoints mean bad credentials, not an expired session
+ * @param url - Request URL
+ * @returns true if the URL belongs to the auth API
+ */
+const isAuthEndpoint = (url?: string) => !!url && url.includes(AUTH_ENDPOINT_PREFIX)
+
+/**
+ * Clear the stored session and notify the app that the user has been logged out
+ */
+const expireSession = () => {
+  if (!isBrowser()) return
+
+  try {
+    Cookies.remove('accessToken')
+    Cookies.remove('refreshToken')
+    Cookies.remove('rememberMe')
+    Cookies.remove('userData')
+    logger.info('Removed tokens after failed session refresh')
+  } catch (storageError) {
+    logger.error('Error removing tokens', storageError)
+  }
+
+  clearQueryCache()
+  window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT))
+}
+
+/**
+ * Exchange the stored refresh token for a new access token
+ * @description Uses a bare axios call so the refresh request skips the interceptors of the api instance
+ * @returns Promise with the new access token
+ */
+const refreshAccessToken = async (): Promise<string> => {
+  const refreshToken = Cookies.get('refreshToken')
+
+  if (!refreshToken) {
+    throw new Error('No refresh token available')
+  }
+
+  const response = await axios.post<unknown>(
+    REFRESH_TOKEN_ENDPOINT,
+    { refresh_token: refreshToken } satisfies RefreshTokenRequest,
+    {
+      baseURL: api.defaults.baseURL,
+      headers: { 'Content-Type': 'application/json' },
+      timeout: api.defaults.timeout,
+      adapter: api.defaults.adapter
+    }
+  )
+
+  const tokens = parseApiResponse('POST', REFRESH_TOKEN_ENDPOINT, apiRefreshTokenResponseSchema, response.data).data.token
+
+  Cookies.set('accessToken', tokens.access)
+
+  // Keep the current refresh token unless the backend rotated it
+  if (tokens.refresh) {
+    Cookies.set('refreshToken', tokens.refresh)
+  }
+
+  logger.info('Access token refreshed')
+  return tokens.access
+}
+
+/**
+ * Replay a request with a new access token
+ * @param config - Original request configuration
+ * @param token - New access token
+ * @returns Promise with the replayed response
+ */
+const replayRequest = (config: RetryableRequestConfig, token: string) => {
+  config._retry = true
+  config.headers.Authorization = `Bearer ${token}`
+  return api(config)
+}
+
+/**
+ * Recover from a 401 response by refreshing the access token
+ * @description The first 401 starts a refresh; requests failing while it runs are queued
+ * and replayed with the new token. The session is only cleared if the refresh fails.
+ * @param error - The 401 error
+ * @returns Promise with the replayed response
+ */
+const handleUnauthorized = async (error: AxiosError): Promise<AxiosResponse> => {
+  const originalRequest = error.config as RetryableRequestConfig | undefined
+
+  // A 401 from the mock API says nothing about the real session, which must outlive the demo
+  if (!originalRequest || isAuthEndpoint(originalRequest.url) || isDemoMode()) {
+    throw error
+  }
+
+  // A replayed request failing again, or no way to refresh, means the session is over
+  if (originalRequest._retry || !Cookies.get('refreshToken')) {
+    expireSession()
+    throw error
+  }
+
+  if (isRefreshing) {
+    const token = await new Promise<string>((resolve, reject) => {
+      refreshQueue.push({ resolve, reject })
+    })
+
+    return replayRequest(originalRequest, token)
+  }
+
+  isRefreshing = true
+
+  try {
+    const token = await refreshAccessToken()
+    processRefreshQueue(null, token)
+
+    return replayRequest(originalRequest, token)
+  } catch (refreshError) {
+    logger.error('Failed to refresh access token', refreshError)
+    processRefreshQueue(refreshError, null)
+    expireSession()
+    throw error
+  } finally {
+    isRefreshing = false
+  }
+}
+
+/**
+ * Resolve the retry policy of a request
+ * @param config - Request configuration
+ * @returns The policy merged with the per-call overrides, or null if the request must not be retried
+ */
+const getRetryPolicy = (config: RetryableRequestConfig): RetryPolicy | null => {
+  const method = (config.method ?? 'get').toLowerCase()
+
+  if (config.retry === false || !(RETRYABLE_METHODS as readonly string[]).includes(method)) {
+    return null
+  }
+
+  return { ...DEFAULT_RETRY_POLICY, ...config.retry }
+}
+
+/**
+ * Compute how long to wait before retrying a failed request
+ * @description Honors the Retry-After header when present, otherwise uses exponential backoff
+ * with jitter so clients that failed together do not retry together. Timeouts are not retried
+ * since the request already waited for the full timeout.
+ * @param error - The failed request
+ * @param policy - Retry policy of the request
+ * @param attempt - Number of retries already made
+ * @returns Delay in milliseconds, or null if the error is not retryable
+ */
+const getRetryDelay = (error: AxiosError, policy: RetryPolicy, attempt: number): number | null => {
+  if (error.response) {
+    if (!policy.retryOnStatus.includes(error.response.status)) return null
+
+    const retryAfter = parseRetryAfter(error.response.headers?.['retry-after'])
+    if (retryAfter !== undefined) {
+      return retryAfter <= policy.maxRetryAfter ? retryAfter : null
+    }
+  } else if (
+    !policy.retryOnNetworkError ||
+    !error.request ||
+    error.code === 'ECONNABORTED' ||
+    error.code === 'ETIMEDOUT'
+  ) {
+    return null
+  }
+
+  const backoff = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt)
+  return backoff / 2 + Math.random() * (backoff / 2)
+}
+
+/**
+ * Wait before a retry, stopping early if the request is cancelled
+ * @param delay - Delay in milliseconds
+ * @param config - Request configuration, whose signal cancels the wait
+ * @returns Promise that resolves after the delay or rejects with a CanceledError
+ */
+const waitForRetry = (delay: number, config: RetryableRequestConfig) =>
+  new Promise<void>((resolve, reject) => {
+    const { signal } = config
+    const cancel = () => reject(new CanceledError(undefined, undefined, config))
+
+    if (signal?.aborted) {
+      cancel()
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      cancel()
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort)
+      resolve()
+    }, delay)
+
+    signal?.addEventListener?.('abort', onAbort, { once: true })
+  })
+
+/**
+ * Retry a failed idempotent request when its retry policy allows it
+ * @param error - The failed request
+ * @returns Promise with the retried response, or null if the request should not be retried
+ */
+const retryRequest = (error: AxiosError): Promise<AxiosResponse> | null => {
+  const config = error.config as RetryableRequestConfig | undefined
+  const policy = config ? getRetryPolicy(config) : null
+
+  if (!config || !policy) return null
+
+  const attempt = config._retryCount ?? 0
+  if (attempt >= policy.retries) return null
+
+  const delay = getRetryDelay(error, policy, attempt)
+  if (delay === null) return null
+
+  config._retryCount = attempt + 1
+  logger.warn(`Retrying ${config.method?.toUpperCase()} ${config.url} (${config._retryCount}/${policy.retries})`, {
+    status: error.response?.status,
+    delay: Math.round(delay)
+  })
+
+  return waitForRetry(delay, config).then(() => api(config))
+}
+
 /**
  * Response interceptor for API calls
- * @description Handles common response processing and error handling
+ * @description Retries transient failures of idempotent requests, handles common response
+ * processing and normalizes every failure into an ApiError
  */
 api.interceptors.response.use(
   (response: AxiosResponse) => {
     return response
   },
   (error: AxiosError) => {
+    // Aborted requests are expected and not worth logging
+    if (isCancelledError(error)) {
+      return Promise.reject(toApiError(error))
+    }
+
+    // Transient failures of idempotent requests are retried before being reported
+    const retry = retryRequest(error)
+    if (retry) {
+      return retry.catch(retryError => Promise.reject(toApiError(retryError)))
+    }
+
     try {
       // Handle common error cases
       if (error.response) {
@@ -88,17 +408,9 @@ api.interceptors.response.use(
           statusText: error.response.statusText
         })
 
-        // Handle authentication errors
-        if (error.response.status === 401) {
-          if (isBrowser()) {
-            try {
-              Cookies.remove('accessToken')
-              Cookies.remove('refreshToken')
-              logger.info('Removed tokens due to 401 response')
-            } catch (storageError) {
-              logger.error('Error removing tokens', storageError)
-            }
-          }
+        // Handle authentication errors by refreshing the session
+        if (error.response.status === 401 && isBrowser()) {
+          return handleUnauthorized(error).catch(unauthorizedError => Promise.reject(toApiError(unauthorizedError)))
         }
       } else if (error.request) {
         // The request was made but no response was received
@@ -117,13 +429,15 @@ api.interceptors.response.use(
       logger.error('Error in response error interceptor', interceptorError)
     }
 
-    return Promise.reject(error)
+    return Promise.reject(toApiError(error))
   }
 )
 
 /**
  * Generic GET request
- * @description Makes a GET request to the specified endpoint
+ * @description Makes a GET request to the specified endpoint. Pass `config.signal` to cancel the
+ * request; it then rejects with an ApiError of kind 'cancelled' (see isCancelledError).
+ * Transient failures are retried with DEFAULT_RETRY_POLICY unless `config.retry` overrides it.
  * @param url - API endpoint
  * @param config - Axios request configuration
  * @returns Promise with the response data
@@ -145,7 +459,9 @@ export const get = async <T>(url: string, config?: AxiosRequestConfig): Promise<
     const response = await api.get<T>(url, enhancedConfig)
     return response.data
   } catch (error) {
-    logger.error(`GET request failed: ${url}`, error)
+    if (!isCancelledError(error)) {
+      logger.error(`GET request failed: ${url}`, error)
+    }
     throw error
   }
 }
@@ -232,4 +548,97 @@ export const getPublic = async <T>(url: string, config?: AxiosRequestConfig): Pr
   }
 }
 
+/**
+ * Generic POST request without authentication header
+ * @description Makes a POST request to the specified endpoint without auth header
+ * @param url - API endpoint
+ * @param data - Request payload
+ * @param config - Axios request configuration
+ * @returns Promise with the response data
+ */
+export const postPublic = async <T, D = unknown>(url: string, data?: D, config?: AxiosRequestConfig): Promise<T> => {
+  try {
+    logger.debug(`Public POST request: ${url}`)
+
+    const publicConfig: AxiosRequestConfig = {
+      ...config,
+      headers: {
+        ...(config?.headers || {}),
+        'Content-Type': 'application/json'
+      }
+    }
+
+    const response = await api.post<T>(url, data, publicConfig)
+    return response.data
+  } catch (error) {
+    logger.error(`Public POST request failed: ${url}`, error)
+    throw error
+  }
+}
+
+/**
+ * Validated GET request
+ * @description Makes a GET request and validates the response against a schema
+ * @param url - API endpoint
+ * @param schema - Response schema
+ * @param config - Axios request configuration
+ * @returns Promise with the validated response data
+ */
+export const getValidated = async <T>(url: string, schema: ResponseSchema<T>, config?: AxiosRequestConfig) =>
+  parseApiResponse('GET', url, schema, await get<unknown>(url, config))
+
+/**
+ * Validated POST request
+ * @description Makes a POST request and validates the response against a schema
+ * @param url - API endpoint
+ * @param schema - Response schema
+ * @param data - Request payload
+ * @param config - Axios request configuration
+ * @returns Promise with the validated response data
+ */
+export const postValidated = async <T, D = unknown>(
+  url: string,
+  schema: ResponseSchema<T>,
+  data?: D,
+  config?: AxiosRequestConfig
+) => parseApiResponse('POST', url, schema, await post<unknown, D>(url, data, config))
+
+/**
+ * Validated PUT request
+ * @description Makes a PUT request and validates the response against a schema
+ * @param url - API endpoint
+ * @param schema - Response schema
+ * @param data - Request payload
+ * @param config - Axios request configuration
+ * @returns Promise with the validated response data
+ */
+export const putValidated = async <T, D = unknown>(
+  url: string,
+  schema: ResponseSchema<T>,
+  data?: D,
+  config?: AxiosRequestConfig
+) => parseApiResponse('PUT', url, schema, await put<unknown, D>(url, data, config))
+
+/**
+ * Validated DELETE request
+ * @description Makes a DELETE request and validates the response against a schema
+ * @param url - API endpoint
+ * @param schema - Response schema
+ * @param config - Axios request configuration
+ * @returns Promise with the validated response data
+ */
+export const delValidated = async <T>(url: string, schema: ResponseSchema<T>, config?: AxiosRequestConfig) =>
+  parseApiResponse('DELETE', url, schema, await del<unknown>(url, config))
+
+/**
+ * Validated public GET request
+ * @description Makes an unauthenticated GET request and validates the response against a schema
+ * @param url - API endpoint
+ * @param schema - Response schema
+ * @param config - Axios request configuration
+ * @returns Promise with the validated response data
+ */
+export const getPublicValidated = async <T>(url: string, schema: ResponseSchema<T>, config?: AxiosRequestConfig) =>
+  parseApiResponse('GET', url, schema, await getPublic<unknown>(url, config))
+
 export default api
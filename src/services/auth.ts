@@ -1,7 +1,6 @@
-import { post } from './api'
+import { postValidated } from './api'
 import {
   LoginRequest,
-  ApiLoginResponse,
   LoginResponse,
   RegisterRequest,
   RegisterResponse,
@@ -12,6 +11,13 @@ import {
   User
 } from '@/interfaces/auth'
 import Cookies from 'js-cookie'
+import { clearQueryCache } from './queryCache'
+import {
+  apiLoginResponseSchema,
+  forgotPasswordResponseSchema,
+  registerResponseSchema,
+  resetPasswordResponseSchema
+} from '@/schemas/auth'
 
 /**
  * Authentication Service
@@ -41,7 +47,8 @@ const AuthService = {
       }
 
       // Call API with registration data
-      const response = await post<RegisterResponse>('/api/v1/auth/register', {
+      // The schema normalizes flat user payloads to the nested structure
+      const response = await postValidated('/api/v1/auth/register', registerResponseSchema, {
         email: credentials.email,
         password: credentials.password,
         username: credentials.username,
@@ -52,43 +59,7 @@ const AuthService = {
         console.log('Registration API response:', response)
       }
 
-      // Validate response structure (minimal)
-      if (!response || typeof response !== 'object') {
-        if (process.env.NODE_ENV !== 'production') {
-          console.error('Invalid registration response structure:', response)
-        }
-        throw new Error('Invalid response from server')
-      }
-
-      // No longer expect user or verification_token fields
-      // Optionally, normalize data here if needed by frontend
-      // Normalisasi agar data.user selalu ada
-      let normalizedResponse = response
-      if (
-        response &&
-        response.data &&
-        // Gunakan optional chaining dan cek jika response.data.id ada, bukan response.data.user
-        !('user' in response.data) &&
-        'id' in response.data
-      ) {
-        const data: Record<string, unknown> = response.data
-        normalizedResponse = {
-          ...response,
-          data: {
-            user: {
-              id: data.id as number,
-              email: data.email as string,
-              name: (data.username as string) || (data.name as string) || '',
-              email_verified_at: (data.email_verified_at as string) || null,
-              created_at: (data.created_at as string) || '',
-              updated_at: (data.updated_at as string) || '',
-              is_verified: (data.is_verified as boolean) || false
-            },
-            verification_token: (data.verification_token as string) || ''
-          }
-        }
-      }
-      return normalizedResponse
+      return response
     } catch (error) {
       console.error('Registration service error:', error)
       throw error
@@ -103,26 +74,11 @@ const AuthService = {
   login: async (credentials: LoginRequest): Promise<LoginResponse> => {
     try {
       // Call API with original request structure
-      const apiResponse = await post<ApiLoginResponse>('/api/v1/auth/login', credentials)
+      const apiResponse = await postValidated('/api/v1/auth/login', apiLoginResponseSchema, credentials)
       if (process.env.NODE_ENV !== 'production') {
         console.log('Raw API response:', apiResponse)
       }
 
-      // Validate response structure (for the actual API response)
-      if (!apiResponse?.data?.user || !apiResponse?.data?.token) {
-        if (process.env.NODE_ENV !== 'production') {
-          console.error('Invalid login response structure:', apiResponse)
-        }
-        throw new Error('Invalid response from server')
-      }
-
-      if (!apiResponse.data.token.access || !apiResponse.data.token.refresh) {
-        if (process.env.NODE_ENV !== 'production') {
-          console.error('Missing tokens in response:', apiResponse.data.token)
-        }
-        throw new Error('Authentication tokens missing in response')
-      }
-
       // Convert the API response to our expected format
       const formattedResponse: LoginResponse = {
         status: apiResponse.status,
@@ -163,6 +119,9 @@ const AuthService = {
       throw new Error('Cannot save invalid authentication tokens')
     }
 
+    // A new session never starts with the cached API data of a previous user
+    clearQueryCache()
+
     try {
       Cookies.set('accessToken', accessToken)
       Cookies.set('refreshToken', refreshToken)
@@ -243,6 +202,9 @@ const AuthService = {
     } catch (error) {
       console.error('Error clearing tokens from Cookies:', error)
     }
+
+    // Cached API data belongs to the user who is logging out
+    clearQueryCache()
   },
 
   /**
@@ -300,7 +262,7 @@ const AuthService = {
    */
   forgotPassword: async (email: ForgotPasswordRequest): Promise<ForgotPasswordResponse> => {
     try {
-      const response = await post<ForgotPasswordResponse>('/api/v1/auth/forgot-password', email)
+      const response = await postValidated('/api/v1/auth/forgot-password', forgotPasswordResponseSchema, email)
       return response
     } catch (error) {
       console.error('Forgot password service error:', error)
@@ -316,8 +278,9 @@ const AuthService = {
    */
   resetPassword: async (resetData: ResetPasswordRequest, token: string): Promise<ResetPasswordResponse> => {
     try {
-      const response = await post<ResetPasswordResponse>(
+      const response = await postValidated(
         `/api/v1/auth/reset-password?token=${encodeURIComponent(token)}`,
+        resetPasswordResponseSchema,
         resetData
       )
       return response
@@ -0,0 +1,52 @@
+import { getPublicValidated, getValidated, putValidated } from "./api";
+import type {
+  BioPageResponse,
+  PublicBioPageResponse,
+  UpdateBioPageRequest,
+} from "@/interfaces/bioPage";
+import { BIO_PAGE_QUERY_PREFIXES, invalidateQueries } from "./queryCache";
+import {
+  bioPageResponseSchema,
+  publicBioPageResponseSchema,
+} from "@/schemas/bioPage";
+
+/**
+ * Bio Page Service
+ * @description Service for the link-in-bio page endpoints
+ */
+
+/**
+ * Fetch the bio page of the signed-in user
+ * @returns Promise with the bio page response
+ */
+export const fetchBioPage = async (): Promise<BioPageResponse> => {
+  const endpoint = `/api/v1/bio-page`;
+  return getValidated(endpoint, bioPageResponseSchema);
+};
+
+/**
+ * Save the bio page of the signed-in user
+ * @param data - Every field of the page, links in display order
+ * @returns Promise with the saved bio page response
+ */
+export const updateBioPage = async (
+  data: UpdateBioPageRequest
+): Promise<BioPageResponse> => {
+  const endpoint = `/api/v1/bio-page`;
+  const response = await putValidated(endpoint, bioPageResponseSchema, data);
+
+  invalidateQueries(BIO_PAGE_QUERY_PREFIXES);
+  return response;
+};
+
+/**
+ * Fetch a bio page without authentication
+ * @param username - Username of the page
+ * @returns Promise with the public bio page response
+ */
+export const fetchPublicBioPage = async (
+  username: string
+): Promise<PublicBioPageResponse> => {
+  const endpoint = `/api/v1/public/bio/${encodeURIComponent(username)}`;
+  return getPublicValidated(endpoint, publicBioPageResponseSchema);
+};
@@ -2,7 +2,8 @@ import {
   ConversionRateParams,
   ConversionRateResponse,
 } from "@/interfaces/conversion";
-import { get } from "./api";
+import { getValidated } from "./api";
+import { conversionRateResponseSchema } from "@/schemas/conversion";
 
 /**
  * Get overall conversion rate data
@@ -38,8 +39,9 @@ export const getConversionRate = async (
       : "";
 
     // Make the API request
-    const response = await get<ConversionRateResponse>(
-      `/api/v1/conversion-rate${queryString}`
+    const response = await getValidated(
+      `/api/v1/conversion-rate${queryString}`,
+      conversionRateResponseSchema
     );
     return response;
   } catch (error) {
@@ -9,14 +9,20 @@ import {
   VotersResponse,
   SimilarFeedbackResponse,
   VoteApiRequest,
-  VoteApiResponse,
-  VoteApiResponseData,
-  DeleteFeedbackApiResponse
+  VoteApiResponse
 } from '@/interfaces/feedback'
+import {
+  createFeedbackApiResponseSchema,
+  deleteFeedbackApiResponseSchema,
+  feedbackApiResponseSchema,
+  voteApiResponseSchema,
+  votersResponseSchema
+} from '@/schemas/feedback'
 import logger from '@/utils/logger'
+import { isCancelledError } from '@/utils/apiErrors'
 // Import fakedb data
 import fakeData from '@/fakedb/feedback.json'
-import { get, post, del } from './api'
+import { getValidated, postValidated, delValidated } from './api'
 /**
  * Feedback Service
  * @description Service for interacting with feedback-related operations
@@ -92,30 +98,21 @@ const buildFeedbackQueryParams = (filter: Partial<FeedbackFilter>): URLSearchPar
 /**
  * Fetch feedback items from the real API
  * @param filter - Filter parameters for the feedback query
+ * @param signal - Optional signal to cancel the request
  * @returns Promise with the API response
  * @throws Error if the API call fails
  */
-export const fetchFeedbackFromApi = async (filter: Partial<FeedbackFilter> = {}): Promise<FeedbackApiResponse> => {
+export const fetchFeedbackFromApi = async (
+  filter: Partial<FeedbackFilter> = {},
+  signal?: AbortSignal
+): Promise<FeedbackApiResponse> => {
   const queryString = buildFeedbackQueryParams(filter).toString()
   const endpoint = `${FEEDBACK_API_ENDPOINT}?${queryString}`
 
   try {
-    const response = await get<FeedbackApiResponse>(endpoint)
-
-    // If valid response with data, return it
-    if (response?.status === 200 && response.data?.length) {
-      return response
-    }
-
-    // Fallback Return empty state if response is missing or empty
-    return {
-      status: 200,
-      message: 'No feedback found',
-      data: [],
-      pagination: { total: 0, page: filter.page ?? 1, limit: filter.limit ?? 10, total_pages: 0 }
-    }
+    return await getValidated(endpoint, feedbackApiResponseSchema, { signal })
   } catch (error) {
-    logger.error('Failed to fetch feedback', { error, filter })
+    if (!isCancelledError(error)) logger.error('Failed to fetch feedback', { error, filter })
     throw error
   }
 }
@@ -125,10 +122,14 @@ export const fetchFeedbackFromApi = async (filter: Partial<FeedbackFilter> = {})
  * Uses the real backend API
  *
  * @param filter - Filter parameters for the feedback query
+ * @param signal - Optional signal to cancel the request
  * @returns Promise with the API response containing feedback items and pagination
  */
-export const fetchFeedback = async (filter: Partial<FeedbackFilter> = {}): Promise<FeedbackApiResponse> => {
-  return fetchFeedbackFromApi(filter)
+export const fetchFeedback = async (
+  filter: Partial<FeedbackFilter> = {},
+  signal?: AbortSignal
+): Promise<FeedbackApiResponse> => {
+  return fetchFeedbackFromApi(filter, signal)
 }
 
 /**
@@ -176,11 +177,7 @@ const enrichFeedbackItem = (
  */
 export const submitFeedbackToApi = async (formData: CreateFeedbackFormData): Promise<CreateFeedbackApiResponse> => {
   try {
-    const response = await post<CreateFeedbackApiResponse>(FEEDBACK_API_ENDPOINT, formData)
-
-    if (!response?.data) throw new Error('Invalid response from server')
-
-    return response
+    return await postValidated(FEEDBACK_API_ENDPOINT, createFeedbackApiResponseSchema, formData)
   } catch (error) {
     logger.error('Failed to submit feedback', { error, formData })
     throw error
@@ -215,13 +212,7 @@ export const submitVoteToApi = async (feedbackId: number, voteData: VoteApiReque
   const endpoint = `${FEEDBACK_API_ENDPOINT}/${feedbackId}/vote`
 
   try {
-    const response = await post<VoteApiResponse>(endpoint, voteData)
-
-    if (!response?.data) {
-      throw new Error('Invalid response from server')
-    }
-
-    return response
+    return await postValidated(endpoint, voteApiResponseSchema, voteData)
   } catch (error) {
     logger.error('Failed to submit vote', { error, feedbackId, voteData })
     throw error
@@ -279,11 +270,7 @@ export const removeVote = async (
   const endpoint = `${FEEDBACK_API_ENDPOINT}/${feedbackId}/vote`
 
   try {
-    const response = await del<{ status: number; message: string; data: VoteApiResponseData }>(endpoint)
-
-    if (!response?.data) {
-      throw new Error('Invalid response from server')
-    }
+    const response = await delValidated(endpoint, voteApiResponseSchema)
 
     const updatedData: Partial<FeedbackItem> = {
       id: response.data.id,
@@ -317,17 +304,7 @@ export const fetchVoters = async (feedbackId: number, search?: string): Promise<
   const endpoint = `${FEEDBACK_API_ENDPOINT}/${feedbackId}/voters${queryParams}`
 
   try {
-    const response = await get<VotersResponse>(endpoint)
-
-    if (!response?.data) {
-      return {
-        status: 200,
-        message: 'No voters found',
-        data: { voters: [], total: 0 }
-      }
-    }
-
-    return response
+    return await getValidated(endpoint, votersResponseSchema)
   } catch (error) {
     logger.error('Failed to fetch voters', { error, feedbackId, search })
     throw error
@@ -375,7 +352,7 @@ export const deleteFeedback = async (feedbackId: number): Promise<{ status: numb
   const endpoint = `${FEEDBACK_API_ENDPOINT}/${feedbackId}`
 
   try {
-    const response = await del<DeleteFeedbackApiResponse>(endpoint)
+    const response = await delValidated(endpoint, deleteFeedbackApiResponseSchema)
     return {
       status: response.status,
       message: response.message
@@ -0,0 +1,32 @@
+import { parseApiResponse } from "./api";
+import { LINK_PREVIEW_ENDPOINT } from "@/config/linkPreview";
+import type { LinkPreview } from "@/interfaces/linkPreview";
+import { linkPreviewResponseSchema } from "@/schemas/linkPreview";
+
+/**
+ * Link Preview Service
+ * @description Reads the title and preview metadata of destinations through the route handler of
+ * the app, since browsers cannot read other sites' pages. Unlike the backend API, the handler is
+ * served by the app itself, so it is called with fetch rather than the API client; being on the
+ * same origin, the request carries the auth cookie the handler requires.
+ */
+
+/**
+ * Fetch the title and preview metadata of a destination
+ * @param url - Destination URL
+ * @returns Promise with the metadata found on the page
+ * @throws Error with the message of the handler if the page could not be read
+ */
+export const fetchLinkPreview = async (url: string): Promise<LinkPreview> => {
+  const endpoint = `${LINK_PREVIEW_ENDPOINT}?url=${encodeURIComponent(url)}`;
+  const response = await fetch(endpoint);
+  const body: unknown = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const message = (body as { message?: string } | null)?.message;
+    throw new Error(message ?? `Link preview failed with ${response.status}`);
+  }
+
+  return parseApiResponse("GET", endpoint, linkPreviewResponseSchema, body)
+    .data;
+};
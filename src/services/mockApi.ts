@@ -0,0 +1,184 @@
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  CanceledError,
+  getAdapter,
+  InternalAxiosRequestConfig
+} from 'axios'
+import type { MockHttpMethod, MockResponse } from '@/interfaces/mockApi'
+import { MOCK_API_ENABLED, MOCK_API_LATENCY } from '@/config/mockApi'
+import logger from '@/utils/logger'
+import { clearQueryCache } from './queryCache'
+
+/**
+ * Mock API Service
+ * @description Axios adapter that answers requests from the in-browser mock backend in
+ * src/fakedb instead of the network. It is active for the whole app when
+ * NEXT_PUBLIC_USE_MOCK_API=true, and for the duration of the public demo otherwise. The mock
+ * backend is loaded on first use, so it stays out of the bundle until it is needed.
+ *
+ * The demo routes every request of the api instance to the mock API, so work on behalf of the
+ * signed in user is paused while it runs: the offline outbox is neither replayed nor filled, and
+ * the session is not refreshed. See isDemoMode.
+ */
+
+/**
+ * Window event dispatched when the demo ends, so paused work on the real session can resume
+ */
+export const DEMO_MODE_ENDED_EVENT = 'cylink:demo-mode-ended'
+
+let isDemoModeActive = false
+
+/**
+ * Check whether the public demo is running
+ * @returns true between startDemoMode and endDemoMode
+ */
+export const isDemoMode = (): boolean => isDemoModeActive
+
+/**
+ * Check whether requests are answered by the mock API
+ * @returns true if the env var or the demo turned the mock API on
+ */
+export const isMockApiEnabled = (): boolean => MOCK_API_ENABLED || isDemoModeActive
+
+/**
+ * Serve every request from the mock API until endDemoMode is called
+ * @description Cached responses are dropped on both ends so real and demo data never mix
+ */
+export const startDemoMode = () => {
+  isDemoModeActive = true
+  clearQueryCache()
+  logger.info('Demo mode started')
+}
+
+/**
+ * Send requests to the backend again after a demo
+ */
+export const endDemoMode = () => {
+  isDemoModeActive = false
+  clearQueryCache()
+  logger.info('Demo mode ended')
+  window.dispatchEvent(new Event(DEMO_MODE_ENDED_EVENT))
+}
+
+/**
+ * Wait for the simulated network latency
+ * @param config - Request configuration, whose signal cancels the wait
+ * @returns Promise that resolves after the delay or rejects with a CanceledError
+ */
+const simulateLatency = (config: InternalAxiosRequestConfig) =>
+  new Promise<void>((resolve, reject) => {
+    const { signal } = config
+    const cancel = () => reject(new CanceledError(undefined, undefined, config))
+
+    if (signal?.aborted) {
+      cancel()
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      cancel()
+    }
+    const timer = setTimeout(
+      () => {
+        signal?.removeEventListener?.('abort', onAbort)
+        resolve()
+      },
+      MOCK_API_LATENCY.min + Math.random() * (MOCK_API_LATENCY.max - MOCK_API_LATENCY.min)
+    )
+
+    signal?.addEventListener?.('abort', onAbort, { once: true })
+  })
+
+/**
+ * Read the body of a request
+ * @description Axios serializes the body before it reaches the adapter
+ * @param data - Request data
+ * @returns Parsed JSON body
+ */
+const parseRequestBody = (data: unknown): unknown => {
+  if (typeof data !== 'string') return data
+
+  try {
+    return JSON.parse(data)
+  } catch {
+    return data
+  }
+}
+
+/**
+ * Run the mock route handler of a request
+ * @param config - Request configuration
+ * @returns The handler response, a 404 if no route matches, or a 500 if the handler throws
+ */
+const runMockHandler = async (config: InternalAxiosRequestConfig): Promise<MockResponse> => {
+  const { matchMockRoute } = await import('@/fakedb/routes')
+
+  const method = (config.method ?? 'get').toUpperCase() as MockHttpMethod
+  const url = new URL(config.url ?? '', 'http://mock.local')
+  Object.entries(config.params ?? {}).forEach(([name, value]) => url.searchParams.append(name, String(value)))
+
+  const match = matchMockRoute(method, url.pathname)
+  if (!match) {
+    logger.warn(`Mock API has no route for ${method} ${url.pathname}`)
+    return { status: 404, data: { status: 404, message: `No mock route for ${method} ${url.pathname}` } }
+  }
+
+  try {
+    return match.handler({
+      method,
+      path: url.pathname,
+      params: match.params,
+      query: url.searchParams,
+      body: parseRequestBody(config.data)
+    })
+  } catch (error) {
+    logger.error(`Mock API handler failed: ${method} ${url.pathname}`, error)
+    return { status: 500, data: { status: 500, message: 'Mock API handler failed' } }
+  }
+}
+
+/**
+ * Answer a request from the mock API
+ * @description Responses go through a JSON round trip like real ones, so callers never share
+ * objects with the mock database, and status codes are checked like the built-in adapters do
+ * @param config - Request configuration
+ * @returns Promise with the mock response
+ */
+const mockAdapter: AxiosAdapter = async config => {
+  await simulateLatency(config)
+
+  const result = await runMockHandler(config)
+  const response: AxiosResponse = {
+    data: result.data === undefined ? undefined : JSON.parse(JSON.stringify(result.data)),
+    status: result.status,
+    statusText: '',
+    headers: new AxiosHeaders(result.headers),
+    config,
+    request: {}
+  }
+
+  logger.debug(`Mock API ${config.method?.toUpperCase()} ${config.url}`, { status: result.status })
+
+  if (!config.validateStatus || config.validateStatus(result.status)) {
+    return response
+  }
+
+  throw new AxiosError(
+    `Request failed with status code ${result.status}`,
+    result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    response.request,
+    response
+  )
+}
+
+/**
+ * Axios adapter switching between the mock API and the network
+ * @description Decided per request, so the demo can turn the mock API on and off at runtime
+ */
+export const mockAwareAdapter: AxiosAdapter = config =>
+  isMockApiEnabled() ? mockAdapter(config) : getAdapter(axios.defaults.adapter)(config)
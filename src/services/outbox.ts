@@ -0,0 +1,291 @@
+import type { OutboxItem, OutboxItemMeta, OutboxMutation, OutboxSyncResult } from '@/interfaces/outbox'
+import { ApiError, ApiErrorKind, toApiError } from '@/utils/apiErrors'
+import logger from '@/utils/logger'
+import { isDemoMode } from './mockApi'
+import { createUrlFromForm, deleteUrlById, editUrlById, updateUrlStatusById } from './url'
+
+/**
+ * Outbox Service
+ * @description IndexedDB queue of URL mutations made while offline. Mutations are replayed in
+ * the order they were queued once the browser is back online; mutations the server rejects are
+ * kept as conflicts until the user reviews them.
+ */
+
+const DB_NAME = 'cylink_outbox'
+const DB_VERSION = 1
+const STORE_NAME = 'mutations'
+
+/**
+ * Error kinds that mean the server could not be reached or asked us to come back later
+ * @description Replay stops on these and resumes on the next sync instead of flagging a conflict
+ */
+const TRANSIENT_ERROR_KINDS: ApiErrorKind[] = ['network', 'timeout', 'server', 'rate_limited', 'auth', 'cancelled']
+
+/**
+ * Message of mutations refused by the outbox because they set a password
+ */
+const PASSWORD_OFFLINE_MESSAGE = "Passwords can only be set online. Please try again once you're back online."
+
+/**
+ * Message of mutations refused by the outbox while the demo runs
+ */
+const DEMO_OFFLINE_MESSAGE = 'Changes made in the demo are not saved offline.'
+
+/**
+ * Outbox item as written to the store, before IndexedDB assigns its ID
+ */
+type NewOutboxItem = OutboxMutation & Omit<OutboxItemMeta, 'id'>
+
+let databasePromise: Promise<IDBDatabase> | null = null
+let syncPromise: Promise<OutboxSyncResult> | null = null
+const listeners = new Set<() => void>()
+
+/**
+ * Check whether the browser can store the outbox
+ * @returns true if IndexedDB is available
+ */
+export const isOutboxSupported = (): boolean => globalThis.indexedDB !== undefined
+
+/**
+ * Check whether the browser reports being offline
+ * @returns true if there is no network connection
+ */
+export const isOffline = (): boolean => globalThis.navigator !== undefined && !navigator.onLine
+
+/**
+ * Check whether a failed mutation should be queued instead of reported
+ * @description A network error does not tell whether the request reached the server. Creations
+ * are not idempotent, so replaying one whose response was lost would create the URL twice: they
+ * are only queued when the browser is offline before sending. Edits, status changes and
+ * deletions give the same result when replayed.
+ * @param mutation - Mutation that failed
+ * @param error - Error thrown by the mutation
+ * @returns true if the mutation can be replayed safely
+ */
+export const isReplayableError = (mutation: OutboxMutation, error: unknown): boolean =>
+  mutation.type !== 'create' && (isOffline() || toApiError(error).kind === 'network')
+
+/**
+ * Open the outbox database, creating the store on first use
+ * @returns Promise with the database connection
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error ?? new Error('Failed to open the outbox database'))
+    }).catch(error => {
+      // Allow the next call to try again
+      databasePromise = null
+      throw error
+    })
+  }
+
+  return databasePromise
+}
+
+/**
+ * Run a single request against the outbox store
+ * @param mode - Transaction mode
+ * @param operation - Function issuing the request on the store
+ * @returns Promise with the request result, resolved once the transaction is committed
+ */
+const runInStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase()
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode)
+    const request = operation(transaction.objectStore(STORE_NAME))
+
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error ?? request.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error('Outbox transaction aborted'))
+  })
+}
+
+/**
+ * Notify subscribers that the outbox changed
+ */
+const notify = () => {
+  listeners.forEach(listener => listener())
+}
+
+/**
+ * Get the queued mutations of a user
+ * @param userId - ID of the current user
+ * @returns Promise with the items in replay order
+ */
+export const getOutboxItems = async (userId: number): Promise<OutboxItem[]> => {
+  if (!isOutboxSupported()) return []
+
+  const items = await runInStore<OutboxItem[]>('readonly', store => store.getAll())
+  return items.filter(item => item.userId === userId)
+}
+
+/**
+ * Refuse mutations that cannot be stored in the outbox
+ * @description The outbox is kept in plain text until it is replayed, so mutations setting a
+ * password are never stored. Removing a password is not secret and can be queued.
+ * @param mutation - Mutation to store
+ * @throws {ApiError} Network error asking to try again online if the mutation sets a password
+ */
+const assertStorable = (mutation: OutboxMutation) => {
+  if ((mutation.type === 'create' || mutation.type === 'edit') && mutation.formData.password) {
+    throw new ApiError('network', PASSWORD_OFFLINE_MESSAGE)
+  }
+}
+
+/**
+ * Store a mutation in the outbox
+ * @param userId - ID of the user making the mutation
+ * @param mutation - Mutation to replay later
+ * @returns Promise with the stored item
+ * @throws {ApiError} Network error if the mutation sets a password or the demo is running
+ */
+export const queueMutation = async (userId: number, mutation: OutboxMutation): Promise<OutboxItem> => {
+  // Demo mutations target the mock API and must never be replayed against the user's account
+  if (isDemoMode()) throw new ApiError('network', DEMO_OFFLINE_MESSAGE)
+  assertStorable(mutation)
+
+  const item: NewOutboxItem = {
+    ...mutation,
+    userId,
+    queuedAt: new Date().toISOString(),
+    status: 'pending'
+  }
+
+  const id = await runInStore('readwrite', store => store.add(item))
+  logger.info('Queued offline mutation', { type: mutation.type, id })
+  notify()
+
+  return { ...item, id: Number(id) }
+}
+
+/**
+ * Replace a stored outbox item
+ * @param item - Updated item
+ * @throws {ApiError} Network error if the item sets a password
+ */
+export const updateOutboxItem = async (item: OutboxItem): Promise<void> => {
+  assertStorable(item)
+  await runInStore('readwrite', store => store.put(item))
+  notify()
+}
+
+/**
+ * Remove an item from the outbox
+ * @param id - Outbox item ID
+ */
+export const removeOutboxItem = async (id: number): Promise<void> => {
+  await runInStore('readwrite', store => store.delete(id))
+  notify()
+}
+
+/**
+ * Subscribe to outbox changes
+ * @param listener - Called after every write to the outbox
+ * @returns Function removing the subscription
+ */
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.add(listener)
+
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Send a queued mutation to the API
+ * @param mutation - Queued mutation
+ */
+const replayMutation = async (mutation: OutboxMutation): Promise<void> => {
+  switch (mutation.type) {
+    case 'create':
+      await createUrlFromForm(mutation.formData)
+      break
+    case 'edit':
+      await editUrlById(mutation.urlId, mutation.formData)
+      break
+    case 'status':
+      await updateUrlStatusById(mutation.urlId, mutation.isActive)
+      break
+    case 'delete':
+      await deleteUrlById(mutation.urlId)
+      break
+  }
+}
+
+/**
+ * Replay the pending mutations of a user in the order they were queued
+ * @description Stops at the first transient failure so later mutations never overtake earlier
+ * ones. Concurrent calls share the sync in progress. Nothing is replayed while the demo runs,
+ * since its requests are answered by the mock API.
+ * @param userId - ID of the current user
+ * @returns Promise with the number of synced, conflicting and remaining mutations
+ */
+export const syncOutbox = (userId: number): Promise<OutboxSyncResult> => {
+  if (!syncPromise) {
+    syncPromise = replayOutbox(userId).finally(() => {
+      syncPromise = null
+    })
+  }
+
+  return syncPromise
+}
+
+/**
+ * Replay the pending mutations of a user
+ * @param userId - ID of the current user
+ * @returns Promise with the sync result
+ */
+const replayOutbox = async (userId: number): Promise<OutboxSyncResult> => {
+  const pendingItems = (await getOutboxItems(userId)).filter(item => item.status === 'pending')
+  const result: OutboxSyncResult = { synced: 0, conflicts: 0, remaining: 0 }
+
+  for (const [index, item] of pendingItems.entries()) {
+    if (isDemoMode()) {
+      result.remaining = pendingItems.length - index
+      logger.info('Outbox sync paused during the demo', { remaining: result.remaining })
+      break
+    }
+
+    try {
+      await replayMutation(item)
+      await removeOutboxItem(item.id)
+      result.synced += 1
+    } catch (error) {
+      const apiError = toApiError(error)
+
+      if (TRANSIENT_ERROR_KINDS.includes(apiError.kind)) {
+        result.remaining = pendingItems.length - index
+        logger.warn('Outbox sync paused', { kind: apiError.kind, remaining: result.remaining })
+        break
+      }
+
+      // Deleting a URL that is already gone has the intended outcome
+      if (item.type === 'delete' && apiError.kind === 'not_found') {
+        await removeOutboxItem(item.id)
+        result.synced += 1
+        continue
+      }
+
+      await updateOutboxItem({
+        ...item,
+        status: 'conflict',
+        conflict: { message: apiError.message, fieldErrors: apiError.fieldErrors }
+      })
+      result.conflicts += 1
+    }
+  }
+
+  logger.info('Outbox sync finished', result)
+  return result
+}
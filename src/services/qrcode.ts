@@ -1,4 +1,4 @@
-import { get, post, del } from "./api";
+import { getValidated, postValidated, delValidated } from "./api";
 import {
   QrCodeColorsResponse,
   QrCodeGenerateRequest,
@@ -7,6 +7,13 @@ import {
   QrCodeFilter,
   QrCodeDeleteResponse,
 } from "@/interfaces/qrcode";
+import { invalidateQueries, QR_CODE_QUERY_PREFIXES } from "./queryCache";
+import {
+  qrCodeApiResponseSchema,
+  qrCodeColorsResponseSchema,
+  qrCodeDeleteResponseSchema,
+  qrCodeGenerateResponseSchema,
+} from "@/schemas/qrcode";
 
 /**
  * QR Code Service
@@ -19,7 +26,7 @@ import {
  */
 export const fetchQrCodeColors = async (): Promise<QrCodeColorsResponse> => {
   const endpoint = `/api/v1/qr-codes/colors`;
-  return get<QrCodeColorsResponse>(endpoint);
+  return getValidated(endpoint, qrCodeColorsResponseSchema);
 };
 
 /**
@@ -31,16 +38,25 @@ export const generateQrCode = async (
   data: QrCodeGenerateRequest
 ): Promise<QrCodeGenerateResponse> => {
   const endpoint = `/api/v1/qr-codes`;
-  return post<QrCodeGenerateResponse, QrCodeGenerateRequest>(endpoint, data);
+  const response = await postValidated(
+    endpoint,
+    qrCodeGenerateResponseSchema,
+    data
+  );
+
+  invalidateQueries(QR_CODE_QUERY_PREFIXES);
+  return response;
 };
 
 /**
  * Fetch QR codes list with optional filtering
  * @param filter - Filter parameters for QR codes
+ * @param signal - Optional signal to cancel the request
  * @returns Promise with QR codes list response
  */
 export const fetchQrCodes = async (
-  filter?: QrCodeFilter
+  filter?: QrCodeFilter,
+  signal?: AbortSignal
 ): Promise<QrCodeApiResponse> => {
   let endpoint = `/api/v1/qr-codes`;
 
@@ -63,7 +79,7 @@ export const fetchQrCodes = async (
     if (queryString) endpoint += `?${queryString}`;
   }
 
-  return get<QrCodeApiResponse>(endpoint);
+  return getValidated(endpoint, qrCodeApiResponseSchema, { signal });
 };
 
 /**
@@ -75,5 +91,8 @@ export const deleteQrCodeById = async (
   id: string | number
 ): Promise<QrCodeDeleteResponse> => {
   const endpoint = `/api/v1/qr-codes/${id}`;
-  return del<QrCodeDeleteResponse>(endpoint);
+  const response = await delValidated(endpoint, qrCodeDeleteResponseSchema);
+
+  invalidateQueries(QR_CODE_QUERY_PREFIXES);
+  return response;
 };
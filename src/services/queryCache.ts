@@ -0,0 +1,346 @@
+import logger from '@/utils/logger'
+
+/**
+ * Query Cache Service
+ * @description Keyed cache for GET requests with in-flight deduplication, stale-while-revalidate
+ * and persistence to localStorage so the dashboard stats are available right after a reload
+ */
+
+/**
+ * Default time in milliseconds before cached data is considered stale
+ */
+export const DEFAULT_STALE_TIME = 30 * 1000
+
+/**
+ * Persisted entries older than this are dropped when the cache is hydrated
+ */
+const PERSIST_MAX_AGE = 24 * 60 * 60 * 1000
+
+/**
+ * Largest size of the persisted cache in characters, the oldest entries being dropped beyond it
+ */
+const PERSIST_MAX_SIZE = 100 * 1024
+
+/**
+ * Endpoint prefixes of the queries persisted to localStorage
+ * @description Only the small dashboard stats are kept across reloads. Lists, analytics details,
+ * revisions and lookups stay in memory for the current page only.
+ */
+const PERSISTED_QUERY_PREFIXES = [
+  '/api/v1/urls/total-clicks',
+  '/api/v1/urls?limit=1',
+  '/api/v1/qr-codes/stats',
+  '/api/v1/ctr/stats',
+  '/api/v1/conversion-rate'
+]
+
+const STORAGE_KEY = 'cylink_query_cache'
+
+/**
+ * Check whether a query is persisted to localStorage
+ * @param key - Query key
+ * @returns true if the key starts with one of PERSISTED_QUERY_PREFIXES
+ */
+const isPersistedKey = (key: string) => PERSISTED_QUERY_PREFIXES.some(prefix => key.startsWith(prefix))
+
+/**
+ * Cache entry interface
+ * @interface CacheEntry
+ */
+interface CacheEntry<T = unknown> {
+  /** Last successfully fetched data */
+  data?: T
+  /** Timestamp of the last successful fetch, 0 when invalidated */
+  updatedAt: number
+  /** Pending request shared by every caller of the same key */
+  promise?: Promise<T>
+  /** False for queries never written to localStorage */
+  persist?: boolean
+  /** Value of the cache generation when the entry was last created or invalidated */
+  generation: number
+}
+
+/**
+ * Cached query snapshot returned to consumers
+ * @interface CachedQuery
+ */
+export interface CachedQuery<T> {
+  data: T
+  updatedAt: number
+  isStale: boolean
+}
+
+/**
+ * Options for fetching a query
+ * @interface FetchQueryOptions
+ */
+export interface FetchQueryOptions {
+  /** Time in milliseconds before cached data is considered stale */
+  staleTime?: number
+  /** Ignore fresh cached data and always hit the network */
+  force?: boolean
+  /** Set to false for short-lived lookups that must never be written to localStorage */
+  persist?: boolean
+}
+
+const cache = new Map<string, CacheEntry>()
+const listeners = new Map<string, Set<() => void>>()
+let isHydrated = false
+
+/**
+ * Counter bumped on every invalidation and clear
+ * @description A request only stores its result while its entry keeps the generation it started
+ * with, so data fetched before a mutation or a sign in never overwrites the cache after it
+ */
+let cacheGeneration = 0
+
+/**
+ * Load persisted entries from localStorage once per page load
+ */
+const hydrate = () => {
+  if (isHydrated || globalThis.window === undefined) return
+  isHydrated = true
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return
+
+    const entries: Record<string, { data: unknown; updatedAt: number }> = JSON.parse(stored)
+    const now = Date.now()
+
+    Object.entries(entries).forEach(([key, entry]) => {
+      if (now - entry.updatedAt < PERSIST_MAX_AGE && isPersistedKey(key) && !cache.has(key)) {
+        cache.set(key, { data: entry.data, updatedAt: entry.updatedAt, generation: cacheGeneration })
+      }
+    })
+  } catch (error) {
+    logger.error('Failed to hydrate query cache', error)
+  }
+}
+
+/**
+ * Save the entries of persisted queries to localStorage
+ * @description Expired entries are left out, then the oldest ones until the cache fits in
+ * PERSIST_MAX_SIZE
+ */
+const persist = () => {
+  if (globalThis.window === undefined) return
+
+  try {
+    const now = Date.now()
+    const entries: [string, { data: unknown; updatedAt: number }][] = []
+
+    cache.forEach((entry, key) => {
+      if (
+        entry.data !== undefined &&
+        entry.updatedAt > 0 &&
+        entry.persist !== false &&
+        now - entry.updatedAt < PERSIST_MAX_AGE &&
+        isPersistedKey(key)
+      ) {
+        entries.push([key, { data: entry.data, updatedAt: entry.updatedAt }])
+      }
+    })
+
+    // Newest first, so the oldest entries are the ones dropped
+    entries.sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+    let serialized = JSON.stringify(Object.fromEntries(entries))
+    while (serialized.length > PERSIST_MAX_SIZE && entries.length > 0) {
+      entries.pop()
+      serialized = JSON.stringify(Object.fromEntries(entries))
+    }
+
+    localStorage.setItem(STORAGE_KEY, serialized)
+  } catch (error) {
+    logger.warn('Failed to persist query cache', error)
+  }
+}
+
+/**
+ * Notify subscribers of a key that its entry changed
+ * @param key - Query key
+ */
+const notify = (key: string) => {
+  listeners.get(key)?.forEach(listener => listener())
+}
+
+/**
+ * Build a stable query key from an endpoint and its parameters
+ * @description Parameters are sorted so the same request always maps to the same key
+ * @param endpoint - API endpoint
+ * @param params - Optional request parameters
+ * @returns Query key
+ */
+export const createQueryKey = (endpoint: string, params?: object): string => {
+  if (!params) return endpoint
+
+  const query = new URLSearchParams()
+
+  Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([name, value]) => {
+      query.append(name, Array.isArray(value) ? value.join(',') : String(value))
+    })
+
+  const queryString = query.toString()
+
+  return queryString ? `${endpoint}?${queryString}` : endpoint
+}
+
+/**
+ * Read cached data for a key without triggering a request
+ * @param key - Query key
+ * @param staleTime - Time in milliseconds before data is considered stale
+ * @returns Cached snapshot or undefined if nothing is cached
+ */
+export const getQueryData = <T>(key: string, staleTime: number = DEFAULT_STALE_TIME): CachedQuery<T> | undefined => {
+  hydrate()
+
+  const entry = cache.get(key) as CacheEntry<T> | undefined
+  if (entry?.data === undefined) return undefined
+
+  return {
+    data: entry.data,
+    updatedAt: entry.updatedAt,
+    isStale: Date.now() - entry.updatedAt >= staleTime
+  }
+}
+
+/**
+ * Fetch a query through the cache
+ * @description Returns fresh cached data without a request, shares a pending request between
+ * callers of the same key, and otherwise runs the fetcher and stores its result
+ * @param key - Query key
+ * @param fetcher - Function performing the actual request
+ * @param options - Fetch options
+ * @returns Promise with the query data
+ */
+export const fetchQuery = async <T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  options: FetchQueryOptions = {}
+): Promise<T> => {
+  hydrate()
+
+  const { staleTime = DEFAULT_STALE_TIME, force = false, persist: shouldPersist = true } = options
+  const entry = (cache.get(key) as CacheEntry<T> | undefined) ?? { updatedAt: 0, generation: cacheGeneration }
+
+  if (entry.promise) {
+    return entry.promise
+  }
+
+  if (!force && entry.data !== undefined && Date.now() - entry.updatedAt < staleTime) {
+    return entry.data
+  }
+
+  const { generation } = entry
+  const isCurrent = () => cache.get(key)?.generation === generation
+
+  const promise = fetcher()
+    .then(data => {
+      // Results of requests started before an invalidation or a clear are outdated, so callers
+      // get the current data instead, fetched again unless another request already did
+      if (!isCurrent()) return fetchQuery(key, fetcher, options)
+
+      cache.set(key, { data, updatedAt: Date.now(), persist: shouldPersist, generation })
+      persist()
+      notify(key)
+
+      return data
+    })
+    .catch(error => {
+      // Keep the last known data so consumers can keep showing it
+      if (isCurrent()) {
+        cache.set(key, { data: entry.data, updatedAt: entry.updatedAt, persist: entry.persist, generation })
+      }
+      throw error
+    })
+
+  cache.set(key, { ...entry, promise })
+
+  return promise
+}
+
+/**
+ * Mark cached queries as stale and ask mounted consumers to revalidate
+ * @description Used after mutations; every key starting with one of the prefixes is invalidated.
+ * Pending requests of these keys are dropped, so revalidation starts a new one.
+ * @param prefixes - Endpoint prefix or list of prefixes to invalidate
+ */
+export const invalidateQueries = (prefixes: string | string[]) => {
+  hydrate()
+
+  const prefixList = Array.isArray(prefixes) ? prefixes : [prefixes]
+  const invalidatedKeys: string[] = []
+
+  cache.forEach((entry, key) => {
+    if (prefixList.some(prefix => key.startsWith(prefix))) {
+      entry.updatedAt = 0
+      entry.generation = ++cacheGeneration
+      entry.promise = undefined
+      invalidatedKeys.push(key)
+    }
+  })
+
+  logger.debug('Invalidated queries', { prefixes: prefixList, count: invalidatedKeys.length })
+  persist()
+  invalidatedKeys.forEach(notify)
+}
+
+/**
+ * Subscribe to changes of a cached query
+ * @param key - Query key
+ * @param listener - Called when the entry is updated or invalidated
+ * @returns Function removing the subscription
+ */
+export const subscribeQuery = (key: string, listener: () => void) => {
+  const keyListeners = listeners.get(key) ?? new Set<() => void>()
+  keyListeners.add(listener)
+  listeners.set(key, keyListeners)
+
+  return () => {
+    keyListeners.delete(listener)
+    if (keyListeners.size === 0) listeners.delete(key)
+  }
+}
+
+/**
+ * Remove every cached query, including the persisted copy
+ * @description Called on sign in and logout so one user's data is never shown to the next.
+ * Requests still pending from the previous session do not store their results.
+ */
+export const clearQueryCache = () => {
+  cacheGeneration++
+  cache.clear()
+
+  if (globalThis.window === undefined) return
+
+  try {
+    localStorage.removeItem(STORAGE_KEY)
+  } catch (error) {
+    logger.warn('Failed to clear persisted query cache', error)
+  }
+}
+
+/**
+ * Endpoint prefixes invalidated after URL mutations (create, edit, status change, delete)
+ */
+export const URL_QUERY_PREFIXES = ['/api/v1/urls', '/api/v1/ctr', '/api/v1/conversion-rate']
+
+/**
+ * Endpoint prefixes invalidated when the tags of URLs may have changed
+ * @description Kept apart from URL_QUERY_PREFIXES, so URL mutations that leave tags alone do not
+ * reload them
+ */
+export const URL_TAG_QUERY_PREFIXES = ['/api/v1/url-tags']
+
+/**
+ * Endpoint prefixes invalidated after QR code mutations
+ */
+export const QR_CODE_QUERY_PREFIXES = ['/api/v1/qr-codes']
+
+/**
+ * Endpoint prefixes invalidated after bio page mutations
+ */
+export const BIO_PAGE_QUERY_PREFIXES = ['/api/v1/bio-page']
@@ -1,9 +1,61 @@
-import { get, del, put, getPublic } from "./api";
-import { UrlApiResponse, UrlFilter, Url } from "@/interfaces/url";
+import {
+  get,
+  put,
+  getValidated,
+  postValidated,
+  putValidated,
+  delValidated,
+  getPublicValidated,
+  parseApiResponse,
+  postPublic,
+} from "./api";
+import {
+  CreateUrlFormData,
+  CreateUrlFormResponse,
+  CustomCodeAvailability,
+  CustomCodeAvailabilityParams,
+  EditUrlFormData,
+  EditUrlFormResponse,
+  UrlApiResponse,
+  UrlFilter,
+  UrlTagChange,
+  UrlTagSummary,
+  Url,
+} from "@/interfaces/url";
 import { UrlAnalyticsResponse } from "@/interfaces/urlAnalytics";
+import type { RedirectRule, RedirectVisitor } from "@/interfaces/redirectRules";
+import type { AbVariant } from "@/interfaces/abTest";
+import type {
+  UrlRevision,
+  UrlRevisionsResponse,
+} from "@/interfaces/urlRevision";
 import logger from "@/utils/logger";
+import { isCancelledError } from "@/utils/apiErrors";
 import { getDeviceType } from "@/utils/deviceDetection";
 import GeolocationCache from "@/utils/geolocation";
+import { analyzeUrlSafety } from "@/utils/urlSafety";
+import { toRedirectVisitorQuery } from "@/utils/redirectRules";
+import { UTM_FIELDS } from "@/config/utm";
+import {
+  invalidateQueries,
+  QR_CODE_QUERY_PREFIXES,
+  URL_QUERY_PREFIXES,
+  URL_TAG_QUERY_PREFIXES,
+} from "./queryCache";
+import {
+  createUrlFormResponseSchema,
+  customCodeAvailabilityResponseSchema,
+  deleteUrlResponseSchema,
+  duplicateUrlsResponseSchema,
+  editUrlFormResponseSchema,
+  publicUrlResponseSchema,
+  urlApiResponseSchema,
+  urlLookupResponseSchema,
+  urlTagChangeResponseSchema,
+  urlTagsResponseSchema,
+} from "@/schemas/url";
+import { urlAnalyticsResponseSchema } from "@/schemas/urlAnalytics";
+import { urlRevisionsResponseSchema } from "@/schemas/urlRevision";
 
 /**
  * URL Service
@@ -89,6 +141,16 @@ const buildQueryParams = (filter: Partial<UrlFilter>): string => {
     params.append("status", filter.status);
   if (filter.tags && filter.tags.length > 0)
     params.append("tags", filter.tags.join(","));
+  if (filter.dateRange) {
+    params.append("dateField", filter.dateRange.field ?? "created_at");
+    if (filter.dateRange.start)
+      params.append("startDate", filter.dateRange.start);
+    if (filter.dateRange.end) params.append("endDate", filter.dateRange.end);
+  }
+  UTM_FIELDS.forEach(({ key, param }) => {
+    const value = filter.utm?.[key];
+    if (value) params.append(param, value);
+  });
 
   return params.toString();
 };
@@ -96,10 +158,12 @@ const buildQueryParams = (filter: Partial<UrlFilter>): string => {
 /**
  * Fetch URLs from API with filtering
  * @param filter - URL filter parameters
+ * @param signal - Optional signal to cancel the request
  * @returns Promise with URL API response
  */
 export const fetchUrls = async (
-  filter: Partial<UrlFilter> = {}
+  filter: Partial<UrlFilter> = {},
+  signal?: AbortSignal
 ): Promise<UrlApiResponse> => {
   logger.debug("Original filter for URL fetch", { filter });
   const queryParams = buildQueryParams(filter);
@@ -108,13 +172,206 @@ export const fetchUrls = async (
   const endpoint = `/api/v1/urls${queryString}`;
   logger.debug("Full endpoint for URL fetch", { endpoint });
 
-  const response = await get<UrlApiResponse>(endpoint);
+  const response = await getValidated(endpoint, urlApiResponseSchema, {
+    signal,
+  });
 
   // Fix short URLs in the response if needed
-  if (response?.data) {
-    response.data = response.data.map(fixShortUrl);
+  response.data = response.data.map(fixShortUrl);
+
+  return response;
+};
+
+/**
+ * Page size used when fetching every URL matching a filter
+ */
+const FETCH_ALL_PAGE_SIZE = 100;
+
+/**
+ * Fetch every URL matching a filter, across all pages
+ * @description Used by bulk actions on a selection spanning several pages
+ * @param filter - URL filter parameters, page and limit are ignored
+ * @returns Promise with all matching URLs
+ */
+export const fetchAllUrls = async (
+  filter: Partial<UrlFilter> = {}
+): Promise<Url[]> => {
+  const urls: Url[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const response = await fetchUrls({
+      ...filter,
+      page,
+      limit: FETCH_ALL_PAGE_SIZE,
+    });
+    urls.push(...response.data);
+    totalPages = response.pagination.total_pages;
+    page++;
+  } while (page <= totalPages);
+
+  return urls;
+};
+
+/**
+ * Fetch the tags used on the user's URLs
+ * @returns Promise with each tag and its number of URLs, sorted by name
+ */
+export const fetchUrlTags = async (): Promise<UrlTagSummary[]> => {
+  const response = await getValidated(
+    "/api/v1/url-tags",
+    urlTagsResponseSchema
+  );
+  return response.data;
+};
+
+/**
+ * Merge tags into one on every URL carrying them
+ * @description The API changes every URL at once. Renaming a tag is merging it alone into its new
+ * name, and renaming to an existing tag merges both.
+ * @param tags - Tags to merge
+ * @param target - Tag they are merged into
+ * @returns Promise with the number of URLs updated
+ */
+export const mergeUrlTags = async (
+  tags: string[],
+  target: string
+): Promise<UrlTagChange> => {
+  const response = await postValidated(
+    "/api/v1/url-tags/merge",
+    urlTagChangeResponseSchema,
+    { tags, target }
+  );
+
+  invalidateQueries([...URL_QUERY_PREFIXES, ...URL_TAG_QUERY_PREFIXES]);
+  return response.data;
+};
+
+/**
+ * Remove a tag from every URL carrying it
+ * @param tag - Tag to delete
+ * @returns Promise with the number of URLs updated
+ */
+export const deleteUrlTag = async (tag: string): Promise<UrlTagChange> => {
+  const response = await delValidated(
+    `/api/v1/url-tags/${encodeURIComponent(tag)}`,
+    urlTagChangeResponseSchema
+  );
+
+  invalidateQueries([...URL_QUERY_PREFIXES, ...URL_TAG_QUERY_PREFIXES]);
+  return response.data;
+};
+
+/**
+ * Create a URL from the create form
+ * @param formData - URL creation form data
+ * @returns Promise with the created URL response
+ */
+export const createUrlFromForm = async (
+  formData: CreateUrlFormData
+): Promise<CreateUrlFormResponse> => {
+  const safetyReport = analyzeUrlSafety(formData.originalUrl);
+
+  const response = await postValidated(
+    "/api/v1/urls",
+    createUrlFormResponseSchema,
+    {
+      title: formData.title,
+      ...(formData.description && { description: formData.description }),
+      original_url: formData.originalUrl,
+      custom_code: formData.customCode || "",
+      expiry_date: formData.expiryDate,
+      ...(formData.activatesAt && {
+        activates_at: new Date(formData.activatesAt).toISOString(),
+      }),
+      ...(formData.maxClicks && { max_clicks: Number(formData.maxClicks) }),
+      ...(formData.tags?.length && { tags: formData.tags }),
+      ...(formData.password && { password: formData.password }),
+      ...(safetyReport && { safety_report: safetyReport }),
+      ...(formData.faviconUrl && { favicon_url: formData.faviconUrl }),
+      ...(formData.previewImageUrl && {
+        preview_image_url: formData.previewImageUrl,
+      }),
+    }
+  );
+
+  // Cached URL lists and stats no longer include the new URL, nor tag counts if it has tags
+  invalidateQueries([
+    ...URL_QUERY_PREFIXES,
+    ...(formData.tags?.length ? URL_TAG_QUERY_PREFIXES : []),
+  ]);
+  return response;
+};
+
+/**
+ * Build edit form data keeping every current value of a URL
+ * @description Lets partial changes, like bulk or tag updates, go through the edit endpoint
+ * @param url - URL to edit
+ * @returns Edit form data
+ */
+export const toEditUrlFormData = (url: Url): EditUrlFormData => ({
+  originalUrl: url.original_url,
+  customCode: url.short_code,
+  title: url.title,
+  expiryDate: url.expiry_date,
+  activatesAt: url.activates_at,
+  maxClicks: url.max_clicks?.toString(),
+  tags: url.tags ?? [],
+});
+
+/**
+ * Edit a URL by ID from the edit form
+ * @param id - ID of the URL to edit
+ * @param formData - The new data for the URL
+ * @returns Promise with the edited URL response
+ */
+export const editUrlById = async (
+  id: number,
+  formData: EditUrlFormData
+): Promise<EditUrlFormResponse> => {
+  // The API expects a full ISO date string, but our form has YYYY-MM-DD
+  let expiryDate = formData.expiryDate;
+  if (expiryDate && !expiryDate.includes("T")) {
+    expiryDate = new Date(expiryDate).toISOString();
   }
 
+  // The activation time comes in local time from the form, an empty one removes it
+  const activatesAt =
+    formData.activatesAt === undefined
+      ? undefined
+      : formData.activatesAt
+      ? new Date(formData.activatesAt).toISOString()
+      : null;
+
+  // The destination is analyzed again so the recorded findings match the saved URL
+  const safetyReport = analyzeUrlSafety(formData.originalUrl);
+
+  const response = await putValidated(
+    `/api/v1/urls/${id}`,
+    editUrlFormResponseSchema,
+    {
+      title: formData.title,
+      original_url: formData.originalUrl,
+      short_code: formData.customCode || "", // Using short_code instead of custom_code
+      expiry_date: expiryDate,
+      ...(activatesAt !== undefined && { activates_at: activatesAt }),
+      // An empty click limit removes it
+      ...(formData.maxClicks !== undefined && {
+        max_clicks: formData.maxClicks ? Number(formData.maxClicks) : null,
+      }),
+      ...(formData.tags && { tags: formData.tags }),
+      ...(formData.password !== undefined && { password: formData.password }),
+      ...(safetyReport && { safety_report: safetyReport }),
+    }
+  );
+
+  // QR codes embed the short URL, so both caches are affected by an edit
+  invalidateQueries([
+    ...URL_QUERY_PREFIXES,
+    ...QR_CODE_QUERY_PREFIXES,
+    ...(formData.tags ? URL_TAG_QUERY_PREFIXES : []),
+  ]);
   return response;
 };
 
@@ -126,7 +383,121 @@ export const fetchUrls = async (
 export const deleteUrlById = async (id: number): Promise<DeleteUrlResponse> => {
   logger.info("Deleting URL", { id });
   const endpoint = `/api/v1/urls/${id}`;
-  return del<DeleteUrlResponse>(endpoint);
+  const response = await delValidated(endpoint, deleteUrlResponseSchema);
+
+  // The tag counts no longer include the deleted URL
+  invalidateQueries([...URL_QUERY_PREFIXES, ...URL_TAG_QUERY_PREFIXES]);
+  return response;
+};
+
+/**
+ * Replace the redirect rules of a URL
+ * @param id - ID of the URL
+ * @param rules - Rules in the order they are checked, empty to send every visitor to the URL
+ * @returns Promise with the updated URL
+ */
+export const updateUrlRedirectRules = async (
+  id: number,
+  rules: RedirectRule[]
+): Promise<Url> => {
+  logger.info("Updating URL redirect rules", { id, rules: rules.length });
+  const url = await putValidated(
+    `/api/v1/urls/${id}/redirect-rules`,
+    urlLookupResponseSchema,
+    { redirect_rules: rules }
+  );
+
+  invalidateQueries(URL_QUERY_PREFIXES);
+  return url;
+};
+
+/**
+ * Replace the A/B variants of a URL
+ * @param id - ID of the URL
+ * @param variants - Variants the traffic is split across, empty to stop the test
+ * @returns Promise with the updated URL
+ */
+export const updateUrlAbVariants = async (
+  id: number,
+  variants: AbVariant[]
+): Promise<Url> => {
+  logger.info("Updating URL A/B variants", { id, variants: variants.length });
+  const url = await putValidated(
+    `/api/v1/urls/${id}/ab-variants`,
+    urlLookupResponseSchema,
+    { ab_variants: variants }
+  );
+
+  invalidateQueries(URL_QUERY_PREFIXES);
+  return url;
+};
+
+/**
+ * Make an A/B variant the permanent destination of a URL, ending the test
+ * @param id - ID of the URL
+ * @param variant - Winning variant
+ * @returns Promise with the updated URL
+ */
+export const promoteAbVariant = async (
+  id: number,
+  variant: AbVariant
+): Promise<Url> => {
+  logger.info("Promoting URL A/B variant", { id, variant: variant.id });
+
+  // The destination changes, so it is analyzed like an edited one
+  const safetyReport = analyzeUrlSafety(variant.destination_url);
+
+  const url = await postValidated(
+    `/api/v1/urls/${id}/ab-variants/${variant.id}/promote`,
+    urlLookupResponseSchema,
+    { ...(safetyReport && { safety_report: safetyReport }) }
+  );
+
+  invalidateQueries(URL_QUERY_PREFIXES);
+  return url;
+};
+
+/**
+ * Fetch the revisions of a URL
+ * @param id - ID of the URL
+ * @returns Promise with the revisions, newest first
+ */
+export const fetchUrlRevisions = async (
+  id: number
+): Promise<UrlRevisionsResponse> => {
+  return getValidated(
+    `/api/v1/urls/${id}/revisions`,
+    urlRevisionsResponseSchema
+  );
+};
+
+/**
+ * Put back the values a URL had before a revision
+ * @param id - ID of the URL
+ * @param revision - Revision to undo
+ * @returns Promise with the API response, including the revision recording the restore
+ */
+export const restoreUrlRevision = async (
+  id: number,
+  revision: UrlRevision
+): Promise<EditUrlFormResponse> => {
+  logger.info("Restoring URL revision", { id, revision: revision.id });
+
+  // A destination that comes back is analyzed like an edited one
+  const destination = revision.changes.find(
+    (change) => change.field === "original_url"
+  )?.previous;
+  const safetyReport = destination ? analyzeUrlSafety(destination) : null;
+
+  const response = await postValidated(
+    `/api/v1/urls/${id}/revisions/${revision.id}/restore`,
+    editUrlFormResponseSchema,
+    { ...(safetyReport && { safety_report: safetyReport }) }
+  );
+
+  // The short code may come back too, and QR codes embed the short URL
+  invalidateQueries([...URL_QUERY_PREFIXES, ...QR_CODE_QUERY_PREFIXES]);
+  return response;
 };
 
 /**
@@ -141,22 +512,31 @@ export const updateUrlStatusById = async (id: number, isActive: boolean) => {
     status: isActive ? "active" : "inactive",
   });
   const endpoint = `/api/v1/urls/${id}/status`;
-  return put(endpoint, { is_active: isActive });
+  const response = await put(endpoint, { is_active: isActive });
+
+  invalidateQueries(URL_QUERY_PREFIXES);
+  return response;
 };
 
 /**
  * Fetch analytics data for a specific URL
  * @param id - URL ID
+ * @param signal - Optional signal to cancel the request
  * @returns Analytics data for the specific URL
  */
 export const fetchUrlAnalytics = async (
-  id: number
+  id: number,
+  signal?: AbortSignal
 ): Promise<UrlAnalyticsResponse> => {
   try {
     const endpoint = `/api/v1/urls/${id}/analytics`;
-    return await get<UrlAnalyticsResponse>(endpoint);
+    return await getValidated(endpoint, urlAnalyticsResponseSchema, {
+      signal,
+    });
   } catch (error) {
-    logger.error("Failed to fetch URL analytics", { id, error });
+    if (!isCancelledError(error)) {
+      logger.error("Failed to fetch URL analytics", { id, error });
+    }
     throw error;
   }
 };
@@ -174,30 +554,11 @@ export const fetchUrlByShortCode = async (shortCode: string): Promise<Url> => {
     // Log endpoint to understand API request
     console.log(`Fetching from endpoint: ${endpoint}`);
 
-    const response = await get<{ status: number; message: string; data: Url }>(
-      endpoint
-    );
-
-    console.log(`Response for URL with code ${shortCode}:`, response);
-
-    // Check response structure - different APIs might return data differently
-    if (response?.data) {
-      console.log(`URL data retrieved for ${shortCode}:`, response.data);
-      return response.data;
-    } else if (
-      response &&
-      typeof response === "object" &&
-      "original_url" in response
-    ) {
-      // Handle case where the response itself is the URL object
-      console.log(
-        `URL data is directly in response for ${shortCode}:`,
-        response
-      );
-      return response as unknown as Url;
-    }
+    // The URL may come wrapped in the response envelope or directly
+    const url = await getValidated(endpoint, urlLookupResponseSchema);
 
-    throw new Error(`URL not found for code: ${shortCode}`);
+    console.log(`URL data retrieved for ${shortCode}:`, url);
+    return url;
   } catch (error) {
     console.error(`Failed to fetch URL with short code ${shortCode}:`, error);
     throw error;
@@ -222,7 +583,8 @@ export const recordUrlClick = async (shortCode: string): Promise<void> => {
   try {
     console.log(`Recording click for URL with short code: ${shortCode}`);
     const endpoint = `/api/v1/urls/click/${shortCode}`;
-    await get(endpoint);
+    // Each request counts a click, so a retry could count it twice
+    await get(endpoint, { retry: false });
 
     // Track URL click conversion in PostHog (client-side only)
     if (typeof window !== "undefined") {
@@ -256,6 +618,45 @@ export const recordUrlClick = async (shortCode: string): Promise<void> => {
   }
 };
 
+/**
+ * Find the existing URLs pointing to the same page as a destination
+ * @description The API compares normalized destinations, ignoring "www.", a trailing slash, the
+ * order of the query parameters and tracking parameters
+ * @param originalUrl - Destination as typed
+ * @returns Promise with the matching URLs, most clicked first
+ */
+export const findDuplicateUrls = async (
+  originalUrl: string
+): Promise<Url[]> => {
+  const response = await getValidated(
+    `/api/v1/urls/duplicates?original_url=${encodeURIComponent(originalUrl)}`,
+    duplicateUrlsResponseSchema
+  );
+  return response.data;
+};
+
+/**
+ * Check whether a custom code can be used
+ * @description The API rejects codes that are taken, reserved for app routes or offensive, and
+ * suggests available alternatives based on the title and destination domain
+ * @param params - Code to check, with the title, destination and URL being edited if any
+ * @returns Promise with the availability and suggestions
+ */
+export const checkCustomCodeAvailability = async (
+  params: CustomCodeAvailabilityParams
+): Promise<CustomCodeAvailability> => {
+  const query = new URLSearchParams({ code: params.code });
+  if (params.title) query.set("title", params.title);
+  if (params.original_url) query.set("original_url", params.original_url);
+  if (params.exclude_id) query.set("exclude_id", String(params.exclude_id));
+
+  const response = await getValidated(
+    `/api/v1/urls/code-availability?${query.toString()}`,
+    customCodeAvailabilityResponseSchema
+  );
+  return response.data;
+};
+
 /**
  * Fetch a URL by its identifier
  * @param identifier - The identifier (short code) of the URL
@@ -271,30 +672,11 @@ export const fetchUrlByIdentifier = async (
     // Log endpoint to understand API request
     console.log(`Fetching from endpoint: ${endpoint}`);
 
-    const response = await get<{ status: number; message: string; data: Url }>(
-      endpoint
-    );
+    // The URL may come wrapped in the response envelope or directly
+    const url = await getValidated(endpoint, urlLookupResponseSchema);
 
-    console.log(`Response for URL with identifier ${identifier}:`, response);
-
-    // Check response structure - different APIs might return data differently
-    if (response?.data) {
-      console.log(`URL data retrieved for ${identifier}:`, response.data);
-      return response.data;
-    } else if (
-      response &&
-      typeof response === "object" &&
-      "original_url" in response
-    ) {
-      // Handle case where the response itself is the URL object
-      console.log(
-        `URL data is directly in response for ${identifier}:`,
-        response
-      );
-      return response as unknown as Url;
-    }
-
-    throw new Error(`URL not found for identifier: ${identifier}`);
+    console.log(`URL data retrieved for ${identifier}:`, url);
+    return url;
   } catch (error) {
     console.error(`Failed to fetch URL with identifier ${identifier}:`, error);
     throw error;
@@ -315,45 +697,35 @@ export const fetchPublicUrlByShortCode = async (
     );
     const endpoint = `/api/v1/public/urls/${shortCode}`;
 
-    // Use getPublic to ensure no authentication headers are sent
-    const response = await getPublic<{
-      status: number;
-      message: string;
-      data: Url;
-    }>(endpoint);
+    // Use getPublicValidated to ensure no authentication headers are sent
+    // Each lookup counts a click, so it is not retried
+    const response = await getPublicValidated(
+      endpoint,
+      publicUrlResponseSchema,
+      { retry: false }
+    );
 
     logger.urlShortener.debug(`Received response for short code: ${shortCode}`);
 
-    // Check response structure
-    if (response?.data) {
+    if ("data" in response) {
       logger.urlShortener.info(`URL data retrieved for ${shortCode}`);
       return response.data;
-    } else if (
-      response &&
-      typeof response === "object" &&
-      "original_url" in response
-    ) {
-      // Handle case where the response itself is the URL object
-      logger.urlShortener.debug(`Response contains URL data directly`);
-
-      // Create a properly structured URL object
-      const originalUrl = String(response.original_url);
-      const urlObject: Url = {
-        id: 0,
-        original_url: originalUrl,
-        short_code: shortCode,
-        short_url: `https://cylink.id/${shortCode}`,
-        clicks: 0,
-        is_active: true,
-        user_id: 0,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      };
-
-      return urlObject;
     }
 
-    throw new Error(`Public URL not found for code: ${shortCode}`);
+    // The response only holds the destination, build a URL object around it
+    logger.urlShortener.debug(`Response contains URL data directly`);
+
+    return {
+      id: 0,
+      original_url: response.original_url,
+      short_code: shortCode,
+      short_url: `https://cylink.id/${shortCode}`,
+      clicks: 0,
+      is_active: true,
+      user_id: 0,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
   } catch (error) {
     logger.urlShortener.error(
       `Failed to fetch public URL: ${shortCode}`,
@@ -362,3 +734,25 @@ export const fetchPublicUrlByShortCode = async (
     throw error;
   }
 };
+
+/**
+ * Unlock a password-protected URL without authentication
+ * @description Wrong passwords are rejected with a 403 and too many of them with a 429, so a
+ * visitor who is signed in is not logged out by a typo
+ * @param shortCode - The short code of the URL
+ * @param password - Password typed by the visitor
+ * @param visitor - Optional visitor the redirect rules of the URL are matched against
+ * @returns Promise with the URL and its destination
+ */
+export const unlockProtectedUrl = async (
+  shortCode: string,
+  password: string,
+  visitor?: RedirectVisitor
+): Promise<Url> => {
+  const endpoint = `/api/v1/public/urls/${shortCode}/unlock${
+    visitor ? toRedirectVisitorQuery(visitor) : ""
+  }`;
+  const response = await postPublic<unknown>(endpoint, { password });
+
+  return parseApiResponse("POST", endpoint, urlLookupResponseSchema, response);
+};
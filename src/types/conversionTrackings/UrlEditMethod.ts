@@ -6,7 +6,7 @@
  * @module src/types/conversionTrackings/UrlEditMethod
  */
 
-export type UrlEditMethod = "manual" | "bulk_edit" | "api";
+export type UrlEditMethod = "manual" | "bulk_edit" | "api" | "restore";
 
 /**
  * Type guard to check if a value is a valid UrlEditMethod
@@ -14,7 +14,12 @@ export type UrlEditMethod = "manual" | "bulk_edit" | "api";
  * @returns True if value is a valid UrlEditMethod
  */
 export const isUrlEditMethod = (value: unknown): value is UrlEditMethod => {
-  const validMethods: UrlEditMethod[] = ["manual", "bulk_edit", "api"];
+  const validMethods: UrlEditMethod[] = [
+    "manual",
+    "bulk_edit",
+    "api",
+    "restore",
+  ];
   return (
     typeof value === "string" && validMethods.includes(value as UrlEditMethod)
   );
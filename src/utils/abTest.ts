@@ -0,0 +1,46 @@
+/**
+ * A/B test utilities
+ * @description Measures the variants of a short link and keeps visitors on the variant the API
+ * picked for them through a cookie
+ */
+
+import Cookies from "js-cookie";
+import type { AbVariant } from "@/interfaces/abTest";
+import {
+  AB_VARIANT_COOKIE_DAYS,
+  AB_VARIANT_COOKIE_PREFIX,
+} from "@/config/abTest";
+
+/**
+ * Share of the traffic a variant gets
+ * @param variant - Variant to measure
+ * @param variants - Every variant of the short link
+ * @returns Percentage between 0 and 100
+ */
+export const getAbVariantShare = (
+  variant: AbVariant,
+  variants: AbVariant[]
+): number => {
+  const totalWeight = variants.reduce((total, item) => total + item.weight, 0);
+  return totalWeight > 0 ? (variant.weight / totalWeight) * 100 : 0;
+};
+
+/**
+ * Read the variant a visitor was given on a short link
+ * @param shortCode - Short code of the link
+ * @returns ID of the variant, if any
+ */
+export const getAbVariantCookie = (shortCode: string): string | undefined =>
+  Cookies.get(`${AB_VARIANT_COOKIE_PREFIX}${shortCode}`);
+
+/**
+ * Keep a visitor on a variant of a short link
+ * @param shortCode - Short code of the link
+ * @param variantId - ID of the variant the visitor was given
+ */
+export const setAbVariantCookie = (shortCode: string, variantId: string) => {
+  Cookies.set(`${AB_VARIANT_COOKIE_PREFIX}${shortCode}`, variantId, {
+    expires: AB_VARIANT_COOKIE_DAYS,
+    sameSite: "lax",
+  });
+};
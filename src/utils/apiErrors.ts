@@ -0,0 +1,324 @@
+import axios from 'axios'
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form'
+import type { ZodIssue } from 'zod'
+
+/**
+ * API error utilities
+ * @description Error types raised by the API layer in src/services/api.ts and helpers that map
+ * them to user-facing messages and form field errors
+ */
+
+/**
+ * Prefix of the authentication endpoints
+ * @description 401 responses from these endpoints mean bad credentials, not an expired session
+ */
+export const AUTH_ENDPOINT_PREFIX = '/api/v1/auth/'
+
+/**
+ * Category of a failed API call
+ */
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'validation'
+  | 'auth'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'server'
+  | 'contract'
+  | 'cancelled'
+  | 'unknown'
+
+/**
+ * Server-side validation errors keyed by the backend field name
+ */
+export type ApiFieldErrors = Record<string, string>
+
+/**
+ * Optional details attached to an ApiError
+ * @interface ApiErrorDetails
+ */
+export interface ApiErrorDetails {
+  /** HTTP status code, when a response was received */
+  status?: number
+  /** HTTP method of the request */
+  method?: string
+  /** Endpoint of the request */
+  endpoint?: string
+  /** Machine-readable error code sent by the backend (error_code) */
+  code?: string
+  /** Per-field validation messages */
+  fieldErrors?: ApiFieldErrors
+  /** Time in milliseconds the server asked us to wait before retrying */
+  retryAfter?: number
+}
+
+/**
+ * Default user-facing message of each error kind
+ */
+export const API_ERROR_MESSAGES: Record<ApiErrorKind, string> = {
+  network: 'Unable to reach the server. Please check your internet connection and try again.',
+  timeout: 'The server took too long to respond. Please try again.',
+  validation: 'Please check your input and try again.',
+  auth: 'Your session has expired. Please log in again.',
+  forbidden: 'You do not have permission to perform this action.',
+  not_found: 'The requested resource could not be found.',
+  conflict: 'This change conflicts with existing data. Please review it and try again.',
+  rate_limited: 'Too many requests. Please wait a moment and try again.',
+  server: 'Something went wrong on our side. Please try again later.',
+  contract: 'The server returned data in an unexpected format. Please try again later or contact support.',
+  cancelled: 'The request was cancelled.',
+  unknown: 'Something went wrong. Please try again.'
+}
+
+/**
+ * Normalized error of a failed API call
+ * @description Produced by the response interceptor so callers can branch on `kind` instead of
+ * inspecting axios internals or matching on error messages
+ */
+export class ApiError extends Error {
+  /** Category of the failure */
+  readonly kind: ApiErrorKind
+  /** HTTP status code, when a response was received */
+  readonly status?: number
+  /** HTTP method of the request */
+  readonly method?: string
+  /** Endpoint of the request */
+  readonly endpoint?: string
+  /** Machine-readable error code sent by the backend */
+  readonly code?: string
+  /** Per-field validation messages keyed by the backend field name */
+  readonly fieldErrors: ApiFieldErrors
+  /** Time in milliseconds the server asked us to wait before retrying */
+  readonly retryAfter?: number
+
+  constructor(kind: ApiErrorKind, message: string = API_ERROR_MESSAGES[kind], details: ApiErrorDetails = {}) {
+    super(message)
+    this.name = 'ApiError'
+    this.kind = kind
+    this.status = details.status
+    this.method = details.method
+    this.endpoint = details.endpoint
+    this.code = details.code
+    this.fieldErrors = details.fieldErrors ?? {}
+    this.retryAfter = details.retryAfter
+  }
+
+  /**
+   * Whether the backend reported errors for specific fields
+   */
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0
+  }
+}
+
+/**
+ * Error raised when a response does not match the schema of its endpoint
+ * @description The message is safe to show to users; the zod issues are kept for logging
+ */
+export class ApiContractError extends ApiError {
+  /** Schema violations reported by zod */
+  readonly issues: ZodIssue[]
+
+  constructor(method: string, endpoint: string, issues: ZodIssue[]) {
+    super('contract', API_ERROR_MESSAGES.contract, { method, endpoint })
+    this.name = 'ApiContractError'
+    this.issues = issues
+  }
+
+  /**
+   * Readable list of the schema violations, one per issue
+   * @returns Issues formatted as "path: message"
+   */
+  get details(): string[] {
+    return this.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+  }
+}
+
+/**
+ * Check whether an error is a normalized API error
+ * @param error - Unknown error value
+ * @returns true if the error is an ApiError
+ */
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError
+
+/**
+ * Check whether an error is an API contract violation
+ * @param error - Unknown error value
+ * @returns true if the error is an ApiContractError
+ */
+export const isApiContractError = (error: unknown): error is ApiContractError => error instanceof ApiContractError
+
+/**
+ * Check whether an error comes from a request aborted through its AbortSignal
+ * @description Cancelled requests were superseded or their component unmounted, so they should
+ * neither be reported to the user nor stored as the error state of a hook
+ * @param error - Unknown error value
+ * @returns true if the request was cancelled
+ */
+export const isCancelledError = (error: unknown): boolean =>
+  axios.isCancel(error) || (isApiError(error) && error.kind === 'cancelled')
+
+/**
+ * Error body sent by the backend
+ */
+interface ApiErrorBody {
+  message?: unknown
+  error_code?: unknown
+  errors?: unknown
+}
+
+/**
+ * Map an HTTP status code to an error kind
+ * @param status - HTTP status code
+ * @returns Error kind
+ */
+const getKindFromStatus = (status: number): ApiErrorKind => {
+  if (status === 400 || status === 422) return 'validation'
+  if (status === 401) return 'auth'
+  if (status === 403) return 'forbidden'
+  if (status === 404 || status === 410) return 'not_found'
+  if (status === 409) return 'conflict'
+  if (status === 429) return 'rate_limited'
+  if (status >= 500) return 'server'
+  return 'unknown'
+}
+
+/**
+ * Read per-field messages from the errors field of a backend error body
+ * @description Accepts both `{ field: message | message[] }` and `[{ field, message }]` formats
+ * @param errors - The errors field of the response body
+ * @returns Field errors keyed by the backend field name
+ */
+const getFieldErrors = (errors: unknown): ApiFieldErrors => {
+  const fieldErrors: ApiFieldErrors = {}
+
+  if (Array.isArray(errors)) {
+    errors.forEach(item => {
+      if (!item || typeof item !== 'object') return
+
+      const { field, path, param, message, msg } = item as Record<string, unknown>
+      const name = [field, path, param].find(value => typeof value === 'string')
+      const text = [message, msg].find(value => typeof value === 'string')
+
+      if (name && text) fieldErrors[name as string] = text as string
+    })
+  } else if (errors && typeof errors === 'object') {
+    Object.entries(errors).forEach(([name, value]) => {
+      const text = Array.isArray(value) ? value[0] : value
+      if (typeof text === 'string') fieldErrors[name] = text
+    })
+  }
+
+  return fieldErrors
+}
+
+/**
+ * Parse a Retry-After header
+ * @param value - Header value, either a number of seconds or an HTTP date
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export const parseRetryAfter = (value: unknown): number | undefined => {
+  if ((typeof value !== 'string' && typeof value !== 'number') || value === '') return undefined
+
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(String(value))
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Normalize any error thrown by an API call into an ApiError
+ * @param error - Error thrown by axios, the API layer or application code
+ * @returns The normalized error
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (isApiError(error)) return error
+
+  if (!axios.isAxiosError(error)) {
+    return new ApiError('unknown', error instanceof Error ? error.message : API_ERROR_MESSAGES.unknown)
+  }
+
+  const request = {
+    method: error.config?.method?.toUpperCase(),
+    endpoint: error.config?.url
+  }
+
+  if (axios.isCancel(error)) {
+    return new ApiError('cancelled', API_ERROR_MESSAGES.cancelled, request)
+  }
+
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new ApiError('timeout', API_ERROR_MESSAGES.timeout, request)
+  }
+
+  if (!error.response) {
+    return new ApiError('network', API_ERROR_MESSAGES.network, request)
+  }
+
+  const { status, data, headers } = error.response
+  const body: ApiErrorBody = data && typeof data === 'object' ? data : {}
+  const kind = getKindFromStatus(status)
+  const fieldErrors = getFieldErrors(body.errors)
+
+  // Plain lists of validation messages are joined into a single message
+  const messages = Array.isArray(body.errors) ? body.errors.filter(item => typeof item === 'string') : []
+  const serverMessage =
+    kind === 'validation' && messages.length > 0 && Object.keys(fieldErrors).length === 0
+      ? messages.join(', ')
+      : body.message
+
+  return new ApiError(kind, typeof serverMessage === 'string' && serverMessage ? serverMessage : API_ERROR_MESSAGES[kind], {
+    ...request,
+    status,
+    code: typeof body.error_code === 'string' ? body.error_code : undefined,
+    fieldErrors,
+    retryAfter: kind === 'rate_limited' ? parseRetryAfter(headers?.['retry-after']) : undefined
+  })
+}
+
+/**
+ * Check whether an error means the session expired while calling a regular endpoint
+ * @description The session expiry flow in src/services/api.ts already notifies the user
+ * @param error - Normalized error
+ * @returns true for 401 responses outside the auth API
+ */
+export const isSessionExpiredError = (error: ApiError): boolean =>
+  error.kind === 'auth' && !error.endpoint?.includes(AUTH_ENDPOINT_PREFIX)
+
+/**
+ * Get the user-facing message of an error
+ * @param error - Any error thrown by an API call
+ * @param overrides - Context-specific messages per error kind
+ * @returns Message to show to the user
+ */
+export const getApiErrorMessage = (error: unknown, overrides: Partial<Record<ApiErrorKind, string>> = {}): string => {
+  const apiError = toApiError(error)
+  return overrides[apiError.kind] ?? apiError.message
+}
+
+/**
+ * Copy server-side field errors into a react-hook-form form
+ * @param error - Any error thrown by an API call
+ * @param setError - setError function of the form
+ * @param fieldMap - Form field of each backend field whose name differs
+ * @returns true if at least one field error was set
+ */
+export const setApiFieldErrors = <TFieldValues extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<TFieldValues>,
+  fieldMap: Partial<Record<string, Path<TFieldValues>>> = {}
+): boolean => {
+  const { fieldErrors } = toApiError(error)
+  const entries = Object.entries(fieldErrors)
+
+  entries.forEach(([name, message], index) => {
+    const field = fieldMap[name] ?? (name as Path<TFieldValues>)
+    setError(field, { type: 'server', message }, { shouldFocus: index === 0 })
+  })
+
+  return entries.length > 0
+}
@@ -0,0 +1,105 @@
+/**
+ * CSV Utilities
+ * @description Parse and build RFC 4180 CSV text in the browser
+ */
+
+/**
+ * Parse CSV text into rows of cells
+ * @description Handles quoted cells with commas, line breaks and escaped quotes, CRLF line
+ * endings and a leading byte order mark. Blank lines are skipped.
+ * @param text - CSV text
+ * @returns Rows of cell values
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push(row);
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Quote a cell value when needed
+ * @param value - Cell value
+ * @returns CSV-safe cell text
+ */
+function escapeCsvCell(value: string | number | boolean | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build CSV text from rows of cells
+ * @param rows - Rows of cell values, the first one usually being the header
+ * @returns CSV text with CRLF line endings
+ */
+export function toCsv(
+  rows: (string | number | boolean | null | undefined)[][]
+): string {
+  return rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+}
+
+/**
+ * Let the user save text content as a file
+ * @param content - File content
+ * @param filename - Suggested file name
+ * @param mimeType - MIME type of the content
+ */
+export function downloadTextFile(
+  content: string,
+  filename: string,
+  mimeType = "text/csv;charset=utf-8"
+): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,99 @@
+import { URL_CUSTOM_CODE_LIMITS } from "@/config/urlLimits";
+
+/**
+ * Source text of custom code suggestions
+ * @interface CustomCodeSuggestionSource
+ */
+export interface CustomCodeSuggestionSource {
+  /** Custom code that was requested */
+  code?: string;
+  /** Title of the link */
+  title?: string;
+  /** Destination of the link */
+  originalUrl?: string;
+}
+
+/**
+ * Number of numbered variants generated for each base code
+ */
+const NUMBERED_VARIANTS = 5;
+
+/**
+ * Turn text into a custom code of lowercase letters, numbers and hyphens
+ * @param text - Text to convert
+ * @param maxLength - Maximum length of the code
+ * @returns Custom code, empty if the text has no usable characters
+ * @example
+ * slugifyCustomCode("Summer Sale 2024!") // returns "summer-sale-2024"
+ */
+export function slugifyCustomCode(
+  text: string,
+  maxLength: number = URL_CUSTOM_CODE_LIMITS.MAX_LENGTH
+): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+/, "")
+    .slice(0, maxLength)
+    .replace(/-+$/, "");
+}
+
+/**
+ * Get the name part of a destination's domain
+ * @param url - Destination URL
+ * @returns Domain name without subdomains and suffix, e.g. "example" for "https://shop.example.co.uk"
+ */
+const getDomainName = (url: string) => {
+  let hostname: string;
+  try {
+    hostname = new URL(url.trim()).hostname;
+  } catch {
+    return "";
+  }
+
+  const labels = hostname.replace(/^www\./, "").split(".");
+  if (labels.length < 2) return labels[0] ?? "";
+
+  // Short second-level labels like "co" in "example.co.uk" belong to the suffix
+  const name = labels[labels.length - 2];
+  return name.length <= 3 && labels.length > 2
+    ? labels[labels.length - 3]
+    : name;
+};
+
+/**
+ * Build candidate custom codes from a requested code, the title and the destination domain
+ * @description Candidates come in order of preference: the plain title, the domain, the domain
+ * with the title, then each of those with a number appended. Every candidate fits the maximum code
+ * length, but still has to be checked for availability and reserved words.
+ * @param source - Text to build the candidates from
+ * @returns Unique candidate codes
+ */
+export function getCustomCodeCandidates({
+  code = "",
+  title = "",
+  originalUrl = "",
+}: CustomCodeSuggestionSource): string[] {
+  const maxLength = URL_CUSTOM_CODE_LIMITS.MAX_LENGTH;
+  const titleCode = slugifyCustomCode(title);
+  const domainCode = slugifyCustomCode(getDomainName(originalUrl));
+  const bases = [
+    titleCode,
+    domainCode,
+    titleCode && domainCode ? slugifyCustomCode(`${domainCode}-${title}`) : "",
+    slugifyCustomCode(code),
+  ].filter(Boolean);
+
+  const candidates = [...bases];
+  for (let number = 2; number < NUMBERED_VARIANTS + 2; number++) {
+    bases.forEach((base) => {
+      const suffix = `-${number}`;
+      const trimmed = slugifyCustomCode(base, maxLength - suffix.length);
+      if (trimmed) candidates.push(`${trimmed}${suffix}`);
+    });
+  }
+
+  return [...new Set(candidates)];
+}
@@ -1,3 +1,5 @@
+import { format } from "date-fns";
+
 /**
  * Format a date string into a readable format
  * @param dateString - The ISO date string to format
@@ -25,3 +27,39 @@ export const formatDate = (dateString: string): string => {
     return "";
   }
 };
+
+/**
+ * Format a date string into a readable date and time
+ * @param dateString - The ISO date string to format
+ * @returns Formatted date and time string
+ */
+export const formatDateTime = (dateString: string): string => {
+  if (!dateString) return "";
+
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return "";
+
+  return date.toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+};
+
+/**
+ * Format a date string for datetime-local inputs
+ * @param date - The ISO date string or date to format
+ * @returns Local time as yyyy-MM-ddTHH:mm, or an empty string if invalid
+ */
+export const formatDateTimeForInput = (
+  date: string | Date | undefined | null
+): string => {
+  if (!date) return "";
+
+  const value = new Date(date);
+  if (isNaN(value.getTime())) return "";
+
+  return format(value, "yyyy-MM-dd'T'HH:mm");
+};
@@ -38,6 +38,35 @@ export function getDeviceType(): "mobile" | "desktop" | "tablet" | "other" {
   return "desktop";
 }
 
+/**
+ * Determines the operating system based on user agent string
+ * @description iPadOS reports itself as macOS, so touch support tells both apart
+ * @returns Operating system, or undefined when it cannot be told
+ * @example
+ * getOperatingSystem() // returns 'ios' | 'android' | 'windows' | 'macos' | 'linux' | undefined
+ */
+export function getOperatingSystem():
+  | "ios"
+  | "android"
+  | "windows"
+  | "macos"
+  | "linux"
+  | undefined {
+  if (typeof window === "undefined") return undefined;
+
+  const userAgent = navigator.userAgent.toLowerCase();
+
+  if (/iphone|ipad|ipod/.test(userAgent)) return "ios";
+  if (/android/.test(userAgent)) return "android";
+  if (/windows/.test(userAgent)) return "windows";
+  if (/macintosh|mac os x/.test(userAgent)) {
+    return navigator.maxTouchPoints > 1 ? "ios" : "macos";
+  }
+  if (/linux|cros/.test(userAgent)) return "linux";
+
+  return undefined;
+}
+
 /**
  * Get detailed device information
  * @description Returns comprehensive device information for analytics
@@ -16,6 +16,7 @@ class GeolocationCache {
     { location: string; timestamp: number }
   >();
   private static CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+  private static REQUEST_TIMEOUT = 2000; // 2 seconds
   private static readonly CACHE_KEY = "user_location";
 
   /**
@@ -35,7 +36,9 @@ class GeolocationCache {
 
     try {
       logger.debug("Fetching fresh geolocation data");
-      const response = await fetch("https://ipapi.co/json/");
+      const response = await fetch("https://ipapi.co/json/", {
+        signal: AbortSignal.timeout(this.REQUEST_TIMEOUT),
+      });
 
       if (!response.ok) {
         throw new Error(`Geolocation API returned ${response.status}`);
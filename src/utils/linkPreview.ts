@@ -0,0 +1,156 @@
+import { LINK_PREVIEW_LIMITS } from "@/config/linkPreview";
+import { URL_DESCRIPTION_LIMITS } from "@/config/url";
+import type { LinkPreview } from "@/interfaces/linkPreview";
+
+const META_TAG_PATTERN = /<meta\b[^>]*>/gi;
+const LINK_TAG_PATTERN = /<link\b[^>]*>/gi;
+const TITLE_PATTERN = /<title\b[^>]*>([\s\S]*?)<\/title>/i;
+const ATTRIBUTE_PATTERN =
+  /([a-zA-Z_:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+
+/**
+ * Named HTML entities found in titles and descriptions
+ */
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Read the attributes of an HTML tag
+ * @param tag - Opening tag
+ * @returns Attribute values by lowercase name
+ */
+const readAttributes = (tag: string) => {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase();
+    attributes[name] ??= match[2] ?? match[3] ?? match[4] ?? "";
+  }
+  return attributes;
+};
+
+/**
+ * Decode the HTML entities of a text
+ * @param text - Text as written in the page
+ * @returns Decoded text, unknown entities being kept as is
+ */
+const decodeHtmlEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] !== "#") return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+
+    const codePoint =
+      name[1].toLowerCase() === "x"
+        ? parseInt(name.slice(2), 16)
+        : parseInt(name.slice(1), 10);
+    return codePoint > 0 && codePoint <= 0x10ffff
+      ? String.fromCodePoint(codePoint)
+      : entity;
+  });
+
+/**
+ * Clean a text read from a page
+ * @param text - Raw text
+ * @param maxLength - Maximum length kept
+ * @returns Decoded text on a single line, or undefined if empty
+ */
+const cleanText = (text: string | undefined, maxLength: number) => {
+  const cleaned = decodeHtmlEntities(text ?? "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return cleaned ? cleaned.slice(0, maxLength).trim() : undefined;
+};
+
+/**
+ * Resolve a URL found in a page
+ * @param value - URL as written in the page, possibly relative
+ * @param pageUrl - Address of the page
+ * @returns Absolute http(s) URL, or undefined if invalid
+ */
+const resolveHttpUrl = (value: string | undefined, pageUrl: string) => {
+  if (!value?.trim()) return undefined;
+  try {
+    const url = new URL(decodeHtmlEntities(value.trim()), pageUrl);
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? url.toString()
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Find the favicon declared by a page
+ * @description Plain icons are preferred over touch icons, which are meant for home screens
+ * @param head - Head of the page
+ * @param pageUrl - Address of the page
+ * @returns Absolute URL of the icon, or the conventional /favicon.ico of the site
+ */
+const findFavicon = (head: string, pageUrl: string) => {
+  const icons = (head.match(LINK_TAG_PATTERN) ?? [])
+    .map(readAttributes)
+    .filter((attributes) =>
+      (attributes.rel ?? "").toLowerCase().split(/\s+/).includes("icon")
+    );
+  const icon =
+    icons.find((attributes) => !attributes.rel.includes("apple")) ?? icons[0];
+
+  return (
+    resolveHttpUrl(icon?.href, pageUrl) ??
+    new URL("/favicon.ico", pageUrl).toString()
+  );
+};
+
+/**
+ * Read the title and preview metadata of a page
+ * @description Open Graph tags come first, then Twitter card tags, then the title and meta
+ * description. Only the head is read, so titles of inline SVGs in the body are ignored.
+ * @param html - HTML of the page, possibly cut short
+ * @param pageUrl - Address of the page, relative URLs being resolved against it
+ * @returns Preview metadata, fields not found being left out
+ * @example
+ * parseLinkPreview('<title>Shoes &amp; Boots</title>', "https://example.com/shop")
+ * // returns the title "Shoes & Boots" and the favicon "https://example.com/favicon.ico"
+ */
+export function parseLinkPreview(html: string, pageUrl: string): LinkPreview {
+  const head = html.split(/<\/head>/i)[0];
+  const meta: Record<string, string> = {};
+  (head.match(META_TAG_PATTERN) ?? []).forEach((tag) => {
+    const attributes = readAttributes(tag);
+    const key = (attributes.property ?? attributes.name)?.toLowerCase();
+    if (key && attributes.content !== undefined) {
+      meta[key] ??= attributes.content;
+    }
+  });
+
+  const { MAX_TITLE_LENGTH } = LINK_PREVIEW_LIMITS;
+
+  return {
+    url: pageUrl,
+    title: cleanText(
+      meta["og:title"] ??
+        meta["twitter:title"] ??
+        head.match(TITLE_PATTERN)?.[1],
+      MAX_TITLE_LENGTH
+    ),
+    description: cleanText(
+      meta["og:description"] ??
+        meta["twitter:description"] ??
+        meta.description,
+      URL_DESCRIPTION_LIMITS.MAX_LENGTH
+    ),
+    site_name: cleanText(meta["og:site_name"], MAX_TITLE_LENGTH),
+    image_url: resolveHttpUrl(
+      meta["og:image:secure_url"] ??
+        meta["og:image"] ??
+        meta["twitter:image"] ??
+        meta["twitter:image:src"],
+      pageUrl
+    ),
+    favicon_url: findFavicon(head, pageUrl),
+  };
+}
@@ -0,0 +1,19 @@
+import { OutboxMutation } from "@/interfaces/outbox";
+
+/**
+ * Describe a queued URL mutation for display
+ * @param mutation - Queued mutation
+ * @returns Short human-readable description, e.g. "Deactivate URL #12"
+ */
+export function describeOutboxMutation(mutation: OutboxMutation): string {
+  switch (mutation.type) {
+    case "create":
+      return `Create "${mutation.formData.title || mutation.formData.originalUrl}"`;
+    case "edit":
+      return `Edit "${mutation.formData.title || mutation.formData.originalUrl}"`;
+    case "status":
+      return `${mutation.isActive ? "Activate" : "Deactivate"} URL #${mutation.urlId}`;
+    case "delete":
+      return `Delete "${mutation.shortCode}"`;
+  }
+}
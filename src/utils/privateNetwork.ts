@@ -0,0 +1,131 @@
+/**
+ * IPv4 ranges that are not reachable on the public internet, as [first address, prefix length]
+ * @see https://www.iana.org/assignments/iana-ipv4-special-registry
+ */
+const NON_PUBLIC_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local, including cloud metadata services
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // Protocol assignments
+  ["192.0.2.0", 24], // Documentation
+  ["192.88.99.0", 24], // 6to4 relay anycast
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["198.51.100.0", 24], // Documentation
+  ["203.0.113.0", 24], // Documentation
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved and broadcast
+];
+
+/**
+ * Parse an IPv4 address
+ * @param address - Dotted address
+ * @returns Address as an unsigned 32-bit number, or null if invalid
+ */
+const parseIpv4 = (address: string): number | null => {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) {
+    return null;
+  }
+
+  const bytes = parts.map(Number);
+  if (bytes.some((byte) => byte > 255)) return null;
+  return bytes.reduce((value, byte) => value * 256 + byte, 0);
+};
+
+/**
+ * Parse an IPv6 address
+ * @param address - Address, possibly shortened with "::" or ending with a dotted IPv4 address
+ * @returns The eight 16-bit groups, or null if invalid
+ */
+const parseIpv6 = (address: string): number[] | null => {
+  let text = address.toLowerCase();
+
+  // A trailing IPv4 address stands for the last two groups
+  const ipv4Match = text.match(/:(\d+\.\d+\.\d+\.\d+)$/);
+  if (ipv4Match) {
+    const ipv4 = parseIpv4(ipv4Match[1]);
+    if (ipv4 === null) return null;
+    const high = Math.floor(ipv4 / 0x10000).toString(16);
+    const low = (ipv4 % 0x10000).toString(16);
+    text = `${text.slice(0, -ipv4Match[1].length)}${high}:${low}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+
+  const toGroups = (half: string) => (half ? half.split(":") : []);
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(missing).fill("0"), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+};
+
+/**
+ * Check whether an IPv4 address is outside the public internet
+ * @param value - Address as an unsigned 32-bit number
+ * @returns true if the address is in a non-public range
+ */
+const isNonPublicIpv4 = (value: number) =>
+  NON_PUBLIC_IPV4_RANGES.some(([first, prefixLength]) => {
+    const size = 2 ** (32 - prefixLength);
+    const start = parseIpv4(first) as number;
+    return value >= start && value < start + size;
+  });
+
+/**
+ * Check whether an IP address is private, loopback, link-local or otherwise not public
+ * @description Used to keep server-side fetches of user-supplied URLs away from the internal
+ * network. IPv6 addresses embedding an IPv4 address (mapped, NAT64, 6to4) are checked on the
+ * embedded address. Anything that cannot be parsed counts as not public.
+ * @param address - IPv4 or IPv6 address, IPv6 possibly in brackets or with a zone
+ * @returns true if the address must not be fetched
+ * @example
+ * isPrivateIpAddress("169.254.169.254") // true
+ * isPrivateIpAddress("::ffff:10.0.0.1") // true
+ * isPrivateIpAddress("93.184.216.34") // false
+ */
+export function isPrivateIpAddress(address: string): boolean {
+  const text = address.trim().replace(/^\[|\]$/g, "").split("%")[0];
+
+  const ipv4 = parseIpv4(text);
+  if (ipv4 !== null) return isNonPublicIpv4(ipv4);
+
+  const groups = parseIpv6(text);
+  if (!groups) return true;
+
+  const embeddedIpv4 = (high: number, low: number) =>
+    isNonPublicIpv4(high * 0x10000 + low);
+  const [first, second] = groups;
+  const isZeroUntil = (end: number) =>
+    groups.slice(0, end).every((group) => group === 0);
+
+  // Unspecified, loopback and IPv4-compatible addresses
+  if (isZeroUntil(6)) return true;
+  // IPv4-mapped addresses
+  if (isZeroUntil(5) && groups[5] === 0xffff) {
+    return embeddedIpv4(groups[6], groups[7]);
+  }
+  // NAT64
+  if (first === 0x64 && second === 0xff9b) {
+    return embeddedIpv4(groups[6], groups[7]);
+  }
+  // 6to4
+  if (first === 0x2002) return embeddedIpv4(groups[1], groups[2]);
+
+  return (
+    (first & 0xfe00) === 0xfc00 || // Unique local
+    (first & 0xffc0) === 0xfe80 || // Link-local
+    (first & 0xffc0) === 0xfec0 || // Site-local
+    (first & 0xff00) === 0xff00 || // Multicast
+    (first === 0x2001 && second === 0x0db8) || // Documentation
+    (first === 0x2001 && second === 0) // Teredo
+  );
+}
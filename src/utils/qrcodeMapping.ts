@@ -34,6 +34,8 @@ export const mapApiQrCodeToModel = (apiQrCode: any): QrCode => {
     scans: apiQrCode.url?.clicks || 0,
     title: apiQrCode.url?.title || apiQrCode.short_code,
     description: apiQrCode.url?.original_url,
+    faviconUrl: apiQrCode.url?.favicon_url,
+    previewImageUrl: apiQrCode.url?.preview_image_url,
     customization: {
       foregroundColor: apiQrCode.color || "#000000",
       backgroundColor: apiQrCode.background_color || "#FFFFFF",
@@ -0,0 +1,70 @@
+/**
+ * Redirect rule utilities
+ * @description Describes the visitor of a short link to the API, which picks the redirect rule
+ * that applies
+ */
+
+import type {
+  RedirectRuleConditions,
+  RedirectVisitor,
+} from "@/interfaces/redirectRules";
+import { getDeviceType, getOperatingSystem } from "@/utils/deviceDetection";
+import { getAbVariantCookie } from "@/utils/abTest";
+import { SHORT_URL_REFERRER_PARAM } from "@/config/url";
+
+/**
+ * Split a list of country or language codes typed by the user
+ * @param value - Codes separated by commas or spaces
+ * @returns Codes without blanks or duplicates, in the order typed
+ * @example
+ * parseRedirectCodes("de, at ,DE") // returns ["de", "at", "DE"]
+ */
+export const parseRedirectCodes = (value: string): string[] =>
+  Array.from(new Set(value.split(/[\s,]+/).filter(Boolean)));
+
+/**
+ * Check whether a rule sets at least one condition
+ * @param conditions - Conditions of the rule
+ * @returns true if the rule can match some visitors only
+ */
+export const hasRedirectConditions = (
+  conditions: RedirectRuleConditions
+): boolean =>
+  Object.values(conditions).some((values) => (values?.length ?? 0) > 0);
+
+/**
+ * Describe the current visitor of a short link
+ * @description Only what the browser knows is read, so opening a link waits on no other request.
+ * The country is left to the API, which finds it from the IP address of the request.
+ * The referrer comes from the query string of the short URL, like the one of bio page links.
+ * @param shortCode - Short code of the link, to keep the visitor on its A/B variant
+ * @returns The visitor
+ */
+export const getRedirectVisitor = (shortCode: string): RedirectVisitor => ({
+  device: getDeviceType(),
+  os: getOperatingSystem(),
+  language: typeof navigator === "undefined" ? undefined : navigator.language,
+  variant: getAbVariantCookie(shortCode),
+  referrer:
+    typeof window === "undefined"
+      ? undefined
+      : new URLSearchParams(window.location.search).get(
+          SHORT_URL_REFERRER_PARAM
+        ) || undefined,
+});
+
+/**
+ * Turn a visitor into the query string of the public URL lookup
+ * @param visitor - Visitor opening the short link
+ * @returns Query string starting with "?", empty when nothing is known
+ */
+export const toRedirectVisitorQuery = (visitor: RedirectVisitor): string => {
+  const params = new URLSearchParams();
+
+  Object.entries(visitor).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+
+  const query = params.toString();
+  return query ? `?${query}` : "";
+};
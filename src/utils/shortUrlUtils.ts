@@ -3,31 +3,11 @@
  */
 
 import { get, getPublic } from "@/services/api";
-import { AxiosError } from "axios";
+import { isApiError } from "@/utils/apiErrors";
 import logger from "@/utils/logger";
 import { getDeviceType } from "@/utils/deviceDetection";
 import GeolocationCache from "@/utils/geolocation";
-
-// Define known routes to exclude from short URL detection
-const KNOWN_ROUTES = [
-  // App routes
-  "dashboard",
-  "login",
-  "register",
-  "settings",
-  "profile",
-  // Asset directories
-  "api",
-  "_next",
-  "images",
-  "assets",
-  "static",
-  "logo",
-  // Common files
-  "favicon.ico",
-  "robots.txt",
-  "sitemap.xml",
-];
+import { KNOWN_ROUTES } from "@/config/urlLimits";
 
 // File extensions to exclude (these are likely static files, not short URLs)
 const FILE_EXTENSIONS = [
@@ -78,6 +58,12 @@ export function isShortUrlPath(pathname: string): boolean {
 
   logger.urlShortener.debug(`Checking if path is a short URL: ${path}`);
 
+  // Bio pages (/@username) are not short URLs
+  if (path.startsWith("@") || path.startsWith("%40")) {
+    logger.urlShortener.debug("Path is a bio page, not a short URL");
+    return false;
+  }
+
   // Check if it's one of our known routes or nested routes
   for (const route of KNOWN_ROUTES) {
     if (path === route || path.startsWith(`${route}/`)) {
@@ -148,7 +134,10 @@ export async function getOriginalUrlByShortCode(
       logger.urlShortener.debug(`Trying public API endpoint: ${publicApiUrl}`);
 
       // Use getPublic to ensure no authentication headers are sent
-      const publicResponse = await getPublic<ShortUrlResponse>(publicApiUrl);
+      // Each lookup counts a click, so it is not retried
+      const publicResponse = await getPublic<ShortUrlResponse>(publicApiUrl, {
+        retry: false,
+      });
 
       const originalUrl = extractOriginalUrlFromResponse(publicResponse);
       if (originalUrl) {
@@ -172,10 +161,8 @@ export async function getOriginalUrlByShortCode(
     } catch (error) {
       // Check if the error is a 404 (URL not found)
       const is404Error =
-        // Check if it's an Axios error with status 404
-        (error instanceof Error &&
-          error instanceof AxiosError &&
-          error.response?.status === 404) ||
+        // Check if it's an API error with status 404
+        (isApiError(error) && error.kind === "not_found") ||
         // Or check message content for other error types
         (error instanceof Error && error.message.includes("404"));
 
@@ -280,7 +267,8 @@ async function recordUrlClick(shortCode: string): Promise<void> {
 
   try {
     const endpoint = `/api/v1/urls/click/${shortCode}`;
-    await get(endpoint);
+    // Each request counts a click, so a retry could count it twice
+    await get(endpoint, { retry: false });
     logger.urlShortener.debug(`Click recorded for ${shortCode}`);
 
     // Track URL click conversion in PostHog (client-side only)
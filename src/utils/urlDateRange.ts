@@ -0,0 +1,121 @@
+import { format, startOfMonth, subDays } from "date-fns";
+import type {
+  UrlDateField,
+  UrlDateRangeFilter,
+  UrlDateRangePreset,
+  UrlFilter,
+} from "@/interfaces/url";
+import { URL_DATE_FIELDS, URL_DATE_RANGE_PRESETS } from "@/config/url";
+
+/** Query string parameters holding the URL list date range */
+const DATE_RANGE_PARAMS = {
+  preset: "datePreset",
+  field: "dateField",
+  start: "dateFrom",
+  end: "dateTo",
+} as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check whether a value is a URL list date range preset
+ * @param value - Value to check
+ * @returns Whether the value is a known preset
+ */
+function isUrlDateRangePreset(
+  value: string | null
+): value is UrlDateRangePreset {
+  return URL_DATE_RANGE_PRESETS.some((preset) => preset.value === value);
+}
+
+/**
+ * Get the days covered by a date range preset
+ * @param preset - Date range preset
+ * @param today - Reference day, now by default
+ * @returns First and last day in YYYY-MM-DD format, in the user's time zone
+ */
+export function getUrlDateRangePresetDates(
+  preset: UrlDateRangePreset,
+  today: Date = new Date()
+): { start: string; end: string } {
+  const end = format(today, "yyyy-MM-dd");
+
+  switch (preset) {
+    case "today":
+      return { start: end, end };
+    case "7d":
+      return { start: format(subDays(today, 6), "yyyy-MM-dd"), end };
+    case "30d":
+      return { start: format(subDays(today, 29), "yyyy-MM-dd"), end };
+    case "90d":
+      return { start: format(subDays(today, 89), "yyyy-MM-dd"), end };
+    case "this_month":
+      return { start: format(startOfMonth(today), "yyyy-MM-dd"), end };
+  }
+}
+
+/**
+ * Read the URL list date range from the query string
+ * @description Presets are resolved against today, so a bookmarked "Last 7 days" view keeps
+ * showing the last 7 days
+ * @param params - Page query string
+ * @returns Date range, or null when the query string has none or an invalid one
+ */
+export function parseUrlDateRangeParams(
+  params: Pick<URLSearchParams, "get"> | null
+): UrlDateRangeFilter | null {
+  if (!params) return null;
+
+  const fieldParam = params.get(DATE_RANGE_PARAMS.field);
+  const field: UrlDateField =
+    fieldParam && Object.hasOwn(URL_DATE_FIELDS, fieldParam)
+      ? (fieldParam as UrlDateField)
+      : "created_at";
+
+  const preset = params.get(DATE_RANGE_PARAMS.preset);
+  if (isUrlDateRangePreset(preset)) {
+    return { preset, field, ...getUrlDateRangePresetDates(preset) };
+  }
+
+  const start = params.get(DATE_RANGE_PARAMS.start) ?? "";
+  const end = params.get(DATE_RANGE_PARAMS.end) ?? "";
+  const isValid = (date: string) => !date || DATE_PATTERN.test(date);
+  if ((!start && !end) || !isValid(start) || !isValid(end)) return null;
+
+  return { preset: "custom", field, start, end };
+}
+
+/**
+ * Write the URL list date range to a query string
+ * @description Presets are stored by name and custom ranges by their days, other parameters
+ * are left untouched
+ * @param params - Query string to update
+ * @param range - Date range, or null to remove it
+ */
+export function setUrlDateRangeParams(
+  params: URLSearchParams,
+  range: UrlDateRangeFilter | null
+): void {
+  Object.values(DATE_RANGE_PARAMS).forEach((param) => params.delete(param));
+  if (!range) return;
+
+  params.set(DATE_RANGE_PARAMS.field, range.field);
+  if (range.preset !== "custom") {
+    params.set(DATE_RANGE_PARAMS.preset, range.preset);
+    return;
+  }
+  if (range.start) params.set(DATE_RANGE_PARAMS.start, range.start);
+  if (range.end) params.set(DATE_RANGE_PARAMS.end, range.end);
+}
+
+/**
+ * Convert a date range of the list filter to the API filter
+ * @param range - Date range, or null when not filtering by date
+ * @returns Date range of the URL filter
+ */
+export function toUrlFilterDateRange(
+  range: UrlDateRangeFilter | null
+): UrlFilter["dateRange"] {
+  if (!range || (!range.start && !range.end)) return undefined;
+  return { start: range.start, end: range.end, field: range.field };
+}
@@ -0,0 +1,166 @@
+import type { Url } from "@/interfaces/url";
+import type {
+  UrlExportColumn,
+  UrlExportDateFormat,
+  UrlExportFile,
+  UrlExportOptions,
+} from "@/interfaces/urlExport";
+import { URL_EXPORT_COLUMNS, URL_EXPORT_FORMATS } from "@/config/urlExport";
+import { formatShortUrl } from "./urlFormatter";
+import { toCsv } from "./csv";
+
+type UrlExportValue = string | number | null;
+
+/**
+ * Write a date in the chosen format
+ * @param value - ISO date string
+ * @param dateFormat - Date format
+ * @returns Formatted date, or null when there is no valid date
+ */
+function formatExportDate(
+  value: string | null | undefined,
+  dateFormat: UrlExportDateFormat
+): string | null {
+  if (!value) return null;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+
+  switch (dateFormat) {
+    case "date":
+      return date.toISOString().slice(0, 10);
+    case "locale":
+      return date.toLocaleString();
+    default:
+      return date.toISOString();
+  }
+}
+
+/**
+ * Read one column of a URL
+ * @param url - URL to export
+ * @param column - Column to read
+ * @param dateFormat - Format of the date columns
+ * @returns Cell value
+ */
+function readColumn(
+  url: Url,
+  column: UrlExportColumn,
+  dateFormat: UrlExportDateFormat
+): UrlExportValue {
+  switch (column) {
+    case "shortUrl":
+      return formatShortUrl(url.short_url);
+    case "originalUrl":
+      return url.original_url;
+    case "title":
+      return url.title ?? "";
+    case "clicks":
+      return url.clicks;
+    case "status":
+      return url.is_active ? "active" : "inactive";
+    case "expiryDate":
+      return formatExportDate(url.expiry_date, dateFormat);
+    case "tags":
+      return (url.tags ?? []).join(";");
+    case "createdAt":
+      return formatExportDate(url.created_at, dateFormat);
+    case "updatedAt":
+      return formatExportDate(url.updated_at, dateFormat);
+  }
+}
+
+/**
+ * Get the header of a column
+ * @param column - Column
+ * @returns Header label
+ */
+function columnLabel(column: UrlExportColumn): string {
+  return (
+    URL_EXPORT_COLUMNS.find((item) => item.key === column)?.label ?? column
+  );
+}
+
+/**
+ * Escape text for XML content
+ * @param text - Raw text
+ * @returns Text safe inside an XML element
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Build an Excel spreadsheet document (SpreadsheetML)
+ * @description Numbers are written as number cells so they can be summed and sorted
+ * @param header - Header cells
+ * @param rows - Data rows
+ * @returns XML text of the workbook
+ */
+function toSpreadsheetXml(header: string[], rows: UrlExportValue[][]): string {
+  const toRow = (cells: UrlExportValue[]) =>
+    `<Row>${cells
+      .map((cell) =>
+        typeof cell === "number"
+          ? `<Cell><Data ss:Type="Number">${cell}</Data></Cell>`
+          : `<Cell><Data ss:Type="String">${escapeXml(cell ?? "")}</Data></Cell>`
+      )
+      .join("")}</Row>`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    '<Worksheet ss:Name="URLs"><Table>',
+    toRow(header),
+    ...rows.map(toRow),
+    "</Table></Worksheet>",
+    "</Workbook>",
+  ].join("\n");
+}
+
+/**
+ * Build the export file of a list of URLs
+ * @param urls - URLs to export
+ * @param options - Format, columns and date format
+ * @param exportedAt - Export date, used in the file name
+ * @returns File content, name and MIME type
+ */
+export function buildUrlExportFile(
+  urls: Url[],
+  { format, columns, dateFormat }: UrlExportOptions,
+  exportedAt = new Date()
+): UrlExportFile {
+  const header = columns.map(columnLabel);
+  const rows = urls.map((url) =>
+    columns.map((column) => readColumn(url, column, dateFormat))
+  );
+  const { extension, mimeType } = URL_EXPORT_FORMATS[format];
+  const filename = `cylink-urls-${exportedAt.toISOString().slice(0, 10)}.${extension}`;
+
+  let content: string;
+  if (format === "json") {
+    const records = urls.map((url) =>
+      Object.fromEntries(
+        columns.map((column) => [
+          column,
+          column === "tags"
+            ? (url.tags ?? [])
+            : readColumn(url, column, dateFormat),
+        ])
+      )
+    );
+    content = JSON.stringify(records, null, 2);
+  } else if (format === "xlsx") {
+    content = toSpreadsheetXml(header, rows);
+  } else {
+    // The byte order mark lets Excel read the file as UTF-8
+    content = `\uFEFF${toCsv([header, ...rows])}`;
+  }
+
+  return { content, filename, mimeType };
+}
@@ -0,0 +1,192 @@
+import type { CreateUrlFormData } from "@/interfaces/url";
+import type { UrlImportField, UrlImportRow } from "@/interfaces/urlImport";
+import {
+  URL_IMPORT_COLUMNS,
+  URL_IMPORT_LIMITS,
+  URL_IMPORT_TAG_SEPARATOR,
+} from "@/config/urlImport";
+import { createUrlSchema } from "@/schemas/urlForm";
+import { parseCsv, toCsv } from "./csv";
+
+/**
+ * Error thrown when an import file cannot be read as a whole
+ */
+export class UrlImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UrlImportFileError";
+  }
+}
+
+/**
+ * Normalize a CSV header for matching
+ * @param header - Header cell
+ * @returns Lowercase header without spaces, dashes and underscores
+ */
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_-]/g, "");
+}
+
+/**
+ * Find the column of each URL field in the header row
+ * @param header - Header cells
+ * @returns Column index of each field found
+ */
+function mapColumns(header: string[]): Partial<Record<UrlImportField, number>> {
+  const normalized = header.map(normalizeHeader);
+  const columns: Partial<Record<UrlImportField, number>> = {};
+
+  (Object.keys(URL_IMPORT_COLUMNS) as UrlImportField[]).forEach((field) => {
+    const index = normalized.findIndex((name) =>
+      URL_IMPORT_COLUMNS[field].includes(name)
+    );
+    if (index !== -1) columns[field] = index;
+  });
+
+  return columns;
+}
+
+/**
+ * Split a tags cell into unique tags
+ * @param value - Tags cell
+ * @returns Tags in file order
+ */
+function parseTags(value: string): string[] {
+  const tags = value
+    .split(URL_IMPORT_TAG_SEPARATOR)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+  return Array.from(new Set(tags));
+}
+
+/**
+ * Validate URL fields with the rules of the create form
+ * @param data - URL fields of a row
+ * @returns Error message of each invalid field
+ */
+export function validateUrlImportData(
+  data: CreateUrlFormData
+): Partial<Record<UrlImportField, string>> {
+  const result = createUrlSchema.safeParse(data);
+  if (result.success) return {};
+
+  const errors: Partial<Record<UrlImportField, string>> = {};
+  result.error.issues.forEach((issue) => {
+    const field = issue.path[0] as UrlImportField;
+    errors[field] ??= issue.message;
+  });
+
+  return errors;
+}
+
+/**
+ * Flag custom codes used by more than one row
+ * @description The codes are compared case-insensitively, and every row sharing a code gets
+ * the error, since none of them can be imported as-is
+ * @param rows - Validated rows
+ * @returns Rows with the duplicate codes marked invalid
+ */
+export function flagDuplicateCodes(rows: UrlImportRow[]): UrlImportRow[] {
+  const rowsByCode = new Map<string, number[]>();
+
+  rows.forEach((row) => {
+    const code = row.data.customCode?.toLowerCase();
+    if (!code) return;
+    rowsByCode.set(code, [...(rowsByCode.get(code) ?? []), row.rowNumber]);
+  });
+
+  return rows.map((row) => {
+    const rowNumbers = rowsByCode.get(row.data.customCode?.toLowerCase() ?? "");
+    if (!rowNumbers || rowNumbers.length < 2 || row.errors.customCode) {
+      return row;
+    }
+
+    const others = rowNumbers.filter((number) => number !== row.rowNumber);
+    return {
+      ...row,
+      status: "invalid",
+      errors: {
+        ...row.errors,
+        customCode: `Custom code is also used on row ${others.join(", ")}`,
+      },
+    };
+  });
+}
+
+/**
+ * Read and validate the rows of a CSV import file
+ * @param text - Content of the CSV file
+ * @returns One row per data line, ready or invalid
+ * @throws UrlImportFileError if the file is empty, has no URL column or too many rows
+ */
+export function parseUrlImportFile(text: string): UrlImportRow[] {
+  const [header, ...lines] = parseCsv(text);
+  if (!header || lines.length === 0) {
+    throw new UrlImportFileError("The file has no rows to import");
+  }
+
+  const columns = mapColumns(header);
+  if (columns.originalUrl === undefined) {
+    throw new UrlImportFileError(
+      'The file needs an "original_url" column with the URLs to shorten'
+    );
+  }
+
+  if (lines.length > URL_IMPORT_LIMITS.MAX_ROWS) {
+    throw new UrlImportFileError(
+      `The file has ${lines.length} rows, the limit is ${URL_IMPORT_LIMITS.MAX_ROWS} per import`
+    );
+  }
+
+  const readCell = (line: string[], field: UrlImportField) => {
+    const index = columns[field];
+    return index === undefined ? "" : (line[index] ?? "").trim();
+  };
+
+  const rows = lines.map((line, index): UrlImportRow => {
+    const data: CreateUrlFormData = {
+      originalUrl: readCell(line, "originalUrl"),
+      customCode: readCell(line, "customCode") || undefined,
+      title: readCell(line, "title"),
+      expiryDate: readCell(line, "expiryDate"),
+      tags: parseTags(readCell(line, "tags")),
+    };
+    const errors = validateUrlImportData(data);
+
+    return {
+      rowNumber: index + 2,
+      data,
+      errors,
+      status: Object.keys(errors).length > 0 ? "invalid" : "ready",
+    };
+  });
+
+  return flagDuplicateCodes(rows);
+}
+
+/**
+ * Build a CSV report of the rows that were not imported
+ * @description The report keeps the columns of the import file, so users can fix it and
+ * import it again, and adds the row number and the reason of each row
+ * @param rows - Import rows
+ * @returns CSV text of the invalid and failed rows
+ */
+export function buildUrlImportErrorReport(rows: UrlImportRow[]): string {
+  const failedRows = rows.filter(
+    (row) => row.status === "invalid" || row.status === "failed"
+  );
+
+  return toCsv([
+    ["row", "original_url", "custom_code", "title", "expiry_date", "tags", "error"],
+    ...failedRows.map((row) => [
+      row.rowNumber,
+      row.data.originalUrl,
+      row.data.customCode,
+      row.data.title,
+      row.data.expiryDate,
+      row.data.tags?.join(";"),
+      [...Object.values(row.errors), row.error].filter(Boolean).join("; "),
+    ]),
+  ]);
+}
@@ -0,0 +1,50 @@
+import {
+  URL_TRACKING_PARAM_PREFIXES,
+  URL_TRACKING_PARAMS,
+} from "@/config/url";
+
+/**
+ * Check whether a query parameter only tracks where a visit came from
+ * @param name - Name of the parameter
+ * @returns true if the parameter is ignored when comparing destinations
+ */
+const isTrackingParam = (name: string) => {
+  const lowerName = name.toLowerCase();
+  return (
+    URL_TRACKING_PARAMS.includes(lowerName) ||
+    URL_TRACKING_PARAM_PREFIXES.some((prefix) => lowerName.startsWith(prefix))
+  );
+};
+
+/**
+ * Reduce a destination to the form used to find links pointing to the same page
+ * @description Drops the "www." prefix, a trailing slash, tracking parameters and the fragment, and
+ * sorts the remaining query parameters. The protocol and the letter case of the path are kept.
+ * @param url - Destination URL as typed
+ * @returns Normalized URL, or null if it is not a valid http(s) URL
+ * @example
+ * normalizeDestinationUrl("https://www.example.com/shoes/?b=2&a=1&utm_source=x")
+ * // returns "https://example.com/shoes?a=1&b=2"
+ */
+export function normalizeDestinationUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+
+  const host = parsed.host.replace(/^www\./, "");
+  const path = parsed.pathname.replace(/\/+$/, "");
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([nameA, valueA], [nameB, valueB]) =>
+      nameA === nameB
+        ? valueA.localeCompare(valueB)
+        : nameA.localeCompare(nameB)
+    );
+  const query = new URLSearchParams(params).toString();
+
+  return `${parsed.protocol}//${host}${path}${query ? `?${query}` : ""}`;
+}
@@ -0,0 +1,174 @@
+import type {
+  UrlSafetyCheck,
+  UrlSafetyFinding,
+  UrlSafetyReport,
+  UrlSafetySeverity,
+} from "@/interfaces/urlSafety";
+import {
+  HOMOGLYPH_CHARACTERS,
+  KNOWN_URL_SHORTENERS,
+  SUSPICIOUS_TLDS,
+  URL_SAFETY_BLOCKLIST,
+  URL_SAFETY_SEVERITIES,
+} from "@/config/urlSafety";
+import { URL_DISPLAY_CONFIG } from "@/config/urlLimits";
+
+const SEVERITY_ORDER: UrlSafetySeverity[] = ["high", "medium", "low"];
+
+const IPV4_HOST_REGEX = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+const RAW_HOST_REGEX = /^[a-z][a-z\d+.-]*:\/\/(?:[^@/?#]*@)?([^/?#:]*)/i;
+
+const LATIN_LETTER_REGEX = /[a-z]/i;
+
+const NON_LATIN_LETTER_REGEX = /[\u0370-\u03FF\u0400-\u052F]/;
+
+/**
+ * Check whether a host is a domain or one of its subdomains
+ * @param host - Host to check
+ * @param domains - Domains to match
+ * @returns true if the host belongs to one of the domains
+ */
+const matchesDomain = (host: string, domains: string[]) =>
+  domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+
+/**
+ * Check whether a domain label imitates Latin letters with other alphabets
+ * @description Flags labels mixing Latin with Cyrillic or Greek letters, and labels written only
+ * with Cyrillic or Greek letters that look like Latin ones
+ * @param label - Domain label as typed
+ * @returns true if the label looks like a homoglyph attack
+ */
+const isHomoglyphLabel = (label: string) => {
+  if (!NON_LATIN_LETTER_REGEX.test(label)) return false;
+  if (LATIN_LETTER_REGEX.test(label)) return true;
+
+  return [...label.replace(/[\d-]/g, "")].every((char) =>
+    HOMOGLYPH_CHARACTERS.includes(char)
+  );
+};
+
+/**
+ * Create a finding with the severity of its check
+ * @param check - Check that found the problem
+ * @param message - Explanation of the problem
+ * @returns Finding
+ */
+const createFinding = (
+  check: UrlSafetyCheck,
+  message: string
+): UrlSafetyFinding => ({
+  check,
+  severity: URL_SAFETY_SEVERITIES[check],
+  message,
+});
+
+/**
+ * Analyze the destination of a link
+ * @description Runs in the browser on bundled lists, so it only looks at the URL itself and
+ * never visits it
+ * @param url - Destination URL as typed
+ * @returns Report with the problems found, or null if the URL is not a valid http(s) URL
+ */
+export function analyzeUrlSafety(url: string): UrlSafetyReport | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+
+  // The URL parser converts internationalized hosts to punycode, so homoglyphs are checked on
+  // the host as typed
+  const rawHost = (RAW_HOST_REGEX.exec(url.trim())?.[1] ?? "").toLowerCase();
+  const host = parsed.hostname.toLowerCase().replace(/\.$/, "");
+  const tld = host.split(".").pop() ?? "";
+  const findings: UrlSafetyFinding[] = [];
+
+  if (matchesDomain(host, URL_SAFETY_BLOCKLIST)) {
+    findings.push(
+      createFinding(
+        "blocklisted",
+        `${host} is on the CyLink blocklist of dangerous sites`
+      )
+    );
+  }
+
+  if (parsed.username || parsed.password) {
+    findings.push(
+      createFinding(
+        "embedded_credentials",
+        "The URL contains a username or password, a trick used to hide the real site"
+      )
+    );
+  }
+
+  if (rawHost.split(".").some(isHomoglyphLabel)) {
+    findings.push(
+      createFinding(
+        "homoglyph",
+        `${rawHost} uses letters from other alphabets that look like Latin ones, a common way to imitate well-known sites`
+      )
+    );
+  } else if (host.split(".").some((label) => label.startsWith("xn--"))) {
+    findings.push(
+      createFinding(
+        "punycode",
+        `${rawHost || host} is an internationalized domain, check that it is the site you expect`
+      )
+    );
+  }
+
+  if (IPV4_HOST_REGEX.test(host) || host.startsWith("[")) {
+    findings.push(
+      createFinding(
+        "ip_host",
+        `The URL points to the IP address ${host} instead of a domain name`
+      )
+    );
+  }
+
+  if (
+    matchesDomain(host, [
+      ...KNOWN_URL_SHORTENERS,
+      URL_DISPLAY_CONFIG.SHORT_URL_DOMAIN,
+    ])
+  ) {
+    findings.push(
+      createFinding(
+        "url_shortener",
+        `${host} is a URL shortener, the real destination is hidden behind another redirect`
+      )
+    );
+  }
+
+  if (SUSPICIOUS_TLDS.includes(tld)) {
+    findings.push(
+      createFinding(
+        "suspicious_tld",
+        `.${tld} domains are often used by phishing and malware sites`
+      )
+    );
+  }
+
+  if (parsed.protocol === "http:") {
+    findings.push(
+      createFinding(
+        "insecure_protocol",
+        "The destination does not use HTTPS, so the connection is not encrypted"
+      )
+    );
+  }
+
+  findings.sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  );
+
+  return {
+    level: findings[0]?.severity ?? "safe",
+    findings,
+    checked_at: new Date().toISOString(),
+  };
+}
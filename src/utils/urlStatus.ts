@@ -0,0 +1,41 @@
+import type { Url, UrlStatus } from "@/interfaces/url";
+
+/**
+ * Check whether a URL is waiting for its activation time
+ * @param url - URL to check
+ * @param now - Current timestamp
+ * @returns true if the URL has an activation time in the future
+ */
+export function isUrlScheduled(url: Url, now: number = Date.now()): boolean {
+  return !!url.activates_at && new Date(url.activates_at).getTime() > now;
+}
+
+/**
+ * Get the number of clicks a capped URL has left
+ * @param url - URL to check
+ * @returns Clicks left, or null if the URL has no click limit
+ */
+export function getRemainingClicks(url: Url): number | null {
+  if (!url.max_clicks) return null;
+
+  return Math.max(0, url.max_clicks - url.clicks);
+}
+
+/**
+ * Get the status of a URL as shown to its owner
+ * @description A URL switched off is inactive whatever its dates or clicks, otherwise the
+ * activation time comes before the expiry date and the click limit
+ * @param url - URL to check
+ * @param now - Current timestamp
+ * @returns Status of the URL
+ */
+export function getUrlStatus(url: Url, now: number = Date.now()): UrlStatus {
+  if (!url.is_active) return "inactive";
+  if (isUrlScheduled(url, now)) return "scheduled";
+  if (url.expiry_date && new Date(url.expiry_date).getTime() < now) {
+    return "expired";
+  }
+  if (getRemainingClicks(url) === 0) return "exhausted";
+
+  return "active";
+}
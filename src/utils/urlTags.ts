@@ -0,0 +1,66 @@
+import type { Url, UrlTagSummary } from "@/interfaces/url";
+import { URL_TAG_COLORS } from "@/config/url";
+
+/**
+ * Clean up a tag typed by the user
+ * @param tag - Raw tag
+ * @returns Tag without surrounding spaces and with inner spaces collapsed
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Get the badge color classes of a tag
+ * @param tag - Tag name
+ * @returns Tailwind background and text classes, the same for every use of the tag
+ */
+export function getTagColorClass(tag: string): string {
+  let hash = 0;
+  for (let i = 0; i < tag.length; i++) {
+    hash = (hash * 31 + tag.charCodeAt(i)) | 0;
+  }
+
+  return URL_TAG_COLORS[Math.abs(hash) % URL_TAG_COLORS.length];
+}
+
+/**
+ * Count the URLs carrying each tag
+ * @param urls - URLs to summarize
+ * @returns Tags sorted by name
+ */
+export function summarizeUrlTags(urls: Url[]): UrlTagSummary[] {
+  const counts = new Map<string, number>();
+
+  urls.forEach((url) => {
+    new Set(url.tags ?? []).forEach((tag) => {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    });
+  });
+
+  return Array.from(counts, ([name, count]) => ({ name, count })).sort(
+    (a, b) => a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Replace some tags of a URL with another one
+ * @description Renaming, merging and deleting tags are all a replacement: merging replaces
+ * several tags with one and deleting replaces a tag with nothing
+ * @param tags - Current tags of the URL
+ * @param sources - Tags to replace
+ * @param target - Replacing tag, or null to remove the source tags
+ * @returns New tags without duplicates, keeping the order of the current tags
+ */
+export function replaceTags(
+  tags: string[],
+  sources: string[],
+  target: string | null
+): string[] {
+  const nextTags = tags.flatMap((tag) => {
+    if (!sources.includes(tag)) return [tag];
+    return target === null ? [] : [target];
+  });
+
+  return Array.from(new Set(nextTags));
+}
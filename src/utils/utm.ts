@@ -0,0 +1,68 @@
+import type { UtmParams } from "@/interfaces/utm";
+import { UTM_FIELDS } from "@/config/utm";
+
+/**
+ * Parse an http(s) URL
+ * @param url - URL to parse
+ * @returns Parsed URL, or null if it is not a valid http(s) URL
+ */
+const parseHttpUrl = (url: string): URL | null => {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === "http:" || parsed.protocol === "https:"
+      ? parsed
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read the UTM parameters of a URL
+ * @param url - Destination URL
+ * @returns UTM parameters, empty if the URL is invalid or has none
+ */
+export function getUtmParams(url: string): UtmParams {
+  const parsed = parseHttpUrl(url);
+  const params: UtmParams = {};
+  if (!parsed) return params;
+
+  UTM_FIELDS.forEach(({ key, param }) => {
+    const value = parsed.searchParams.get(param);
+    if (value) params[key] = value;
+  });
+
+  return params;
+}
+
+/**
+ * Replace the UTM parameters of a URL
+ * @description Other query parameters and the fragment are kept, empty UTM parameters are removed
+ * @param url - Destination URL
+ * @param params - New UTM parameters
+ * @returns URL with the new parameters, or null if the URL is invalid
+ */
+export function setUtmParams(url: string, params: UtmParams): string | null {
+  const parsed = parseHttpUrl(url);
+  if (!parsed) return null;
+
+  UTM_FIELDS.forEach(({ key, param }) => {
+    const value = params[key];
+    if (value) {
+      parsed.searchParams.set(param, value);
+    } else {
+      parsed.searchParams.delete(param);
+    }
+  });
+
+  return parsed.toString();
+}
+
+/**
+ * Check whether a URL can carry UTM parameters
+ * @param url - Destination URL
+ * @returns true if the URL is a valid http(s) URL
+ */
+export function canHaveUtmParams(url: string): boolean {
+  return parseHttpUrl(url) !== null;
+}